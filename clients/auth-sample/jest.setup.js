@@ -43,11 +43,48 @@ jest.mock('@/lib/services/grpc-clients', () => {
     resendVerificationCodeAsync: jest.fn(() => Promise.resolve({})),
   })
 
+  const createSignInServiceClient = () => ({
+    signInWithPasswordAsync: jest.fn(() => Promise.resolve({})),
+    beginEmailOtpSignInAsync: jest.fn(() => Promise.resolve({
+      getSession: () => 'test-otp-session',
+    })),
+    completeEmailOtpSignInAsync: jest.fn(() => Promise.resolve({})),
+    signOutAsync: jest.fn(() => Promise.resolve({})),
+  })
+
+  const createPasskeyServiceClient = () => ({
+    beginPasskeySignInAsync: jest.fn(() => Promise.resolve({
+      getSession: () => 'test-session',
+      getCredentialRequestOptions: () => JSON.stringify({ challenge: 'Y2hhbGxlbmdl' }),
+    })),
+    completePasskeySignInAsync: jest.fn(() => Promise.resolve({})),
+    beginPasskeyRegistrationAsync: jest.fn(),
+    completePasskeyRegistrationAsync: jest.fn(),
+    listPasskeysAsync: jest.fn(() => Promise.resolve({ getPasskeysList: () => [] })),
+    renamePasskeyAsync: jest.fn(),
+    deletePasskeyAsync: jest.fn(() => Promise.resolve({})),
+  })
+
+  const createFederationServiceClient = () => ({
+    beginFederatedSignInAsync: jest.fn(() => Promise.resolve({
+      getAuthorizationUrl: () => 'https://auth.example.com/oauth2/authorize',
+      getState: () => 'test-state',
+    })),
+    completeFederatedSignInAsync: jest.fn(() => Promise.resolve({
+      getIsNewUser: () => true,
+    })),
+  })
+
+  const createPasswordResetServiceClient = () => ({
+    beginPasswordResetAsync: jest.fn(() => Promise.resolve({})),
+    completePasswordResetAsync: jest.fn(() => Promise.resolve({})),
+  })
+
   const createGreeterServiceClient = () => ({
     sayHelloAsync: jest.fn(),
   })
 
-  return { createSignUpServiceClient, createGreeterServiceClient }
+  return { createSignUpServiceClient, createSignInServiceClient, createPasskeyServiceClient, createFederationServiceClient, createPasswordResetServiceClient, createGreeterServiceClient }
 })
 
 // Mock workflows
@@ -67,6 +67,7 @@ function AuthFlowTestComponent({ initialFlow = 'main' }: { initialFlow?: string
             onPasswordChange={auth.setPassword}
             onPasswordSignIn={auth.handlePasswordSignIn}
             onPasskeyFlow={auth.handlePasskeySignIn}
+            onForgotPassword={auth.handleForgotPassword}
             onBack={() => auth.setCurrentFlow('email-options')}
             isLoading={auth.isLoading}
           />
@@ -106,12 +107,12 @@ describe('Authentication Flow Integration Tests', () => {
       expect(screen.getByTestId('current-flow')).toHaveTextContent('main')
       expect(screen.getByText('Welcome')).toBeInTheDocument()
 
-      // Click on email sign-in (this triggers OIDC redirect)
+      // Click on email sign-in (stays in-app)
       const emailButton = screen.getByText('Sign in with email')
       await user.click(emailButton)
 
-      // Should remain on main flow (OIDC redirect doesn't change flow state in tests)
-      expect(screen.getByTestId('current-flow')).toHaveTextContent('main')
+      // Should move on to the email options step
+      expect(screen.getByTestId('current-flow')).toHaveTextContent('email-options')
     })
 
     it('should handle Google sign-in from main page', async () => {
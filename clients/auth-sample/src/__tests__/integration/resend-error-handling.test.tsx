@@ -3,13 +3,18 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { useAuth } from '@/hooks/useAuth'
 import { SignUpVerification } from '@/components/auth/signup-verification'
 import { ErrorCodes } from '@/lib/services/error-codes'
+import { RATE_LIMITED_METHODS, rateLimits } from '@/lib/rate-limits'
 
 // Mock the gRPC client
 const mockResendVerificationCodeAsync = jest.fn()
 jest.mock('@/lib/services/grpc-clients', () => ({
   createSignUpServiceClient: () => ({
     resendVerificationCodeAsync: mockResendVerificationCodeAsync
-  })
+  }),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
 }))
 
 // Mock the workflow system
@@ -54,8 +59,6 @@ function TestResendErrorHandling() {
       isLoading={auth.isLoading}
       isResendLoading={auth.isResendLoading}
       serverError={auth.errorMessage}
-      isRateLimited={auth.isRateLimited}
-      rateLimitRetryAfter={auth.rateLimitRetryAfter}
     />
   )
 }
@@ -65,6 +68,7 @@ describe('Resend Error Handling Integration', () => {
     jest.clearAllMocks()
     mockConsoleError.mockClear()
     mockResendVerificationCodeAsync.mockClear()
+    window.localStorage.clear()
   })
 
   afterAll(() => {
@@ -94,10 +98,14 @@ describe('Resend Error Handling Integration', () => {
     const rateLimitError = {
       code: ErrorCodes.ResourceExhausted,
       message: 'Rate limit exceeded. Try again in 30 minutes.',
-      metadata: { 'error-code': ErrorCodes.ResourceExhausted }
+      metadata: { 'error-code': ErrorCodes.ResourceExhausted, 'retry-after-seconds': '1800' }
     }
     
-    mockResendVerificationCodeAsync.mockRejectedValue(rateLimitError)
+    // The client is mocked, so record the window the rate-limit interceptor would have
+    mockResendVerificationCodeAsync.mockImplementation(() => {
+      rateLimits.record({ method: RATE_LIMITED_METHODS.resendVerificationCode, email: 'test@example.com' }, 1800)
+      return Promise.reject(rateLimitError)
+    })
 
     render(<TestResendErrorHandling />)
 
@@ -106,7 +114,7 @@ describe('Resend Error Handling Integration', () => {
 
     // Should show rate limit message
     await waitFor(() => {
-      expect(screen.getByText('Rate limit exceeded. Try again in 30 minutes.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 30:00.')).toBeInTheDocument()
     })
 
     // Should show error message
@@ -182,7 +190,7 @@ describe('Resend Error Handling Integration', () => {
     fireEvent.click(screen.getByText('Resend code'))
 
     await waitFor(() => {
-      expect(screen.getByText('Rate limit exceeded. Please wait before trying again.')).toBeInTheDocument()
+      expect(screen.getByText("You've reached the maximum number of resend attempts (5 per hour). Please wait before trying again.")).toBeInTheDocument()
     })
 
     // Simulate some time passing and rate limit being cleared
@@ -0,0 +1,21 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import SignInPage from '@/app/sign-in/page'
+
+describe('Sign-in page', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/sign-in')
+  })
+
+  it('should open the email options step from "Sign in with email"', async () => {
+    const user = userEvent.setup()
+    render(<SignInPage />)
+
+    await user.click(screen.getByRole('button', { name: /sign in with email/i }))
+
+    expect(await screen.findByLabelText('Email address')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /continue with password/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /send verification code/i })).toBeInTheDocument()
+    expect(window.location.search).toBe('?step=email-options')
+  })
+})
@@ -0,0 +1,47 @@
+"use client"
+
+import { useEffect } from "react"
+import Link from "next/link"
+import { AuthCard, AuthDivider, PasskeyEnrollment, PasskeyList } from "@/components/auth"
+import { usePasskeys } from "@/hooks/usePasskeys"
+
+export default function PasskeysPage() {
+  const passkeys = usePasskeys()
+  const { loadPasskeys } = passkeys
+
+  useEffect(() => {
+    loadPasskeys()
+  }, [loadPasskeys])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-black via-stone-900 to-black">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-amber-50">Passkeys</h1>
+          <Link href="/" className="text-stone-400/80 hover:text-stone-300 underline text-sm">
+            Back to app
+          </Link>
+        </div>
+
+        <AuthCard>
+          <PasskeyList
+            passkeys={passkeys.passkeys}
+            isLoading={passkeys.isLoading}
+            onRename={passkeys.renamePasskey}
+            onDelete={passkeys.deletePasskey}
+          />
+
+          <AuthDivider text="add another" />
+
+          <PasskeyEnrollment
+            isSupported={passkeys.isSupported}
+            isRegistering={passkeys.isRegistering}
+            onRegister={passkeys.registerPasskey}
+            serverError={passkeys.errorMessage}
+            allowNaming
+          />
+        </AuthCard>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { type NextRequest } from "next/server"
+import { APPLE_MESSAGE_TYPE, type AppleCallbackMessage } from "@/lib/apple"
+
+const field = (form: FormData, name: string): string | undefined => {
+  const value = form.get(name)
+  return typeof value === "string" && value ? value : undefined
+}
+
+/**
+ * Apple form_posts the authorization (and, the first time, the user's name) here
+ * from inside the popup; relay it to the opener and close the popup.
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData()
+
+  const message: AppleCallbackMessage = {
+    type: APPLE_MESSAGE_TYPE,
+    code: field(form, "code"),
+    state: field(form, "state"),
+    user: field(form, "user"),
+    error: field(form, "error"),
+  }
+
+  // Keep the payload from closing the script element early
+  const payload = JSON.stringify(message).replace(/</g, "\\u003c")
+  const targetOrigin = JSON.stringify(request.nextUrl.origin)
+
+  const html = `<!doctype html>
+<html>
+  <body>
+    <script>
+      if (window.opener) {
+        window.opener.postMessage(${payload}, ${targetOrigin});
+      }
+      window.close();
+    </script>
+  </body>
+</html>`
+
+  return new Response(html, {
+    headers: {
+      "content-type": "text/html; charset=utf-8",
+      "cache-control": "no-store",
+    },
+  })
+}
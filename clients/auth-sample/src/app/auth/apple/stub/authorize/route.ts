@@ -0,0 +1,76 @@
+import { type NextRequest } from "next/server"
+import { encodeStubCode, STUB_CODE_LIFETIME_MS } from "../stub-code"
+
+const FIRST_AUTHORIZATION_COOKIE = "apple_stub_authorized"
+const STUB_EMAIL = "jane.appleseed@privaterelay.appleid.com"
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+/**
+ * Local stand-in for https://appleid.apple.com/auth/authorize so the popup flow
+ * can be exercised without an Apple developer account. Like Apple, it only
+ * includes the user's name on the first authorization (tracked with a cookie);
+ * pass `?error=user_cancelled_authorize` to simulate the user backing out.
+ *
+ * The code carries what the stub token endpoint needs to mint the ID token, so
+ * neither route keeps any state.
+ */
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const params = request.nextUrl.searchParams
+  const redirectUri = params.get("redirect_uri")
+  const state = params.get("state") ?? ""
+
+  // Only ever post back to this app
+  if (!redirectUri || new URL(redirectUri, request.nextUrl.origin).origin !== request.nextUrl.origin) {
+    return new Response("invalid_request", { status: 400 })
+  }
+
+  const fields: Record<string, string> = { state }
+  const error = params.get("error")
+  const isFirstAuthorization = !request.cookies.has(FIRST_AUTHORIZATION_COOKIE)
+
+  if (error) {
+    fields.error = error
+  } else {
+    fields.code = encodeStubCode({
+      clientId: params.get("client_id") ?? "",
+      redirectUri,
+      nonce: params.get("nonce") ?? undefined,
+      email: STUB_EMAIL,
+      expiresAt: Date.now() + STUB_CODE_LIFETIME_MS,
+    })
+
+    if (isFirstAuthorization) {
+      fields.user = JSON.stringify({
+        name: { firstName: "Jane", lastName: "Appleseed" },
+        email: STUB_EMAIL,
+      })
+    }
+  }
+
+  const inputs = Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}" />`)
+    .join("\n      ")
+
+  const html = `<!doctype html>
+<html>
+  <body onload="document.forms[0].submit()">
+    <form method="post" action="${escapeHtml(redirectUri)}">
+      ${inputs}
+    </form>
+  </body>
+</html>`
+
+  const response = new Response(html, {
+    headers: { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" },
+  })
+  if (!error && isFirstAuthorization) {
+    response.headers.append("set-cookie", `${FIRST_AUTHORIZATION_COOKIE}=1; Path=/auth/apple; SameSite=Lax`)
+  }
+  return response
+}
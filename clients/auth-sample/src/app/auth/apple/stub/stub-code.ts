@@ -0,0 +1,26 @@
+/** What the stub authorize endpoint packs into its authorization codes. */
+export type StubCode = {
+  clientId: string
+  redirectUri: string
+  nonce?: string
+  email: string
+  expiresAt: number
+}
+
+// Apple's codes are valid for five minutes
+export const STUB_CODE_LIFETIME_MS = 5 * 60 * 1000
+
+const CODE_PREFIX = "stub."
+
+export function encodeStubCode(code: StubCode): string {
+  return CODE_PREFIX + Buffer.from(JSON.stringify(code)).toString("base64url")
+}
+
+export function decodeStubCode(value: string): StubCode | undefined {
+  if (!value.startsWith(CODE_PREFIX)) return undefined
+  try {
+    return JSON.parse(Buffer.from(value.slice(CODE_PREFIX.length), "base64url").toString()) as StubCode
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,55 @@
+import { type NextRequest } from "next/server"
+import { decodeStubCode } from "../stub-code"
+
+const base64Url = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url")
+
+const invalidGrant = () =>
+  Response.json({ error: "invalid_grant" }, { status: 400, headers: { "cache-control": "no-store" } })
+
+/**
+ * Local stand-in for https://appleid.apple.com/auth/token, called by the Auth
+ * service to exchange codes from the stub authorize endpoint. The client secret
+ * is not checked, and the unsigned ID token carries the nonce the popup was
+ * started with, like Apple's.
+ */
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const form = await request.formData()
+  const code = decodeStubCode(String(form.get("code") ?? ""))
+  const clientId = String(form.get("client_id") ?? "")
+
+  if (
+    form.get("grant_type") !== "authorization_code" ||
+    !code ||
+    code.expiresAt < Date.now() ||
+    code.clientId !== clientId ||
+    code.redirectUri !== form.get("redirect_uri")
+  ) {
+    return invalidGrant()
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const idToken = [
+    base64Url({ alg: "none", typ: "JWT" }),
+    base64Url({
+      iss: "https://appleid.apple.com",
+      aud: clientId,
+      sub: "stub-apple-user",
+      email: code.email,
+      email_verified: true,
+      is_private_email: true,
+      nonce: code.nonce,
+      iat: now,
+      exp: now + 600,
+    }),
+    "",
+  ].join(".")
+
+  return Response.json(
+    { access_token: `stub-access-${crypto.randomUUID()}`, token_type: "Bearer", expires_in: 3600, id_token: idToken },
+    { headers: { "cache-control": "no-store" } }
+  )
+}
@@ -1,15 +1,44 @@
 "use client"
 
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
+import Link from "next/link"
 import { useAuth } from "react-oidc-context"
+import { useFederatedCallback } from "@/hooks/useFederatedCallback"
+import { isFederatedCallback } from "@/lib/federation"
+import { publishAuthEvent } from "@/lib/auth-events"
+import { takeCallbackUrl, withCallbackUrl } from "@/lib/callback-url"
 
-export default function OidcCallbackPage() {
+function FederatedCallback({ search }: { search: string }) {
+  const { status, intent, errorMessage } = useFederatedCallback(search)
+
+  if (status === "failed") {
+    return (
+      <div className="p-6 space-y-2" role="alert">
+        <p>{errorMessage}</p>
+        <p>
+          {intent === "signin"
+            ? <Link className="underline" href={withCallbackUrl("/sign-in")}>Back to sign in</Link>
+            : <Link className="underline" href={withCallbackUrl("/sign-up")}>Back to sign up</Link>}
+        </p>
+      </div>
+    )
+  }
+
+  return <div className="p-6">Finishing sign-in...</div>
+}
+
+function OidcCallback() {
   const auth = useAuth()
 
+  // react-oidc-context processes the callback itself because redirect_uri points at this route;
+  // once it has, tell other tabs and return the user to the page the sign-in state carried
+  const carriedCallbackUrl = (auth.user?.state as { callbackUrl?: unknown } | undefined)?.callbackUrl
   useEffect(() => {
-    // react-oidc-context will handle processing the callback automatically
-    // when this page mounts due to redirect_uri matching this route
-  }, [])
+    if (auth.isAuthenticated) {
+      publishAuthEvent("signed-in")
+      window.location.replace(takeCallbackUrl(carriedCallbackUrl))
+    }
+  }, [auth.isAuthenticated, carriedCallbackUrl])
 
   if (auth.isLoading) {
     return <div className="p-6">Loading...</div>
@@ -19,15 +48,27 @@ export default function OidcCallbackPage() {
     return <div className="p-6">Encountering error... {auth.error.message}</div>
   }
 
-  // After successful sign-in, navigate the user to home
   if (auth.isAuthenticated) {
-    if (typeof window !== 'undefined') {
-      window.location.replace("/")
-    }
     return null
   }
 
   return <div className="p-6">Processing sign-in...</div>
 }
 
+export default function OidcCallbackPage() {
+  // The query string is only known in the browser
+  const [search, setSearch] = useState<string>()
+
+  useEffect(() => {
+    setSearch(window.location.search)
+  }, [])
+
+  if (search === undefined) {
+    return <div className="p-6">Processing sign-in...</div>
+  }
 
+  // Round trips started through the Auth service are completed by it, not by the OIDC client
+  return isFederatedCallback(search)
+    ? <FederatedCallback search={search} />
+    : <OidcCallback />
+}
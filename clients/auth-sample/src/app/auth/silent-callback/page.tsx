@@ -0,0 +1,22 @@
+"use client"
+
+import { useEffect } from "react"
+import { UserManager } from "oidc-client-ts"
+import { config } from "@/lib/config"
+
+/**
+ * Target of silent renewal: the hidden iframe lands here and only hands the response
+ * back to the UserManager in the parent window. The OIDC provider stays off this route.
+ */
+export default function SilentCallbackPage() {
+  useEffect(() => {
+    const { authority, clientId, redirectUri } = config
+    if (!authority || !clientId || !redirectUri) return
+
+    new UserManager({ authority, client_id: clientId, redirect_uri: redirectUri })
+      .signinSilentCallback()
+      .catch((err) => console.error("Silent renewal callback failed", err))
+  }, [])
+
+  return null
+}
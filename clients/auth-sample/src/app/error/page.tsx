@@ -1,24 +1,52 @@
 "use client"
 
-import { useEffect, Suspense } from "react"
+import { Suspense } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import ThemeInitializer from "@/components/theme/theme-initializer"
+import { HOME_PATH, SIGN_IN_PATH } from "@/lib/route-policy"
+import { CALLBACK_URL_PARAM, DEFAULT_CALLBACK_URL, sanitizeCallbackUrl } from "@/lib/callback-url"
+import {
+  ERROR_DETAILS,
+  ERROR_FROM_PARAM,
+  ERROR_ID_PARAM,
+  ERROR_TRACE_PARAM,
+  parseErrorId,
+  parseTraceId,
+  type ErrorId,
+  type RecoveryAction,
+} from "@/lib/error-ids"
 
-function ErrorContent() {
-  const router = useRouter()
-  const searchParams = useSearchParams()
-  
-  const message = searchParams.get("message") || "Something went wrong"
-  const from = searchParams.get("from") || "/"
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  retry: "Try Again",
+  "sign-in": "Sign In Again",
+  home: "Go to Home Page",
+}
 
-  useEffect(() => {
-    // Auto-redirect to sign-in after 5 seconds
-    const timer = setTimeout(() => {
-      router.push("/sign-in")
-    }, 5000)
+type ErrorCardProps = {
+  errorId: ErrorId
+  from?: string | null
+  traceId?: string
+}
 
-    return () => clearTimeout(timer)
-  }, [router])
+function ErrorCard({ errorId, from, traceId }: ErrorCardProps) {
+  const router = useRouter()
+  const details = ERROR_DETAILS[errorId]
+
+  const recover = (action: RecoveryAction) => {
+    // `from` arrives in the URL, so it gets the same checks as a callbackUrl
+    const destination = sanitizeCallbackUrl(from, window.location.origin) ?? DEFAULT_CALLBACK_URL
+    switch (action) {
+      case "retry":
+        router.push(destination)
+        break
+      case "sign-in":
+        router.push(`${SIGN_IN_PATH}?${new URLSearchParams({ [CALLBACK_URL_PARAM]: destination })}`)
+        break
+      case "home":
+        router.push(HOME_PATH)
+        break
+    }
+  }
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-background">
@@ -41,82 +69,49 @@ function ErrorContent() {
           </div>
         </div>
         <h1 className="text-xl font-semibold text-foreground mb-2">
-          Something went wrong
+          {details.title}
         </h1>
         <p className="text-muted-foreground mb-6">
-          We encountered an unexpected error. This could be due to a temporary service issue.
+          {details.description}
         </p>
         <div className="space-y-3">
-          <button
-            onClick={() => router.push(from)}
-            className="w-full bg-secondary text-secondary-foreground py-2 px-4 rounded-md hover:bg-secondary/80 transition-colors"
-          >
-            Try Again
-          </button>
+          {details.actions.map((action, index) => (
+            <button
+              key={action}
+              onClick={() => recover(action)}
+              className={
+                index === 0
+                  ? "w-full bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90 transition-colors"
+                  : "w-full bg-secondary text-secondary-foreground py-2 px-4 rounded-md hover:bg-secondary/80 transition-colors"
+              }
+            >
+              {ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+        <div className="mt-6 text-xs text-muted-foreground space-y-1">
+          <p>Error: <code>{errorId}</code></p>
+          {traceId && (
+            <p>
+              If you contact support, quote this reference:{" "}
+              <code className="select-all break-all text-foreground">{traceId}</code>
+            </p>
+          )}
         </div>
-        {process.env.NODE_ENV === "development" && (
-          <details className="mt-4 text-left">
-            <summary className="cursor-pointer text-sm text-muted-foreground hover:text-foreground">
-              Error Details (Development)
-            </summary>
-            <pre className="mt-2 text-xs text-destructive bg-destructive/10 p-2 rounded overflow-auto">
-              {message}
-            </pre>
-          </details>
-        )}
       </div>
     </div>
   )
 }
 
-function ErrorFallback() {
-  const router = useRouter()
-
-  useEffect(() => {
-    // Auto-redirect to sign-in after 5 seconds
-    const timer = setTimeout(() => {
-      router.push("/sign-in")
-    }, 5000)
-
-    return () => clearTimeout(timer)
-  }, [router])
+function ErrorContent() {
+  const searchParams = useSearchParams()
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-background">
-      <div className="max-w-md w-full bg-card shadow-lg rounded-lg p-6 text-center border">
-        <div className="mb-4">
-          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-destructive/10">
-            <svg
-              className="h-6 w-6 text-destructive"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L4.268 19.5c-.77.833.192 2.5 1.732 2.5z"
-              />
-            </svg>
-          </div>
-        </div>
-        <h1 className="text-xl font-semibold text-foreground mb-2">
-          Something went wrong
-        </h1>
-        <p className="text-muted-foreground mb-6">
-          We encountered an unexpected error. This could be due to a temporary service issue.
-        </p>
-        <div className="space-y-3">
-          <button
-            onClick={() => router.push("/")}
-            className="w-full bg-secondary text-secondary-foreground py-2 px-4 rounded-md hover:bg-secondary/80 transition-colors"
-          >
-            Try Again
-          </button>
-        </div>
-      </div>
-    </div>
+    <ErrorCard
+      errorId={parseErrorId(searchParams.get(ERROR_ID_PARAM))}
+      from={searchParams.get(ERROR_FROM_PARAM)}
+      traceId={parseTraceId(searchParams.get(ERROR_TRACE_PARAM))}
+    />
   )
 }
 
@@ -124,7 +119,7 @@ export default function ErrorPage() {
   return (
     <>
       <ThemeInitializer />
-      <Suspense fallback={<ErrorFallback />}>
+      <Suspense fallback={<ErrorCard errorId="unexpected" />}>
         <ErrorContent />
       </Suspense>
     </>
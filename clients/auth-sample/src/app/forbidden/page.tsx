@@ -0,0 +1,18 @@
+import Link from "next/link"
+import { getCurrentUser } from "@/lib/server/current-user"
+
+export default async function ForbiddenPage() {
+  const user = await getCurrentUser()
+
+  return (
+    <div className="p-6">
+      <h1 className="text-xl font-semibold mb-2">You don&apos;t have access to this page.</h1>
+      {user && (
+        <p className="mb-2 text-muted-foreground">
+          Signed in as {user.email ?? user.subject}. Ask an administrator if you need access.
+        </p>
+      )}
+      <p>Return to the <Link className="underline" href="/">home page</Link>.</p>
+    </div>
+  )
+}
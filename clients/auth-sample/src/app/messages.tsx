@@ -8,7 +8,7 @@ import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
 import { createGreeterClient } from "@/lib/services/grpc-clients";
 import { HelloRequest } from "@/lib/services/auth/greet/greet_pb";
-import { ThemeToggle } from "@/components/theme/theme-toggle"
+import { useUnmountSignal } from "@/hooks/useUnmountSignal";
 
 interface Message {
   id: string
@@ -24,7 +24,7 @@ export default function Component() {
   const [error, setError] = useState('');
   const timersRef = useRef<Map<string, NodeJS.Timeout>>(new Map())
 
-  const client = createGreeterClient();
+  const client = createGreeterClient({ signal: useUnmountSignal() });
 
   const removeMessage = (messageId: string) => {
     // Clear timer for this message
@@ -103,11 +103,10 @@ export default function Component() {
   }, [])
 
   return (
-    <div className="w-full max-w-md mx-auto p-6 space-y-6 min-h-screen">
+    <div className="w-full max-w-md mx-auto p-6 space-y-6">
       <Card className="p-6 border-border bg-card">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-2xl font-bold text-card-foreground">Greeter Example</h2>
-          <ThemeToggle />
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -1,7 +1,16 @@
-'use client';
-
+import { AppShell } from '@/components/shell/app-shell';
+import { getCurrentUser } from '@/lib/server/current-user';
 import Messages from './messages';
 
-export default function Home() {
-    return <Messages/>;
+export default async function Home() {
+    const currentUser = await getCurrentUser();
+    const user = currentUser
+        ? { displayName: currentUser.email ?? currentUser.subject, email: currentUser.email }
+        : undefined;
+
+    return (
+        <AppShell user={user}>
+            <Messages/>
+        </AppShell>
+    );
 }
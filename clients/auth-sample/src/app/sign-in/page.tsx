@@ -8,11 +8,14 @@ import {
   PasswordSignIn,
   PasswordlessSignIn,
   PasskeySignIn,
+  PasswordResetRequest,
+  PasswordResetVerification,
+  PasswordResetNewPassword,
   AuthFlowTransition
 } from "@/components/auth"
 
 export default function SignInPage() {
-  const auth = useAuth()
+  const auth = useAuth("main", { syncWithUrl: true })
 
   // Background carousel state
   const backgroundImages = [
@@ -41,20 +44,13 @@ export default function SignInPage() {
     return () => clearInterval(interval)
   }, [backgroundImages.length])
 
-  // Helper to determine transition direction based on flow navigation
-  const getFlowDirection = (): "forward" | "backward" => {
-    // For now, we'll handle back navigation in the individual components
-    // This could be enhanced with a flow history state if needed
-    return "forward"
-  }
-
   const renderCurrentFlow = () => {
     switch (auth.currentFlow) {
       case "main":
         return (
           <AuthFlowTransition
             flowKey="main"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <MainSignIn
@@ -62,6 +58,7 @@ export default function SignInPage() {
               onAppleSignIn={auth.handleAppleSignIn}
               onEmailSignIn={auth.handleEmailSignIn}
               isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
             />
           </AuthFlowTransition>
         )
@@ -69,16 +66,17 @@ export default function SignInPage() {
         return (
           <AuthFlowTransition
             flowKey="email-options"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <EmailOptions
               email={auth.email}
               onEmailChange={auth.setEmail}
               onPasswordFlow={() => auth.setCurrentFlow("password")}
-              onPasswordlessFlow={() => auth.setCurrentFlow("passwordless")}
-              onBack={() => auth.setCurrentFlow("main")}
+              onPasswordlessFlow={auth.handlePasswordlessSignIn}
+              onBack={auth.goBack}
               isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
             />
           </AuthFlowTransition>
         )
@@ -86,7 +84,7 @@ export default function SignInPage() {
         return (
           <AuthFlowTransition
             flowKey="password"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <PasswordSignIn
@@ -95,8 +93,10 @@ export default function SignInPage() {
               onPasswordChange={auth.setPassword}
               onPasswordSignIn={auth.handlePasswordSignIn}
               onPasskeyFlow={() => auth.setCurrentFlow("passkey")}
-              onBack={() => auth.setCurrentFlow("email-options")}
+              onForgotPassword={auth.handleForgotPassword}
+              onBack={auth.goBack}
               isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
             />
           </AuthFlowTransition>
         )
@@ -104,17 +104,19 @@ export default function SignInPage() {
         return (
           <AuthFlowTransition
             flowKey="passwordless"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <PasswordlessSignIn
               email={auth.email}
               otpCode={auth.otpCode}
               onOtpChange={auth.setOtpCode}
-              onResendEmail={auth.handlePasswordlessSignIn}
+              onResendEmail={auth.handleResendSignInCode}
               onVerifyOtp={auth.handleOtpVerification}
-              onBack={() => auth.setCurrentFlow("email-options")}
+              onBack={auth.goBack}
               isLoading={auth.isLoading}
+              isResendLoading={auth.isResendLoading}
+              serverError={auth.errorMessage}
             />
           </AuthFlowTransition>
         )
@@ -122,15 +124,73 @@ export default function SignInPage() {
         return (
           <AuthFlowTransition
             flowKey="passkey"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <PasskeySignIn
               email={auth.email}
               onPasskeySignIn={auth.handlePasskeySignIn}
               onPasswordFlow={() => auth.setCurrentFlow("password")}
-              onBack={() => auth.setCurrentFlow("password")}
+              onBack={auth.goBack}
+              isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
+            />
+          </AuthFlowTransition>
+        )
+      case "reset-request":
+        return (
+          <AuthFlowTransition
+            flowKey="reset-request"
+            direction={auth.flowDirection}
+            isLoading={auth.isLoading}
+          >
+            <PasswordResetRequest
+              email={auth.email}
+              onEmailChange={auth.setEmail}
+              onSendResetCode={auth.handlePasswordResetRequest}
+              onBack={auth.goBack}
+              isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
+            />
+          </AuthFlowTransition>
+        )
+      case "reset-verify":
+        return (
+          <AuthFlowTransition
+            flowKey="reset-verify"
+            direction={auth.flowDirection}
+            isLoading={auth.isLoading}
+          >
+            <PasswordResetVerification
+              email={auth.email}
+              otpCode={auth.otpCode}
+              onOtpChange={auth.setOtpCode}
+              onResendEmail={auth.handleResendPasswordResetCode}
+              onContinue={auth.handlePasswordResetCodeContinue}
+              onBack={auth.goBack}
+              isLoading={auth.isLoading}
+              isResendLoading={auth.isResendLoading}
+              serverError={auth.errorMessage}
+            />
+          </AuthFlowTransition>
+        )
+      case "reset-new-password":
+        return (
+          <AuthFlowTransition
+            flowKey="reset-new-password"
+            direction={auth.flowDirection}
+            isLoading={auth.isLoading}
+          >
+            <PasswordResetNewPassword
+              email={auth.email}
+              password={auth.password}
+              passwordConfirmation={auth.passwordConfirmation}
+              onPasswordChange={auth.setPassword}
+              onPasswordConfirmationChange={auth.setPasswordConfirmation}
+              onResetPassword={auth.handlePasswordResetComplete}
+              onBack={auth.goBack}
               isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
             />
           </AuthFlowTransition>
         )
@@ -1,18 +1,25 @@
 "use client"
 
+import { useRouter } from "next/navigation"
 import { useAuth } from "@/hooks/useAuth"
+import { usePasskeys } from "@/hooks/usePasskeys"
+import { takeCallbackUrl, withCallbackUrl } from "@/lib/callback-url"
+import { SIGN_IN_PATH } from "@/lib/route-policy"
 import { useState, useEffect } from "react"
 import {
   MainSignUp,
   SignUpEmail,
   SignUpPassword,
+  SignUpProfile,
   SignUpVerification,
   SignUpSuccess,
   AuthFlowTransition
 } from "@/components/auth"
 
 export default function SignUpPage() {
-  const auth = useAuth()
+  const auth = useAuth("signup-main", { syncWithUrl: true })
+  const passkeys = usePasskeys()
+  const router = useRouter()
 
   // Background carousel state
   const backgroundImages = [
@@ -41,20 +48,13 @@ export default function SignUpPage() {
     return () => clearInterval(interval)
   }, [backgroundImages.length])
 
-  // Helper to determine transition direction based on flow navigation
-  const getFlowDirection = (): "forward" | "backward" => {
-    // For now, we'll handle back navigation in the individual components
-    // This could be enhanced with a flow history state if needed
-    return "forward"
-  }
-
   const renderCurrentFlow = () => {
     switch (auth.currentFlow) {
       case "signup-main":
         return (
           <AuthFlowTransition
             flowKey="signup-main"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <MainSignUp
@@ -63,6 +63,7 @@ export default function SignUpPage() {
               onPasswordSignUp={auth.handlePasswordSignUpFlowStart}
               onPasswordlessSignUp={auth.handlePasswordlessSignUpFlowStart}
               isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
             />
           </AuthFlowTransition>
         )
@@ -70,7 +71,7 @@ export default function SignUpPage() {
         return (
           <AuthFlowTransition
             flowKey="signup-email"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <SignUpEmail
@@ -78,7 +79,7 @@ export default function SignUpPage() {
               onEmailChange={auth.setEmail}
               onPasswordFlowContinue={auth.handlePasswordEmailContinue}
               onPasswordlessFlow={auth.handlePasswordlessEmailContinue}
-              onBack={() => auth.setCurrentFlow("signup-main")}
+              onBack={auth.goBack}
               isLoading={auth.isLoading}
               serverError={auth.errorMessage}
               signupMethod={auth.signupMethod}
@@ -89,7 +90,7 @@ export default function SignUpPage() {
         return (
           <AuthFlowTransition
             flowKey="signup-password"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <SignUpPassword
@@ -99,7 +100,27 @@ export default function SignUpPage() {
               onPasswordChange={auth.setPassword}
               onPasswordConfirmationChange={auth.setPasswordConfirmation}
               onPasswordSignUp={auth.handlePasswordSignUp}
-              onBack={() => auth.setCurrentFlow("signup-email")}
+              onBack={auth.goBack}
+              isLoading={auth.isLoading}
+              serverError={auth.errorMessage}
+            />
+          </AuthFlowTransition>
+        )
+      case "signup-profile":
+        return (
+          <AuthFlowTransition
+            flowKey="signup-profile"
+            direction={auth.flowDirection}
+            isLoading={auth.isLoading}
+          >
+            <SignUpProfile
+              email={auth.email}
+              name={auth.name}
+              preferredName={auth.preferredName}
+              onNameChange={auth.setName}
+              onPreferredNameChange={auth.setPreferredName}
+              onContinue={auth.handleSignUpProfileContinue}
+              onBack={auth.goBack}
               isLoading={auth.isLoading}
               serverError={auth.errorMessage}
             />
@@ -109,7 +130,7 @@ export default function SignUpPage() {
         return (
           <AuthFlowTransition
             flowKey="signup-verification"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
             <SignUpVerification
@@ -118,12 +139,10 @@ export default function SignUpPage() {
               onOtpChange={auth.setOtpCode}
               onResendEmail={auth.handleResendVerificationCode}
               onVerifyOtp={auth.handleSignUpOtpVerification}
-              onBack={() => auth.setCurrentFlow("signup-email")}
+              onBack={auth.goBack}
               isLoading={auth.isLoading}
               isResendLoading={auth.isResendLoading}
               serverError={auth.errorMessage}
-              isRateLimited={auth.isRateLimited}
-              rateLimitRetryAfter={auth.rateLimitRetryAfter}
             />
           </AuthFlowTransition>
         )
@@ -131,26 +150,26 @@ export default function SignUpPage() {
         return (
           <AuthFlowTransition
             flowKey="signup-success"
-            direction={getFlowDirection()}
+            direction={auth.flowDirection}
             isLoading={auth.isLoading}
           >
-            <SignUpSuccess onGoToSignIn={auth.handleEmailSignIn} />
+            <SignUpSuccess
+              onGoToSignIn={() => router.push(withCallbackUrl(SIGN_IN_PATH))}
+              passkeyEnrollment={auth.isSignedIn ? {
+                isSupported: passkeys.isSupported,
+                isRegistering: passkeys.isRegistering,
+                onRegister: passkeys.registerPasskey,
+                serverError: passkeys.errorMessage,
+                onContinue: () => window.location.replace(takeCallbackUrl()),
+              } : undefined}
+            />
           </AuthFlowTransition>
         )
       default:
-        // Default to signup-main if no flow is set or invalid flow
-        auth.setCurrentFlow("signup-main")
         return null
     }
   }
 
-  // Set default flow to signup-main on page load
-  useEffect(() => {
-    if (auth.currentFlow === "main" || !auth.currentFlow.startsWith("signup")) {
-      auth.setCurrentFlow("signup-main")
-    }
-  }, [auth])
-
   return (
     <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
       {/* Background images with smooth transitions */}
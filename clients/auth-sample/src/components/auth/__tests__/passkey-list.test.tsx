@@ -0,0 +1,83 @@
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PasskeyList } from '../passkey-list'
+
+describe('PasskeyList', () => {
+  const passkeys = [
+    {
+      credentialId: 'cred-1',
+      name: 'iCloud Keychain',
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      authenticatorAttachment: 'platform',
+    },
+    {
+      credentialId: 'cred-2',
+      name: 'YubiKey',
+      authenticatorAttachment: 'cross-platform',
+    },
+  ]
+
+  const mockProps = {
+    passkeys,
+    isLoading: false,
+    onRename: jest.fn(() => Promise.resolve(true)),
+    onDelete: jest.fn(() => Promise.resolve(true)),
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should render each registered passkey', () => {
+    render(<PasskeyList {...mockProps} />)
+
+    expect(screen.getByText('iCloud Keychain')).toBeInTheDocument()
+    expect(screen.getByText('YubiKey')).toBeInTheDocument()
+    expect(screen.getByText(/This device/)).toBeInTheDocument()
+    expect(screen.getByText('Security key or phone')).toBeInTheDocument()
+  })
+
+  it('should render an empty state when there are no passkeys', () => {
+    render(<PasskeyList {...mockProps} passkeys={[]} />)
+
+    expect(screen.getByText(/haven't added any passkeys/i)).toBeInTheDocument()
+  })
+
+  it('should rename a passkey inline', async () => {
+    const user = userEvent.setup()
+    render(<PasskeyList {...mockProps} />)
+
+    await user.click(screen.getByRole('button', { name: 'Rename YubiKey' }))
+    const input = screen.getByLabelText('Passkey name')
+    await user.clear(input)
+    await user.type(input, 'Desk key')
+    await user.click(screen.getByRole('button', { name: 'Save' }))
+
+    expect(mockProps.onRename).toHaveBeenCalledWith('cred-2', 'Desk key')
+    await waitFor(() => {
+      expect(screen.queryByLabelText('Passkey name')).not.toBeInTheDocument()
+    })
+  })
+
+  it('should ask for confirmation before removing a passkey', async () => {
+    const user = userEvent.setup()
+    render(<PasskeyList {...mockProps} />)
+
+    await user.click(screen.getByRole('button', { name: 'Remove iCloud Keychain' }))
+    expect(mockProps.onDelete).not.toHaveBeenCalled()
+
+    await user.click(screen.getByRole('button', { name: 'Remove' }))
+    expect(mockProps.onDelete).toHaveBeenCalledWith('cred-1')
+  })
+
+  it('should keep the passkey when removal is cancelled', async () => {
+    const user = userEvent.setup()
+    render(<PasskeyList {...mockProps} />)
+
+    await user.click(screen.getByRole('button', { name: 'Remove iCloud Keychain' }))
+    await user.click(screen.getByRole('button', { name: 'Keep' }))
+
+    expect(mockProps.onDelete).not.toHaveBeenCalled()
+    expect(screen.getByRole('button', { name: 'Remove iCloud Keychain' })).toBeInTheDocument()
+  })
+})
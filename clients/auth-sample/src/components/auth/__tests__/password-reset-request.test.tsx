@@ -0,0 +1,40 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { PasswordResetRequest } from '../password-reset-request'
+import { RATE_LIMITED_METHODS, rateLimits } from '@/lib/rate-limits'
+
+const defaultProps = {
+  email: 'test@example.com',
+  onEmailChange: jest.fn(),
+  onSendResetCode: jest.fn(),
+  onBack: jest.fn(),
+  isLoading: false,
+  serverError: undefined
+}
+
+describe('PasswordResetRequest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    window.localStorage.clear()
+  })
+
+  afterEach(() => {
+    window.localStorage.clear()
+  })
+
+  it('should send the reset code for a valid address', () => {
+    render(<PasswordResetRequest {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Send reset code' }))
+
+    expect(defaultProps.onSendResetCode).toHaveBeenCalledTimes(1)
+  })
+
+  it('should hold off while the service limits resets for the address', () => {
+    rateLimits.record({ method: RATE_LIMITED_METHODS.beginPasswordReset, email: defaultProps.email }, 90)
+
+    render(<PasswordResetRequest {...defaultProps} />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Rate limit exceeded. Try again in 1:30.')
+    expect(screen.getByRole('button', { name: 'Send reset code' })).toBeDisabled()
+  })
+})
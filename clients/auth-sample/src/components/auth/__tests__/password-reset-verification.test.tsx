@@ -0,0 +1,88 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { PasswordResetVerification } from '../password-reset-verification'
+import { RATE_LIMITED_METHODS, rateLimits } from '@/lib/rate-limits'
+
+// Mock props for testing
+const defaultProps = {
+  email: 'test@example.com',
+  otpCode: '',
+  onOtpChange: jest.fn(),
+  onResendEmail: jest.fn(),
+  onContinue: jest.fn(),
+  onBack: jest.fn(),
+  isLoading: false,
+  isResendLoading: false,
+  serverError: undefined
+}
+
+describe('PasswordResetVerification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    window.localStorage.clear()
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    act(() => {
+      jest.runOnlyPendingTimers()
+    })
+    jest.useRealTimers()
+  })
+
+  it('should only continue once a full code is entered', () => {
+    const { rerender } = render(<PasswordResetVerification {...defaultProps} otpCode="123" />)
+
+    expect(screen.getByRole('button', { name: 'Continue' })).toBeDisabled()
+
+    rerender(<PasswordResetVerification {...defaultProps} otpCode="123456" />)
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }))
+
+    expect(defaultProps.onContinue).toHaveBeenCalledTimes(1)
+  })
+
+  it('should strip non-digits from the code', () => {
+    render(<PasswordResetVerification {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('6-digit reset code'), { target: { value: '12a-34' } })
+
+    expect(defaultProps.onOtpChange).toHaveBeenCalledWith('1234')
+  })
+
+  it('should start the resend cooldown after resending', async () => {
+    const mockOnResendEmail = jest.fn().mockResolvedValue(undefined)
+    render(<PasswordResetVerification {...defaultProps} onResendEmail={mockOnResendEmail} />)
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Resend code'))
+    })
+
+    expect(mockOnResendEmail).toHaveBeenCalledTimes(1)
+    expect(screen.getByText('Resend in 30s')).toBeInTheDocument()
+  })
+
+  it('should replace the resend button with the rate limit message', () => {
+    rateLimits.record({ method: RATE_LIMITED_METHODS.beginPasswordReset, email: defaultProps.email }, 15 * 60)
+
+    render(<PasswordResetVerification {...defaultProps} />)
+
+    expect(screen.queryByText('Resend code')).not.toBeInTheDocument()
+    expect(screen.getByText(/Rate limit exceeded\. Try again in 15:00\./)).toBeInTheDocument()
+  })
+
+  it('should offer the resend again once the window passes', () => {
+    rateLimits.record({ method: RATE_LIMITED_METHODS.beginPasswordReset, email: defaultProps.email }, 5)
+    render(<PasswordResetVerification {...defaultProps} />)
+
+    act(() => {
+      jest.advanceTimersByTime(5_000)
+    })
+
+    expect(screen.getByText('Resend code')).toBeInTheDocument()
+  })
+
+  it('should show the server error', () => {
+    render(<PasswordResetVerification {...defaultProps} serverError="The code you entered is incorrect." />)
+
+    expect(screen.getByText('The code you entered is incorrect.')).toBeInTheDocument()
+  })
+})
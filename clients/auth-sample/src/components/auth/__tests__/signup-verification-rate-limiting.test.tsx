@@ -1,5 +1,6 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
 import { SignUpVerification } from '../signup-verification'
+import { RATE_LIMITED_METHODS, rateLimits } from '@/lib/rate-limits'
 
 // Mock props for testing
 const defaultProps = {
@@ -11,14 +12,21 @@ const defaultProps = {
   onBack: jest.fn(),
   isLoading: false,
   isResendLoading: false,
-  serverError: undefined,
-  isRateLimited: false,
-  rateLimitRetryAfter: undefined
+  serverError: undefined
 }
 
+// Records a window the way the rate-limit interceptor does when the service refuses a resend
+const limitResend = (retryAfterSeconds: number, email = defaultProps.email) =>
+  rateLimits.record({ method: RATE_LIMITED_METHODS.resendVerificationCode, email }, retryAfterSeconds)
+
 describe('SignUpVerification - Rate Limiting', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    window.localStorage.clear()
+  })
+
+  afterEach(() => {
+    window.localStorage.clear()
   })
 
   it('should show resend button when not rate limited and no cooldown', () => {
@@ -49,38 +57,19 @@ describe('SignUpVerification - Rate Limiting', () => {
     expect(mockOnResendEmail).toHaveBeenCalledTimes(1)
   })
 
-  it('should show rate limit message when rate limited without retry time', () => {
-    render(
-      <SignUpVerification 
-        {...defaultProps} 
-        isRateLimited={true}
-      />
-    )
-    
-    expect(screen.getByText('Rate limit exceeded. Please wait before trying again.')).toBeInTheDocument()
-    expect(screen.queryByText('Resend code')).not.toBeInTheDocument()
-  })
+  it('should show rate limit message with the time left', () => {
+    limitResend(45 * 60)
 
-  it('should show rate limit message with retry time when provided', () => {
-    render(
-      <SignUpVerification 
-        {...defaultProps} 
-        isRateLimited={true}
-        rateLimitRetryAfter={45}
-      />
-    )
+    render(<SignUpVerification {...defaultProps} />)
     
-    expect(screen.getByText('Rate limit exceeded. Try again in 45 minutes.')).toBeInTheDocument()
+    expect(screen.getByText('Rate limit exceeded. Try again in 45:00.')).toBeInTheDocument()
     expect(screen.queryByText('Resend code')).not.toBeInTheDocument()
   })
 
   it('should disable resend button when rate limited', () => {
-    render(
-      <SignUpVerification 
-        {...defaultProps} 
-        isRateLimited={true}
-      />
-    )
+    limitResend(60)
+
+    render(<SignUpVerification {...defaultProps} />)
     
     // Button should not be present when rate limited
     expect(screen.queryByText('Resend code')).not.toBeInTheDocument()
@@ -100,39 +89,39 @@ describe('SignUpVerification - Rate Limiting', () => {
 
   it('should not trigger client-side cooldown when rate limited', async () => {
     const mockOnResendEmail = jest.fn().mockResolvedValue(undefined)
+    limitResend(30)
     
     render(
       <SignUpVerification 
         {...defaultProps} 
         onResendEmail={mockOnResendEmail}
-        isRateLimited={true}
       />
     )
     
     // Rate limited message should be shown, no resend button
-    expect(screen.getByText('Rate limit exceeded. Please wait before trying again.')).toBeInTheDocument()
+    expect(screen.getByText('Rate limit exceeded. Try again in 30s.')).toBeInTheDocument()
     expect(screen.queryByText('Resend code')).not.toBeInTheDocument()
   })
 
   it('should handle server error display alongside rate limiting', () => {
+    limitResend(30 * 60)
+
     render(
       <SignUpVerification 
         {...defaultProps} 
-        isRateLimited={true}
-        rateLimitRetryAfter={30}
         serverError="Something went wrong"
       />
     )
     
     // Both server error and rate limit message should be visible
     expect(screen.getByText('Something went wrong')).toBeInTheDocument()
-    expect(screen.getByText('Rate limit exceeded. Try again in 30 minutes.')).toBeInTheDocument()
+    expect(screen.getByText('Rate limit exceeded. Try again in 30:00.')).toBeInTheDocument()
   })
 
   it('should prioritize rate limit display over cooldown', async () => {
     const mockOnResendEmail = jest.fn().mockResolvedValue(undefined)
     
-    const { rerender } = render(
+    render(
       <SignUpVerification 
         {...defaultProps} 
         onResendEmail={mockOnResendEmail}
@@ -147,18 +136,49 @@ describe('SignUpVerification - Rate Limiting', () => {
       expect(screen.getByText(/Resend in \d+s/)).toBeInTheDocument()
     })
     
-    // Now simulate rate limiting
-    rerender(
-      <SignUpVerification 
-        {...defaultProps} 
-        onResendEmail={mockOnResendEmail}
-        isRateLimited={true}
-        rateLimitRetryAfter={60}
-      />
-    )
+    // Now the service refuses the next one
+    act(() => {
+      limitResend(60 * 60)
+    })
     
     // Rate limit message should take precedence
-    expect(screen.getByText('Rate limit exceeded. Try again in 60 minutes.')).toBeInTheDocument()
+    expect(screen.getByText('Rate limit exceeded. Try again in 60:00.')).toBeInTheDocument()
     expect(screen.queryByText(/Resend in \d+s/)).not.toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  describe('with a window recorded by the service', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should count down and offer resend again once the window passes', () => {
+      limitResend(65)
+
+      render(<SignUpVerification {...defaultProps} />)
+
+      expect(screen.getByText('Rate limit exceeded. Try again in 1:05.')).toBeInTheDocument()
+
+      act(() => {
+        jest.advanceTimersByTime(10_000)
+      })
+      expect(screen.getByText('Rate limit exceeded. Try again in 55s.')).toBeInTheDocument()
+
+      act(() => {
+        jest.advanceTimersByTime(55_000)
+      })
+      expect(screen.getByText('Resend code')).toBeInTheDocument()
+    })
+
+    it('should ignore windows for another address', () => {
+      limitResend(65, 'other@example.com')
+
+      render(<SignUpVerification {...defaultProps} />)
+
+      expect(screen.getByText('Resend code')).toBeInTheDocument()
+    })
+  })
+})
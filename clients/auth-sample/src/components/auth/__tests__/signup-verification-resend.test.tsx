@@ -1,5 +1,6 @@
 import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
 import { SignUpVerification } from '../signup-verification'
+import { RATE_LIMITED_METHODS, rateLimits } from '@/lib/rate-limits'
 
 // Mock props for testing
 const defaultProps = {
@@ -11,14 +12,18 @@ const defaultProps = {
   onBack: jest.fn(),
   isLoading: false,
   isResendLoading: false,
-  serverError: undefined,
-  isRateLimited: false,
-  rateLimitRetryAfter: undefined
+  serverError: undefined
 }
 
+const resendKey = { method: RATE_LIMITED_METHODS.resendVerificationCode, email: defaultProps.email }
+
+// Records a window the way the rate-limit interceptor does when the service refuses a resend
+const limitResend = (retryAfterSeconds: number) => rateLimits.record(resendKey, retryAfterSeconds)
+
 describe('SignUpVerification - Resend Functionality', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    window.localStorage.clear()
     // Mock timers for cooldown testing
     jest.useFakeTimers()
   })
@@ -77,15 +82,12 @@ describe('SignUpVerification - Resend Functionality', () => {
     })
 
     it('should not show resend button when rate limited', () => {
-      render(
-        <SignUpVerification 
-          {...defaultProps} 
-          isRateLimited={true}
-        />
-      )
+      limitResend(45)
+
+      render(<SignUpVerification {...defaultProps} />)
       
       expect(screen.queryByText('Resend code')).not.toBeInTheDocument()
-      expect(screen.getByText('Rate limit exceeded. Please wait before trying again.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 45s.')).toBeInTheDocument()
     })
   })
 
@@ -209,17 +211,17 @@ describe('SignUpVerification - Resend Functionality', () => {
 
     it('should not start cooldown when rate limited', async () => {
       const mockOnResendEmail = jest.fn().mockResolvedValue(undefined)
+      limitResend(45)
       
       render(
         <SignUpVerification 
           {...defaultProps} 
           onResendEmail={mockOnResendEmail}
-          isRateLimited={true}
         />
       )
       
       // Should show rate limit message, not cooldown
-      expect(screen.getByText('Rate limit exceeded. Please wait before trying again.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 45s.')).toBeInTheDocument()
       expect(screen.queryByText(/Resend in \d+s/)).not.toBeInTheDocument()
     })
 
@@ -238,41 +240,26 @@ describe('SignUpVerification - Resend Functionality', () => {
       expect(screen.getByText('Something went wrong')).toBeInTheDocument()
     })
 
-    it('should display rate limit error without retry time', () => {
-      render(
-        <SignUpVerification 
-          {...defaultProps} 
-          isRateLimited={true}
-        />
-      )
-      
-      expect(screen.getByText('Rate limit exceeded. Please wait before trying again.')).toBeInTheDocument()
-    })
-
     it('should display rate limit error with retry time', () => {
-      render(
-        <SignUpVerification 
-          {...defaultProps} 
-          isRateLimited={true}
-          rateLimitRetryAfter={30}
-        />
-      )
+      limitResend(30 * 60)
+
+      render(<SignUpVerification {...defaultProps} />)
       
-      expect(screen.getByText('Rate limit exceeded. Try again in 30 minutes.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 30:00.')).toBeInTheDocument()
     })
 
     it('should display both server error and rate limit message', () => {
+      limitResend(45 * 60)
+
       render(
         <SignUpVerification 
           {...defaultProps} 
           serverError="Delivery failed"
-          isRateLimited={true}
-          rateLimitRetryAfter={45}
         />
       )
       
       expect(screen.getByText('Delivery failed')).toBeInTheDocument()
-      expect(screen.getByText('Rate limit exceeded. Try again in 45 minutes.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 45:00.')).toBeInTheDocument()
     })
 
     it('should reserve space for error messages to prevent layout shift', () => {
@@ -299,7 +286,7 @@ describe('SignUpVerification - Resend Functionality', () => {
     it('should prioritize rate limit display over cooldown', async () => {
       const mockOnResendEmail = jest.fn().mockResolvedValue(undefined)
       
-      const { rerender } = render(
+      render(
         <SignUpVerification 
           {...defaultProps} 
           onResendEmail={mockOnResendEmail}
@@ -314,41 +301,29 @@ describe('SignUpVerification - Resend Functionality', () => {
         expect(screen.getByText(/Resend in \d+s/)).toBeInTheDocument()
       })
       
-      // Now simulate rate limiting
-      rerender(
-        <SignUpVerification 
-          {...defaultProps} 
-          onResendEmail={mockOnResendEmail}
-          isRateLimited={true}
-          rateLimitRetryAfter={60}
-        />
-      )
+      // Now the service refuses the next one
+      act(() => {
+        limitResend(60 * 60)
+      })
       
       // Rate limit message should take precedence
-      expect(screen.getByText('Rate limit exceeded. Try again in 60 minutes.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 60:00.')).toBeInTheDocument()
       expect(screen.queryByText(/Resend in \d+s/)).not.toBeInTheDocument()
     })
 
     it('should handle transition from rate limited to normal state', () => {
-      const { rerender } = render(
-        <SignUpVerification 
-          {...defaultProps} 
-          isRateLimited={true}
-          rateLimitRetryAfter={30}
-        />
-      )
+      limitResend(30 * 60)
+
+      render(<SignUpVerification {...defaultProps} />)
       
       // Should show rate limit message
-      expect(screen.getByText('Rate limit exceeded. Try again in 30 minutes.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 30:00.')).toBeInTheDocument()
       expect(screen.queryByText('Resend code')).not.toBeInTheDocument()
       
       // Remove rate limiting
-      rerender(
-        <SignUpVerification 
-          {...defaultProps} 
-          isRateLimited={false}
-        />
-      )
+      act(() => {
+        rateLimits.clear(resendKey)
+      })
       
       // Should show resend button again
       expect(screen.getByText('Resend code')).toBeInTheDocument()
@@ -356,25 +331,17 @@ describe('SignUpVerification - Resend Functionality', () => {
     })
 
     it('should handle different retry time formats', () => {
-      const { rerender } = render(
-        <SignUpVerification 
-          {...defaultProps} 
-          isRateLimited={true}
-          rateLimitRetryAfter={1}
-        />
-      )
+      limitResend(90)
+
+      render(<SignUpVerification {...defaultProps} />)
       
-      expect(screen.getByText('Rate limit exceeded. Try again in 1 minutes.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 1:30.')).toBeInTheDocument()
       
-      rerender(
-        <SignUpVerification 
-          {...defaultProps} 
-          isRateLimited={true}
-          rateLimitRetryAfter={120}
-        />
-      )
+      act(() => {
+        limitResend(120 * 60)
+      })
       
-      expect(screen.getByText('Rate limit exceeded. Try again in 120 minutes.')).toBeInTheDocument()
+      expect(screen.getByText('Rate limit exceeded. Try again in 120:00.')).toBeInTheDocument()
     })
   })
 
@@ -11,16 +11,19 @@ interface AuthFlowTransitionProps {
 export function AuthFlowTransition({ 
   children, 
   flowKey, 
-  direction: _direction = "forward",
+  direction = "forward",
   isLoading = false,
   className = "" 
 }: AuthFlowTransitionProps) {
-  void _direction // Intentionally unused, reserved for future animation direction logic
-  
+  // Keyed on the step, so the slide replays whenever the step changes
+  const slideIn = direction === "backward" ? "animate-slide-in-from-left" : "animate-slide-in-from-right"
+
   return (
     <div 
       key={flowKey}
+      data-direction={direction}
       className={`
+        ${slideIn}
         ${isLoading 
           ? 'pointer-events-none transform-gpu will-change-transform scale-[0.98] opacity-95 transition-transform transition-opacity duration-200 ease-out' 
           : 'transform-gpu will-change-transform scale-100 opacity-100 transition-transform transition-opacity duration-200 ease-out'}
@@ -9,9 +9,19 @@ export { PasskeySignIn } from "./passkey-sign-in"
 export { MainSignUp } from "./main-sign-up"
 export { SignUpEmail } from "./signup-email"
 export { SignUpPassword } from "./signup-password"
+export { SignUpProfile } from "./signup-profile"
 export { SignUpVerification } from "./signup-verification"
 export { SignUpSuccess } from "./signup-success"
 
+// Password reset components
+export { PasswordResetRequest } from "./password-reset-request"
+export { PasswordResetVerification } from "./password-reset-verification"
+export { PasswordResetNewPassword } from "./password-reset-new-password"
+
+// Passkey management components
+export { PasskeyEnrollment } from "./passkey-enrollment"
+export { PasskeyList } from "./passkey-list"
+
 // Shared components
 export { AuthCard } from "./auth-card"
 export { AuthButton } from "./auth-button"
@@ -1,4 +1,4 @@
-import { Mail } from "lucide-react"
+import { Mail, AlertCircle } from "lucide-react"
 import { AuthCard } from "./auth-card"
 import { AuthButton } from "./auth-button"
 import { AuthHeader } from "./auth-header"
@@ -11,13 +11,15 @@ interface MainSignInProps {
   onAppleSignIn: () => Promise<void>
   onEmailSignIn: () => void
   isLoading: boolean
+  serverError?: string
 }
 
 export function MainSignIn({ 
   onGoogleSignIn, 
   onAppleSignIn, 
   onEmailSignIn, 
-  isLoading 
+  isLoading,
+  serverError
 }: MainSignInProps) {
   return (
     <div className="w-full max-w-md mx-auto">
@@ -27,6 +29,13 @@ export function MainSignIn({
       />
 
       <AuthCard>
+        {serverError && (
+          <div className="flex items-center space-x-2 text-red-400 text-sm mb-4" role="alert">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{serverError}</span>
+          </div>
+        )}
+
         <div className="space-y-4">
           <GoogleSignInButton
             onClick={onGoogleSignIn}
@@ -1,4 +1,4 @@
-import { Mail, Lock } from "lucide-react"
+import { Mail, Lock, AlertCircle } from "lucide-react"
 import { AuthCard } from "./auth-card"
 import { AuthButton } from "./auth-button"
 import { AuthHeader } from "./auth-header"
@@ -12,6 +12,7 @@ interface MainSignUpProps {
   onPasswordSignUp: () => void
   onPasswordlessSignUp: () => void
   isLoading: boolean
+  serverError?: string
 }
 
 export function MainSignUp({ 
@@ -19,7 +20,8 @@ export function MainSignUp({
   onAppleSignUp, 
   onPasswordSignUp, 
   onPasswordlessSignUp, 
-  isLoading 
+  isLoading,
+  serverError
 }: MainSignUpProps) {
   return (
     <div className="w-full max-w-md mx-auto">
@@ -29,6 +31,13 @@ export function MainSignUp({
       />
 
       <AuthCard>
+        {serverError && (
+          <div className="flex items-center space-x-2 text-red-400 text-sm mb-4" role="alert">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{serverError}</span>
+          </div>
+        )}
+
         <div className="space-y-4">
           <GoogleSignInButton
             onClick={onGoogleSignUp}
@@ -2,14 +2,31 @@
 
 import { AuthProvider } from 'react-oidc-context'
 import React from 'react'
+import { usePathname } from 'next/navigation'
 import { config } from '@/lib/config'
 import type { UserManagerSettings } from 'oidc-client-ts'
+import { isFederatedCallback } from '@/lib/federation'
+import { useAuthEventSync } from '@/hooks/useAuthEventSync'
+
+/** Where the silent renewal iframe lands; the page there only runs `signinSilentCallback`. */
+export const SILENT_CALLBACK_PATH = '/auth/silent-callback'
+
+const silentRedirectUri = () =>
+  config.silentRedirectUri ||
+  (typeof window !== 'undefined' ? new URL(SILENT_CALLBACK_PATH, window.location.origin).toString() : undefined)
 
 type OidcProviderProps = {
   children: React.ReactNode
 }
 
+// Lives inside AuthProvider so a sign-out from another tab can drop this tab's OIDC user
+function AuthEventSync() {
+  useAuthEventSync()
+  return null
+}
+
 export default function OidcProvider({ children }: OidcProviderProps) {
+  const pathname = usePathname()
   const { authority, clientId, redirectUri, scope, responseType } = config
   if (!authority || !clientId || !redirectUri || !scope || !responseType) {
     throw new Error('Missing OIDC configuration')
@@ -20,6 +37,15 @@ export default function OidcProvider({ children }: OidcProviderProps) {
     redirect_uri: redirectUri,
     response_type: responseType,
     scope,
+    silent_redirect_uri: silentRedirectUri(),
+    // Renew ahead of expiry, with the refresh token when there is one and a hidden iframe otherwise
+    automaticSilentRenew: true,
+    accessTokenExpiringNotificationTimeInSeconds: 60,
+  }
+
+  // The renewal iframe must not start a second client with its own renewal timer
+  if (pathname === SILENT_CALLBACK_PATH) {
+    return <>{children}</>
   }
 
   const onSigninCallback = () => {
@@ -31,8 +57,17 @@ export default function OidcProvider({ children }: OidcProviderProps) {
     }
   }
 
+  // Federated round trips are exchanged by the Auth service, so keep the OIDC client off that code
+  const skipSigninCallback =
+    typeof window !== 'undefined' && isFederatedCallback(window.location.search)
+
   return (
-    <AuthProvider {...cognitoAuthConfig} onSigninCallback={onSigninCallback}>
+    <AuthProvider
+      {...cognitoAuthConfig}
+      onSigninCallback={onSigninCallback}
+      skipSigninCallback={skipSigninCallback}
+    >
+      <AuthEventSync />
       {children}
     </AuthProvider>
   )
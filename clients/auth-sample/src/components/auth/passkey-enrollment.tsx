@@ -0,0 +1,95 @@
+import { useState } from "react"
+import { CheckCircle2, Fingerprint } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { AuthButton } from "./auth-button"
+
+interface PasskeyEnrollmentProps {
+  isSupported: boolean
+  isRegistering: boolean
+  onRegister: (name?: string) => Promise<boolean>
+  serverError?: string
+  /** Show the optional name field (the authenticator name is used otherwise). */
+  allowNaming?: boolean
+}
+
+export function PasskeyEnrollment({
+  isSupported,
+  isRegistering,
+  onRegister,
+  serverError,
+  allowNaming = false
+}: PasskeyEnrollmentProps) {
+  const [name, setName] = useState("")
+  const [isRegistered, setIsRegistered] = useState(false)
+
+  if (!isSupported) {
+    return (
+      <p className="text-stone-400/80 text-sm text-center">
+        Passkeys aren&apos;t supported on this device.
+      </p>
+    )
+  }
+
+  const handleRegister = async () => {
+    const registered = await onRegister(name || undefined)
+    if (registered) {
+      setIsRegistered(true)
+      setName("")
+    }
+  }
+
+  if (isRegistered && !allowNaming) {
+    return (
+      <div className="flex items-center justify-center space-x-2 text-green-400 text-sm" role="status">
+        <CheckCircle2 className="w-4 h-4" />
+        <span>Passkey added. You can use it next time you sign in.</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start space-x-3">
+        <Fingerprint className="w-6 h-6 text-stone-300/80 flex-shrink-0 mt-0.5" />
+        <p className="text-stone-300/80 text-sm leading-relaxed text-left">
+          Sign in faster with your fingerprint, face, or security key instead of a password or code.
+        </p>
+      </div>
+
+      {allowNaming && (
+        <div className="space-y-2">
+          <Label htmlFor="passkey-name" className="text-stone-100 font-medium text-sm">
+            Passkey name (optional)
+          </Label>
+          <Input
+            id="passkey-name"
+            type="text"
+            placeholder="e.g. Work laptop"
+            value={name}
+            maxLength={64}
+            onChange={(e) => setName(e.target.value)}
+            className="h-11 bg-stone-900/70 border-stone-700/50 text-stone-50 placeholder:text-stone-400/60 focus:border-stone-500/90 focus:ring-stone-500/30 rounded-lg text-base"
+          />
+        </div>
+      )}
+
+      {serverError && (
+        <div className="flex items-center space-x-2 text-red-400 text-sm" role="alert">
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4 flex-shrink-0"><path fillRule="evenodd" d="M9.401 1.592a3.75 3.75 0 0 1 5.198 0l7.81 7.81a3.75 3.75 0 0 1 0 5.198l-7.81 7.81a3.75 3.75 0 0 1-5.198 0l-7.81-7.81a3.75 3.75 0 0 1 0-5.198l7.81-7.81Zm2.599 5.658a.75.75 0 0 1 .75.75v5.25a.75.75 0 0 1-1.5 0V8a.75.75 0 0 1 .75-.75Zm0 10.5a.998.998 0 1 1 0-1.996.998.998 0 0 1 0 1.997Z" clipRule="evenodd" /></svg>
+          <span>{serverError}</span>
+        </div>
+      )}
+
+      <AuthButton
+        variant="secondary"
+        onClick={handleRegister}
+        disabled={isRegistering}
+        loading={isRegistering}
+      >
+        <Fingerprint className="w-5 h-5 mr-3" />
+        {isRegistering ? "Waiting for your device..." : "Add a passkey"}
+      </AuthButton>
+    </div>
+  )
+}
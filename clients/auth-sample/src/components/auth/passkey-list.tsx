@@ -0,0 +1,160 @@
+import { useState } from "react"
+import { KeyRound, Pencil, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { PasskeySummary } from "@/hooks/usePasskeys"
+
+interface PasskeyListProps {
+  passkeys: PasskeySummary[]
+  isLoading: boolean
+  onRename: (credentialId: string, name: string) => Promise<boolean>
+  onDelete: (credentialId: string) => Promise<boolean>
+}
+
+const attachmentLabel = (attachment?: string) => {
+  if (attachment === "platform") return "This device"
+  if (attachment === "cross-platform") return "Security key or phone"
+  return undefined
+}
+
+export function PasskeyList({ passkeys, isLoading, onRename, onDelete }: PasskeyListProps) {
+  if (isLoading && passkeys.length === 0) {
+    return <p className="text-stone-400/80 text-sm text-center">Loading passkeys...</p>
+  }
+
+  if (passkeys.length === 0) {
+    return <p className="text-stone-400/80 text-sm text-center">You haven&apos;t added any passkeys yet.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-stone-700/50" aria-label="Registered passkeys">
+      {passkeys.map((passkey) => (
+        <PasskeyListItem
+          key={passkey.credentialId}
+          passkey={passkey}
+          onRename={onRename}
+          onDelete={onDelete}
+        />
+      ))}
+    </ul>
+  )
+}
+
+interface PasskeyListItemProps {
+  passkey: PasskeySummary
+  onRename: (credentialId: string, name: string) => Promise<boolean>
+  onDelete: (credentialId: string) => Promise<boolean>
+}
+
+function PasskeyListItem({ passkey, onRename, onDelete }: PasskeyListItemProps) {
+  const [mode, setMode] = useState<"view" | "rename" | "confirm-delete">("view")
+  const [draftName, setDraftName] = useState(passkey.name)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsBusy(true)
+    try {
+      if (await action()) setMode("view")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draftName.trim() || isBusy) return
+    run(() => onRename(passkey.credentialId, draftName))
+  }
+
+  const details = [
+    attachmentLabel(passkey.authenticatorAttachment),
+    passkey.createdAt ? `Added ${passkey.createdAt.toLocaleDateString()}` : undefined,
+  ].filter(Boolean).join(" · ")
+
+  return (
+    <li className="py-4 flex items-center gap-3">
+      <KeyRound className="w-5 h-5 text-stone-300/80 flex-shrink-0" />
+
+      {mode === "rename" ? (
+        <form onSubmit={handleRenameSubmit} className="flex-1 flex items-center gap-2" noValidate>
+          <Input
+            aria-label="Passkey name"
+            value={draftName}
+            maxLength={64}
+            autoFocus
+            onChange={(e) => setDraftName(e.target.value)}
+            className="h-9 bg-stone-900/70 border-stone-700/50 text-stone-50 rounded-lg"
+          />
+          <Button type="submit" size="sm" disabled={!draftName.trim() || isBusy}>
+            Save
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="text-stone-300"
+            onClick={() => {
+              setDraftName(passkey.name)
+              setMode("view")
+            }}
+          >
+            Cancel
+          </Button>
+        </form>
+      ) : (
+        <>
+          <div className="flex-1 min-w-0">
+            <p className="text-stone-100 font-medium truncate">{passkey.name}</p>
+            {details && <p className="text-stone-400/80 text-xs">{details}</p>}
+          </div>
+
+          {mode === "confirm-delete" ? (
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="destructive"
+                disabled={isBusy}
+                onClick={() => run(() => onDelete(passkey.credentialId))}
+              >
+                Remove
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="text-stone-300"
+                onClick={() => setMode("view")}
+              >
+                Keep
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="text-stone-300 hover:text-stone-200"
+                aria-label={`Rename ${passkey.name}`}
+                onClick={() => setMode("rename")}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="text-stone-300 hover:text-red-400"
+                aria-label={`Remove ${passkey.name}`}
+                onClick={() => setMode("confirm-delete")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </li>
+  )
+}
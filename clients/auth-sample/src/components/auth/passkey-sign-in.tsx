@@ -9,6 +9,7 @@ interface PasskeySignInProps {
   onPasswordFlow: () => void
   onBack: () => void
   isLoading: boolean
+  serverError?: string
 }
 
 export function PasskeySignIn({
@@ -16,7 +17,8 @@ export function PasskeySignIn({
   onPasskeySignIn,
   onPasswordFlow,
   onBack,
-  isLoading
+  isLoading,
+  serverError
 }: PasskeySignInProps) {
   return (
     <div className="w-full max-w-md mx-auto">
@@ -39,6 +41,13 @@ export function PasskeySignIn({
           </p>
         </div>
 
+        {serverError && (
+          <div className="flex items-center space-x-2 text-red-400 text-sm" role="alert">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4 flex-shrink-0"><path fillRule="evenodd" d="M9.401 1.592a3.75 3.75 0 0 1 5.198 0l7.81 7.81a3.75 3.75 0 0 1 0 5.198l-7.81 7.81a3.75 3.75 0 0 1-5.198 0l-7.81-7.81a3.75 3.75 0 0 1 0-5.198l7.81-7.81Zm2.599 5.658a.75.75 0 0 1 .75.75v5.25a.75.75 0 0 1-1.5 0V8a.75.75 0 0 1 .75-.75Zm0 10.5a.998.998 0 1 1 0-1.996.998.998 0 0 1 0 1.997Z" clipRule="evenodd" /></svg>
+            <span>{serverError}</span>
+          </div>
+        )}
+
         <AuthButton
           onClick={onPasskeySignIn}
           disabled={isLoading}
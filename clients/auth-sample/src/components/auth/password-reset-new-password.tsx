@@ -0,0 +1,158 @@
+import { useRef, useEffect, useState } from "react"
+import { AlertCircle } from "lucide-react"
+import { AuthCard } from "./auth-card"
+import { AuthButton } from "./auth-button"
+import { AuthHeader } from "./auth-header"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { validatePassword, validatePasswordConfirmation, getPasswordErrors } from "@/lib/validation"
+
+interface PasswordResetNewPasswordProps {
+  email: string
+  password: string
+  passwordConfirmation: string
+  onPasswordChange: (password: string) => void
+  onPasswordConfirmationChange: (passwordConfirmation: string) => void
+  onResetPassword: () => Promise<void>
+  onBack: () => void
+  isLoading: boolean
+  serverError?: string
+}
+
+export function PasswordResetNewPassword({
+  email,
+  password,
+  passwordConfirmation,
+  onPasswordChange,
+  onPasswordConfirmationChange,
+  onResetPassword,
+  onBack,
+  isLoading,
+  serverError
+}: PasswordResetNewPasswordProps) {
+  const passwordInputRef = useRef<HTMLInputElement>(null)
+  const [passwordErrors, setPasswordErrors] = useState<string[]>([])
+  const [confirmationError, setConfirmationError] = useState<string>("")
+  const [showValidation, setShowValidation] = useState<boolean>(false)
+
+  // Auto-focus on password input when component mounts
+  useEffect(() => {
+    if (passwordInputRef.current) {
+      passwordInputRef.current.focus()
+    }
+  }, [])
+
+  // Validate password confirmation on change
+  useEffect(() => {
+    if (showValidation && passwordConfirmation) {
+      if (!validatePasswordConfirmation(password, passwordConfirmation)) {
+        setConfirmationError("Passwords do not match")
+      } else {
+        setConfirmationError("")
+      }
+    }
+  }, [password, passwordConfirmation, showValidation])
+
+  // Handle form submission (Enter key)
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setShowValidation(true)
+
+    const isPasswordValid = validatePassword(password)
+    const isConfirmationValid = validatePasswordConfirmation(password, passwordConfirmation)
+
+    setPasswordErrors(getPasswordErrors(password))
+    setConfirmationError(isConfirmationValid ? "" : "Passwords do not match")
+
+    if (isPasswordValid && isConfirmationValid && !isLoading) {
+      onResetPassword()
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <AuthHeader
+        title="Choose a new password"
+        showBackButton
+        onBack={onBack}
+      />
+
+      <AuthCard>
+        <p className="text-stone-200/90 text-center">Resetting password for <b>{email}</b></p>
+
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="space-y-6 mb-6">
+            <div className="space-y-3">
+              <Label htmlFor="password" className="text-stone-100 font-medium text-base">
+                New password
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Create a strong password"
+                value={password}
+                onChange={(e) => onPasswordChange(e.target.value)}
+                required
+                ref={passwordInputRef}
+                className="h-12 bg-stone-900/70 border-stone-700/50 text-stone-50 placeholder:text-stone-400/60 focus:border-stone-500/90 focus:ring-stone-500/30 rounded-lg text-base"
+              />
+              <div className="text-xs text-stone-400/80 space-y-1">
+                <p>Password should be at least 8 characters long and include:</p>
+                <ul className="list-disc list-inside space-y-0.5 ml-2">
+                  <li>At least one letter</li>
+                  <li>At least one number</li>
+                </ul>
+              </div>
+              <div className="text-xs text-red-400 min-h-[40px]">
+                {showValidation && passwordErrors.length > 0 && (
+                  <div className="space-y-1">
+                    {passwordErrors.map((error, index) => (
+                      <p key={index}>• {error}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="passwordConfirmation" className="text-stone-100 font-medium text-base">
+                Confirm new password
+              </Label>
+              <Input
+                id="passwordConfirmation"
+                type="password"
+                placeholder="Confirm your new password"
+                value={passwordConfirmation}
+                onChange={(e) => onPasswordConfirmationChange(e.target.value)}
+                required
+                className="h-12 bg-stone-900/70 border-stone-700/50 text-stone-50 placeholder:text-stone-400/60 focus:border-stone-500/90 focus:ring-stone-500/30 rounded-lg text-base"
+              />
+              <div className="text-xs text-red-400 min-h-[16px]">
+                {showValidation && confirmationError && (
+                  <p>• {confirmationError}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Reserve space for server error below inputs, allow up to 2 lines */}
+          <div className="min-h-[40px] mb-4 flex items-center">
+            {serverError && (
+              <div className="flex items-center space-x-2 text-red-400 text-sm" role="alert">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{serverError}</span>
+              </div>
+            )}
+          </div>
+          <AuthButton
+            type="submit"
+            disabled={!password || !passwordConfirmation || isLoading}
+            loading={isLoading}
+          >
+            {isLoading ? "Resetting password..." : "Reset password"}
+          </AuthButton>
+        </form>
+      </AuthCard>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { useState } from "react"
+import { AlertCircle } from "lucide-react"
+import { AuthCard } from "./auth-card"
+import { AuthButton } from "./auth-button"
+import { AuthHeader } from "./auth-header"
+import { Input } from "@/components/ui/input"
+import { useRateLimit } from "@/hooks/useRateLimit"
+import { formatRetryAfter, RATE_LIMITED_METHODS } from "@/lib/rate-limits"
+import { Label } from "@/components/ui/label"
+import { validateEmail } from "@/lib/validation"
+
+interface PasswordResetRequestProps {
+  email: string
+  onEmailChange: (email: string) => void
+  onSendResetCode: () => Promise<void>
+  onBack: () => void
+  isLoading: boolean
+  serverError?: string
+}
+
+export function PasswordResetRequest({
+  email,
+  onEmailChange,
+  onSendResetCode,
+  onBack,
+  isLoading,
+  serverError
+}: PasswordResetRequestProps) {
+  const [emailError, setEmailError] = useState<string>("")
+  const rateLimit = useRateLimit(RATE_LIMITED_METHODS.beginPasswordReset, email)
+
+  const handleEmailChange = (newEmail: string) => {
+    onEmailChange(newEmail)
+    if (emailError) setEmailError("")
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) {
+      setEmailError("Email address is required")
+      return
+    }
+    if (!validateEmail(email)) {
+      setEmailError("Please enter a valid email address")
+      return
+    }
+    if (!isLoading && !rateLimit.isRateLimited) {
+      onSendResetCode()
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <AuthHeader
+        title="Reset your password"
+        showBackButton
+        onBack={onBack}
+      />
+
+      <AuthCard>
+        <p className="text-stone-300/80 text-sm leading-relaxed text-center mb-6">
+          Enter the email address for your account and we&apos;ll send you a code to reset your password.
+        </p>
+
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="space-y-3 mb-4">
+            <Label htmlFor="email" className="text-stone-100 font-medium text-base">
+              Email address
+            </Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="Enter your email address"
+              value={email}
+              onChange={(e) => handleEmailChange(e.target.value)}
+              autoFocus
+              required
+              className="h-12 bg-stone-900/70 border-stone-700/50 text-stone-50 placeholder:text-stone-400/60 focus:border-stone-500/90 focus:ring-stone-500/30 rounded-lg text-base"
+            />
+
+            {/* Reserved space for error message - prevents layout shift (allow up to 2 lines) */}
+            <div className="min-h-[40px] flex items-center">
+              {emailError ? (
+                <div className="flex items-center space-x-2 text-red-400 text-sm">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>{emailError}</span>
+                </div>
+              ) : rateLimit.isRateLimited ? (
+                <div className="flex items-center space-x-2 text-red-400 text-sm" role="alert">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>
+                    Rate limit exceeded. Try again in {formatRetryAfter(rateLimit.secondsRemaining)}.
+                  </span>
+                </div>
+              ) : serverError && (
+                <div className="flex items-center space-x-2 text-red-400 text-sm" role="alert">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>{serverError}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <AuthButton
+            type="submit"
+            disabled={isLoading || rateLimit.isRateLimited}
+            loading={isLoading}
+          >
+            {isLoading ? "Sending code..." : "Send reset code"}
+          </AuthButton>
+        </form>
+      </AuthCard>
+    </div>
+  )
+}
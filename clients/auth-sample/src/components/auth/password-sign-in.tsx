@@ -13,8 +13,10 @@ interface PasswordSignInProps {
   onPasswordChange: (password: string) => void
   onPasswordSignIn: () => Promise<void>
   onPasskeyFlow: () => void
+  onForgotPassword: () => void
   onBack: () => void
   isLoading: boolean
+  serverError?: string
 }
 
 export function PasswordSignIn({
@@ -23,8 +25,10 @@ export function PasswordSignIn({
   onPasswordChange,
   onPasswordSignIn,
   onPasskeyFlow,
+  onForgotPassword,
   onBack,
-  isLoading
+  isLoading,
+  serverError
 }: PasswordSignInProps) {
   const passwordInputRef = useRef<HTMLInputElement>(null)
 
@@ -70,6 +74,13 @@ export function PasswordSignIn({
             />
           </div>
 
+          {serverError && (
+            <div className="flex items-center space-x-2 text-red-400 text-sm mb-4" role="alert">
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4 flex-shrink-0"><path fillRule="evenodd" d="M9.401 1.592a3.75 3.75 0 0 1 5.198 0l7.81 7.81a3.75 3.75 0 0 1 0 5.198l-7.81 7.81a3.75 3.75 0 0 1-5.198 0l-7.81-7.81a3.75 3.75 0 0 1 0-5.198l7.81-7.81Zm2.599 5.658a.75.75 0 0 1 .75.75v5.25a.75.75 0 0 1-1.5 0V8a.75.75 0 0 1 .75-.75Zm0 10.5a.998.998 0 1 1 0-1.996.998.998 0 0 1 0 1.997Z" clipRule="evenodd" /></svg>
+              <span>{serverError}</span>
+            </div>
+          )}
+
           <AuthButton
             type="submit"
             disabled={!password || isLoading}
@@ -94,6 +105,8 @@ export function PasswordSignIn({
           <button 
             type="button"
             tabIndex={0}
+            onClick={onForgotPassword}
+            disabled={isLoading}
             className="text-stone-400/80 hover:text-stone-300 underline text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-2 py-1"
           >
             Forgot your password?
@@ -3,6 +3,8 @@ import { AuthCard } from "./auth-card"
 import { AuthButton } from "./auth-button"
 import { AuthHeader } from "./auth-header"
 import { Input } from "@/components/ui/input"
+import { useRateLimit } from "@/hooks/useRateLimit"
+import { formatRetryAfter, RATE_LIMITED_METHODS } from "@/lib/rate-limits"
 import { Label } from "@/components/ui/label"
 import { Mail, Check, AlertCircle } from "lucide-react"
 
@@ -14,6 +16,7 @@ interface PasswordlessSignInProps {
   onVerifyOtp: () => Promise<void>
   onBack: () => void
   isLoading: boolean
+  isResendLoading?: boolean
   serverError?: string
 }
 
@@ -25,10 +28,12 @@ export function PasswordlessSignIn({
   onVerifyOtp,
   onBack,
   isLoading,
+  isResendLoading = false,
   serverError
 }: PasswordlessSignInProps) {
   const [resendSuccess, setResendSuccess] = useState(false)
   const [resendCooldown, setResendCooldown] = useState(0)
+  const rateLimit = useRateLimit(RATE_LIMITED_METHODS.beginEmailOtpSignIn, email)
 
   // Resend cooldown timer
   useEffect(() => {
@@ -40,7 +45,10 @@ export function PasswordlessSignIn({
 
   const handleResendClick = async () => {
     try {
-      setResendCooldown(30) // 30 second cooldown
+      // Only set client-side cooldown if not rate limited by server
+      if (!rateLimit.isRateLimited) {
+        setResendCooldown(30) // 30 second cooldown
+      }
       await onResendEmail()
       onOtpChange("") // Clear the verification code input
       setResendSuccess(true)
@@ -126,7 +134,11 @@ export function PasswordlessSignIn({
         <div className="text-center mt-6">
           <p className="text-stone-300/80 text-sm">
             Didn&apos;t receive the code?{" "}
-            {resendCooldown > 0 ? (
+            {rateLimit.isRateLimited ? (
+              <span className="text-red-400/80">
+                Rate limit exceeded. Try again in {formatRetryAfter(rateLimit.secondsRemaining)}.
+              </span>
+            ) : resendCooldown > 0 ? (
               <span className="text-stone-400/60">
                 Resend in {resendCooldown}s
               </span>
@@ -134,10 +146,10 @@ export function PasswordlessSignIn({
               <button
                 type="button"
                 onClick={handleResendClick}
-                disabled={isLoading}
+                disabled={isLoading || isResendLoading || rateLimit.isRateLimited}
                 className="text-stone-200 hover:text-stone-100 underline underline-offset-2 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isLoading ? "Sending..." : "Resend code"}
+                {isResendLoading ? "Sending..." : "Resend code"}
               </button>
             )}
           </p>
@@ -145,7 +157,7 @@ export function PasswordlessSignIn({
         
         {/* Reserved space for success message - prevents layout shift */}
         <div className="h-6 mt-4 flex items-center justify-center">
-          {resendSuccess && (
+          {resendSuccess && !serverError && !rateLimit.isRateLimited && (
             <div className="flex items-center space-x-2 text-green-400 text-sm animate-in fade-in duration-300">
               <Check className="w-4 h-4" />
               <span>Code sent successfully!</span>
@@ -0,0 +1,145 @@
+import { useRef, useEffect, useState } from "react"
+import { AlertCircle } from "lucide-react"
+import { AuthCard } from "./auth-card"
+import { AuthButton } from "./auth-button"
+import { AuthHeader } from "./auth-header"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { getNameErrors, validatePreferredName, MAX_NAME_LENGTH } from "@/lib/validation"
+
+interface SignUpProfileProps {
+  email: string
+  name: string
+  preferredName: string
+  onNameChange: (name: string) => void
+  onPreferredNameChange: (preferredName: string) => void
+  onContinue: () => void
+  onBack: () => void
+  isLoading: boolean
+  serverError?: string
+}
+
+export function SignUpProfile({
+  email,
+  name,
+  preferredName,
+  onNameChange,
+  onPreferredNameChange,
+  onContinue,
+  onBack,
+  isLoading,
+  serverError
+}: SignUpProfileProps) {
+  const nameInputRef = useRef<HTMLInputElement>(null)
+  const [nameErrors, setNameErrors] = useState<string[]>([])
+  const [preferredNameError, setPreferredNameError] = useState<string>("")
+  const [showValidation, setShowValidation] = useState<boolean>(false)
+
+  // Auto-focus on name input when component mounts
+  useEffect(() => {
+    if (nameInputRef.current) {
+      nameInputRef.current.focus()
+    }
+  }, [])
+
+  // Handle form submission (Enter key)
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setShowValidation(true)
+
+    const currentNameErrors = getNameErrors(name)
+    const isPreferredNameValid = validatePreferredName(preferredName)
+
+    setNameErrors(currentNameErrors)
+    setPreferredNameError(
+      isPreferredNameValid ? "" : `Preferred name must be at most ${MAX_NAME_LENGTH} characters`
+    )
+
+    if (currentNameErrors.length === 0 && isPreferredNameValid && !isLoading) {
+      onContinue()
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <AuthHeader
+        title="Tell us about you"
+        showBackButton
+        onBack={onBack}
+      />
+
+      <AuthCard>
+        <p className="text-stone-200/90 text-center">
+          We&apos;ve sent a code to <b>{email}</b>. While it&apos;s on its way, what should we call you?
+        </p>
+
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="space-y-6 mb-6">
+            <div className="space-y-3">
+              <Label htmlFor="name" className="text-stone-100 font-medium text-base">
+                Full name
+              </Label>
+              <Input
+                id="name"
+                type="text"
+                autoComplete="name"
+                placeholder="Enter your full name"
+                value={name}
+                onChange={(e) => onNameChange(e.target.value)}
+                required
+                ref={nameInputRef}
+                className="h-12 bg-stone-900/70 border-stone-700/50 text-stone-50 placeholder:text-stone-400/60 focus:border-stone-500/90 focus:ring-stone-500/30 rounded-lg text-base"
+              />
+              <div className="text-xs text-red-400 min-h-[16px]">
+                {showValidation && nameErrors.length > 0 && (
+                  <div className="space-y-1">
+                    {nameErrors.map((error, index) => (
+                      <p key={index}>• {error}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="preferredName" className="text-stone-100 font-medium text-base">
+                Preferred name <span className="text-stone-400/80 font-normal">(optional)</span>
+              </Label>
+              <Input
+                id="preferredName"
+                type="text"
+                autoComplete="nickname"
+                placeholder="What you like to be called"
+                value={preferredName}
+                onChange={(e) => onPreferredNameChange(e.target.value)}
+                className="h-12 bg-stone-900/70 border-stone-700/50 text-stone-50 placeholder:text-stone-400/60 focus:border-stone-500/90 focus:ring-stone-500/30 rounded-lg text-base"
+              />
+              <div className="text-xs text-red-400 min-h-[16px]">
+                {showValidation && preferredNameError && (
+                  <p>• {preferredNameError}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Reserve space for server error below inputs, allow up to 2 lines */}
+          <div className="min-h-[40px] mb-4 flex items-center">
+            {serverError && (
+              <div className="flex items-center space-x-2 text-red-400 text-sm" role="alert">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{serverError}</span>
+              </div>
+            )}
+          </div>
+          <AuthButton
+            type="submit"
+            disabled={!name.trim() || isLoading}
+            loading={isLoading}
+          >
+            Continue
+          </AuthButton>
+        </form>
+      </AuthCard>
+    </div>
+  )
+}
@@ -2,12 +2,22 @@ import { CheckCircle2 } from "lucide-react"
 import { AuthCard } from "./auth-card"
 import { AuthHeader } from "./auth-header"
 import { AuthButton } from "./auth-button"
+import { AuthDivider } from "./auth-divider"
+import { PasskeyEnrollment } from "./passkey-enrollment"
 
 interface SignUpSuccessProps {
   onGoToSignIn: () => void
+  /** Present when sign-up already established a session; offers passkey enrollment. */
+  passkeyEnrollment?: {
+    isSupported: boolean
+    isRegistering: boolean
+    onRegister: (name?: string) => Promise<boolean>
+    serverError?: string
+    onContinue: () => void
+  }
 }
 
-export function SignUpSuccess({ onGoToSignIn }: SignUpSuccessProps) {
+export function SignUpSuccess({ onGoToSignIn, passkeyEnrollment }: SignUpSuccessProps) {
   return (
     <div className="w-full max-w-md mx-auto">
       <AuthHeader title="Welcome aboard! 🎉" />
@@ -17,17 +27,42 @@ export function SignUpSuccess({ onGoToSignIn }: SignUpSuccessProps) {
             <CheckCircle2 className="w-10 h-10 text-green-400" />
           </div>
           <h3 className="text-stone-100 text-xl font-semibold mb-2">Thank you for signing up</h3>
-          <p className="text-stone-300/80 text-sm mb-6">We&apos;re excited to have you! Your account is ready — sign in to get started.</p>
-          <AuthButton
-            onClick={onGoToSignIn}
-            className="text-lg"
-          >
-            Sign in to continue
-          </AuthButton>
+          {passkeyEnrollment ? (
+            <>
+              <p className="text-stone-300/80 text-sm mb-6">We&apos;re excited to have you! Your account is ready and you&apos;re signed in.</p>
+              <AuthButton
+                onClick={passkeyEnrollment.onContinue}
+                disabled={passkeyEnrollment.isRegistering}
+                className="text-lg"
+              >
+                Continue
+              </AuthButton>
+            </>
+          ) : (
+            <>
+              <p className="text-stone-300/80 text-sm mb-6">We&apos;re excited to have you! Your account is ready — sign in to get started.</p>
+              <AuthButton
+                onClick={onGoToSignIn}
+                className="text-lg"
+              >
+                Sign in to continue
+              </AuthButton>
+            </>
+          )}
         </div>
+
+        {passkeyEnrollment?.isSupported && (
+          <>
+            <AuthDivider text="optional" />
+            <PasskeyEnrollment
+              isSupported={passkeyEnrollment.isSupported}
+              isRegistering={passkeyEnrollment.isRegistering}
+              onRegister={passkeyEnrollment.onRegister}
+              serverError={passkeyEnrollment.serverError}
+            />
+          </>
+        )}
       </AuthCard>
     </div>
   )
 }
-
-
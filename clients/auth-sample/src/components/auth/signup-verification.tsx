@@ -4,6 +4,8 @@ import { AuthCard } from "./auth-card"
 import { AuthButton } from "./auth-button"
 import { AuthHeader } from "./auth-header"
 import { Input } from "@/components/ui/input"
+import { useRateLimit } from "@/hooks/useRateLimit"
+import { formatRetryAfter, RATE_LIMITED_METHODS } from "@/lib/rate-limits"
 import { Label } from "@/components/ui/label"
 
   interface SignUpVerificationProps {
@@ -16,8 +18,6 @@ import { Label } from "@/components/ui/label"
   isLoading: boolean
   isResendLoading?: boolean
   serverError?: string
-  isRateLimited?: boolean
-  rateLimitRetryAfter?: number
 }
 
 export function SignUpVerification({
@@ -29,12 +29,11 @@ export function SignUpVerification({
   onBack,
   isLoading,
   isResendLoading = false,
-  serverError,
-  isRateLimited = false,
-  rateLimitRetryAfter
+  serverError
 }: SignUpVerificationProps) {
   const [emailSent, setEmailSent] = useState(false)
   const [resendCooldown, setResendCooldown] = useState(0)
+  const rateLimit = useRateLimit(RATE_LIMITED_METHODS.resendVerificationCode, email)
   const otpInputRef = useRef<HTMLInputElement>(null)
 
   // Auto-focus on OTP input when component mounts
@@ -62,7 +61,7 @@ export function SignUpVerification({
 
   const handleResend = async () => {
     // Only set client-side cooldown if not rate limited by server
-    if (!isRateLimited) {
+    if (!rateLimit.isRateLimited) {
       setResendCooldown(30) // 30 second cooldown
     }
     await onResendEmail()
@@ -144,9 +143,9 @@ export function SignUpVerification({
         <div className="text-center mt-6">
           <p className="text-stone-300/80 text-sm">
             Didn&apos;t receive the code?{" "}
-            {isRateLimited ? (
+            {rateLimit.isRateLimited ? (
               <span className="text-red-400/80">
-                Rate limit exceeded. {rateLimitRetryAfter ? `Try again in ${rateLimitRetryAfter} minutes.` : "Please wait before trying again."}
+                Rate limit exceeded. Try again in {formatRetryAfter(rateLimit.secondsRemaining)}.
               </span>
             ) : resendCooldown > 0 ? (
               <span className="text-stone-400/60">
@@ -156,7 +155,7 @@ export function SignUpVerification({
               <button
                 type="button"
                 onClick={handleResend}
-                disabled={isLoading || isResendLoading || isRateLimited}
+                disabled={isLoading || isResendLoading || rateLimit.isRateLimited}
                 className="text-stone-200 hover:text-stone-100 underline underline-offset-2 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isResendLoading ? "Sending..." : "Resend code"}
@@ -0,0 +1,53 @@
+"use client"
+
+import type React from "react"
+import Link from "next/link"
+import { ThemeToggle } from "@/components/theme/theme-toggle"
+import { useSession, type SessionUser } from "@/hooks/useSession"
+import { useSessionExpiry } from "@/hooks/useSessionExpiry"
+import { SessionExpiryDialog } from "./session-expiry-dialog"
+import { UserMenu } from "./user-menu"
+
+/** Chrome for pages behind sign-in: who is signed in, the way out, and a warning before the session runs out. */
+export function AppShell({
+  children,
+  user,
+}: {
+  children: React.ReactNode
+  /** Server-verified user, shown when the OIDC profile has nothing better (service sessions). */
+  user?: SessionUser
+}) {
+  const session = useSession()
+  const expiry = useSessionExpiry()
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="border-b border-border bg-card/60 backdrop-blur">
+        <div className="mx-auto flex h-14 w-full max-w-3xl items-center justify-between px-4">
+          <Link href="/" className="font-semibold text-card-foreground">
+            Authentication Sample
+          </Link>
+          <div className="flex items-center gap-3">
+            <ThemeToggle />
+            <UserMenu
+              user={session.user ?? user}
+              onSignOut={session.signOut}
+              isSigningOut={session.isSigningOut}
+            />
+          </div>
+        </div>
+      </header>
+      <main className="flex-1">{children}</main>
+      <SessionExpiryDialog
+        open={expiry.isExpiring || expiry.isExpired}
+        secondsRemaining={expiry.secondsRemaining}
+        isExpired={expiry.isExpired}
+        isExtending={expiry.isExtending}
+        isSigningOut={session.isSigningOut}
+        errorMessage={expiry.errorMessage}
+        onExtend={expiry.extend}
+        onSignOut={session.signOut}
+      />
+    </div>
+  )
+}
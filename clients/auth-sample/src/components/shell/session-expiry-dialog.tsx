@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { AlertCircle, Clock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+interface SessionExpiryDialogProps {
+  open: boolean
+  secondsRemaining?: number
+  isExpired: boolean
+  isExtending: boolean
+  isSigningOut: boolean
+  errorMessage?: string
+  onExtend: () => void
+  onSignOut: () => void
+}
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+
+export function SessionExpiryDialog({
+  open,
+  secondsRemaining,
+  isExpired,
+  isExtending,
+  isSigningOut,
+  errorMessage,
+  onExtend,
+  onSignOut,
+}: SessionExpiryDialogProps) {
+  const extendButtonRef = useRef<HTMLButtonElement>(null)
+
+  // Put focus on the safe choice so Enter keeps the user's work
+  useEffect(() => {
+    if (open) extendButtonRef.current?.focus()
+  }, [open])
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expiry-title"
+        aria-describedby="session-expiry-description"
+        className="w-full max-w-sm rounded-lg border border-border bg-card p-6 shadow-xl"
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <Clock className="h-5 w-5 text-amber-500" />
+          <h2 id="session-expiry-title" className="text-lg font-semibold text-card-foreground">
+            {isExpired ? "Your session has expired" : "Your session is about to expire"}
+          </h2>
+        </div>
+        <p id="session-expiry-description" className="text-sm text-muted-foreground mb-4">
+          {isExpired || secondsRemaining === undefined
+            ? "Stay signed in to keep working where you left off."
+            : `You'll be signed out in ${formatCountdown(secondsRemaining)}. Stay signed in to keep what you're working on.`}
+        </p>
+
+        <div className="min-h-[20px] mb-4">
+          {errorMessage && (
+            <div className="flex items-center space-x-2 text-red-500 text-sm" role="alert">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{errorMessage}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onSignOut} disabled={isSigningOut || isExtending}>
+            {isSigningOut ? "Signing out..." : "Sign out"}
+          </Button>
+          <Button ref={extendButtonRef} onClick={onExtend} disabled={isExtending || isSigningOut}>
+            {isExtending ? "Extending..." : "Stay signed in"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
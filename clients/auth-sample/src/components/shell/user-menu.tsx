@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { ChevronDown, KeyRound, LogOut, Loader2 } from "lucide-react"
+import type { SessionUser } from "@/hooks/useSession"
+
+interface UserMenuProps {
+  user?: SessionUser
+  onSignOut: () => void
+  isSigningOut: boolean
+}
+
+const initialsOf = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("")
+
+export function UserMenu({ user, onSignOut, isSigningOut }: UserMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const displayName = user?.displayName ?? "Your account"
+
+  // Close on outside click or Escape, like a native menu
+  useEffect(() => {
+    if (!isOpen) return
+
+    const onPointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false)
+    }
+
+    document.addEventListener("mousedown", onPointerDown)
+    document.addEventListener("keydown", onKeyDown)
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown)
+      document.removeEventListener("keydown", onKeyDown)
+    }
+  }, [isOpen])
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-2 rounded-md border border-input bg-background px-2 h-9 text-sm hover:bg-accent hover:text-accent-foreground focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+      >
+        <span
+          aria-hidden="true"
+          className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-[10px] font-semibold text-primary-foreground"
+        >
+          {initialsOf(displayName) || "?"}
+        </span>
+        <span className="max-w-[10rem] truncate">{displayName}</span>
+        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label="Account"
+          className="absolute right-0 z-30 mt-2 w-60 rounded-md border border-border bg-card p-1 shadow-lg"
+        >
+          <div className="px-3 py-2 border-b border-border mb-1">
+            <p className="text-sm font-medium text-card-foreground truncate">{displayName}</p>
+            {user?.email && user.email !== displayName && (
+              <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+            )}
+          </div>
+          <Link
+            href="/account/passkeys"
+            role="menuitem"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-2 rounded-sm px-3 py-2 text-sm text-card-foreground hover:bg-accent"
+          >
+            <KeyRound className="h-4 w-4" />
+            Passkeys
+          </Link>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={onSignOut}
+            disabled={isSigningOut}
+            className="flex w-full items-center gap-2 rounded-sm px-3 py-2 text-sm text-card-foreground hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSigningOut ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+            {isSigningOut ? "Signing out..." : "Sign out"}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
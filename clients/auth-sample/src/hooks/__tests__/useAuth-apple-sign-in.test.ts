@@ -0,0 +1,114 @@
+import { renderHook, act } from '@testing-library/react'
+import { useAuth } from '../useAuth'
+import { readPendingFederatedSignIn } from '@/lib/federation'
+import type { AppleAuthorizationRequest } from '@/lib/apple'
+
+// Mock the gRPC clients
+const mockBeginFederatedSignInAsync = jest.fn()
+const mockBeginAppleSignInAsync = jest.fn()
+const mockCompleteAppleSignInAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignUpServiceClient: () => ({}),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({
+    beginFederatedSignInAsync: mockBeginFederatedSignInAsync,
+    beginAppleSignInAsync: mockBeginAppleSignInAsync,
+    completeAppleSignInAsync: mockCompleteAppleSignInAsync,
+  }),
+  createPasswordResetServiceClient: () => ({})
+}))
+
+// Runs the begin callback the way the real popup does, then answers as Apple would
+const mockSignInWithApplePopup = jest.fn()
+jest.mock('@/lib/apple', () => ({
+  ...jest.requireActual('@/lib/apple'),
+  isAppleSignInConfigured: () => true,
+  signInWithApplePopup: (begin: () => Promise<AppleAuthorizationRequest>) => mockSignInWithApplePopup(begin),
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+describe('useAuth - Sign in with Apple', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    window.sessionStorage.clear()
+    mockBeginAppleSignInAsync.mockResolvedValue({
+      getState: () => 'apple-state',
+      getNonce: () => 'apple-nonce',
+    })
+    mockCompleteAppleSignInAsync.mockResolvedValue({ getIsNewUser: () => true })
+    mockSignInWithApplePopup.mockImplementation(async (begin: () => Promise<AppleAuthorizationRequest>) => {
+      const { state } = await begin()
+      return {
+        code: 'apple-code',
+        state,
+        user: {
+          name: { firstName: 'Jane', lastName: 'Appleseed' },
+          email: 'jane@privaterelay.appleid.com',
+        },
+      }
+    })
+  })
+
+  it('should exchange the popup authorization through the Auth service with the one-time name', async () => {
+    const { result } = renderHook(() => useAuth())
+
+    await act(async () => {
+      await result.current.handleAppleSignUp()
+    })
+
+    expect(mockBeginAppleSignInAsync.mock.calls[0][0].getRedirectUri()).toBe('http://localhost/auth/apple/callback')
+    const request = mockCompleteAppleSignInAsync.mock.calls[0][0]
+    expect(request.getCode()).toBe('apple-code')
+    expect(request.getState()).toBe('apple-state')
+    expect(request.getName()).toBe('Jane Appleseed')
+    expect(mockBeginFederatedSignInAsync).not.toHaveBeenCalled()
+    expect(readPendingFederatedSignIn()).toBeUndefined()
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should complete without a name on later authorizations', async () => {
+    mockSignInWithApplePopup.mockImplementation(async (begin: () => Promise<AppleAuthorizationRequest>) => {
+      const { state } = await begin()
+      return { code: 'apple-code', state }
+    })
+    const { result } = renderHook(() => useAuth())
+
+    await act(async () => {
+      await result.current.handleAppleSignIn()
+    })
+
+    expect(mockCompleteAppleSignInAsync.mock.calls[0][0].getName()).toBe('')
+  })
+
+  it('should stay put when the user closes the popup', async () => {
+    mockSignInWithApplePopup.mockRejectedValue({ error: 'popup_closed_by_user' })
+    const { result } = renderHook(() => useAuth())
+
+    await act(async () => {
+      await result.current.handleAppleSignUp()
+    })
+
+    expect(mockCompleteAppleSignInAsync).not.toHaveBeenCalled()
+    expect(result.current.errorMessage).toMatch(/cancelled/i)
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should report the Auth service error when the exchange fails', async () => {
+    mockCompleteAppleSignInAsync.mockRejectedValue({ code: 16, message: 'The sign in request has expired. Please try again.' })
+    const { result } = renderHook(() => useAuth())
+
+    await act(async () => {
+      await result.current.handleAppleSignIn()
+    })
+
+    expect(result.current.errorMessage).toBeDefined()
+    expect(result.current.isLoading).toBe(false)
+  })
+})
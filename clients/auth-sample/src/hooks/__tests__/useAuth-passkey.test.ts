@@ -0,0 +1,148 @@
+import { renderHook, act } from '@testing-library/react'
+import { useAuth } from '../useAuth'
+import { ErrorCodes } from '@/lib/services/error-codes'
+import { friendlyMessageFor } from '@/lib/services/handle-api-error'
+
+// Mock the gRPC clients
+const mockBeginPasskeySignInAsync = jest.fn()
+const mockCompletePasskeySignInAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignUpServiceClient: () => ({}),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({
+    beginPasskeySignInAsync: mockBeginPasskeySignInAsync,
+    completePasskeySignInAsync: mockCompletePasskeySignInAsync,
+  }),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+const mockCredentialsGet = jest.fn()
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer
+
+const fakeAssertion = {
+  id: 'credential-id',
+  rawId: bytes(1, 2, 3),
+  type: 'public-key',
+  authenticatorAttachment: 'platform',
+  getClientExtensionResults: () => ({}),
+  response: {
+    clientDataJSON: bytes(4),
+    authenticatorData: bytes(5),
+    signature: bytes(6),
+    userHandle: null,
+  },
+}
+
+describe('useAuth - Passkey Sign-In', () => {
+  beforeAll(() => {
+    Object.defineProperty(window, 'PublicKeyCredential', { value: function PublicKeyCredential() {}, configurable: true })
+    Object.defineProperty(navigator, 'credentials', { value: { get: mockCredentialsGet }, configurable: true })
+  })
+
+  afterAll(() => {
+    delete (window as unknown as Record<string, unknown>).PublicKeyCredential
+    delete (navigator as unknown as Record<string, unknown>).credentials
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockBeginPasskeySignInAsync.mockResolvedValue({
+      getSession: () => 'cognito-session',
+      getCredentialRequestOptions: () => JSON.stringify({
+        challenge: 'AQID',
+        rpId: 'localhost',
+        allowCredentials: [{ type: 'public-key', id: 'BAUG' }],
+      }),
+    })
+    mockCompletePasskeySignInAsync.mockResolvedValue({})
+    mockCredentialsGet.mockResolvedValue(fakeAssertion)
+  })
+
+  const renderWithEmail = () => {
+    const hook = renderHook(() => useAuth())
+    act(() => {
+      hook.result.current.setEmail('test@example.com')
+    })
+    act(() => {
+      hook.result.current.setCurrentFlow('email-options')
+      hook.result.current.setCurrentFlow('password')
+      hook.result.current.setCurrentFlow('passkey')
+    })
+    return hook
+  }
+
+  it('should complete the assertion ceremony and send the credential back', async () => {
+    const { result } = renderWithEmail()
+
+    await act(async () => {
+      await result.current.handlePasskeySignIn()
+    })
+
+    expect(mockBeginPasskeySignInAsync.mock.calls[0][0].getEmailAddress()).toBe('test@example.com')
+
+    const publicKey = mockCredentialsGet.mock.calls[0][0].publicKey
+    expect(new Uint8Array(publicKey.challenge)).toEqual(new Uint8Array([1, 2, 3]))
+    expect(new Uint8Array(publicKey.allowCredentials[0].id)).toEqual(new Uint8Array([4, 5, 6]))
+
+    const completeRequest = mockCompletePasskeySignInAsync.mock.calls[0][0]
+    expect(completeRequest.getSession()).toBe('cognito-session')
+    expect(JSON.parse(completeRequest.getCredential())).toMatchObject({
+      id: 'credential-id',
+      rawId: 'AQID',
+      response: { clientDataJSON: 'BA', authenticatorData: 'BQ', signature: 'Bg' },
+    })
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should fall back to the password flow when the user cancels', async () => {
+    mockCredentialsGet.mockRejectedValue(new DOMException('cancelled', 'NotAllowedError'))
+    const { result } = renderWithEmail()
+
+    await act(async () => {
+      await result.current.handlePasskeySignIn()
+    })
+
+    expect(mockCompletePasskeySignInAsync).not.toHaveBeenCalled()
+    expect(result.current.currentFlow).toBe('password')
+    expect(result.current.errorMessage).toMatch(/cancelled/i)
+  })
+
+  it('should surface a friendly error when no passkey is registered', async () => {
+    mockBeginPasskeySignInAsync.mockRejectedValue({
+      code: 9,
+      message: 'No passkey is registered for this account.',
+      metadata: { 'error-code': ErrorCodes.PasskeyNotRegistered },
+    })
+    const { result } = renderWithEmail()
+
+    await act(async () => {
+      await result.current.handlePasskeySignIn()
+    })
+
+    expect(mockCredentialsGet).not.toHaveBeenCalled()
+    expect(result.current.currentFlow).toBe('passkey')
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.PasskeyNotRegistered])
+  })
+
+  it('should surface a friendly error when the server rejects the assertion', async () => {
+    mockCompletePasskeySignInAsync.mockRejectedValue({
+      code: 16,
+      message: 'Passkey verification failed.',
+      metadata: { 'error-code': ErrorCodes.PasskeyVerificationFailed },
+    })
+    const { result } = renderWithEmail()
+
+    await act(async () => {
+      await result.current.handlePasskeySignIn()
+    })
+
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.PasskeyVerificationFailed])
+    expect(result.current.isLoading).toBe(false)
+  })
+})
@@ -0,0 +1,172 @@
+import { renderHook, act } from '@testing-library/react'
+import { useAuth } from '../useAuth'
+import { ErrorCodes } from '@/lib/services/error-codes'
+import { friendlyMessageFor } from '@/lib/services/handle-api-error'
+
+// Mock the gRPC clients
+const mockBeginPasswordResetAsync = jest.fn()
+const mockCompletePasswordResetAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignUpServiceClient: () => ({}),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({
+    beginPasswordResetAsync: mockBeginPasswordResetAsync,
+    completePasswordResetAsync: mockCompletePasswordResetAsync,
+  })
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+describe('useAuth - Password Reset', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockBeginPasswordResetAsync.mockResolvedValue({})
+    mockCompletePasswordResetAsync.mockResolvedValue({})
+  })
+
+  const renderAtPasswordPrompt = () => {
+    const hook = renderHook(() => useAuth())
+    act(() => {
+      hook.result.current.setEmail('test@example.com')
+      hook.result.current.setPassword('forgotten')
+    })
+    act(() => {
+      hook.result.current.setCurrentFlow('email-options')
+      hook.result.current.setCurrentFlow('password')
+    })
+    return hook
+  }
+
+  const renderWithResetCode = async () => {
+    const hook = renderAtPasswordPrompt()
+    act(() => {
+      hook.result.current.handleForgotPassword()
+    })
+    await act(async () => {
+      await hook.result.current.handlePasswordResetRequest()
+    })
+    act(() => {
+      hook.result.current.setOtpCode('123456')
+    })
+    act(() => {
+      hook.result.current.handlePasswordResetCodeContinue()
+      hook.result.current.setPassword('newPassword1')
+      hook.result.current.setPasswordConfirmation('newPassword1')
+    })
+    return hook
+  }
+
+  it('should keep the email and clear the old password when leaving the sign-in prompt', () => {
+    const { result } = renderAtPasswordPrompt()
+
+    act(() => {
+      result.current.handleForgotPassword()
+    })
+
+    expect(result.current.currentFlow).toBe('reset-request')
+    expect(result.current.email).toBe('test@example.com')
+    expect(result.current.password).toBe('')
+  })
+
+  it('should send a reset code and move on to the code step', async () => {
+    const { result } = renderAtPasswordPrompt()
+    act(() => {
+      result.current.handleForgotPassword()
+    })
+
+    await act(async () => {
+      await result.current.handlePasswordResetRequest()
+    })
+
+    expect(mockBeginPasswordResetAsync.mock.calls[0][0].getEmailAddress()).toBe('test@example.com')
+    expect(result.current.currentFlow).toBe('reset-verify')
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should show the rate limit when too many codes are requested', async () => {
+    mockBeginPasswordResetAsync.mockRejectedValue({
+      code: ErrorCodes.ResourceExhausted,
+      message: 'Rate limit exceeded',
+      metadata: { 'error-code': ErrorCodes.ResourceExhausted, 'retry-after-seconds': '120' },
+    })
+    const { result } = renderAtPasswordPrompt()
+    act(() => {
+      result.current.handleForgotPassword()
+    })
+
+    await act(async () => {
+      await result.current.handlePasswordResetRequest()
+    })
+
+    expect(result.current.errorMessage).toContain(friendlyMessageFor[ErrorCodes.ResourceExhausted])
+    expect(result.current.currentFlow).toBe('reset-request')
+  })
+
+  it('should resend the code without leaving the code step', async () => {
+    const { result } = await renderWithResetCode()
+    act(() => {
+      result.current.setCurrentFlow('reset-verify')
+    })
+
+    await act(async () => {
+      await result.current.handleResendPasswordResetCode()
+    })
+
+    expect(mockBeginPasswordResetAsync).toHaveBeenCalledTimes(2)
+    expect(result.current.currentFlow).toBe('reset-verify')
+    expect(result.current.isResendLoading).toBe(false)
+  })
+
+  it('should submit the code together with the new password', async () => {
+    const { result } = await renderWithResetCode()
+
+    await act(async () => {
+      await result.current.handlePasswordResetComplete()
+    })
+
+    const request = mockCompletePasswordResetAsync.mock.calls[0][0]
+    expect(request.getEmailAddress()).toBe('test@example.com')
+    expect(request.getVerificationCode()).toBe('123456')
+    expect(request.getNewPassword()).toBe('newPassword1')
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should return to the code step when the code is wrong', async () => {
+    mockCompletePasswordResetAsync.mockRejectedValue({
+      code: 3,
+      message: 'Verification code mismatch',
+      metadata: { 'error-code': ErrorCodes.VerificationCodeMismatch },
+    })
+    const { result } = await renderWithResetCode()
+
+    await act(async () => {
+      await result.current.handlePasswordResetComplete()
+    })
+
+    expect(result.current.currentFlow).toBe('reset-verify')
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.VerificationCodeMismatch])
+  })
+
+  it('should stay on the new password step when the password is rejected', async () => {
+    mockCompletePasswordResetAsync.mockRejectedValue({
+      code: 3,
+      message: 'Password does not conform to policy',
+      metadata: { 'error-code': ErrorCodes.PasswordPolicyViolation },
+    })
+    const { result } = await renderWithResetCode()
+
+    await act(async () => {
+      await result.current.handlePasswordResetComplete()
+    })
+
+    expect(result.current.currentFlow).toBe('reset-new-password')
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.PasswordPolicyViolation])
+  })
+})
@@ -0,0 +1,126 @@
+import { renderHook, act } from '@testing-library/react'
+import { useAuth } from '../useAuth'
+import { ErrorCodes } from '@/lib/services/error-codes'
+import { friendlyMessageFor } from '@/lib/services/handle-api-error'
+
+// Mock the gRPC clients
+const mockSignInWithPasswordAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignUpServiceClient: () => ({}),
+  createSignInServiceClient: () => ({
+    signInWithPasswordAsync: mockSignInWithPasswordAsync,
+  }),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
+}))
+
+const mockSigninRedirect = jest.fn()
+jest.mock('react-oidc-context', () => ({
+  useAuth: () => ({
+    signinRedirect: mockSigninRedirect,
+  }),
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+describe('useAuth - Password Sign-In', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSignInWithPasswordAsync.mockResolvedValue({})
+  })
+
+  const renderWithCredentials = () => {
+    const hook = renderHook(() => useAuth())
+    act(() => {
+      hook.result.current.setEmail('test@example.com')
+      hook.result.current.setPassword('correct horse')
+    })
+    act(() => {
+      hook.result.current.setCurrentFlow('email-options')
+      hook.result.current.setCurrentFlow('password')
+    })
+    return hook
+  }
+
+  it('should authenticate over gRPC instead of redirecting to the hosted page', async () => {
+    const { result } = renderWithCredentials()
+
+    await act(async () => {
+      await result.current.handlePasswordSignIn()
+    })
+
+    const request = mockSignInWithPasswordAsync.mock.calls[0][0]
+    expect(request.getEmailAddress()).toBe('test@example.com')
+    expect(request.getPassword()).toBe('correct horse')
+    expect(mockSigninRedirect).not.toHaveBeenCalled()
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should carry the page the user asked for through the OIDC state', async () => {
+    window.history.replaceState(null, '', '/sign-in?callbackUrl=%2Faccount%2Fpasskeys')
+    const { result } = renderHook(() => useAuth())
+
+    await act(async () => {
+      await result.current.handleGoogleSignIn()
+    })
+
+    expect(mockSigninRedirect).toHaveBeenCalledWith({ state: { callbackUrl: '/account/passkeys' } })
+    window.history.replaceState(null, '', '/')
+    window.sessionStorage.clear()
+  })
+
+  it('should show an inline error when the password is wrong', async () => {
+    mockSignInWithPasswordAsync.mockRejectedValue({
+      code: 16,
+      message: 'Incorrect email address or password.',
+      metadata: { 'error-code': ErrorCodes.InvalidCredentials },
+    })
+    const { result } = renderWithCredentials()
+
+    await act(async () => {
+      await result.current.handlePasswordSignIn()
+    })
+
+    expect(result.current.currentFlow).toBe('password')
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.InvalidCredentials])
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should show an inline error when the account is not confirmed', async () => {
+    mockSignInWithPasswordAsync.mockRejectedValue({
+      code: 9,
+      message: 'The account has not been confirmed.',
+      metadata: { 'error-code': ErrorCodes.AccountNotConfirmed },
+    })
+    const { result } = renderWithCredentials()
+
+    await act(async () => {
+      await result.current.handlePasswordSignIn()
+    })
+
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.AccountNotConfirmed])
+  })
+
+  it('should clear the error once the password is edited', async () => {
+    mockSignInWithPasswordAsync.mockRejectedValue({
+      code: 16,
+      metadata: { 'error-code': ErrorCodes.InvalidCredentials },
+    })
+    const { result } = renderWithCredentials()
+
+    await act(async () => {
+      await result.current.handlePasswordSignIn()
+    })
+    act(() => {
+      result.current.setPassword('correct horse battery')
+    })
+
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+})
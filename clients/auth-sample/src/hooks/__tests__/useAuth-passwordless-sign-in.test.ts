@@ -0,0 +1,147 @@
+import { renderHook, act } from '@testing-library/react'
+import { useAuth } from '../useAuth'
+import { ErrorCodes } from '@/lib/services/error-codes'
+import { friendlyMessageFor } from '@/lib/services/handle-api-error'
+
+// Mock the gRPC clients
+const mockBeginEmailOtpSignInAsync = jest.fn()
+const mockCompleteEmailOtpSignInAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignUpServiceClient: () => ({}),
+  createSignInServiceClient: () => ({
+    beginEmailOtpSignInAsync: mockBeginEmailOtpSignInAsync,
+    completeEmailOtpSignInAsync: mockCompleteEmailOtpSignInAsync,
+  }),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
+}))
+
+const mockSigninRedirect = jest.fn()
+jest.mock('react-oidc-context', () => ({
+  useAuth: () => ({
+    signinRedirect: mockSigninRedirect,
+  }),
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+describe('useAuth - Passwordless Sign-In', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    let sessionCount = 0
+    mockBeginEmailOtpSignInAsync.mockImplementation(() => {
+      sessionCount++
+      return Promise.resolve({ getSession: () => `otp-session-${sessionCount}` })
+    })
+    mockCompleteEmailOtpSignInAsync.mockResolvedValue({})
+  })
+
+  const renderAtEmailOptions = () => {
+    const hook = renderHook(() => useAuth())
+    act(() => {
+      hook.result.current.setCurrentFlow('email-options')
+      hook.result.current.setEmail('test@example.com')
+    })
+    return hook
+  }
+
+  it('should send a code and move to code entry', async () => {
+    const { result } = renderAtEmailOptions()
+
+    await act(async () => {
+      await result.current.handlePasswordlessSignIn()
+    })
+
+    expect(mockBeginEmailOtpSignInAsync.mock.calls[0][0].getEmailAddress()).toBe('test@example.com')
+    expect(mockSigninRedirect).not.toHaveBeenCalled()
+    expect(result.current.currentFlow).toBe('passwordless')
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should stay on email options when no account exists', async () => {
+    mockBeginEmailOtpSignInAsync.mockRejectedValue({
+      code: 5,
+      metadata: { 'error-code': ErrorCodes.UserNotFound },
+    })
+    const { result } = renderAtEmailOptions()
+
+    await act(async () => {
+      await result.current.handlePasswordlessSignIn()
+    })
+
+    expect(result.current.currentFlow).toBe('email-options')
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.UserNotFound])
+  })
+
+  it('should verify the code against the most recent session', async () => {
+    const { result } = renderAtEmailOptions()
+
+    await act(async () => {
+      await result.current.handlePasswordlessSignIn()
+    })
+    await act(async () => {
+      await result.current.handleResendSignInCode()
+    })
+    act(() => {
+      result.current.setOtpCode('123456')
+    })
+    await act(async () => {
+      await result.current.handleOtpVerification()
+    })
+
+    const request = mockCompleteEmailOtpSignInAsync.mock.calls[0][0]
+    expect(request.getEmailAddress()).toBe('test@example.com')
+    expect(request.getSession()).toBe('otp-session-2')
+    expect(request.getVerificationCode()).toBe('123456')
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should show an inline error for a wrong code', async () => {
+    mockCompleteEmailOtpSignInAsync.mockRejectedValue({
+      code: 3,
+      metadata: { 'error-code': ErrorCodes.VerificationCodeMismatch },
+    })
+    const { result } = renderAtEmailOptions()
+
+    await act(async () => {
+      await result.current.handlePasswordlessSignIn()
+    })
+    act(() => {
+      result.current.setOtpCode('000000')
+    })
+    await act(async () => {
+      await result.current.handleOtpVerification()
+    })
+
+    expect(result.current.currentFlow).toBe('passwordless')
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.VerificationCodeMismatch])
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should surface rate limiting when resending too often', async () => {
+    const { result } = renderAtEmailOptions()
+
+    await act(async () => {
+      await result.current.handlePasswordlessSignIn()
+    })
+
+    mockBeginEmailOtpSignInAsync.mockRejectedValue({
+      code: 8,
+      message: 'Too many requests. Try again in 42 minutes.',
+      metadata: { 'error-code': ErrorCodes.ResourceExhausted, 'retry-after-seconds': '2520' },
+    })
+
+    await act(async () => {
+      await result.current.handleResendSignInCode()
+    })
+
+    expect(result.current.isResendLoading).toBe(false)
+    expect(result.current.errorMessage).toContain(friendlyMessageFor[ErrorCodes.ResourceExhausted])
+  })
+})
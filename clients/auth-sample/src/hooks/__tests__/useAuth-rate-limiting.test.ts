@@ -7,7 +7,11 @@ const mockResendVerificationCodeAsync = jest.fn()
 jest.mock('@/lib/services/grpc-clients', () => ({
   createSignUpServiceClient: () => ({
     resendVerificationCodeAsync: mockResendVerificationCodeAsync
-  })
+  }),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
 }))
 
 // Mock the workflow system
@@ -58,8 +62,6 @@ describe('useAuth - Rate Limiting', () => {
       await result.current.handleResendVerificationCode()
     })
 
-    expect(result.current.isRateLimited).toBe(false)
-    expect(result.current.rateLimitRetryAfter).toBeUndefined()
     expect(result.current.errorMessage).toBeUndefined()
   })
 
@@ -84,42 +86,12 @@ describe('useAuth - Rate Limiting', () => {
       await result.current.handleResendVerificationCode()
     })
 
-    expect(result.current.isRateLimited).toBe(true)
-    expect(result.current.rateLimitRetryAfter).toBeUndefined()
-    expect(result.current.errorMessage).toBe(
-      "You've reached the maximum number of resend attempts (5 per hour). Please wait before trying again."
-    )
-  })
-
-  it('should extract retry-after minutes from server message', async () => {
-    const rateLimitError = {
-      code: ErrorCodes.ResourceExhausted,
-      message: 'Rate limit exceeded. Try again in 30 minutes.',
-      metadata: { 'error-code': ErrorCodes.ResourceExhausted }
-    }
-
-    mockResendVerificationCodeAsync.mockRejectedValue(rateLimitError)
-
-    const { result } = renderHook(() => useAuth())
-
-    // Set email for the test
-    act(() => {
-      result.current.setEmail('test@example.com')
-    })
-
-    // Call resend verification code
-    await act(async () => {
-      await result.current.handleResendVerificationCode()
-    })
-
-    expect(result.current.isRateLimited).toBe(true)
-    expect(result.current.rateLimitRetryAfter).toBe(30)
     expect(result.current.errorMessage).toBe(
       "You've reached the maximum number of resend attempts (5 per hour). Please wait before trying again."
     )
   })
 
-  it('should clear rate limit state before new resend attempt', async () => {
+  it('should clear the rate limit error after a successful resend', async () => {
     const { result } = renderHook(() => useAuth())
 
     // Set email for the test
@@ -140,7 +112,9 @@ describe('useAuth - Rate Limiting', () => {
       await result.current.handleResendVerificationCode()
     })
 
-    expect(result.current.isRateLimited).toBe(true)
+    expect(result.current.errorMessage).toBe(
+      "You've reached the maximum number of resend attempts (5 per hour). Please wait before trying again."
+    )
 
     // Now simulate a successful resend
     mockResendVerificationCodeAsync.mockResolvedValueOnce({})
@@ -149,8 +123,6 @@ describe('useAuth - Rate Limiting', () => {
       await result.current.handleResendVerificationCode()
     })
 
-    expect(result.current.isRateLimited).toBe(false)
-    expect(result.current.rateLimitRetryAfter).toBeUndefined()
     expect(result.current.errorMessage).toBeUndefined()
   })
 
@@ -175,8 +147,6 @@ describe('useAuth - Rate Limiting', () => {
       await result.current.handleResendVerificationCode()
     })
 
-    expect(result.current.isRateLimited).toBe(false)
-    expect(result.current.rateLimitRetryAfter).toBeUndefined()
     expect(result.current.errorMessage).toBe(
       "We couldn't send a verification code. Please try again later."
     )
@@ -203,8 +173,6 @@ describe('useAuth - Rate Limiting', () => {
       await result.current.handleResendVerificationCode()
     })
 
-    expect(result.current.isRateLimited).toBe(false)
-    expect(result.current.rateLimitRetryAfter).toBeUndefined()
     expect(result.current.errorMessage).toBe(
       "Something went wrong. Please try again in a moment."
     )
@@ -18,7 +18,11 @@ jest.mock('@/lib/services/grpc-clients', () => ({
     verifyAndSignInAsync: jest.fn(() => Promise.resolve({
       getNextStep: () => 2 // SignUpStep.SIGN_IN_REQUIRED
     }))
-  })
+  }),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
 }))
 
 describe('useAuth - Resend Functionality', () => {
@@ -54,13 +58,11 @@ describe('useAuth - Resend Functionality', () => {
       expect(request.getEmailAddress()).toBe('test@example.com')
 
       // Verify state is correct after successful resend
-      expect(result.current.isRateLimited).toBe(false)
-      expect(result.current.rateLimitRetryAfter).toBeUndefined()
       expect(result.current.errorMessage).toBeUndefined()
       expect(result.current.isResendLoading).toBe(false)
     })
 
-    it('should clear previous rate limit state before new resend attempt', async () => {
+    it('should clear the rate limit error after a successful resend', async () => {
       const { result } = renderHook(() => useAuth())
 
       act(() => {
@@ -80,7 +82,9 @@ describe('useAuth - Resend Functionality', () => {
         await result.current.handleResendVerificationCode()
       })
 
-      expect(result.current.isRateLimited).toBe(true)
+      expect(result.current.errorMessage).toBe(
+        "You've reached the maximum number of resend attempts (5 per hour). Please wait before trying again."
+      )
 
       // Now simulate a successful resend
       mockResendVerificationCodeAsync.mockResolvedValueOnce({})
@@ -89,40 +93,11 @@ describe('useAuth - Resend Functionality', () => {
         await result.current.handleResendVerificationCode()
       })
 
-      // Verify rate limit state was cleared
-      expect(result.current.isRateLimited).toBe(false)
-      expect(result.current.rateLimitRetryAfter).toBeUndefined()
+      // Verify the rate limit error was cleared
       expect(result.current.errorMessage).toBeUndefined()
     })
 
-    it('should handle rate limit exceeded error with retry time extraction', async () => {
-      const rateLimitError = {
-        code: ErrorCodes.ResourceExhausted,
-        message: 'Rate limit exceeded. Try again in 45 minutes.',
-        metadata: { 'error-code': ErrorCodes.ResourceExhausted }
-      }
-
-      mockResendVerificationCodeAsync.mockRejectedValue(rateLimitError)
-
-      const { result } = renderHook(() => useAuth())
-
-      act(() => {
-        result.current.setEmail('test@example.com')
-      })
-
-      await act(async () => {
-        await result.current.handleResendVerificationCode()
-      })
-
-      // Verify rate limiting state
-      expect(result.current.isRateLimited).toBe(true)
-      expect(result.current.rateLimitRetryAfter).toBe(45)
-      expect(result.current.errorMessage).toBe(
-        "You've reached the maximum number of resend attempts (5 per hour). Please wait before trying again."
-      )
-    })
-
-    it('should handle rate limit exceeded error without retry time', async () => {
+    it('should handle rate limit exceeded error', async () => {
       const rateLimitError = {
         code: ErrorCodes.ResourceExhausted,
         message: 'Rate limit exceeded',
@@ -141,9 +116,6 @@ describe('useAuth - Resend Functionality', () => {
         await result.current.handleResendVerificationCode()
       })
 
-      // Verify rate limiting state
-      expect(result.current.isRateLimited).toBe(true)
-      expect(result.current.rateLimitRetryAfter).toBeUndefined()
       expect(result.current.errorMessage).toBe(
         "You've reached the maximum number of resend attempts (5 per hour). Please wait before trying again."
       )
@@ -169,8 +141,6 @@ describe('useAuth - Resend Functionality', () => {
       })
 
       // Verify error handling
-      expect(result.current.isRateLimited).toBe(false)
-      expect(result.current.rateLimitRetryAfter).toBeUndefined()
       expect(result.current.errorMessage).toBe(
         "We couldn't send a verification code. Please try again later."
       )
@@ -196,8 +166,6 @@ describe('useAuth - Resend Functionality', () => {
       })
 
       // Verify error handling
-      expect(result.current.isRateLimited).toBe(false)
-      expect(result.current.rateLimitRetryAfter).toBeUndefined()
       expect(result.current.errorMessage).toBe(
         "Something went wrong. Please try again in a moment."
       )
@@ -218,8 +186,6 @@ describe('useAuth - Resend Functionality', () => {
       })
 
       // Verify error handling for non-gRPC errors
-      expect(result.current.isRateLimited).toBe(false)
-      expect(result.current.rateLimitRetryAfter).toBeUndefined()
       expect(result.current.errorMessage).toBe(
         "Something went wrong. Please try again in a moment."
       )
@@ -231,8 +197,6 @@ describe('useAuth - Resend Functionality', () => {
       const { result } = renderHook(() => useAuth())
 
       expect(result.current.isResendLoading).toBe(false)
-      expect(result.current.isRateLimited).toBe(false)
-      expect(result.current.rateLimitRetryAfter).toBeUndefined()
     })
 
     it('should maintain signup state consistency during resend operations', async () => {
@@ -0,0 +1,161 @@
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useAuth } from '../useAuth'
+import { SIGN_UP_SESSION_TTL_MS, readResumableSignUp } from '@/lib/signup-session'
+import { SignUpStep } from '@/lib/services/auth/sign-up/sign-up_pb'
+
+// Mock the gRPC clients
+const mockInitiateSignUpAsync = jest.fn()
+const mockVerifyAndSignInAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignUpServiceClient: () => ({
+    initiateSignUpAsync: mockInitiateSignUpAsync,
+    verifyAndSignInAsync: mockVerifyAndSignInAsync,
+  }),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
+}))
+
+// Capture how workflows are started so the resumed span link can be checked
+const originalWorkflow = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: 1 }
+const mockStartWorkflow = jest.fn()
+jest.mock('@/lib/workflows', () => ({
+  startWorkflow: (...args: unknown[]) => mockStartWorkflow(...args),
+}))
+
+// Mock console.log to avoid noise in tests
+const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation(() => { })
+
+describe('useAuth - Resuming sign-up', () => {
+  afterAll(() => {
+    mockConsoleLog.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    window.sessionStorage.clear()
+    mockInitiateSignUpAsync.mockResolvedValue({})
+    mockVerifyAndSignInAsync.mockResolvedValue({ getNextStep: () => SignUpStep.SIGN_IN_REQUIRED })
+    mockStartWorkflow.mockReturnValue({
+      reference: originalWorkflow,
+      startStep: () => ({
+        run: (fn: () => Promise<unknown>) => fn(),
+        fail: jest.fn(),
+        succeed: jest.fn()
+      }),
+      succeed: jest.fn()
+    })
+  })
+
+  const sendCode = async () => {
+    const hook = renderHook(() => useAuth('signup-main'))
+    act(() => {
+      hook.result.current.handlePasswordlessSignUpFlowStart()
+      hook.result.current.setEmail('test@example.com')
+    })
+    await act(async () => {
+      await hook.result.current.handlePasswordlessEmailContinue()
+    })
+    return hook
+  }
+
+  it('should remember the sign-up once the code has been sent', async () => {
+    await sendCode()
+
+    expect(readResumableSignUp()).toMatchObject({
+      email: 'test@example.com',
+      signupMethod: 'passwordless',
+      workflow: originalWorkflow,
+    })
+  })
+
+  it('should never store the password', async () => {
+    const { result } = renderHook(() => useAuth('signup-main'))
+    act(() => {
+      result.current.handlePasswordSignUpFlowStart()
+      result.current.setEmail('test@example.com')
+      result.current.setPassword('Sup3r$ecret!')
+    })
+
+    await act(async () => {
+      await result.current.handlePasswordSignUp()
+    })
+
+    expect(window.sessionStorage.getItem('auth.signup.pending')).not.toContain('Sup3r$ecret!')
+  })
+
+  it('should resume at verification after a reload', async () => {
+    const first = await sendCode()
+    act(() => {
+      first.result.current.setName('Test User')
+    })
+    act(() => {
+      first.result.current.handleSignUpProfileContinue()
+    })
+    first.unmount()
+
+    const { result } = renderHook(() => useAuth('signup-main'))
+
+    await waitFor(() => expect(result.current.currentFlow).toBe('signup-verification'))
+    expect(result.current.email).toBe('test@example.com')
+    expect(result.current.name).toBe('Test User')
+    expect(result.current.signupMethod).toBe('passwordless')
+  })
+
+  it('should link the resumed workflow to the original one', async () => {
+    const first = await sendCode()
+    first.unmount()
+    mockStartWorkflow.mockClear()
+
+    renderHook(() => useAuth('signup-main'))
+
+    await waitFor(() => expect(mockStartWorkflow).toHaveBeenCalled())
+    expect(mockStartWorkflow).toHaveBeenCalledWith(
+      'signup',
+      'v1',
+      { method: 'passwordless' },
+      { resumes: originalWorkflow }
+    )
+  })
+
+  it('should start over once the saved sign-up has expired', async () => {
+    const first = await sendCode()
+    first.unmount()
+    const now = Date.now()
+    const mockNow = jest.spyOn(Date, 'now').mockReturnValue(now + SIGN_UP_SESSION_TTL_MS + 1)
+
+    const { result } = renderHook(() => useAuth('signup-main'))
+
+    expect(result.current.currentFlow).toBe('signup-main')
+    expect(result.current.email).toBe('')
+    expect(readResumableSignUp()).toBeUndefined()
+    mockNow.mockRestore()
+  })
+
+  it('should forget the sign-up once the account is verified', async () => {
+    const { result } = await sendCode()
+    act(() => {
+      result.current.setName('Test User')
+      result.current.handleSignUpProfileContinue()
+      result.current.setOtpCode('123456')
+    })
+
+    await act(async () => {
+      await result.current.handleSignUpOtpVerification()
+    })
+
+    expect(result.current.currentFlow).toBe('signup-success')
+    expect(readResumableSignUp()).toBeUndefined()
+  })
+
+  it('should not resume a sign-up on the sign-in page', async () => {
+    const first = await sendCode()
+    first.unmount()
+
+    const { result } = renderHook(() => useAuth())
+
+    expect(result.current.currentFlow).toBe('main')
+    expect(result.current.email).toBe('')
+  })
+})
@@ -0,0 +1,94 @@
+import { renderHook, act } from '@testing-library/react'
+import { useAuth } from '../useAuth'
+import { SignUpStep } from '@/lib/services/auth/sign-up/sign-up_pb'
+
+// Mock the gRPC clients
+const mockInitiateSignUpAsync = jest.fn()
+const mockVerifyAndSignInAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignUpServiceClient: () => ({
+    initiateSignUpAsync: mockInitiateSignUpAsync,
+    verifyAndSignInAsync: mockVerifyAndSignInAsync,
+  }),
+  createSignInServiceClient: () => ({}),
+  createPasskeyServiceClient: () => ({}),
+  createFederationServiceClient: () => ({}),
+  createPasswordResetServiceClient: () => ({})
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation(() => { })
+
+describe('useAuth - Sign-up profile', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+    mockConsoleLog.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockInitiateSignUpAsync.mockResolvedValue({})
+    mockVerifyAndSignInAsync.mockResolvedValue({ getNextStep: () => SignUpStep.SIGN_IN_REQUIRED })
+  })
+
+  const renderAfterCodeSent = async () => {
+    const hook = renderHook(() => useAuth())
+    act(() => {
+      hook.result.current.handlePasswordlessSignUpFlowStart()
+      hook.result.current.setEmail('john.doe+test@example.com')
+    })
+    await act(async () => {
+      await hook.result.current.handlePasswordlessEmailContinue()
+    })
+    return hook
+  }
+
+  it('should ask for a name once the verification code has been sent', async () => {
+    const { result } = await renderAfterCodeSent()
+
+    expect(result.current.currentFlow).toBe('signup-profile')
+
+    act(() => {
+      result.current.setName('John Doe')
+      result.current.handleSignUpProfileContinue()
+    })
+
+    expect(result.current.currentFlow).toBe('signup-verification')
+  })
+
+  it('should send the collected name instead of the email local-part', async () => {
+    const { result } = await renderAfterCodeSent()
+    act(() => {
+      result.current.setName('  Jonathan Doe ')
+      result.current.setPreferredName('Jon')
+      result.current.handleSignUpProfileContinue()
+      result.current.setOtpCode('123456')
+    })
+
+    await act(async () => {
+      await result.current.handleSignUpOtpVerification()
+    })
+
+    const request = mockVerifyAndSignInAsync.mock.calls[0][0]
+    expect(request.getName()).toBe('Jonathan Doe')
+    expect(request.getPreferredName()).toBe('Jon')
+    expect(result.current.currentFlow).toBe('signup-success')
+  })
+
+  it('should leave the preferred name unset when it is blank', async () => {
+    const { result } = await renderAfterCodeSent()
+    act(() => {
+      result.current.setName('John Doe')
+      result.current.setPreferredName('   ')
+      result.current.handleSignUpProfileContinue()
+      result.current.setOtpCode('123456')
+    })
+
+    await act(async () => {
+      await result.current.handleSignUpOtpVerification()
+    })
+
+    expect(mockVerifyAndSignInAsync.mock.calls[0][0].hasPreferredName()).toBe(false)
+  })
+})
@@ -1,5 +1,8 @@
 import { renderHook, act } from '@testing-library/react'
 import { useAuth } from '../useAuth'
+import { ErrorCodes } from '@/lib/services/error-codes'
+import { friendlyMessageFor } from '@/lib/services/handle-api-error'
+import { readPendingFederatedSignIn } from '@/lib/federation'
 
 describe('useAuth', () => {
   beforeEach(() => {
@@ -67,6 +70,35 @@ describe('useAuth', () => {
 
       expect(result.current.currentFlow).toBe('email-options')
     })
+
+    it('should ignore flow changes the flow machine does not allow', () => {
+      const { result } = renderHook(() => useAuth('signup-main'))
+
+      act(() => {
+        result.current.setCurrentFlow('signup-verification')
+      })
+
+      expect(result.current.currentFlow).toBe('signup-main')
+    })
+
+    it('should go back through the steps taken', () => {
+      const { result } = renderHook(() => useAuth())
+
+      act(() => {
+        result.current.setEmail('test@example.com')
+      })
+      act(() => {
+        result.current.setCurrentFlow('email-options')
+        result.current.setCurrentFlow('password')
+      })
+      act(() => {
+        result.current.goBack()
+      })
+
+      expect(result.current.currentFlow).toBe('email-options')
+      expect(result.current.flowDirection).toBe('backward')
+      expect(result.current.canGoBack).toBe(true)
+    })
   })
 
   describe('sign-in handlers', () => {
@@ -88,7 +120,7 @@ describe('useAuth', () => {
         await result.current.handleAppleSignIn()
       })
 
-      // All sign-in methods use OIDC redirect, so we just verify the method exists and can be called
+      // Apple sign-in leaves through the Auth service's federated round trip; just verify it can be called
       expect(typeof result.current.handleAppleSignIn).toBe('function')
     })
 
@@ -115,8 +147,8 @@ describe('useAuth', () => {
         await result.current.handlePasswordSignIn()
       })
 
-      // Password sign-in uses OIDC redirect, so we just verify the method exists and can be called
-      expect(typeof result.current.handlePasswordSignIn).toBe('function')
+      expect(result.current.errorMessage).toBeUndefined()
+      expect(result.current.isLoading).toBe(false)
     })
 
     it('should handle passwordless sign-in', async () => {
@@ -125,28 +157,39 @@ describe('useAuth', () => {
       act(() => {
         result.current.setEmail('test@example.com')
       })
+      act(() => {
+        result.current.setCurrentFlow('email-options')
+      })
 
       await act(async () => {
         await result.current.handlePasswordlessSignIn()
       })
 
-      // Passwordless sign-in uses OIDC redirect, so we just verify the method exists and can be called
-      expect(typeof result.current.handlePasswordlessSignIn).toBe('function')
+      // The default mock sends a code, so the flow moves on to code entry
+      expect(result.current.currentFlow).toBe('passwordless')
+      expect(result.current.errorMessage).toBeUndefined()
     })
 
-    it('should handle passkey sign-in', async () => {
+    it('should fall back to password sign-in when passkeys are unsupported', async () => {
       const { result } = renderHook(() => useAuth())
 
       act(() => {
         result.current.setEmail('test@example.com')
       })
+      act(() => {
+        result.current.setCurrentFlow('email-options')
+        result.current.setCurrentFlow('password')
+        result.current.setCurrentFlow('passkey')
+      })
 
       await act(async () => {
         await result.current.handlePasskeySignIn()
       })
 
-      // Passkey sign-in uses OIDC redirect, so we just verify the method exists and can be called
-      expect(typeof result.current.handlePasskeySignIn).toBe('function')
+      // jsdom does not implement WebAuthn
+      expect(result.current.currentFlow).toBe('password')
+      expect(result.current.errorMessage).toMatch(/passkeys aren't supported/i)
+      expect(result.current.isLoading).toBe(false)
     })
 
     it('should handle OTP verification', async () => {
@@ -160,30 +203,40 @@ describe('useAuth', () => {
         await result.current.handleOtpVerification()
       })
 
-      // OTP verification uses OIDC redirect, so we just verify the method exists and can be called
-      expect(typeof result.current.handleOtpVerification).toBe('function')
+      // Without a code having been sent there is no session to verify against
+      expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.VerificationCodeExpired])
     })
   })
 
   describe('sign-up handlers', () => {
-    it('should handle Google sign-up', async () => {
+    it('should remember the federated round trip before leaving for Google', async () => {
       const { result } = renderHook(() => useAuth())
 
       await act(async () => {
         await result.current.handleGoogleSignUp()
       })
 
-      expect(console.log).toHaveBeenCalledWith('Google sign up')
+      expect(readPendingFederatedSignIn()).toEqual({
+        state: 'test-state',
+        provider: 'google',
+        intent: 'signup',
+      })
+      expect(result.current.errorMessage).toBeUndefined()
     })
 
-    it('should handle Apple sign-up', async () => {
+    it('should go straight to the hosted UI for Apple when the popup is not configured', async () => {
       const { result } = renderHook(() => useAuth())
 
       await act(async () => {
         await result.current.handleAppleSignUp()
       })
 
-      expect(console.log).toHaveBeenCalledWith('Apple sign up')
+      expect(readPendingFederatedSignIn()).toEqual({
+        state: 'test-state',
+        provider: 'apple',
+        intent: 'signup',
+      })
+      expect(result.current.errorMessage).toBeUndefined()
     })
 
     it('should handle password sign-up flow setup', () => {
@@ -0,0 +1,121 @@
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useAuthFlow } from '../useAuthFlow'
+import type { FlowContext } from '@/lib/auth-flow'
+
+const withEmail: FlowContext = { email: 'test@example.com', otpCode: '' }
+const withoutEmail: FlowContext = { email: '', otpCode: '' }
+
+const renderFlow = (context: FlowContext = withEmail) =>
+  renderHook(() => useAuthFlow('signup-main', context, { syncWithUrl: true }))
+
+const currentStepParam = () => new URLSearchParams(window.location.search).get('step')
+
+describe('useAuthFlow - URL sync', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/sign-up')
+  })
+
+  it('should push each forward step into the URL', () => {
+    const { result } = renderFlow()
+
+    act(() => {
+      result.current.goTo('signup-email')
+    })
+    act(() => {
+      result.current.goTo('signup-profile')
+    })
+
+    expect(currentStepParam()).toBe('signup-profile')
+    expect(window.history.state).toMatchObject({ authFlowStep: 'signup-profile', authFlowEntry: 2 })
+  })
+
+  it('should leave the root step out of the URL', () => {
+    window.history.replaceState(null, '', '/sign-up?step=signup-main')
+
+    renderFlow()
+
+    expect(window.location.search).toBe('')
+  })
+
+  it('should keep unrelated query parameters', () => {
+    window.history.replaceState(null, '', '/sign-up?callbackUrl=%2Fdashboard')
+    const { result } = renderFlow()
+
+    act(() => {
+      result.current.goTo('signup-email')
+    })
+
+    const params = new URLSearchParams(window.location.search)
+    expect(params.get('callbackUrl')).toBe('/dashboard')
+    expect(params.get('step')).toBe('signup-email')
+  })
+
+  it('should follow the browser back button through the flow', async () => {
+    const { result } = renderFlow()
+    act(() => {
+      result.current.goTo('signup-email')
+    })
+    act(() => {
+      result.current.goTo('signup-password')
+    })
+
+    act(() => {
+      window.history.back()
+    })
+
+    await waitFor(() => expect(result.current.currentFlow).toBe('signup-email'))
+    expect(result.current.flowDirection).toBe('backward')
+  })
+
+  it('should step the browser history back when going back in the flow', async () => {
+    const { result } = renderFlow()
+    act(() => {
+      result.current.goTo('signup-email')
+    })
+
+    act(() => {
+      result.current.goBack()
+    })
+
+    expect(result.current.currentFlow).toBe('signup-main')
+    await waitFor(() => expect(currentStepParam()).toBeNull())
+  })
+
+  it('should restore a step from the URL on load', () => {
+    window.history.replaceState(null, '', '/sign-up?step=signup-profile')
+
+    const { result } = renderFlow()
+
+    expect(result.current.currentFlow).toBe('signup-profile')
+    expect(result.current.flowHistory).toEqual(['signup-main', 'signup-email', 'signup-profile'])
+  })
+
+  it('should only restore as far as the current state allows', () => {
+    window.history.replaceState(null, '', '/sign-up?step=signup-verification')
+
+    const { result } = renderFlow(withoutEmail)
+
+    expect(result.current.currentFlow).toBe('signup-email')
+    expect(currentStepParam()).toBe('signup-email')
+  })
+
+  it('should ignore unknown steps in the URL', () => {
+    window.history.replaceState(null, '', '/sign-up?step=not-a-step')
+
+    const { result } = renderFlow()
+
+    expect(result.current.currentFlow).toBe('signup-main')
+    expect(currentStepParam()).toBeNull()
+  })
+
+  it('should leave the URL alone unless asked to sync', () => {
+    const { result } = renderHook(() => useAuthFlow('signup-main', withEmail))
+
+    act(() => {
+      result.current.goTo('signup-email')
+    })
+
+    expect(result.current.currentFlow).toBe('signup-email')
+    expect(currentStepParam()).toBeNull()
+  })
+})
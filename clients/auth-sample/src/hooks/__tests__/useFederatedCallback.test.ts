@@ -0,0 +1,74 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { useFederatedCallback } from '../useFederatedCallback'
+import { ErrorCodes } from '@/lib/services/error-codes'
+import { friendlyMessageFor } from '@/lib/services/handle-api-error'
+import { readPendingFederatedSignIn, savePendingFederatedSignIn } from '@/lib/federation'
+
+// Mock the gRPC clients
+const mockCompleteFederatedSignInAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createFederationServiceClient: () => ({
+    completeFederatedSignInAsync: mockCompleteFederatedSignInAsync,
+  }),
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+describe('useFederatedCallback', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    window.sessionStorage.clear()
+    savePendingFederatedSignIn({ state: 'expected-state', provider: 'google', intent: 'signup' })
+    mockCompleteFederatedSignInAsync.mockResolvedValue({ getIsNewUser: () => true })
+  })
+
+  it('should hand the authorization code to the Auth service', async () => {
+    const { result } = renderHook(() => useFederatedCallback('?code=auth-code&state=expected-state'))
+
+    await waitFor(() => expect(mockCompleteFederatedSignInAsync).toHaveBeenCalledTimes(1))
+
+    const request = mockCompleteFederatedSignInAsync.mock.calls[0][0]
+    expect(request.getCode()).toBe('auth-code')
+    expect(request.getState()).toBe('expected-state')
+    expect(result.current.status).toBe('processing')
+    expect(readPendingFederatedSignIn()).toBeUndefined()
+  })
+
+  it('should refuse a callback whose state was not issued to this tab', async () => {
+    const { result } = renderHook(() => useFederatedCallback('?code=auth-code&state=forged-state'))
+
+    await waitFor(() => expect(result.current.status).toBe('failed'))
+
+    expect(mockCompleteFederatedSignInAsync).not.toHaveBeenCalled()
+    expect(result.current.errorMessage).toMatch(/no longer valid/i)
+  })
+
+  it('should report a cancelled consent screen without calling the service', async () => {
+    const { result } = renderHook(() =>
+      useFederatedCallback('?error=access_denied&state=expected-state')
+    )
+
+    await waitFor(() => expect(result.current.status).toBe('failed'))
+
+    expect(mockCompleteFederatedSignInAsync).not.toHaveBeenCalled()
+    expect(result.current.errorMessage).toMatch(/cancelled/i)
+  })
+
+  it('should surface a friendly error when the exchange is rejected', async () => {
+    mockCompleteFederatedSignInAsync.mockRejectedValue({
+      code: 16,
+      message: 'Federated sign-in failed.',
+      metadata: { 'error-code': ErrorCodes.FederatedSignInFailed },
+    })
+    const { result } = renderHook(() => useFederatedCallback('?code=auth-code&state=expected-state'))
+
+    await waitFor(() => expect(result.current.status).toBe('failed'))
+
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.FederatedSignInFailed])
+  })
+})
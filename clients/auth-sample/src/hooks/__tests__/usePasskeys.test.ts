@@ -0,0 +1,170 @@
+import { renderHook, act } from '@testing-library/react'
+import { usePasskeys } from '../usePasskeys'
+import { ErrorCodes } from '@/lib/services/error-codes'
+import { friendlyMessageFor } from '@/lib/services/handle-api-error'
+
+// Mock the gRPC client
+const mockBeginPasskeyRegistrationAsync = jest.fn()
+const mockCompletePasskeyRegistrationAsync = jest.fn()
+const mockListPasskeysAsync = jest.fn()
+const mockRenamePasskeyAsync = jest.fn()
+const mockDeletePasskeyAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createPasskeyServiceClient: () => ({
+    beginPasskeyRegistrationAsync: mockBeginPasskeyRegistrationAsync,
+    completePasskeyRegistrationAsync: mockCompletePasskeyRegistrationAsync,
+    listPasskeysAsync: mockListPasskeysAsync,
+    renamePasskeyAsync: mockRenamePasskeyAsync,
+    deletePasskeyAsync: mockDeletePasskeyAsync,
+  })
+}))
+
+// Mock console.error to avoid noise in tests
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+const mockCredentialsCreate = jest.fn()
+
+const fakePasskey = (credentialId: string, name: string) => ({
+  getCredentialId: () => credentialId,
+  getName: () => name,
+  getCreatedAt: () => undefined,
+  getAuthenticatorAttachment: () => 'platform',
+})
+
+const fakeAttestation = {
+  id: 'new-cred',
+  rawId: new Uint8Array([1]).buffer,
+  type: 'public-key',
+  authenticatorAttachment: 'platform',
+  getClientExtensionResults: () => ({}),
+  response: {
+    clientDataJSON: new Uint8Array([2]).buffer,
+    attestationObject: new Uint8Array([3]).buffer,
+    getTransports: () => ['internal'],
+  },
+}
+
+describe('usePasskeys', () => {
+  beforeAll(() => {
+    Object.defineProperty(window, 'PublicKeyCredential', { value: function PublicKeyCredential() {}, configurable: true })
+    Object.defineProperty(navigator, 'credentials', {
+      value: { get: jest.fn(), create: mockCredentialsCreate },
+      configurable: true,
+    })
+  })
+
+  afterAll(() => {
+    delete (window as unknown as Record<string, unknown>).PublicKeyCredential
+    delete (navigator as unknown as Record<string, unknown>).credentials
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockListPasskeysAsync.mockResolvedValue({
+      getPasskeysList: () => [fakePasskey('cred-1', 'iCloud Keychain')],
+    })
+    mockBeginPasskeyRegistrationAsync.mockResolvedValue({
+      getCredentialCreationOptions: () => JSON.stringify({
+        challenge: 'AQID',
+        rp: { id: 'localhost', name: 'Auth Sample' },
+        user: { id: 'BAUG', name: 'test@example.com', displayName: 'test@example.com' },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+      }),
+    })
+    mockCompletePasskeyRegistrationAsync.mockResolvedValue(fakePasskey('new-cred', 'Work laptop'))
+    mockCredentialsCreate.mockResolvedValue(fakeAttestation)
+  })
+
+  it('should load registered passkeys', async () => {
+    const { result } = renderHook(() => usePasskeys())
+
+    await act(async () => {
+      await result.current.loadPasskeys()
+    })
+
+    expect(result.current.passkeys).toEqual([
+      { credentialId: 'cred-1', name: 'iCloud Keychain', createdAt: undefined, authenticatorAttachment: 'platform' },
+    ])
+  })
+
+  it('should keep loadPasskeys stable across renders', async () => {
+    const { result, rerender } = renderHook(() => usePasskeys())
+    const { loadPasskeys } = result.current
+
+    await act(async () => {
+      await loadPasskeys()
+    })
+    rerender()
+
+    expect(result.current.loadPasskeys).toBe(loadPasskeys)
+  })
+
+  it('should register a passkey and append it to the list', async () => {
+    const { result } = renderHook(() => usePasskeys())
+
+    let registered = false
+    await act(async () => {
+      registered = await result.current.registerPasskey(' Work laptop ')
+    })
+
+    expect(registered).toBe(true)
+    const request = mockCompletePasskeyRegistrationAsync.mock.calls[0][0]
+    expect(request.getName()).toBe('Work laptop')
+    expect(JSON.parse(request.getCredential())).toMatchObject({
+      id: 'new-cred',
+      response: { attestationObject: 'Aw', transports: ['internal'] },
+    })
+    expect(result.current.passkeys.map((p) => p.credentialId)).toEqual(['new-cred'])
+    expect(result.current.isRegistering).toBe(false)
+  })
+
+  it('should stay quiet when the user cancels registration', async () => {
+    mockCredentialsCreate.mockRejectedValue(new DOMException('cancelled', 'NotAllowedError'))
+    const { result } = renderHook(() => usePasskeys())
+
+    let registered = true
+    await act(async () => {
+      registered = await result.current.registerPasskey()
+    })
+
+    expect(registered).toBe(false)
+    expect(mockCompletePasskeyRegistrationAsync).not.toHaveBeenCalled()
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should surface a friendly error when the server rejects the credential', async () => {
+    mockCompletePasskeyRegistrationAsync.mockRejectedValue({
+      code: 3,
+      message: 'The passkey could not be registered.',
+      metadata: { 'error-code': ErrorCodes.PasskeyRegistrationFailed },
+    })
+    const { result } = renderHook(() => usePasskeys())
+
+    await act(async () => {
+      await result.current.registerPasskey()
+    })
+
+    expect(result.current.errorMessage).toBe(friendlyMessageFor[ErrorCodes.PasskeyRegistrationFailed])
+  })
+
+  it('should rename and delete passkeys in place', async () => {
+    mockRenamePasskeyAsync.mockResolvedValue(fakePasskey('cred-1', 'Laptop'))
+    mockDeletePasskeyAsync.mockResolvedValue({})
+    const { result } = renderHook(() => usePasskeys())
+
+    await act(async () => {
+      await result.current.loadPasskeys()
+    })
+    await act(async () => {
+      await result.current.renamePasskey('cred-1', 'Laptop')
+    })
+    expect(result.current.passkeys[0].name).toBe('Laptop')
+
+    await act(async () => {
+      await result.current.deletePasskey('cred-1')
+    })
+    expect(mockDeletePasskeyAsync.mock.calls[0][0].getCredentialId()).toBe('cred-1')
+    expect(result.current.passkeys).toEqual([])
+  })
+})
@@ -0,0 +1,103 @@
+import { renderHook, act } from '@testing-library/react'
+import { useSession, LOGOUT_COMPLETE_PATH } from '../useSession'
+
+// Mock the gRPC client
+const mockSignOutAsync = jest.fn()
+jest.mock('@/lib/services/grpc-clients', () => ({
+  createSignInServiceClient: () => ({
+    signOutAsync: mockSignOutAsync,
+  })
+}))
+
+// Mock OIDC with a swappable user
+const mockSignoutRedirect = jest.fn()
+const mockRemoveUser = jest.fn()
+let mockOidcUser: { profile: Record<string, string> } | null = null
+jest.mock('react-oidc-context', () => ({
+  useAuth: () => ({
+    user: mockOidcUser,
+    signoutRedirect: mockSignoutRedirect,
+    removeUser: mockRemoveUser,
+  })
+}))
+
+// Mock console.error to avoid noise from jsdom navigation
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { })
+
+describe('useSession', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockOidcUser = { profile: { sub: 'user-1', name: 'Jane Doe', email: 'jane@example.com' } }
+    mockSignOutAsync.mockResolvedValue({})
+    mockSignoutRedirect.mockResolvedValue(undefined)
+    mockRemoveUser.mockResolvedValue(undefined)
+  })
+
+  it('should expose the name and email from the OIDC profile', () => {
+    const { result } = renderHook(() => useSession())
+
+    expect(result.current.user).toEqual({ displayName: 'Jane Doe', email: 'jane@example.com' })
+  })
+
+  it('should fall back to the email when the profile has no name', () => {
+    mockOidcUser = { profile: { sub: 'user-1', email: 'jane@example.com' } }
+
+    const { result } = renderHook(() => useSession())
+
+    expect(result.current.user?.displayName).toBe('jane@example.com')
+  })
+
+  it('should clear the service session before the OIDC sign-out redirect', async () => {
+    const { result } = renderHook(() => useSession())
+
+    await act(async () => {
+      await result.current.signOut()
+    })
+
+    expect(mockSignOutAsync).toHaveBeenCalledTimes(1)
+    expect(mockSignoutRedirect).toHaveBeenCalledWith({
+      post_logout_redirect_uri: `${window.location.origin}${LOGOUT_COMPLETE_PATH}`,
+    })
+    expect(mockSignOutAsync.mock.invocationCallOrder[0])
+      .toBeLessThan(mockSignoutRedirect.mock.invocationCallOrder[0])
+  })
+
+  it('should still sign out of OIDC when the service call fails', async () => {
+    mockSignOutAsync.mockRejectedValue(new Error('unavailable'))
+    const { result } = renderHook(() => useSession())
+
+    await act(async () => {
+      await result.current.signOut()
+    })
+
+    expect(mockSignoutRedirect).toHaveBeenCalled()
+  })
+
+  it('should forget the OIDC user locally when the provider cannot redirect', async () => {
+    mockSignoutRedirect.mockRejectedValue(new Error('No end session endpoint'))
+    const { result } = renderHook(() => useSession())
+
+    await act(async () => {
+      await result.current.signOut()
+    })
+
+    expect(mockRemoveUser).toHaveBeenCalled()
+  })
+
+  it('should only clear the service session without an OIDC user', async () => {
+    mockOidcUser = null
+    const { result } = renderHook(() => useSession())
+
+    await act(async () => {
+      await result.current.signOut()
+    })
+
+    expect(result.current.user).toBeUndefined()
+    expect(mockSignOutAsync).toHaveBeenCalledTimes(1)
+    expect(mockSignoutRedirect).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,99 @@
+import { renderHook, act } from '@testing-library/react'
+import { useSessionExpiry } from '../useSessionExpiry'
+
+// Mock OIDC with a swappable user
+const mockSigninSilent = jest.fn()
+let mockOidcUser: { expires_at?: number } | null = null
+jest.mock('react-oidc-context', () => ({
+  useAuth: () => ({
+    user: mockOidcUser,
+    signinSilent: mockSigninSilent,
+  })
+}))
+
+const NOW = new Date('2026-01-01T12:00:00Z').getTime()
+const expiresIn = (seconds: number) => ({ expires_at: NOW / 1000 + seconds })
+
+describe('useSessionExpiry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers()
+    jest.setSystemTime(NOW)
+    mockOidcUser = null
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should report nothing without an OIDC session', () => {
+    const { result } = renderHook(() => useSessionExpiry())
+
+    expect(result.current.secondsRemaining).toBeUndefined()
+    expect(result.current.isExpiring).toBe(false)
+    expect(result.current.isExpired).toBe(false)
+  })
+
+  it('should count down to expiry and warn inside the window', () => {
+    mockOidcUser = expiresIn(125)
+    const { result } = renderHook(() => useSessionExpiry(120))
+
+    expect(result.current.secondsRemaining).toBe(125)
+    expect(result.current.isExpiring).toBe(false)
+
+    act(() => {
+      jest.advanceTimersByTime(5000)
+    })
+
+    expect(result.current.secondsRemaining).toBe(120)
+    expect(result.current.isExpiring).toBe(true)
+  })
+
+  it('should flag the session as expired once the countdown ends', () => {
+    mockOidcUser = expiresIn(2)
+    const { result } = renderHook(() => useSessionExpiry())
+
+    act(() => {
+      jest.advanceTimersByTime(3000)
+    })
+
+    expect(result.current.secondsRemaining).toBe(0)
+    expect(result.current.isExpired).toBe(true)
+    expect(result.current.isExpiring).toBe(false)
+  })
+
+  it('should stop warning once the session has been renewed', async () => {
+    mockOidcUser = expiresIn(60)
+    mockSigninSilent.mockImplementation(async () => {
+      mockOidcUser = expiresIn(3600)
+      return mockOidcUser
+    })
+    const { result, rerender } = renderHook(() => useSessionExpiry())
+    expect(result.current.isExpiring).toBe(true)
+
+    let extended = false
+    await act(async () => {
+      extended = await result.current.extend()
+    })
+    rerender()
+
+    expect(extended).toBe(true)
+    expect(result.current.isExpiring).toBe(false)
+    expect(result.current.errorMessage).toBeUndefined()
+  })
+
+  it('should explain when the session could not be extended', async () => {
+    mockOidcUser = expiresIn(60)
+    mockSigninSilent.mockRejectedValue(new Error('login_required'))
+    const { result } = renderHook(() => useSessionExpiry())
+
+    let extended = true
+    await act(async () => {
+      extended = await result.current.extend()
+    })
+
+    expect(extended).toBe(false)
+    expect(result.current.errorMessage).toMatch(/couldn't extend your session/)
+    expect(result.current.isExtending).toBe(false)
+  })
+})
@@ -1,17 +1,84 @@
-import { useRef, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { useAuth as useOidcAuth } from "react-oidc-context"
 import type { AuthFlow, AuthState, AuthHandlers } from "@/types/auth"
-import { createSignUpServiceClient } from "@/lib/services/grpc-clients"
+import {
+  createFederationServiceClient,
+  createPasskeyServiceClient,
+  createPasswordResetServiceClient,
+  createSignInServiceClient,
+  createSignUpServiceClient,
+} from "@/lib/services/grpc-clients"
 import {
   InitiateSignUpRequest,
   VerifyAndSignInRequest,
   ResendVerificationCodeRequest,
   SignUpStep,
 } from "@/lib/services/auth/sign-up/sign-up_pb"
+import {
+  BeginEmailOtpSignInRequest,
+  CompleteEmailOtpSignInRequest,
+  SignInWithPasswordRequest,
+} from "@/lib/services/auth/sign-in/sign-in_pb"
+import {
+  BeginPasskeySignInRequest,
+  CompletePasskeySignInRequest,
+} from "@/lib/services/auth/passkey/passkey_pb"
+import {
+  BeginPasswordResetRequest,
+  CompletePasswordResetRequest,
+} from "@/lib/services/auth/password-reset/password-reset_pb"
+import {
+  BeginAppleSignInRequest,
+  BeginFederatedSignInRequest,
+  CompleteFederatedSignInRequest,
+  IdentityProvider,
+} from "@/lib/services/auth/federation/federation_pb"
 import { startWorkflow } from "@/lib/workflows"
 import type { WorkflowHandle } from "@/lib/workflows"
 import {friendlyMessageFor, handleApiError} from "@/lib/services/handle-api-error";
 import { ErrorCodes } from "@/lib/services/error-codes"
+import {
+  getPasskeyAssertion,
+  isWebAuthnCancellation,
+  isWebAuthnSupported,
+} from "@/lib/webauthn"
+import {
+  readPendingFederatedSignIn,
+  savePendingFederatedSignIn,
+  type FederatedIntent,
+  type FederatedProvider,
+} from "@/lib/federation"
+import {
+  appleRedirectUri,
+  formatAppleName,
+  isApplePopupClosed,
+  isAppleSignInConfigured,
+  isAppleSignInError,
+  signInWithApplePopup,
+  type AppleAuthorization,
+} from "@/lib/apple"
+import { config } from "@/lib/config"
+import {
+  clearResumableSignUp,
+  readResumableSignUp,
+  saveResumableSignUp,
+} from "@/lib/signup-session"
+import { publishAuthEvent } from "@/lib/auth-events"
+import {
+  isAuthPageReferrer,
+  peekCallbackUrl,
+  rememberCallbackUrl,
+  takeCallbackUrl,
+} from "@/lib/callback-url"
+import { useAuthFlow, type FlowResume, type UseAuthFlowOptions } from "@/hooks/useAuthFlow"
+import { useUnmountSignal } from "@/hooks/useUnmountSignal"
+
+const PASSKEY_UNSUPPORTED_MESSAGE =
+  "Passkeys aren't supported on this device. Sign in with your password instead."
+const PASSKEY_CANCELLED_MESSAGE =
+  "Passkey sign-in was cancelled. Sign in with your password instead."
+const APPLE_CANCELLED_MESSAGE = "Sign in with Apple was cancelled."
+const APPLE_FAILED_MESSAGE = "We couldn't reach Apple. Please try again."
 
 /** Wrap an async handler with loading toggles. */
 const withLoading =
@@ -34,24 +101,37 @@ const runInStep = async <T>(
 }
 
 /** -------- Hook -------- */
-export function useAuth(): AuthState & AuthHandlers {
-  const [currentFlow, setCurrentFlow] = useState<AuthFlow>("main")
+export function useAuth(
+  initialFlow: AuthFlow = "main",
+  flowOptions: UseAuthFlowOptions = {}
+): AuthState & AuthHandlers {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [passwordConfirmation, setPasswordConfirmation] = useState("")
   const [otpCode, setOtpCode] = useState("")
+  const [name, setName] = useState("")
+  const [preferredName, setPreferredName] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [isResendLoading, setIsResendLoading] = useState(false)
   const [signupMethod, setSignupMethod] = useState<
     "password" | "passwordless" | undefined
   >()
   const [errorMessage, setErrorMessage] = useState<string | undefined>()
-  const [isRateLimited, setIsRateLimited] = useState(false)
-  const [rateLimitRetryAfter, setRateLimitRetryAfter] = useState<number | undefined>()
+  const [isSignedIn, setIsSignedIn] = useState(false)
 
   const oidc = useOidcAuth()
-  const client = createSignUpServiceClient()
+  // Calls still in flight when the page goes away are abandoned, not reported
+  const signal = useUnmountSignal()
+  const client = createSignUpServiceClient({ signal })
+  const signInClient = createSignInServiceClient({ signal })
+  const passkeyClient = createPasskeyServiceClient({ signal })
+  const federationClient = createFederationServiceClient({ signal })
+  const passwordResetClient = createPasswordResetServiceClient({ signal })
   const signupWorkflowRef = useRef<WorkflowHandle | null>(null)
+  const signinWorkflowRef = useRef<WorkflowHandle | null>(null)
+  const resetWorkflowRef = useRef<WorkflowHandle | null>(null)
+  // Cognito session for the pending email code; replaced on every resend
+  const otpSessionRef = useRef<string | null>(null)
 
   /** Ensure a workflow exists (optionally forcing a fresh one). */
   const ensureSignupWorkflow = (
@@ -63,48 +143,443 @@ export function useAuth(): AuthState & AuthHandlers {
     }
   }
 
+  /** Remember the sign-up once its code is out, so a reload can pick up at verification. */
+  const persistSignUp = () => {
+    saveResumableSignUp({
+      email,
+      signupMethod,
+      name: name.trim() || undefined,
+      preferredName: preferredName.trim() || undefined,
+      workflow: signupWorkflowRef.current?.reference,
+    })
+  }
+
+  /** Rehydrate a sign-up saved by `persistSignUp`; its workflow span links to the original. */
+  const resumeSignUp = (): FlowResume | undefined => {
+    const pending = readResumableSignUp()
+    if (!pending) return undefined
+
+    setEmail(pending.email)
+    setSignupMethod(pending.signupMethod)
+    setName(pending.name ?? "")
+    setPreferredName(pending.preferredName ?? "")
+    if (!signupWorkflowRef.current) {
+      signupWorkflowRef.current = startWorkflow(
+        "signup",
+        "v1",
+        pending.signupMethod ? { method: pending.signupMethod } : undefined,
+        { resumes: pending.workflow }
+      )
+      saveResumableSignUp({ ...pending, workflow: signupWorkflowRef.current.reference })
+    }
+
+    return { target: "signup-verification", context: { email: pending.email, otpCode: "" } }
+  }
+
+  const flow = useAuthFlow(initialFlow, { email, otpCode }, {
+    ...flowOptions,
+    resume: initialFlow === "signup-main" ? resumeSignUp : flowOptions.resume,
+  })
+
+  // Remember where the user was headed. Sign-up and provider round trips come back
+  // without the query, so only a fresh visit may forget an earlier destination
+  useEffect(() => {
+    const returning = !!readResumableSignUp()
+      || !!readPendingFederatedSignIn()
+      || isAuthPageReferrer(document.referrer)
+    rememberCallbackUrl(window.location.search, { returning })
+  }, [])
+
+  /** Let other tabs know, then leave the auth pages for where the user was headed. */
+  const completeSignIn = () => {
+    publishAuthEvent("signed-in")
+    if (typeof window !== "undefined") {
+      window.location.replace(takeCallbackUrl())
+    }
+  }
+
   /** Centralized OIDC redirect sign-in handler factory (DRY). */
   const makeOidcRedirectHandler = () =>
     withLoading(setIsLoading, async () => {
-      await oidc.signinRedirect()
+      // The callback page reads the destination back from the OIDC state
+      const callbackUrl = peekCallbackUrl()
+      await oidc.signinRedirect(callbackUrl ? { state: { callbackUrl } } : undefined)
     })
 
-  // ---------- Sign-in handlers (all OIDC redirect) ----------
+  /**
+   * Leave for the provider via the hosted UI. The callback page owns the rest of
+   * the workflow, so it is only recorded here when we never get to leave.
+   */
+  const startFederatedSignIn = async (
+    provider: FederatedProvider,
+    intent: FederatedIntent
+  ) => {
+    try {
+      const request = new BeginFederatedSignInRequest()
+      request.setProvider(provider === "apple" ? IdentityProvider.APPLE : IdentityProvider.GOOGLE)
+      request.setRedirectUri(config.redirectUri ?? "")
+
+      const response = await federationClient.beginFederatedSignInAsync(request, {})
+
+      savePendingFederatedSignIn({ state: response.getState(), provider, intent })
+      window.location.assign(response.getAuthorizationUrl())
+    } catch (err) {
+      const workflow = startWorkflow(intent, "v1", { method: provider })
+      handleApiError(err, setErrorMessage, workflow.startStep("beginFederatedSignIn"))
+      workflow.fail("BEGIN_FAILED")
+    }
+  }
+
+  /**
+   * Apple shares the user's name only on the first authorization, and the hosted
+   * UI would swallow it, so run an Apple JS-style popup instead and hand the
+   * authorization code and name to the Auth service, which exchanges the code
+   * with Apple and creates the account. Without popup settings, fall back to
+   * the hosted UI round trip.
+   */
+  const makeAppleHandler = (intent: FederatedIntent) =>
+    withLoading(setIsLoading, async () => {
+      setErrorMessage(undefined)
+      if (!isAppleSignInConfigured()) {
+        await startFederatedSignIn("apple", intent)
+        return
+      }
+
+      const workflow = startWorkflow(intent, "v1", { method: "apple" })
+      const beginStep = workflow.startStep("beginAppleSignIn")
+
+      let authorization: AppleAuthorization
+      try {
+        // Must be called synchronously with the click to get past popup blockers
+        authorization = await signInWithApplePopup(() =>
+          runInStep(beginStep, async () => {
+            const request = new BeginAppleSignInRequest()
+            request.setRedirectUri(appleRedirectUri(window.location.origin))
+
+            const response = await federationClient.beginAppleSignInAsync(request, {})
+            beginStep.succeed()
+            return { state: response.getState(), nonce: response.getNonce() }
+          })
+        )
+      } catch (err) {
+        if (!isAppleSignInError(err)) {
+          handleApiError(err, setErrorMessage, beginStep)
+          workflow.fail("BEGIN_FAILED")
+          return
+        }
+
+        const cancelled = isApplePopupClosed(err)
+        const code = cancelled ? "CANCELLED" : "IDP_ERROR"
+        const message = cancelled ? APPLE_CANCELLED_MESSAGE : APPLE_FAILED_MESSAGE
+
+        workflow.startStep("authorizeWithApple").fail(code, message)
+        workflow.fail(code, message)
+        setErrorMessage(message)
+        return
+      }
+
+      const step = workflow.startStep("completeAppleSignIn")
+      try {
+        const request = new CompleteFederatedSignInRequest()
+        request.setCode(authorization.code)
+        request.setState(authorization.state)
+        const name = formatAppleName(authorization.user)
+        if (name) {
+          request.setName(name)
+        }
+
+        const response = await runInStep(step, () => federationClient.completeAppleSignInAsync(request, {}))
+
+        step.succeed({ isNewUser: response.getIsNewUser() })
+        workflow.succeed()
+        completeSignIn()
+      } catch (err) {
+        handleApiError(err, setErrorMessage, step)
+        workflow.fail("COMPLETE_FAILED")
+      }
+    })
+
+  // ---------- Sign-in handlers ----------
   const handleGoogleSignIn = makeOidcRedirectHandler()
-  const handleAppleSignIn = makeOidcRedirectHandler()
-  const handleEmailSignIn = makeOidcRedirectHandler()
-  const handlePasswordSignIn = makeOidcRedirectHandler()
-  const handlePasswordlessSignIn = makeOidcRedirectHandler()
-  const handlePasskeySignIn = makeOidcRedirectHandler()
-  const handleOtpVerification = makeOidcRedirectHandler()
+  const handleAppleSignIn = makeAppleHandler("signin")
+  // Email sign-in stays in-app: password, passkey, email code and reset all start here
+  const handleEmailSignIn = () => flow.goTo("email-options")
+
+  /** Authenticate in-app; the service sets the session cookies on success. */
+  const handlePasswordSignIn = withLoading(setIsLoading, async () => {
+    const workflow = startWorkflow("signin", "v1", { method: "password" })
+    const step = workflow.startStep("signInWithPassword")
+
+    try {
+      const request = new SignInWithPasswordRequest()
+      request.setEmailAddress(email)
+      request.setPassword(password)
+
+      await runInStep(step, () => signInClient.signInWithPasswordAsync(request, {}))
+
+      step.succeed({ email })
+      workflow.succeed()
+      setErrorMessage(undefined)
+      completeSignIn()
+    } catch (err) {
+      handleApiError(err, setErrorMessage, step)
+      workflow.fail("SIGN_IN_FAILED")
+    }
+  })
+
+  /** Ask the service to email a sign-in code; returns true once a code was sent. */
+  const sendSignInCode = async (stepName: string): Promise<boolean> => {
+    if (!signinWorkflowRef.current) {
+      signinWorkflowRef.current = startWorkflow("signin", "v1", { method: "passwordless" })
+    }
+    const step = signinWorkflowRef.current.startStep(stepName)
+
+    try {
+      const request = new BeginEmailOtpSignInRequest()
+      request.setEmailAddress(email)
+
+      const response = await runInStep(step, () => signInClient.beginEmailOtpSignInAsync(request, {}))
+      otpSessionRef.current = response.getSession()
+
+      step.succeed({ email })
+      setErrorMessage(undefined)
+      return true
+    } catch (err) {
+      handleApiError(err, setErrorMessage, step)
+      return false
+    }
+  }
+
+  /** Start passwordless sign-in: send a code and move to code entry. */
+  const handlePasswordlessSignIn = withLoading(setIsLoading, async () => {
+    signinWorkflowRef.current = startWorkflow("signin", "v1", { method: "passwordless" })
+    otpSessionRef.current = null
+    setOtpCode("")
+
+    if (await sendSignInCode("sendSignInCode")) {
+      flow.goTo("passwordless")
+    }
+  })
+
+  /** Resend the sign-in code; it has its own window in the shared rate-limit registry. */
+  const handleResendSignInCode = withLoading(setIsResendLoading, async () => {
+    await sendSignInCode("resendSignInCode")
+  })
+
+  /** Verify the emailed code; the service sets the session cookies on success. */
+  const handleOtpVerification = withLoading(setIsLoading, async () => {
+    if (!signinWorkflowRef.current) {
+      signinWorkflowRef.current = startWorkflow("signin", "v1", { method: "passwordless" })
+    }
+    const workflow = signinWorkflowRef.current
+    const step = workflow.startStep("verifySignInCode")
+
+    if (!otpSessionRef.current) {
+      step.fail(ErrorCodes.VerificationCodeExpired, "No pending sign-in code")
+      setErrorMessage(friendlyMessageFor[ErrorCodes.VerificationCodeExpired])
+      return
+    }
+
+    try {
+      const request = new CompleteEmailOtpSignInRequest()
+      request.setEmailAddress(email)
+      request.setSession(otpSessionRef.current)
+      request.setVerificationCode(otpCode)
+
+      await runInStep(step, () => signInClient.completeEmailOtpSignInAsync(request, {}))
+
+      step.succeed({ email })
+      workflow.succeed()
+      signinWorkflowRef.current = null
+      otpSessionRef.current = null
+      setErrorMessage(undefined)
+      completeSignIn()
+    } catch (err) {
+      handleApiError(err, setErrorMessage, step)
+    }
+  })
+
+  /** WebAuthn assertion ceremony; falls back to the password flow when unavailable. */
+  const handlePasskeySignIn = withLoading(setIsLoading, async () => {
+    if (!isWebAuthnSupported()) {
+      setErrorMessage(PASSKEY_UNSUPPORTED_MESSAGE)
+      flow.goTo("password")
+      return
+    }
+
+    const workflow = startWorkflow("signin", "v1", { method: "passkey" })
+
+    const beginStep = workflow.startStep("beginPasskeySignIn")
+    let session: string
+    let requestOptions: string
+    try {
+      const request = new BeginPasskeySignInRequest()
+      request.setEmailAddress(email)
+
+      const response = await runInStep(beginStep, () =>
+        passkeyClient.beginPasskeySignInAsync(request, {})
+      )
+      session = response.getSession()
+      requestOptions = response.getCredentialRequestOptions()
+      beginStep.succeed({ email })
+    } catch (err) {
+      handleApiError(err, setErrorMessage, beginStep)
+      workflow.fail("BEGIN_FAILED")
+      return
+    }
+
+    const assertionStep = workflow.startStep("getPasskeyAssertion")
+    let credential: string
+    try {
+      credential = await runInStep(assertionStep, () => getPasskeyAssertion(requestOptions))
+      assertionStep.succeed()
+    } catch (err) {
+      if (isWebAuthnCancellation(err)) {
+        assertionStep.fail("CANCELLED", PASSKEY_CANCELLED_MESSAGE)
+        workflow.fail("CANCELLED")
+        setErrorMessage(PASSKEY_CANCELLED_MESSAGE)
+        flow.goTo("password")
+        return
+      }
+      const message = friendlyMessageFor[ErrorCodes.PasskeyVerificationFailed]
+      assertionStep.fail("ASSERTION_FAILED", err instanceof Error ? err.message : message)
+      workflow.fail("ASSERTION_FAILED")
+      setErrorMessage(message)
+      return
+    }
+
+    const completeStep = workflow.startStep("completePasskeySignIn")
+    try {
+      const request = new CompletePasskeySignInRequest()
+      request.setEmailAddress(email)
+      request.setSession(session)
+      request.setCredential(credential)
+
+      await runInStep(completeStep, () => passkeyClient.completePasskeySignInAsync(request, {}))
+
+      completeStep.succeed({ email })
+      workflow.succeed()
+      setErrorMessage(undefined)
+      completeSignIn()
+    } catch (err) {
+      handleApiError(err, setErrorMessage, completeStep)
+      workflow.fail("COMPLETE_FAILED")
+    }
+  })
+
+  // ---------- Password reset handlers ----------
+  /** Ask the service to email a reset code; returns true once a code was sent. */
+  const sendPasswordResetCode = async (stepName: string): Promise<boolean> => {
+    if (!resetWorkflowRef.current) {
+      resetWorkflowRef.current = startWorkflow("password-reset", "v1")
+    }
+    const step = resetWorkflowRef.current.startStep(stepName)
+
+    try {
+      const request = new BeginPasswordResetRequest()
+      request.setEmailAddress(email)
+
+      await runInStep(step, () => passwordResetClient.beginPasswordResetAsync(request, {}))
+
+      step.succeed({ email })
+      setErrorMessage(undefined)
+      return true
+    } catch (err) {
+      handleApiError(err, setErrorMessage, step)
+      return false
+    }
+  }
+
+  /** Leave the password prompt for the reset flow, keeping the email already entered. */
+  const handleForgotPassword = () => {
+    resetWorkflowRef.current = null
+    setErrorMessage(undefined)
+    setOtpCode("")
+    setPassword("")
+    setPasswordConfirmation("")
+    flow.goTo("reset-request")
+  }
+
+  const handlePasswordResetRequest = withLoading(setIsLoading, async () => {
+    resetWorkflowRef.current = startWorkflow("password-reset", "v1")
+    setOtpCode("")
+
+    if (await sendPasswordResetCode("sendResetCode")) {
+      flow.goTo("reset-verify")
+    }
+  })
+
+  /** Resend the reset code; it shares the reset request's window in the rate-limit registry. */
+  const handleResendPasswordResetCode = withLoading(setIsResendLoading, async () => {
+    await sendPasswordResetCode("resendResetCode")
+  })
+
+  /** Cognito checks the code together with the new password, so just move on. */
+  const handlePasswordResetCodeContinue = () => {
+    setErrorMessage(undefined)
+    setPassword("")
+    setPasswordConfirmation("")
+    flow.goTo("reset-new-password")
+  }
+
+  /** Set the new password; the service signs the user in and sets the session cookies. */
+  const handlePasswordResetComplete = withLoading(setIsLoading, async () => {
+    if (!resetWorkflowRef.current) {
+      resetWorkflowRef.current = startWorkflow("password-reset", "v1")
+    }
+    const workflow = resetWorkflowRef.current
+    const step = workflow.startStep("completePasswordReset")
+
+    try {
+      const request = new CompletePasswordResetRequest()
+      request.setEmailAddress(email)
+      request.setVerificationCode(otpCode)
+      request.setNewPassword(password)
+
+      await runInStep(step, () => passwordResetClient.completePasswordResetAsync(request, {}))
+
+      step.succeed({ email })
+      workflow.succeed()
+      resetWorkflowRef.current = null
+      setErrorMessage(undefined)
+      completeSignIn()
+    } catch (err) {
+      const code = handleApiError(err, setErrorMessage, step)
+      // Code problems are fixed on the previous step, where a new code can be requested
+      if (
+        code === ErrorCodes.VerificationCodeMismatch ||
+        code === ErrorCodes.VerificationCodeExpired ||
+        code === ErrorCodes.VerificationAttemptsExceeded
+      ) {
+        flow.goTo("reset-verify")
+      }
+    }
+  })
 
   // ---------- Sign-up handlers ----------
   const handleGoogleSignUp = withLoading(setIsLoading, async () => {
-    ensureSignupWorkflow({ method: "google" }, true)
-    // Implement Google OAuth sign up flow
-    // (left as-is intentionally)
-    console.log("Google sign up")
+    setErrorMessage(undefined)
+    await startFederatedSignIn("google", "signup")
   })
 
-  const handleAppleSignUp = withLoading(setIsLoading, async () => {
-    ensureSignupWorkflow({ method: "apple" }, true)
-    // Implement Apple OAuth sign up flow
-    // (left as-is intentionally)
-    console.log("Apple sign up")
-  })
+  const handleAppleSignUp = makeAppleHandler("signup")
 
   const handlePasswordSignUpFlowStart = () => {
     setErrorMessage(undefined)
     setSignupMethod("password")
+    clearResumableSignUp()
     ensureSignupWorkflow({ method: "password" }, true)
-    setCurrentFlow("signup-email")
+    flow.goTo("signup-main")
+    flow.goTo("signup-email")
   }
 
   const handlePasswordlessSignUpFlowStart = () => {
     setErrorMessage(undefined)
     setSignupMethod("passwordless")
+    clearResumableSignUp()
     ensureSignupWorkflow({ method: "passwordless" }, true)
-    setCurrentFlow("signup-email")
+    flow.goTo("signup-main")
+    flow.goTo("signup-email")
   }
 
   /** After email entered (password flow): check availability. */
@@ -123,9 +598,10 @@ export function useAuth(): AuthState & AuthHandlers {
       const nextStep = response.getNextStep()
 
       if (nextStep === SignUpStep.PASSWORD_REQUIRED) {
-        setCurrentFlow("signup-password")
+        flow.goTo("signup-password")
       } else if (nextStep === SignUpStep.VERIFICATION_REQUIRED) {
-        setCurrentFlow("signup-verification")
+        persistSignUp()
+        flow.goTo("signup-profile")
       } else {
         step?.fail(ErrorCodes.Unexpected, "Unknown error")
         setErrorMessage(friendlyMessageFor[ErrorCodes.Unexpected])
@@ -157,7 +633,9 @@ export function useAuth(): AuthState & AuthHandlers {
 
           step?.succeed({email})
           setErrorMessage(undefined)
-          setCurrentFlow("signup-verification")
+          persistSignUp()
+          // Collect the name while the code is on its way
+          flow.goTo("signup-profile")
       } catch (err) {
           handleApiError(err, setErrorMessage, step)
       }
@@ -179,13 +657,21 @@ export function useAuth(): AuthState & AuthHandlers {
 
         step?.succeed({email})
         setErrorMessage(undefined)
-        // Keeping original flow transition as in provided code.
-        setCurrentFlow("signup-verification")
+        persistSignUp()
+        // Collect the name while the code is on its way
+        flow.goTo("signup-profile")
     } catch (err) {
         handleApiError(err, setErrorMessage, step)
     }
   })
 
+  /** The code is on its way; move on to entering it once the name is in. */
+  const handleSignUpProfileContinue = () => {
+    setErrorMessage(undefined)
+    persistSignUp()
+    flow.goTo("signup-verification")
+  }
+
   /** Verify OTP and create account. */
   const handleSignUpOtpVerification = withLoading(
     setIsLoading,
@@ -197,9 +683,13 @@ export function useAuth(): AuthState & AuthHandlers {
           request.setEmailAddress(email)
           request.setVerificationCode(otpCode)
 
-          // Fallback name from email local-part if not collected via UI
-          const derivedName = email.includes("@") ? email.split("@")[0] : email
-          request.setName(derivedName || "User")
+          // Only send what the profile step collected; the service leaves blank fields unset
+          if (name.trim()) {
+            request.setName(name.trim())
+          }
+          if (preferredName.trim()) {
+            request.setPreferredName(preferredName.trim())
+          }
 
           const response = await runInStep(step, () => client.verifyAndSignInAsync(request, {}))
           const nextStep = response.getNextStep()
@@ -208,15 +698,23 @@ export function useAuth(): AuthState & AuthHandlers {
             step?.succeed({ email })
             signupWorkflowRef.current?.succeed()
             signupWorkflowRef.current = null
-            if (typeof window !== "undefined") {
-              window.location.replace("/")
+            clearResumableSignUp()
+            setIsSignedIn(true)
+            publishAuthEvent("signed-in")
+            if (isWebAuthnSupported()) {
+              // Offer passkey enrollment before leaving the sign-up flow
+              setErrorMessage(undefined)
+              flow.goTo("signup-success")
+            } else if (typeof window !== "undefined") {
+              window.location.replace(takeCallbackUrl())
             }
           } else if (nextStep === SignUpStep.SIGN_IN_REQUIRED) {
             step?.succeed({ email })
             signupWorkflowRef.current?.succeed()
             signupWorkflowRef.current = null
+            clearResumableSignUp()
             setErrorMessage(undefined)
-            setCurrentFlow("signup-success")
+            flow.goTo("signup-success")
           } else {
             step?.fail(ErrorCodes.Unexpected, "Unknown error")
             setErrorMessage(friendlyMessageFor[ErrorCodes.Unexpected])
@@ -233,11 +731,7 @@ export function useAuth(): AuthState & AuthHandlers {
     async () => {
       ensureSignupWorkflow()
       const step = signupWorkflowRef.current?.startStep("resendVerificationCode")
-      
-      // Clear previous rate limit state
-      setIsRateLimited(false)
-      setRateLimitRetryAfter(undefined)
-      
+
       try {
         const request = new ResendVerificationCodeRequest()
         request.setEmailAddress(email)
@@ -246,16 +740,10 @@ export function useAuth(): AuthState & AuthHandlers {
 
         step?.succeed({ email })
         setErrorMessage(undefined)
+        // A fresh code restarts the clock on resuming
+        persistSignUp()
       } catch (err) {
-        handleApiError(
-          err, 
-          setErrorMessage, 
-          step,
-          (retryAfterMinutes) => {
-            setIsRateLimited(true)
-            setRateLimitRetryAfter(retryAfterMinutes)
-          }
-        )
+        handleApiError(err, setErrorMessage, step)
       }
     }
   )
@@ -266,28 +754,51 @@ export function useAuth(): AuthState & AuthHandlers {
     if (errorMessage) setErrorMessage(undefined)
   }
 
+  const handleSetPassword = (value: string) => {
+    setPassword(value)
+    if (errorMessage) setErrorMessage(undefined)
+  }
+
   const handleSetOtpCode = (value: string) => {
     setOtpCode(value)
     if (errorMessage) setErrorMessage(undefined)
   }
 
-  const handleSetCurrentFlow = (flow: AuthFlow) => {
+  const handleSetName = (value: string) => {
+    setName(value)
     if (errorMessage) setErrorMessage(undefined)
-    setCurrentFlow(flow)
+  }
+
+  const handleSetPreferredName = (value: string) => {
+    setPreferredName(value)
+    if (errorMessage) setErrorMessage(undefined)
+  }
+
+  const handleSetCurrentFlow = (target: AuthFlow) => {
+    if (errorMessage) setErrorMessage(undefined)
+    flow.goTo(target)
+  }
+
+  const handleGoBack = () => {
+    if (errorMessage) setErrorMessage(undefined)
+    flow.goBack()
   }
 
   return {
-    currentFlow,
+    currentFlow: flow.currentFlow,
+    flowDirection: flow.flowDirection,
+    canGoBack: flow.canGoBack,
     email,
     password,
     passwordConfirmation,
     otpCode,
+    name,
+    preferredName,
     isLoading,
     isResendLoading,
     signupMethod,
     errorMessage,
-    isRateLimited,
-    rateLimitRetryAfter,
+    isSignedIn,
 
     // sign-in
     handleGoogleSignIn,
@@ -297,6 +808,14 @@ export function useAuth(): AuthState & AuthHandlers {
     handlePasswordlessSignIn,
     handlePasskeySignIn,
     handleOtpVerification,
+    handleResendSignInCode,
+
+    // password reset
+    handleForgotPassword,
+    handlePasswordResetRequest,
+    handleResendPasswordResetCode,
+    handlePasswordResetCodeContinue,
+    handlePasswordResetComplete,
 
     // sign-up
     handleGoogleSignUp,
@@ -306,14 +825,18 @@ export function useAuth(): AuthState & AuthHandlers {
     handlePasswordEmailContinue,
     handlePasswordlessEmailContinue,
     handlePasswordSignUp,
+    handleSignUpProfileContinue,
     handleSignUpOtpVerification,
     handleResendVerificationCode,
 
     // setters
     setCurrentFlow: handleSetCurrentFlow,
+    goBack: handleGoBack,
     setEmail: handleSetEmail,
-    setPassword,
+    setPassword: handleSetPassword,
     setPasswordConfirmation,
     setOtpCode: handleSetOtpCode,
+    setName: handleSetName,
+    setPreferredName: handleSetPreferredName,
   }
 }
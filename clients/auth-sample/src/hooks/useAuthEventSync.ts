@@ -0,0 +1,28 @@
+import { useEffect } from "react"
+import { useAuth as useOidcAuth } from "react-oidc-context"
+import { subscribeToAuthEvents } from "@/lib/auth-events"
+import { isAuthRoute, requiresSession, SIGN_IN_PATH } from "@/lib/route-policy"
+
+/**
+ * Follows sign-in and sign-out in other tabs: signing out anywhere sends pages
+ * that need a session to sign-in, and signing in anywhere refreshes tabs left
+ * on the auth pages, which the middleware then moves on exactly as it would on
+ * navigation.
+ */
+export function useAuthEventSync() {
+  const { removeUser } = useOidcAuth()
+
+  useEffect(() => {
+    return subscribeToAuthEvents(async (event) => {
+      const { pathname } = window.location
+
+      if (event.type === "signed-in" && isAuthRoute(pathname)) {
+        window.location.reload()
+      } else if (event.type === "signed-out" && requiresSession(pathname)) {
+        // The OIDC user is kept per tab, so drop this tab's copy too
+        await removeUser().catch(() => undefined)
+        window.location.replace(SIGN_IN_PATH)
+      }
+    })
+  }, [removeUser])
+}
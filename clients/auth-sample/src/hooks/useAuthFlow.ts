@@ -0,0 +1,197 @@
+import { useEffect, useReducer, useRef } from "react"
+import type { AuthFlow } from "@/types/auth"
+import {
+  authFlowMachine,
+  back,
+  canTransition,
+  createFlowSnapshot,
+  isAuthFlow,
+  isRootFlow,
+  restart,
+  restoreHistory,
+  transition,
+  type FlowContext,
+  type FlowSnapshot,
+} from "@/lib/auth-flow"
+
+/** Query parameter that mirrors the current step, e.g. `/sign-up?step=signup-profile`. */
+export const FLOW_STEP_PARAM = "step"
+
+type FlowAction =
+  | { type: "goTo"; target: AuthFlow; context: FlowContext }
+  | { type: "back" }
+  | { type: "restart"; root: AuthFlow }
+  | { type: "restore"; history: AuthFlow[] }
+
+const flowReducer = (snapshot: FlowSnapshot, action: FlowAction): FlowSnapshot => {
+  switch (action.type) {
+    case "goTo":
+      return transition(authFlowMachine, snapshot, action.target, action.context)
+    case "back":
+      return back(snapshot)
+    case "restart":
+      return snapshot.current === action.root && snapshot.history.length === 1
+        ? snapshot
+        : restart(action.root)
+    case "restore":
+      return {
+        current: action.history[action.history.length - 1],
+        history: action.history,
+        direction: "forward",
+      }
+  }
+}
+
+/** What we keep on each browser history entry owned by the flow. */
+interface FlowHistoryState {
+  authFlowStep?: AuthFlow
+  /** How many flow entries sit below this one, so we never step back off the page. */
+  authFlowEntry?: number
+}
+
+const readHistoryState = (): FlowHistoryState =>
+  (window.history.state ?? {}) as FlowHistoryState
+
+const writeHistoryEntry = (mode: "push" | "replace", step: AuthFlow, entry: number) => {
+  const url = new URL(window.location.href)
+  if (isRootFlow(step)) {
+    url.searchParams.delete(FLOW_STEP_PARAM)
+  } else {
+    url.searchParams.set(FLOW_STEP_PARAM, step)
+  }
+
+  const state: FlowHistoryState = { authFlowStep: step, authFlowEntry: entry }
+  const href = `${url.pathname}${url.search}${url.hash}`
+  if (mode === "push") {
+    window.history.pushState(state, "", href)
+  } else {
+    window.history.replaceState(state, "", href)
+  }
+}
+
+/** A step to pick up from on load, with the state that lets its guards pass. */
+export interface FlowResume {
+  target: AuthFlow
+  context: FlowContext
+}
+
+export interface UseAuthFlowOptions {
+  /**
+   * Mirror the step in the URL and map browser back/forward onto the flow.
+   * Only the page that owns the flow should turn this on.
+   */
+  syncWithUrl?: boolean
+  /** Called once on load; takes precedence over the step in the URL. */
+  resume?: () => FlowResume | undefined
+}
+
+/**
+ * Step navigation for the auth pages. Transitions are checked against the
+ * machine in `lib/auth-flow`, so components ask to go somewhere rather than
+ * setting the step outright; the reducer sees every queued move in order.
+ */
+export function useAuthFlow(
+  initialFlow: AuthFlow,
+  context: FlowContext,
+  { syncWithUrl = false, resume }: UseAuthFlowOptions = {}
+) {
+  const [snapshot, dispatch] = useReducer(flowReducer, initialFlow, createFlowSnapshot)
+
+  // The popstate listener outlives renders, so it reads the latest values through refs.
+  const snapshotRef = useRef(snapshot)
+  const contextRef = useRef(context)
+  const syncedSnapshotRef = useRef(snapshot)
+  snapshotRef.current = snapshot
+  contextRef.current = context
+
+  // Restore the step on load, as deep as the current state allows.
+  useEffect(() => {
+    const resumed = resume?.()
+    const requested = syncWithUrl
+      ? new URLSearchParams(window.location.search).get(FLOW_STEP_PARAM)
+      : null
+
+    let history: AuthFlow[] = [initialFlow]
+    if (resumed) {
+      history = restoreHistory(authFlowMachine, initialFlow, resumed.target, resumed.context)
+    } else if (requested && isAuthFlow(requested)) {
+      history = restoreHistory(authFlowMachine, initialFlow, requested, contextRef.current)
+    }
+
+    if (history.length > 1) {
+      dispatch({ type: "restore", history })
+    }
+    if (syncWithUrl) {
+      writeHistoryEntry("replace", history[history.length - 1], 0)
+    }
+    // Only the state at load time is restored; later changes flow the other way.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Push forward steps onto the browser history and walk it back when the flow rewinds.
+  useEffect(() => {
+    if (!syncWithUrl) return
+
+    const previous = syncedSnapshotRef.current
+    syncedSnapshotRef.current = snapshot
+    if (previous === snapshot) return
+
+    const { authFlowStep, authFlowEntry = 0 } = readHistoryState()
+    // Already there: the move came from the browser or from the restore above.
+    if (authFlowStep === snapshot.current) return
+
+    if (snapshot.direction === "forward") {
+      writeHistoryEntry("push", snapshot.current, authFlowEntry + 1)
+      return
+    }
+
+    const stepsBack = previous.history.length - snapshot.history.length
+    if (stepsBack > 0 && stepsBack <= authFlowEntry) {
+      window.history.go(-stepsBack)
+    } else {
+      writeHistoryEntry("replace", snapshot.current, authFlowEntry)
+    }
+  }, [snapshot, syncWithUrl])
+
+  // Map browser back/forward onto the flow, refusing steps the machine would not allow.
+  useEffect(() => {
+    if (!syncWithUrl) return
+
+    const onPopState = (event: PopStateEvent) => {
+      const target = (event.state as FlowHistoryState | null)?.authFlowStep ?? initialFlow
+      const current = snapshotRef.current
+      if (target === current.current) return
+
+      if (isRootFlow(target)) {
+        dispatch({ type: "restart", root: target })
+      } else if (canTransition(authFlowMachine, current, target, contextRef.current)) {
+        dispatch({ type: "goTo", target, context: contextRef.current })
+      } else {
+        writeHistoryEntry("replace", current.current, readHistoryState().authFlowEntry ?? 0)
+      }
+    }
+
+    window.addEventListener("popstate", onPopState)
+    return () => window.removeEventListener("popstate", onPopState)
+  }, [initialFlow, syncWithUrl])
+
+  const goTo = (target: AuthFlow) => {
+    if (isRootFlow(target)) {
+      dispatch({ type: "restart", root: target })
+    } else {
+      dispatch({ type: "goTo", target, context })
+    }
+  }
+
+  const goBack = () => dispatch({ type: "back" })
+
+  return {
+    currentFlow: snapshot.current,
+    flowHistory: snapshot.history,
+    flowDirection: snapshot.direction,
+    canGoBack: snapshot.history.length > 1,
+    canGoTo: (target: AuthFlow) => canTransition(authFlowMachine, snapshot, target, context),
+    goTo,
+    goBack,
+  }
+}
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from "react"
+import { createFederationServiceClient } from "@/lib/services/grpc-clients"
+import { CompleteFederatedSignInRequest } from "@/lib/services/auth/federation/federation_pb"
+import { startWorkflow } from "@/lib/workflows"
+import { handleApiError } from "@/lib/services/handle-api-error"
+import {
+  clearPendingFederatedSignIn,
+  readPendingFederatedSignIn,
+  type FederatedIntent,
+} from "@/lib/federation"
+import { publishAuthEvent } from "@/lib/auth-events"
+import { takeCallbackUrl } from "@/lib/callback-url"
+
+const CANCELLED_MESSAGE = "Sign-in was cancelled. Choose a sign-up option to try again."
+const PROVIDER_ERROR_MESSAGE =
+  "Your provider couldn't complete sign-in. Please try again."
+const STATE_MISMATCH_MESSAGE =
+  "This sign-in link is no longer valid. Please start again."
+
+export type FederatedCallbackState = {
+  status: "processing" | "failed"
+  intent: FederatedIntent
+  errorMessage?: string
+}
+
+/**
+ * Finish a federated round trip started by the sign-up or sign-in page: hand the
+ * provider's authorization code to the Auth service, which creates the local
+ * account on first use and sets the session cookies, then close the workflow.
+ */
+export function useFederatedCallback(search: string): FederatedCallbackState {
+  const [status, setStatus] = useState<FederatedCallbackState["status"]>("processing")
+  const [errorMessage, setErrorMessage] = useState<string | undefined>()
+  const [intent, setIntent] = useState<FederatedIntent>("signup")
+  // Authorization codes are single use; never exchange twice (e.g. strict-mode effects)
+  const startedRef = useRef(false)
+
+  useEffect(() => {
+    if (startedRef.current) return
+    startedRef.current = true
+
+    const params = new URLSearchParams(search)
+    const pending = readPendingFederatedSignIn()
+    clearPendingFederatedSignIn()
+    if (pending) {
+      setIntent(pending.intent)
+    }
+
+    const workflow = startWorkflow(pending?.intent ?? "signup", "v1", {
+      method: pending?.provider,
+    })
+    const step = workflow.startStep("completeFederatedSignIn")
+
+    const fail = (code: string, message: string) => {
+      step.fail(code, message)
+      workflow.fail(code, message)
+      setErrorMessage(message)
+      setStatus("failed")
+    }
+
+    const state = params.get("state")
+    if (!pending || !state || pending.state !== state) {
+      fail("STATE_MISMATCH", STATE_MISMATCH_MESSAGE)
+      return
+    }
+
+    const error = params.get("error")
+    if (error) {
+      if (error === "access_denied") {
+        fail("CANCELLED", CANCELLED_MESSAGE)
+      } else {
+        fail("IDP_ERROR", PROVIDER_ERROR_MESSAGE)
+      }
+      return
+    }
+
+    const code = params.get("code")
+    if (!code) {
+      fail("IDP_ERROR", PROVIDER_ERROR_MESSAGE)
+      return
+    }
+
+    const complete = async () => {
+      try {
+        const request = new CompleteFederatedSignInRequest()
+        request.setCode(code)
+        request.setState(state)
+
+        const response = await step.run(() =>
+          createFederationServiceClient().completeFederatedSignInAsync(request, {})
+        )
+
+        step.succeed({ isNewUser: response.getIsNewUser() })
+        workflow.succeed()
+        publishAuthEvent("signed-in")
+        window.location.replace(takeCallbackUrl())
+      } catch (err) {
+        handleApiError(err, setErrorMessage, step)
+        workflow.fail("COMPLETE_FAILED")
+        setStatus("failed")
+      }
+    }
+
+    void complete()
+  }, [search])
+
+  return { status, intent, errorMessage }
+}
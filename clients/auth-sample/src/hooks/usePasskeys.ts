@@ -0,0 +1,184 @@
+import { useCallback, useMemo, useState } from "react"
+import { Empty } from "google-protobuf/google/protobuf/empty_pb"
+import { createPasskeyServiceClient } from "@/lib/services/grpc-clients"
+import { useUnmountSignal } from "@/hooks/useUnmountSignal"
+import {
+  CompletePasskeyRegistrationRequest,
+  DeletePasskeyRequest,
+  RenamePasskeyRequest,
+  type Passkey,
+} from "@/lib/services/auth/passkey/passkey_pb"
+import { startWorkflow } from "@/lib/workflows"
+import { friendlyMessageFor, handleApiError } from "@/lib/services/handle-api-error"
+import { ErrorCodes } from "@/lib/services/error-codes"
+import {
+  createPasskeyCredential,
+  isWebAuthnCancellation,
+  isWebAuthnSupported,
+} from "@/lib/webauthn"
+
+export type PasskeySummary = {
+  credentialId: string
+  name: string
+  createdAt?: Date
+  authenticatorAttachment?: string
+}
+
+export type PasskeysState = {
+  passkeys: PasskeySummary[]
+  isSupported: boolean
+  isLoading: boolean
+  isRegistering: boolean
+  errorMessage?: string
+}
+
+export type PasskeysHandlers = {
+  loadPasskeys: () => Promise<void>
+  /** Runs the registration ceremony; resolves true when a passkey was added. */
+  registerPasskey: (name?: string) => Promise<boolean>
+  renamePasskey: (credentialId: string, name: string) => Promise<boolean>
+  deletePasskey: (credentialId: string) => Promise<boolean>
+  clearError: () => void
+}
+
+const toSummary = (passkey: Passkey): PasskeySummary => ({
+  credentialId: passkey.getCredentialId(),
+  name: passkey.getName(),
+  createdAt: passkey.getCreatedAt()?.toDate(),
+  authenticatorAttachment: passkey.getAuthenticatorAttachment() || undefined,
+})
+
+/** -------- Hook -------- */
+export function usePasskeys(): PasskeysState & PasskeysHandlers {
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRegistering, setIsRegistering] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | undefined>()
+
+  // The signal getter is stable, so one client serves the whole mount
+  const signal = useUnmountSignal()
+  const client = useMemo(() => createPasskeyServiceClient({ signal }), [signal])
+  const isSupported = isWebAuthnSupported()
+
+  const loadPasskeys = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await client.listPasskeysAsync(new Empty(), {})
+      setPasskeys(response.getPasskeysList().map(toSummary))
+      setErrorMessage(undefined)
+    } catch (err) {
+      handleApiError(err, setErrorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [client])
+
+  const registerPasskey = async (name?: string): Promise<boolean> => {
+    if (!isSupported) {
+      setErrorMessage("Passkeys aren't supported on this device.")
+      return false
+    }
+
+    const workflow = startWorkflow("passkeyEnrollment", "v1")
+    setIsRegistering(true)
+    try {
+      const beginStep = workflow.startStep("beginPasskeyRegistration")
+      let creationOptions: string
+      try {
+        const response = await beginStep.run(() => client.beginPasskeyRegistrationAsync(new Empty(), {}))
+        creationOptions = response.getCredentialCreationOptions()
+        beginStep.succeed()
+      } catch (err) {
+        handleApiError(err, setErrorMessage, beginStep)
+        workflow.fail("BEGIN_FAILED")
+        return false
+      }
+
+      const createStep = workflow.startStep("createPasskeyCredential")
+      let credential: string
+      try {
+        credential = await createStep.run(() => createPasskeyCredential(creationOptions))
+        createStep.succeed()
+      } catch (err) {
+        if (isWebAuthnCancellation(err)) {
+          createStep.fail("CANCELLED")
+          workflow.fail("CANCELLED")
+          setErrorMessage(undefined)
+          return false
+        }
+        const message = friendlyMessageFor[ErrorCodes.PasskeyRegistrationFailed]
+        createStep.fail("CREATE_FAILED", err instanceof Error ? err.message : message)
+        workflow.fail("CREATE_FAILED")
+        setErrorMessage(message)
+        return false
+      }
+
+      const completeStep = workflow.startStep("completePasskeyRegistration")
+      try {
+        const request = new CompletePasskeyRegistrationRequest()
+        request.setCredential(credential)
+        if (name?.trim()) request.setName(name.trim())
+
+        const passkey = await completeStep.run(() => client.completePasskeyRegistrationAsync(request, {}))
+        completeStep.succeed()
+        workflow.succeed()
+
+        const added = toSummary(passkey)
+        setPasskeys((prev) => [...prev.filter((p) => p.credentialId !== added.credentialId), added])
+        setErrorMessage(undefined)
+        return true
+      } catch (err) {
+        handleApiError(err, setErrorMessage, completeStep)
+        workflow.fail("COMPLETE_FAILED")
+        return false
+      }
+    } finally {
+      setIsRegistering(false)
+    }
+  }
+
+  const renamePasskey = async (credentialId: string, name: string): Promise<boolean> => {
+    try {
+      const request = new RenamePasskeyRequest()
+      request.setCredentialId(credentialId)
+      request.setName(name.trim())
+
+      const renamed = toSummary(await client.renamePasskeyAsync(request, {}))
+      setPasskeys((prev) => prev.map((p) => (p.credentialId === credentialId ? renamed : p)))
+      setErrorMessage(undefined)
+      return true
+    } catch (err) {
+      handleApiError(err, setErrorMessage)
+      return false
+    }
+  }
+
+  const deletePasskey = async (credentialId: string): Promise<boolean> => {
+    try {
+      const request = new DeletePasskeyRequest()
+      request.setCredentialId(credentialId)
+
+      await client.deletePasskeyAsync(request, {})
+      setPasskeys((prev) => prev.filter((p) => p.credentialId !== credentialId))
+      setErrorMessage(undefined)
+      return true
+    } catch (err) {
+      handleApiError(err, setErrorMessage)
+      return false
+    }
+  }
+
+  return {
+    passkeys,
+    isSupported,
+    isLoading,
+    isRegistering,
+    errorMessage,
+
+    loadPasskeys,
+    registerPasskey,
+    renamePasskey,
+    deletePasskey,
+    clearError: () => setErrorMessage(undefined),
+  }
+}
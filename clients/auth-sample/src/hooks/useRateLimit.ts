@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react"
+import { rateLimits, type RateLimitKey, type RateLimitRegistry } from "@/lib/rate-limits"
+
+export type RateLimitState = {
+  isRateLimited: boolean
+  /** Whole seconds until the call may be made again; 0 when it is not limited. */
+  secondsRemaining: number
+}
+
+/** -------- Hook -------- */
+
+/**
+ * The service's rate-limit window for `method` and `email`, counting down live.
+ * Windows live in the registry, so they survive reloads and stay in step
+ * across tabs.
+ */
+export function useRateLimit(
+  method: string,
+  email?: string,
+  registry: RateLimitRegistry = rateLimits
+): RateLimitState {
+  const [secondsRemaining, setSecondsRemaining] = useState(() =>
+    registry.remainingSeconds({ method, email })
+  )
+
+  useEffect(() => {
+    const key: RateLimitKey = { method, email }
+    let interval: ReturnType<typeof setInterval> | undefined
+
+    // Tick once a second while a window is open; stop when it closes
+    const refresh = () => {
+      const remaining = registry.remainingSeconds(key)
+      setSecondsRemaining(remaining)
+      if (remaining > 0 && interval === undefined) {
+        interval = setInterval(refresh, 1000)
+      } else if (remaining === 0 && interval !== undefined) {
+        clearInterval(interval)
+        interval = undefined
+      }
+    }
+
+    refresh()
+    const unsubscribe = registry.subscribe(refresh)
+    return () => {
+      unsubscribe()
+      if (interval !== undefined) clearInterval(interval)
+    }
+  }, [method, email, registry])
+
+  return { isRateLimited: secondsRemaining > 0, secondsRemaining }
+}
@@ -0,0 +1,83 @@
+import { useState } from "react"
+import { useAuth as useOidcAuth } from "react-oidc-context"
+import { Empty } from "google-protobuf/google/protobuf/empty_pb"
+import { createSignInServiceClient } from "@/lib/services/grpc-clients"
+import { startWorkflow } from "@/lib/workflows"
+import { ErrorCodes } from "@/lib/services/error-codes"
+import { config } from "@/lib/config"
+import { publishAuthEvent } from "@/lib/auth-events"
+
+export const LOGOUT_COMPLETE_PATH = "/auth/logout-complete"
+
+export type SessionUser = {
+  /** Best name we have for greeting the user; falls back to the email. */
+  displayName: string
+  email?: string
+}
+
+export type SessionState = {
+  user?: SessionUser
+  isSigningOut: boolean
+}
+
+export type SessionHandlers = {
+  /** Ends the Auth service session and the OIDC session, then lands on the logout page. */
+  signOut: () => Promise<void>
+}
+
+const postLogoutRedirectUri = () =>
+  config.postLogoutRedirectUri || new URL(LOGOUT_COMPLETE_PATH, window.location.origin).toString()
+
+/** -------- Hook -------- */
+export function useSession(): SessionState & SessionHandlers {
+  const oidc = useOidcAuth()
+  const [isSigningOut, setIsSigningOut] = useState(false)
+
+  const client = createSignInServiceClient()
+
+  const profile = oidc.user?.profile
+  const email = profile?.email
+  const displayName = profile?.name || profile?.preferred_username || email
+  const user = displayName ? { displayName, email } : undefined
+
+  const signOut = async () => {
+    setIsSigningOut(true)
+    const workflow = startWorkflow("signout", "v1", { method: oidc.user ? "oidc" : "service" })
+
+    // Clear the service cookies first; the OIDC redirect below leaves the page
+    const step = workflow.startStep("clearServiceSession")
+    try {
+      await step.run(() => client.signOutAsync(new Empty(), {}))
+      step.succeed()
+    } catch (err) {
+      // Keep going: the user asked to leave, and the cookies expire on their own
+      step.fail(ErrorCodes.Unexpected, err instanceof Error ? err.message : String(err))
+    }
+    publishAuthEvent("signed-out")
+
+    if (oidc.user) {
+      const redirectStep = workflow.startStep("oidcSignoutRedirect")
+      try {
+        await redirectStep.run(() =>
+          oidc.signoutRedirect({ post_logout_redirect_uri: postLogoutRedirectUri() })
+        )
+        redirectStep.succeed()
+        workflow.succeed()
+        return
+      } catch (err) {
+        // Providers without an end-session endpoint: forget the user locally instead
+        redirectStep.fail(ErrorCodes.Unexpected, err instanceof Error ? err.message : String(err))
+        await oidc.removeUser()
+      }
+    }
+
+    workflow.succeed()
+    window.location.replace(LOGOUT_COMPLETE_PATH)
+  }
+
+  return {
+    user,
+    isSigningOut,
+    signOut,
+  }
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react"
+import { useAuth as useOidcAuth } from "react-oidc-context"
+import { startWorkflow } from "@/lib/workflows"
+import { ErrorCodes } from "@/lib/services/error-codes"
+
+/** How long before expiry we warn; silent renewal normally lands well before this. */
+export const SESSION_EXPIRY_WARNING_SECONDS = 120
+
+const EXTEND_FAILED_MESSAGE =
+  "We couldn't extend your session. Save anything you're working on and sign in again."
+
+export type SessionExpiryState = {
+  /** Seconds until the access token expires; undefined without an OIDC session. */
+  secondsRemaining?: number
+  /** Inside the warning window, renewal has not happened yet. */
+  isExpiring: boolean
+  isExpired: boolean
+  isExtending: boolean
+  errorMessage?: string
+}
+
+export type SessionExpiryHandlers = {
+  /** Renews the session in the background; resolves true once new tokens are in. */
+  extend: () => Promise<boolean>
+}
+
+/** -------- Hook -------- */
+export function useSessionExpiry(
+  warnBeforeSeconds: number = SESSION_EXPIRY_WARNING_SECONDS
+): SessionExpiryState & SessionExpiryHandlers {
+  const oidc = useOidcAuth()
+  const expiresAt = oidc.user?.expires_at
+  const [now, setNow] = useState(() => Date.now())
+  const [isExtending, setIsExtending] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | undefined>()
+
+  // Tick once a second while there is something to count down to
+  useEffect(() => {
+    if (expiresAt === undefined) return
+
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [expiresAt])
+
+  const secondsRemaining =
+    expiresAt === undefined ? undefined : Math.max(0, Math.ceil(expiresAt - now / 1000))
+  const isExpired = secondsRemaining === 0
+  const isExpiring =
+    secondsRemaining !== undefined && !isExpired && secondsRemaining <= warnBeforeSeconds
+
+  const extend = async (): Promise<boolean> => {
+    setIsExtending(true)
+    const workflow = startWorkflow("sessionExtend", "v1", { trigger: isExpired ? "expired" : "warning" })
+    const step = workflow.startStep("signinSilent")
+
+    try {
+      const user = await step.run(() => oidc.signinSilent())
+      if (!user) {
+        throw new Error("Silent sign-in returned no user")
+      }
+
+      step.succeed()
+      workflow.succeed()
+      setErrorMessage(undefined)
+      return true
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      step.fail(ErrorCodes.Unexpected, message)
+      workflow.fail(ErrorCodes.Unexpected, message)
+      setErrorMessage(EXTEND_FAILED_MESSAGE)
+      return false
+    } finally {
+      setIsExtending(false)
+    }
+  }
+
+  return {
+    secondsRemaining,
+    isExpiring,
+    isExpired,
+    isExtending,
+    errorMessage,
+    extend,
+  }
+}
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from "react"
+
+/**
+ * Returns a getter for an AbortSignal that aborts when the component unmounts,
+ * for passing to the gRPC client factories as `{ signal }`.
+ *
+ * A fresh controller is made on each mount, so strict mode's simulated unmount
+ * and remount still leaves a live signal behind.
+ */
+export function useUnmountSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController()
+    }
+    const controller = controllerRef.current
+    return () => controller.abort()
+  }, [])
+
+  return useCallback(() => {
+    // Calls made before the first effect run still belong to this mount
+    if (!controllerRef.current) controllerRef.current = new AbortController()
+    return controllerRef.current.signal
+  }, [])
+}
@@ -0,0 +1,148 @@
+import {
+  APPLE_MESSAGE_TYPE,
+  buildAppleAuthorizeUrl,
+  formatAppleName,
+  isApplePopupClosed,
+  parseAppleUser,
+  signInWithApplePopup,
+} from '../apple'
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    appleClientId: 'com.example.web',
+    appleAuthorizeUrl: '/auth/apple/stub/authorize',
+  },
+}))
+
+describe('Apple popup helpers', () => {
+  describe('buildAppleAuthorizeUrl', () => {
+    it('should request a form_post back to the relay route', () => {
+      const url = new URL(buildAppleAuthorizeUrl({ state: 'state-1', nonce: 'nonce-1' }, 'http://localhost'))
+
+      expect(url.pathname).toBe('/auth/apple/stub/authorize')
+      expect(url.searchParams.get('client_id')).toBe('com.example.web')
+      expect(url.searchParams.get('redirect_uri')).toBe('http://localhost/auth/apple/callback')
+      expect(url.searchParams.get('response_mode')).toBe('form_post')
+      expect(url.searchParams.get('scope')).toBe('name email')
+      expect(url.searchParams.get('state')).toBe('state-1')
+      expect(url.searchParams.get('nonce')).toBe('nonce-1')
+    })
+  })
+
+  describe('parseAppleUser / formatAppleName', () => {
+    it('should read the one-time user payload', () => {
+      const user = parseAppleUser(JSON.stringify({
+        name: { firstName: 'Jane', lastName: 'Appleseed' },
+        email: 'jane@privaterelay.appleid.com',
+      }))
+
+      expect(user?.email).toBe('jane@privaterelay.appleid.com')
+      expect(formatAppleName(user)).toBe('Jane Appleseed')
+    })
+
+    it('should ignore a missing or malformed payload', () => {
+      expect(parseAppleUser(undefined)).toBeUndefined()
+      expect(parseAppleUser('not json')).toBeUndefined()
+      expect(formatAppleName(undefined)).toBeUndefined()
+      expect(formatAppleName({ name: { firstName: ' ' } })).toBeUndefined()
+    })
+  })
+
+  describe('signInWithApplePopup', () => {
+    let popup: { closed: boolean; location: { href: string }; close: jest.Mock }
+    let openSpy: jest.SpyInstance
+
+    beforeEach(() => {
+      jest.useFakeTimers()
+      popup = { closed: false, location: { href: 'about:blank' }, close: jest.fn() }
+      openSpy = jest.spyOn(window, 'open').mockReturnValue(popup as unknown as Window)
+    })
+
+    afterEach(() => {
+      openSpy.mockRestore()
+      jest.useRealTimers()
+    })
+
+    const begin = () => Promise.resolve({ state: 'state-1', nonce: 'nonce-1' })
+
+    // The popup only starts listening once the state and nonce are back
+    const openPopup = async (start = begin) => {
+      const pending = signInWithApplePopup(start)
+      await Promise.resolve()
+      return { pending }
+    }
+
+    const postFromPopup = (data: Record<string, unknown>, origin = window.location.origin) => {
+      window.dispatchEvent(new MessageEvent('message', {
+        data: { type: APPLE_MESSAGE_TYPE, ...data },
+        origin,
+        source: popup as unknown as Window,
+      }))
+    }
+
+    it('should open the popup blank and send it to Apple with the issued state and nonce', async () => {
+      await openPopup()
+
+      expect(openSpy).toHaveBeenCalledWith('about:blank', 'apple-sign-in', expect.any(String))
+      const url = new URL(popup.location.href)
+      expect(url.searchParams.get('state')).toBe('state-1')
+      expect(url.searchParams.get('nonce')).toBe('nonce-1')
+    })
+
+    it('should close the popup when the sign in cannot be started', async () => {
+      const failure = new Error('unavailable')
+
+      await expect(signInWithApplePopup(() => Promise.reject(failure))).rejects.toBe(failure)
+      expect(popup.close).toHaveBeenCalled()
+    })
+
+    it('should resolve with the authorization and the captured user', async () => {
+      const { pending } = await openPopup()
+
+      postFromPopup({
+        code: 'apple-code',
+        state: 'state-1',
+        user: JSON.stringify({ name: { firstName: 'Jane', lastName: 'Appleseed' } }),
+      })
+
+      await expect(pending).resolves.toEqual({
+        code: 'apple-code',
+        state: 'state-1',
+        user: { name: { firstName: 'Jane', lastName: 'Appleseed' } },
+      })
+    })
+
+    it('should ignore messages from other origins', async () => {
+      const { pending } = await openPopup()
+
+      postFromPopup({ code: 'forged', state: 'state-1' }, 'https://evil.example')
+      postFromPopup({ code: 'apple-code', state: 'state-1' })
+
+      await expect(pending).resolves.toMatchObject({ code: 'apple-code' })
+    })
+
+    it('should reject a response for a different state', async () => {
+      const { pending } = await openPopup()
+
+      postFromPopup({ code: 'apple-code', state: 'state-2' })
+
+      await expect(pending).rejects.toEqual({ error: 'invalid_response' })
+    })
+
+    it('should report the popup being closed as a cancellation', async () => {
+      const { pending } = await openPopup()
+
+      popup.closed = true
+      jest.advanceTimersByTime(500)
+
+      const error = await pending.catch((err: unknown) => err)
+      expect(isApplePopupClosed(error)).toBe(true)
+    })
+
+    it('should reject when the browser blocks the popup', async () => {
+      openSpy.mockReturnValue(null)
+
+      await expect(signInWithApplePopup(begin)).rejects.toEqual({ error: 'popup_blocked_by_browser' })
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import type { AuthEvent } from '../auth-events'
+
+type AuthEventsModule = typeof import('../auth-events')
+
+// Each load stands in for a separate tab with its own channel
+const loadModule = async (): Promise<AuthEventsModule> => {
+  let loaded: AuthEventsModule | undefined
+  await jest.isolateModulesAsync(async () => {
+    loaded = await import('../auth-events')
+  })
+  return loaded!
+}
+
+describe('auth events', () => {
+  describe('over storage events', () => {
+    it('should write the event where other tabs can see it and clean up after', async () => {
+      const { publishAuthEvent } = await loadModule()
+      const setItem = jest.spyOn(Storage.prototype, 'setItem')
+
+      publishAuthEvent('signed-out')
+
+      expect(setItem).toHaveBeenCalledWith('auth.events', expect.stringContaining('"type":"signed-out"'))
+      expect(window.localStorage.getItem('auth.events')).toBeNull()
+      setItem.mockRestore()
+    })
+
+    it('should deliver events written by another tab', async () => {
+      const { subscribeToAuthEvents } = await loadModule()
+      const listener = jest.fn()
+      const unsubscribe = subscribeToAuthEvents(listener)
+
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: 'auth.events',
+        newValue: JSON.stringify({ type: 'signed-in', at: 1 }),
+      }))
+
+      expect(listener).toHaveBeenCalledWith({ type: 'signed-in', at: 1 })
+      unsubscribe()
+    })
+
+    it('should ignore unrelated or malformed storage writes', async () => {
+      const { subscribeToAuthEvents } = await loadModule()
+      const listener = jest.fn()
+      const unsubscribe = subscribeToAuthEvents(listener)
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'theme', newValue: 'dark' }))
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth.events', newValue: '{not json' }))
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: 'auth.events',
+        newValue: JSON.stringify({ type: 'hijacked', at: 1 }),
+      }))
+
+      expect(listener).not.toHaveBeenCalled()
+      unsubscribe()
+    })
+  })
+
+  describe('over a BroadcastChannel', () => {
+    const channels: FakeBroadcastChannel[] = []
+
+    class FakeBroadcastChannel extends EventTarget {
+      constructor(public readonly name: string) {
+        super()
+        channels.push(this)
+      }
+
+      postMessage(data: unknown) {
+        // Like the real thing: every other channel with the same name, never the sender
+        for (const other of channels) {
+          if (other !== this && other.name === this.name) {
+            other.dispatchEvent(new MessageEvent('message', { data }))
+          }
+        }
+      }
+    }
+
+    beforeEach(() => {
+      channels.length = 0
+      Object.defineProperty(globalThis, 'BroadcastChannel', {
+        value: FakeBroadcastChannel,
+        configurable: true,
+        writable: true,
+      })
+    })
+
+    afterEach(() => {
+      delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel
+    })
+
+    it('should reach other tabs but not the publishing one', async () => {
+      const thisTab = await loadModule()
+      const otherTab = await loadModule()
+      const ownListener = jest.fn()
+      const otherListener = jest.fn()
+      thisTab.subscribeToAuthEvents(ownListener)
+      otherTab.subscribeToAuthEvents(otherListener)
+
+      thisTab.publishAuthEvent('signed-out')
+
+      expect(otherListener).toHaveBeenCalledWith(expect.objectContaining<Partial<AuthEvent>>({ type: 'signed-out' }))
+      expect(ownListener).not.toHaveBeenCalled()
+    })
+
+    it('should stop delivering after unsubscribing', async () => {
+      const thisTab = await loadModule()
+      const otherTab = await loadModule()
+      const listener = jest.fn()
+      const unsubscribe = otherTab.subscribeToAuthEvents(listener)
+
+      unsubscribe()
+      thisTab.publishAuthEvent('signed-in')
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import {
+  authFlowMachine,
+  back,
+  canTransition,
+  createFlowSnapshot,
+  isAuthFlow,
+  restart,
+  restoreHistory,
+  transition,
+  type FlowContext,
+  type FlowSnapshot,
+} from '../auth-flow'
+import type { AuthFlow } from '@/types/auth'
+
+const withEmail: FlowContext = { email: 'test@example.com', otpCode: '' }
+const withoutEmail: FlowContext = { email: '', otpCode: '' }
+
+const walk = (start: AuthFlow, steps: AuthFlow[], context: FlowContext = withEmail): FlowSnapshot =>
+  steps.reduce(
+    (snapshot, step) => transition(authFlowMachine, snapshot, step, context),
+    createFlowSnapshot(start)
+  )
+
+describe('auth flow machine', () => {
+  describe('transition', () => {
+    it('should follow allowed transitions and record them in the history', () => {
+      const snapshot = walk('signup-main', ['signup-email', 'signup-password', 'signup-profile'])
+
+      expect(snapshot.current).toBe('signup-profile')
+      expect(snapshot.history).toEqual(['signup-main', 'signup-email', 'signup-password', 'signup-profile'])
+      expect(snapshot.direction).toBe('forward')
+    })
+
+    it('should ignore jumps the machine does not allow', () => {
+      const start = createFlowSnapshot('signup-main')
+
+      const snapshot = transition(authFlowMachine, start, 'signup-verification', withEmail)
+
+      expect(snapshot).toBe(start)
+    })
+
+    it('should not enter a step whose guard fails', () => {
+      const atEmail = walk('signup-main', ['signup-email'], withoutEmail)
+
+      expect(canTransition(authFlowMachine, atEmail, 'signup-profile', withoutEmail)).toBe(false)
+      expect(transition(authFlowMachine, atEmail, 'signup-profile', withoutEmail)).toBe(atEmail)
+    })
+
+    it('should require a full code before choosing a new password', () => {
+      const atVerify = walk('main', ['email-options', 'password', 'reset-request', 'reset-verify'])
+
+      expect(canTransition(authFlowMachine, atVerify, 'reset-new-password', { ...withEmail, otpCode: '123' })).toBe(false)
+      expect(canTransition(authFlowMachine, atVerify, 'reset-new-password', { ...withEmail, otpCode: '123456' })).toBe(true)
+    })
+
+    it('should rewind to a step already in the history', () => {
+      const atNewPassword = walk(
+        'main',
+        ['email-options', 'password', 'reset-request', 'reset-verify'],
+      )
+      const snapshot = transition(
+        authFlowMachine,
+        transition(authFlowMachine, atNewPassword, 'reset-new-password', { ...withEmail, otpCode: '123456' }),
+        'reset-verify',
+        withoutEmail
+      )
+
+      expect(snapshot.current).toBe('reset-verify')
+      expect(snapshot.history).toEqual(['main', 'email-options', 'password', 'reset-request', 'reset-verify'])
+      expect(snapshot.direction).toBe('backward')
+    })
+  })
+
+  describe('back', () => {
+    it('should return to the previous step', () => {
+      const snapshot = back(walk('main', ['email-options', 'password']))
+
+      expect(snapshot.current).toBe('email-options')
+      expect(snapshot.history).toEqual(['main', 'email-options'])
+      expect(snapshot.direction).toBe('backward')
+    })
+
+    it('should stay put at the start of the flow', () => {
+      const start = createFlowSnapshot('signup-main')
+
+      expect(back(start)).toBe(start)
+    })
+  })
+
+  describe('restart', () => {
+    it('should clear the history', () => {
+      expect(restart('signup-main')).toEqual({
+        current: 'signup-main',
+        history: ['signup-main'],
+        direction: 'backward',
+      })
+    })
+  })
+
+  describe('restoreHistory', () => {
+    it('should rebuild the route to a step the state allows', () => {
+      expect(restoreHistory(authFlowMachine, 'signup-main', 'signup-profile', withEmail))
+        .toEqual(['signup-main', 'signup-email', 'signup-profile'])
+    })
+
+    it('should stop before the first step whose guard fails', () => {
+      expect(restoreHistory(authFlowMachine, 'signup-main', 'signup-verification', withoutEmail))
+        .toEqual(['signup-main', 'signup-email'])
+    })
+
+    it('should stay at the root for steps that belong to another page', () => {
+      expect(restoreHistory(authFlowMachine, 'main', 'signup-email', withEmail)).toEqual(['main'])
+    })
+
+    it('should only recognise known steps', () => {
+      expect(isAuthFlow('reset-verify')).toBe(true)
+      expect(isAuthFlow('toString')).toBe(false)
+    })
+  })
+})
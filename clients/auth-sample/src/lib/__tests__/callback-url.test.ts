@@ -0,0 +1,111 @@
+import {
+  isAuthPageReferrer,
+  peekCallbackUrl,
+  rememberCallbackUrl,
+  sanitizeCallbackUrl,
+  takeCallbackUrl,
+  withCallbackUrl,
+} from '../callback-url'
+
+const ORIGIN = 'http://localhost'
+
+describe('sanitizeCallbackUrl', () => {
+  it('should keep paths into the app with their query and hash', () => {
+    expect(sanitizeCallbackUrl('/', ORIGIN)).toBe('/')
+    expect(sanitizeCallbackUrl('/account/passkeys?tab=new#add', ORIGIN)).toBe('/account/passkeys?tab=new#add')
+  })
+
+  it.each([
+    ['an absolute URL', 'https://evil.example/'],
+    ['a protocol-relative URL', '//evil.example/'],
+    ['a backslash trick', '/\\evil.example'],
+    ['an embedded tab', '/\t/evil.example'],
+    ['a javascript URL', 'javascript:alert(1)'],
+    ['a relative path', 'account'],
+    ['a non-string', 42],
+  ])('should reject %s', (_, value) => {
+    expect(sanitizeCallbackUrl(value, ORIGIN)).toBeNull()
+  })
+
+  it('should reject pages that make no sense after signing in', () => {
+    expect(sanitizeCallbackUrl('/sign-in', ORIGIN)).toBeNull()
+    expect(sanitizeCallbackUrl('/auth/callback?code=x', ORIGIN)).toBeNull()
+    expect(sanitizeCallbackUrl('/error', ORIGIN)).toBeNull()
+  })
+})
+
+describe('remembered callback URL', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear()
+  })
+
+  it('should remember a valid callbackUrl and hand it out once', () => {
+    rememberCallbackUrl('?step=password&callbackUrl=%2Faccount%2Fpasskeys')
+
+    expect(peekCallbackUrl()).toBe('/account/passkeys')
+    expect(takeCallbackUrl()).toBe('/account/passkeys')
+    expect(takeCallbackUrl()).toBe('/')
+  })
+
+  it('should ignore an unsafe callbackUrl', () => {
+    rememberCallbackUrl('?callbackUrl=https%3A%2F%2Fevil.example')
+
+    expect(peekCallbackUrl()).toBeNull()
+    expect(takeCallbackUrl()).toBe('/')
+  })
+
+  it('should keep the remembered destination when a returning page has none', () => {
+    rememberCallbackUrl('?callbackUrl=%2Faccount')
+    rememberCallbackUrl('', { returning: true })
+
+    expect(peekCallbackUrl()).toBe('/account')
+  })
+
+  it('should send a later visit without callbackUrl home', () => {
+    rememberCallbackUrl('?callbackUrl=%2Faccount')
+    rememberCallbackUrl('')
+
+    expect(takeCallbackUrl()).toBe('/')
+  })
+
+  it('should carry the remembered destination on links back into the auth pages', () => {
+    expect(withCallbackUrl('/sign-in')).toBe('/sign-in')
+
+    rememberCallbackUrl('?callbackUrl=%2Faccount%3Ftab%3Dpasskeys')
+
+    expect(withCallbackUrl('/sign-in')).toBe('/sign-in?callbackUrl=%2Faccount%3Ftab%3Dpasskeys')
+  })
+
+  it('should prefer a destination carried through a redirect', () => {
+    rememberCallbackUrl('?callbackUrl=%2Faccount')
+
+    expect(takeCallbackUrl('/account/passkeys')).toBe('/account/passkeys')
+    expect(peekCallbackUrl()).toBeNull()
+  })
+
+  it('should not trust a carried destination just because it was carried', () => {
+    expect(takeCallbackUrl('//evil.example')).toBe('/')
+  })
+
+  it('should not trust what is in storage either', () => {
+    window.sessionStorage.setItem('auth.callbackUrl', 'https://evil.example')
+
+    expect(takeCallbackUrl()).toBe('/')
+  })
+})
+
+describe('isAuthPageReferrer', () => {
+  it('should recognise the auth pages of this app', () => {
+    expect(isAuthPageReferrer(`${ORIGIN}/sign-up`)).toBe(true)
+    expect(isAuthPageReferrer(`${ORIGIN}/sign-in?callbackUrl=%2Faccount`)).toBe(true)
+  })
+
+  it.each([
+    ['no referrer', ''],
+    ['an app page', `${ORIGIN}/account`],
+    ['another site', 'https://accounts.google.com/sign-in'],
+    ['garbage', 'not a url'],
+  ])('should not count %s', (_, referrer) => {
+    expect(isAuthPageReferrer(referrer)).toBe(false)
+  })
+})
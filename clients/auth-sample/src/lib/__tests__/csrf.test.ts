@@ -0,0 +1,9 @@
+import { requiresCsrfToken } from '../csrf'
+
+describe('requiresCsrfToken', () => {
+  it('should protect every call not known to be read-only', () => {
+    expect(requiresCsrfToken('/auth.SignInService/SignOutAsync')).toBe(true)
+    expect(requiresCsrfToken('/greet.Greeter/SayHello')).toBe(true)
+    expect(requiresCsrfToken('/auth.AuthorizationService/Check')).toBe(false)
+  })
+})
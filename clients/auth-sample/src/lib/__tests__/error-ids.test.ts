@@ -0,0 +1,44 @@
+import { ERROR_DETAILS, errorIdForFailure, parseErrorId, parseTraceId } from '../error-ids'
+
+describe('parseErrorId', () => {
+  it('should accept known error IDs', () => {
+    expect(parseErrorId('auth-service-timeout')).toBe('auth-service-timeout')
+  })
+
+  it('should treat anything else as unexpected', () => {
+    expect(parseErrorId('Error: connect ECONNREFUSED 10.0.0.1:443')).toBe('unexpected')
+    expect(parseErrorId(null)).toBe('unexpected')
+  })
+})
+
+describe('parseTraceId', () => {
+  it('should accept a 32-digit hex trace ID', () => {
+    expect(parseTraceId('4BF92F3577B34DA6A3CE929D0E0E4736')).toBe('4BF92F3577B34DA6A3CE929D0E0E4736')
+  })
+
+  it('should drop anything else', () => {
+    expect(parseTraceId(null)).toBeUndefined()
+    expect(parseTraceId('4bf92f3577b34da6a3ce929d0e0e473')).toBeUndefined()
+    expect(parseTraceId('Call +1 555 0100 for help, ref 4bf92f3577b34da6')).toBeUndefined()
+  })
+})
+
+describe('errorIdForFailure', () => {
+  it.each([
+    ['unavailable', 'auth-service-unavailable'],
+    ['network', 'auth-service-unavailable'],
+    ['timeout', 'auth-service-timeout'],
+    ['misconfigured', 'misconfiguration'],
+    ['unexpected', 'unexpected'],
+    [undefined, 'unexpected'],
+  ] as const)('should map %s to %s', (failure, errorId) => {
+    expect(errorIdForFailure(failure)).toBe(errorId)
+  })
+})
+
+describe('ERROR_DETAILS', () => {
+  it('should not offer a retry where retrying cannot help', () => {
+    expect(ERROR_DETAILS.misconfiguration.actions).not.toContain('retry')
+    expect(ERROR_DETAILS['redirect-loop'].actions).not.toContain('retry')
+  })
+})
@@ -0,0 +1,109 @@
+import { createRateLimitRegistry, formatRetryAfter } from '../rate-limits'
+
+const RESEND = '/auth.SignUpService/ResendVerificationCodeAsync'
+
+describe('createRateLimitRegistry', () => {
+  let now = 0
+  const registry = () => createRateLimitRegistry({ now: () => now })
+
+  beforeEach(() => {
+    now = 0
+    window.localStorage.clear()
+  })
+
+  it('should count down the recorded window', () => {
+    const limits = registry()
+    limits.record({ method: RESEND, email: 'a@example.com' }, 90)
+
+    now = 30_500
+
+    expect(limits.remainingSeconds({ method: RESEND, email: 'a@example.com' })).toBe(60)
+  })
+
+  it('should keep windows per email address, ignoring case', () => {
+    const limits = registry()
+    limits.record({ method: RESEND, email: 'A@Example.com' }, 60)
+
+    expect(limits.remainingSeconds({ method: RESEND, email: 'a@example.com' })).toBe(60)
+    expect(limits.remainingSeconds({ method: RESEND, email: 'b@example.com' })).toBe(0)
+  })
+
+  it('should not keep email addresses in storage', () => {
+    registry().record({ method: RESEND, email: 'a@example.com' }, 60)
+
+    expect(window.localStorage.getItem('auth.rateLimits')).not.toContain('example.com')
+  })
+
+  it('should apply a method-wide window to every address', () => {
+    const limits = registry()
+    limits.record({ method: RESEND }, 60)
+
+    expect(limits.remainingSeconds({ method: RESEND, email: 'a@example.com' })).toBe(60)
+  })
+
+  it('should remember windows across reloads', () => {
+    registry().record({ method: RESEND }, 60)
+
+    expect(registry().remainingSeconds({ method: RESEND })).toBe(60)
+  })
+
+  it('should forget windows once they pass or are cleared', () => {
+    const limits = registry()
+    limits.record({ method: RESEND }, 60)
+    limits.record({ method: RESEND, email: 'a@example.com' }, 600)
+
+    now = 60_000
+    expect(limits.remainingSeconds({ method: RESEND })).toBe(0)
+
+    limits.clear({ method: RESEND, email: 'a@example.com' })
+    expect(limits.remainingSeconds({ method: RESEND, email: 'a@example.com' })).toBe(0)
+  })
+
+  it('should drop passed windows from storage when reading', () => {
+    const limits = registry()
+    limits.record({ method: RESEND }, 60)
+    limits.record({ method: RESEND, email: 'a@example.com' }, 600)
+
+    now = 60_000
+    limits.remainingSeconds({ method: RESEND })
+
+    expect(Object.keys(JSON.parse(window.localStorage.getItem('auth.rateLimits') ?? '{}'))).toHaveLength(1)
+  })
+
+  it('should tell subscribers about changes', () => {
+    const limits = registry()
+    const listener = jest.fn()
+    const unsubscribe = limits.subscribe(listener)
+
+    limits.record({ method: RESEND }, 60)
+    unsubscribe()
+    limits.clear({ method: RESEND })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should tell subscribers about windows other tabs record', () => {
+    const listener = jest.fn()
+    const unsubscribe = registry().subscribe(listener)
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'auth.rateLimits' }))
+    window.dispatchEvent(new StorageEvent('storage', { key: 'theme' }))
+    unsubscribe()
+    window.dispatchEvent(new StorageEvent('storage', { key: 'auth.rateLimits' }))
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should ignore unreadable storage', () => {
+    window.localStorage.setItem('auth.rateLimits', 'not json')
+
+    expect(registry().remainingSeconds({ method: RESEND })).toBe(0)
+  })
+})
+
+describe('formatRetryAfter', () => {
+  it('should show seconds under a minute and m:ss above', () => {
+    expect(formatRetryAfter(45)).toBe('45s')
+    expect(formatRetryAfter(245)).toBe('4:05')
+  })
+})
@@ -0,0 +1,206 @@
+import {
+  createRoutePolicy,
+  evaluateRule,
+  failModeFor,
+  globToRegExp,
+  isAuthRoute,
+  requiresSession,
+  routePolicy,
+  type RouteRule,
+} from '../route-policy'
+import type { VerifiedIdentity } from '../server/identity-headers'
+
+const withRoles = (...roles: string[]): VerifiedIdentity => ({ subject: 'user-sub', roles })
+
+describe('globToRegExp', () => {
+  it('should match a literal path exactly', () => {
+    const regex = globToRegExp('/sign-in')
+
+    expect(regex.test('/sign-in')).toBe(true)
+    expect(regex.test('/sign-in/extra')).toBe(false)
+    expect(regex.test('/sign-inx')).toBe(false)
+  })
+
+  it('should keep a single star within one segment', () => {
+    const regex = globToRegExp('/users/*/profile')
+
+    expect(regex.test('/users/42/profile')).toBe(true)
+    expect(regex.test('/users/42/x/profile')).toBe(false)
+  })
+
+  it('should let a trailing double star cover the parent and everything below', () => {
+    const regex = globToRegExp('/account/**')
+
+    expect(regex.test('/account')).toBe(true)
+    expect(regex.test('/account/passkeys')).toBe(true)
+    expect(regex.test('/account/passkeys/new')).toBe(true)
+    expect(regex.test('/accounts')).toBe(false)
+  })
+
+  it('should treat regex characters literally', () => {
+    expect(globToRegExp('/a.b').test('/axb')).toBe(false)
+  })
+})
+
+describe('createRoutePolicy', () => {
+  const rules: RouteRule[] = [
+    { id: 'admin-public', pattern: '/admin/public', category: 'public' },
+    { id: 'admin', pattern: '/admin/**', category: 'role-restricted', roles: ['admin'] },
+    { id: 'reports', pattern: /^\/reports\/\d+$/, category: 'protected', redirectTo: '/reports-sign-in' },
+    { id: 'login', pattern: '/login', category: 'auth-only', redirectTo: '/dashboard' },
+  ]
+  const policy = createRoutePolicy(rules, 'public')
+
+  it('should apply the first matching rule', () => {
+    expect(policy.match('/admin/public').category).toBe('public')
+    expect(policy.match('/admin/users').category).toBe('role-restricted')
+  })
+
+  it('should accept regular expressions', () => {
+    expect(policy.match('/reports/7').category).toBe('protected')
+    expect(policy.match('/reports/seven').category).toBe('public')
+  })
+
+  it('should ignore a trailing slash', () => {
+    expect(policy.match('/login/').category).toBe('auth-only')
+  })
+
+  it('should fall back to the default category', () => {
+    expect(policy.match('/anything')).toMatchObject({ id: 'default', category: 'public' })
+  })
+
+  it('should honour per-route redirect targets', () => {
+    expect(policy.evaluate('/reports/7', { isAuthenticated: false })).toEqual({
+      kind: 'redirect',
+      reason: 'unauthenticated',
+      location: '/reports-sign-in',
+    })
+    expect(policy.evaluate('/login', { isAuthenticated: true })).toEqual({
+      kind: 'redirect',
+      reason: 'authenticated',
+      location: '/dashboard',
+    })
+  })
+})
+
+describe('evaluateRule', () => {
+  it('should let everyone through public routes', () => {
+    const rule: RouteRule = { id: 'x', pattern: '/x', category: 'public' }
+
+    expect(evaluateRule(rule, { isAuthenticated: false })).toEqual({ kind: 'allow' })
+    expect(evaluateRule(rule, { isAuthenticated: true })).toEqual({ kind: 'allow' })
+  })
+
+  it('should send signed-in users away from auth-only routes', () => {
+    const rule: RouteRule = { id: 'x', pattern: '/x', category: 'auth-only' }
+
+    expect(evaluateRule(rule, { isAuthenticated: false })).toEqual({ kind: 'allow' })
+    expect(evaluateRule(rule, { isAuthenticated: true })).toMatchObject({ kind: 'redirect', location: '/' })
+  })
+
+  it('should send signed-out users to sign-in from protected routes', () => {
+    const rule: RouteRule = { id: 'x', pattern: '/x', category: 'protected' }
+
+    expect(evaluateRule(rule, { isAuthenticated: true })).toEqual({ kind: 'allow' })
+    expect(evaluateRule(rule, { isAuthenticated: false })).toMatchObject({ kind: 'redirect', location: '/sign-in' })
+  })
+
+  it('should require one of the listed roles on role-restricted routes', () => {
+    const rule: RouteRule = { id: 'x', pattern: '/x', category: 'role-restricted', roles: ['admin', 'support'] }
+
+    expect(evaluateRule(rule, { isAuthenticated: true, identity: withRoles('support') })).toEqual({ kind: 'allow' })
+    expect(evaluateRule(rule, { isAuthenticated: true, identity: withRoles('viewer') })).toEqual({
+      kind: 'forbidden',
+      location: '/forbidden',
+    })
+    expect(evaluateRule(rule, { isAuthenticated: false, identity: withRoles('admin') })).toMatchObject({
+      kind: 'redirect',
+      reason: 'unauthenticated',
+    })
+  })
+
+  it('should forbid role-restricted routes when the identity is unknown', () => {
+    const rule: RouteRule = { id: 'x', pattern: '/x', category: 'role-restricted', roles: ['admin'] }
+
+    expect(evaluateRule(rule, { isAuthenticated: true })).toMatchObject({ kind: 'forbidden' })
+  })
+
+  it('should require every listed claim', () => {
+    const rule: RouteRule = {
+      id: 'x',
+      pattern: '/x',
+      category: 'role-restricted',
+      roles: ['admin'],
+      claims: { email: /@example\.com$/ },
+    }
+
+    expect(evaluateRule(rule, {
+      isAuthenticated: true,
+      identity: { ...withRoles('admin'), email: 'jane@example.com' },
+    })).toEqual({ kind: 'allow' })
+    expect(evaluateRule(rule, {
+      isAuthenticated: true,
+      identity: { ...withRoles('admin'), email: 'jane@elsewhere.org' },
+    })).toMatchObject({ kind: 'forbidden' })
+    expect(evaluateRule(rule, { isAuthenticated: true, identity: withRoles('admin') })).toMatchObject({
+      kind: 'forbidden',
+    })
+  })
+
+  it('should send forbidden requests to a per-route page when given', () => {
+    const rule: RouteRule = { id: 'x', pattern: '/x', category: 'role-restricted', roles: ['admin'], redirectTo: '/no-admin' }
+
+    expect(evaluateRule(rule, { isAuthenticated: true, identity: withRoles() })).toEqual({
+      kind: 'forbidden',
+      location: '/no-admin',
+    })
+  })
+})
+
+describe('failModeFor', () => {
+  it('should keep pages anyone may see up when the check fails', () => {
+    expect(failModeFor({ id: 'x', pattern: '/x', category: 'public' })).toBe('open')
+    expect(failModeFor({ id: 'x', pattern: '/x', category: 'auth-only' })).toBe('open')
+  })
+
+  it('should fail closed on pages that need a session', () => {
+    expect(failModeFor({ id: 'x', pattern: '/x', category: 'protected' })).toBe('closed')
+    expect(failModeFor({ id: 'x', pattern: '/x', category: 'role-restricted' })).toBe('closed')
+  })
+
+  it('should honour an explicit fail mode', () => {
+    expect(failModeFor({ id: 'x', pattern: '/x', category: 'protected', failMode: 'open' })).toBe('open')
+  })
+})
+
+describe('routePolicy', () => {
+  it('should treat sign-in and sign-up as auth routes', () => {
+    expect(isAuthRoute('/sign-in')).toBe(true)
+    expect(isAuthRoute('/sign-up')).toBe(true)
+    expect(isAuthRoute('/')).toBe(false)
+  })
+
+  it('should protect the app pages', () => {
+    expect(requiresSession('/')).toBe(true)
+    expect(requiresSession('/account/passkeys')).toBe(true)
+  })
+
+  it('should leave callbacks and the error page public', () => {
+    expect(routePolicy.match('/auth/callback').category).toBe('public')
+    expect(routePolicy.match('/auth/logout-complete').category).toBe('public')
+    expect(routePolicy.match('/error').category).toBe('public')
+  })
+
+  it('should keep admin pages for admins', () => {
+    expect(routePolicy.evaluate('/admin/users', { isAuthenticated: true, identity: withRoles() })).toMatchObject({
+      kind: 'forbidden',
+    })
+    expect(routePolicy.evaluate('/admin', { isAuthenticated: true, identity: withRoles('admin') })).toEqual({
+      kind: 'allow',
+    })
+  })
+
+  it('should protect pages no rule mentions', () => {
+    expect(requiresSession('/some-new-page')).toBe(true)
+  })
+})
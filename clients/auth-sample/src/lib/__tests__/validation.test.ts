@@ -1,4 +1,13 @@
-import { validateEmail, validatePassword, validatePasswordConfirmation, getPasswordErrors } from '../validation'
+import {
+  validateEmail,
+  validatePassword,
+  validatePasswordConfirmation,
+  getPasswordErrors,
+  validateName,
+  getNameErrors,
+  validatePreferredName,
+  MAX_NAME_LENGTH,
+} from '../validation'
 
 describe('validation utilities', () => {
   describe('validateEmail', () => {
@@ -173,4 +182,46 @@ describe('validation utilities', () => {
       expect(errors).toHaveLength(2)
     })
   })
-}) 
\ No newline at end of file
+
+  describe('validateName', () => {
+    it('should accept real-world names', () => {
+      expect(validateName('John Doe')).toBe(true)
+      expect(validateName("O'Connor")).toBe(true)
+      expect(validateName('José María')).toBe(true)
+      expect(validateName('李小龍')).toBe(true)
+    })
+
+    it('should reject empty or whitespace-only names', () => {
+      expect(validateName('')).toBe(false)
+      expect(validateName('   ')).toBe(false)
+    })
+
+    it('should reject names longer than the attribute limit', () => {
+      expect(validateName('A'.repeat(MAX_NAME_LENGTH))).toBe(true)
+      expect(validateName('A'.repeat(MAX_NAME_LENGTH + 1))).toBe(false)
+    })
+  })
+
+  describe('getNameErrors', () => {
+    it('should return required error for empty name', () => {
+      expect(getNameErrors('')).toEqual(['Name is required'])
+    })
+
+    it('should reject control characters', () => {
+      expect(getNameErrors('John\nDoe')).toEqual(["Name contains characters that aren't allowed"])
+    })
+  })
+
+  describe('validatePreferredName', () => {
+    it('should treat a blank preferred name as not provided', () => {
+      expect(validatePreferredName('')).toBe(true)
+      expect(validatePreferredName('  ')).toBe(true)
+    })
+
+    it('should apply the same limits as the name', () => {
+      expect(validatePreferredName('Jon')).toBe(true)
+      expect(validatePreferredName('A'.repeat(MAX_NAME_LENGTH + 1))).toBe(false)
+      expect(validatePreferredName('Jon\tD')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  isWebAuthnCancellation,
+  isWebAuthnSupported,
+  parseCreationOptions,
+  parseRequestOptions,
+} from '../webauthn'
+
+describe('webauthn helpers', () => {
+  describe('base64url encoding', () => {
+    it('should round-trip binary data without padding', () => {
+      const input = new Uint8Array([0, 250, 251, 252, 253, 254, 255])
+      const encoded = bufferToBase64Url(input.buffer)
+
+      expect(encoded).not.toMatch(/[+/=]/)
+      expect(new Uint8Array(base64UrlToBuffer(encoded))).toEqual(input)
+    })
+
+    it('should decode unpadded url-safe input', () => {
+      expect(new Uint8Array(base64UrlToBuffer('-_8'))).toEqual(new Uint8Array([251, 255]))
+    })
+  })
+
+  describe('parseRequestOptions', () => {
+    it('should decode the challenge and allowed credential ids', () => {
+      const options = parseRequestOptions(JSON.stringify({
+        challenge: 'AQID',
+        rpId: 'example.com',
+        userVerification: 'preferred',
+        allowCredentials: [{ type: 'public-key', id: 'BAUG', transports: ['internal'] }],
+      }))
+
+      expect(new Uint8Array(options.challenge as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]))
+      expect(options.rpId).toBe('example.com')
+      expect(options.userVerification).toBe('preferred')
+      expect(new Uint8Array(options.allowCredentials![0].id as ArrayBuffer)).toEqual(new Uint8Array([4, 5, 6]))
+      expect(options.allowCredentials![0].transports).toEqual(['internal'])
+    })
+  })
+
+  describe('parseCreationOptions', () => {
+    it('should decode the challenge, user id and excluded credential ids', () => {
+      const options = parseCreationOptions(JSON.stringify({
+        challenge: 'AQID',
+        rp: { id: 'example.com', name: 'Example' },
+        user: { id: 'BwgJ', name: 'test@example.com', displayName: 'test@example.com' },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+        excludeCredentials: [{ type: 'public-key', id: 'BAUG' }],
+      }))
+
+      expect(new Uint8Array(options.challenge as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]))
+      expect(new Uint8Array(options.user.id as ArrayBuffer)).toEqual(new Uint8Array([7, 8, 9]))
+      expect(options.user.name).toBe('test@example.com')
+      expect(options.rp).toEqual({ id: 'example.com', name: 'Example' })
+      expect(new Uint8Array(options.excludeCredentials![0].id as ArrayBuffer)).toEqual(new Uint8Array([4, 5, 6]))
+    })
+  })
+
+  describe('isWebAuthnCancellation', () => {
+    it.each(['NotAllowedError', 'AbortError'])('should treat %s as a cancellation', (name) => {
+      expect(isWebAuthnCancellation(new DOMException('dismissed', name))).toBe(true)
+    })
+
+    it('should not treat other errors as a cancellation', () => {
+      expect(isWebAuthnCancellation(new DOMException('bad', 'SecurityError'))).toBe(false)
+      expect(isWebAuthnCancellation(new Error('boom'))).toBe(false)
+      expect(isWebAuthnCancellation(undefined)).toBe(false)
+    })
+  })
+
+  describe('isWebAuthnSupported', () => {
+    it('should report no support when PublicKeyCredential is missing', () => {
+      expect(isWebAuthnSupported()).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Sign in with Apple the way Apple JS does it with `usePopup: true`.
+ *
+ * Apple only shares the user's name (and email, often a private relay address)
+ * on the very first authorization, and only in the form_post to the redirect
+ * URI. The popup posts to our relay route (`/auth/apple/callback`), which hands
+ * the payload back to this window before closing. The Auth service issues the
+ * state and nonce up front and exchanges the code with Apple afterwards.
+ */
+import { config } from "@/lib/config"
+
+export const APPLE_CALLBACK_PATH = "/auth/apple/callback"
+export const APPLE_MESSAGE_TYPE = "apple-authorization"
+
+export type AppleUser = {
+  email?: string
+  name?: { firstName?: string; lastName?: string }
+}
+
+export type AppleAuthorization = {
+  code: string
+  state: string
+  user?: AppleUser
+}
+
+/** Issued by the Auth service for each popup; Apple echoes the nonce in its ID token. */
+export type AppleAuthorizationRequest = {
+  state: string
+  nonce: string
+}
+
+/** Error codes follow Apple JS so callers can branch the same way. */
+export type AppleSignInError = {
+  error: "popup_blocked_by_browser" | "popup_closed_by_user" | "invalid_response" | string
+}
+
+export type AppleCallbackMessage = {
+  type: typeof APPLE_MESSAGE_TYPE
+  code?: string
+  state?: string
+  user?: string
+  error?: string
+}
+
+const POPUP_FEATURES = "width=500,height=640,menubar=no,toolbar=no"
+const POPUP_POLL_MS = 500
+
+export function isAppleSignInConfigured(): boolean {
+  return !!config.appleClientId && !!config.appleAuthorizeUrl
+}
+
+export function isApplePopupClosed(err: unknown): boolean {
+  return (err as AppleSignInError | undefined)?.error === "popup_closed_by_user"
+}
+
+/** Tells the popup's own failures apart from errors raised while starting it. */
+export function isAppleSignInError(err: unknown): err is AppleSignInError {
+  return typeof (err as AppleSignInError | undefined)?.error === "string"
+}
+
+export function appleRedirectUri(origin: string): string {
+  return new URL(APPLE_CALLBACK_PATH, origin).toString()
+}
+
+export function buildAppleAuthorizeUrl(request: AppleAuthorizationRequest, origin: string): string {
+  const url = new URL(config.appleAuthorizeUrl!, origin)
+  url.searchParams.set("client_id", config.appleClientId!)
+  url.searchParams.set("redirect_uri", appleRedirectUri(origin))
+  url.searchParams.set("response_type", "code")
+  url.searchParams.set("response_mode", "form_post")
+  url.searchParams.set("scope", "name email")
+  url.searchParams.set("state", request.state)
+  url.searchParams.set("nonce", request.nonce)
+  return url.toString()
+}
+
+/** Apple sends `user` as a JSON string; tolerate anything else by ignoring it. */
+export function parseAppleUser(raw?: string): AppleUser | undefined {
+  if (!raw) return undefined
+  try {
+    const parsed = JSON.parse(raw) as AppleUser
+    return typeof parsed === "object" && parsed !== null ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function formatAppleName(user?: AppleUser): string | undefined {
+  const name = [user?.name?.firstName, user?.name?.lastName]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(" ")
+  return name || undefined
+}
+
+/**
+ * Open the Apple consent screen in a popup and resolve with what Apple posted back.
+ *
+ * The popup opens blank straight away, while the click still counts as a user
+ * gesture for popup blockers, and moves on to Apple once `begin` has fetched
+ * the state and nonce.
+ */
+export function signInWithApplePopup(
+  begin: () => Promise<AppleAuthorizationRequest>
+): Promise<AppleAuthorization> {
+  const origin = window.location.origin
+  const popup = window.open("about:blank", "apple-sign-in", POPUP_FEATURES)
+  if (!popup) {
+    return Promise.reject<AppleAuthorization>({ error: "popup_blocked_by_browser" })
+  }
+
+  return begin().then(
+    (request) => {
+      popup.location.href = buildAppleAuthorizeUrl(request, origin)
+      return waitForAppleCallback(popup, request.state, origin)
+    },
+    (err: unknown) => {
+      popup.close()
+      throw err
+    }
+  )
+}
+
+function waitForAppleCallback(popup: Window, state: string, origin: string): Promise<AppleAuthorization> {
+  return new Promise<AppleAuthorization>((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener("message", onMessage)
+      window.clearInterval(closedPoll)
+    }
+
+    const onMessage = (event: MessageEvent) => {
+      const data = event.data as AppleCallbackMessage | undefined
+      if (event.origin !== origin || event.source !== popup || data?.type !== APPLE_MESSAGE_TYPE) {
+        return
+      }
+      cleanup()
+
+      if (data.error) {
+        reject({ error: data.error === "user_cancelled_authorize" ? "popup_closed_by_user" : data.error })
+      } else if (!data.code || data.state !== state) {
+        reject({ error: "invalid_response" })
+      } else {
+        resolve({
+          code: data.code,
+          state: data.state,
+          user: parseAppleUser(data.user),
+        })
+      }
+    }
+
+    const closedPoll = window.setInterval(() => {
+      if (popup.closed) {
+        cleanup()
+        reject({ error: "popup_closed_by_user" })
+      }
+    }, POPUP_POLL_MS)
+
+    window.addEventListener("message", onMessage)
+  })
+}
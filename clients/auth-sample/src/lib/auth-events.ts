@@ -0,0 +1,83 @@
+/**
+ * Sign-in / sign-out notifications shared between open tabs.
+ *
+ * Sessions live in cookies the service sets, so every tab shares them, but a
+ * tab only notices a change on its next request. Tabs tell each other instead:
+ * over a BroadcastChannel where the browser has one, otherwise through a
+ * storage event. Neither delivers back to the tab that published.
+ */
+
+export type AuthEventType = "signed-in" | "signed-out"
+
+export type AuthEvent = {
+  type: AuthEventType
+  /** Epoch milliseconds; also keeps repeated storage writes distinct. */
+  at: number
+}
+
+const CHANNEL_NAME = "auth-sample.auth-events"
+const STORAGE_KEY = "auth.events"
+
+// One channel per tab: a BroadcastChannel never receives its own messages,
+// so publishing and listening on the same object keeps events out of the sender.
+let channel: BroadcastChannel | null | undefined
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : null
+  }
+  return channel
+}
+
+const isAuthEvent = (value: unknown): value is AuthEvent => {
+  const event = value as Partial<AuthEvent> | null
+  return (
+    !!event &&
+    (event.type === "signed-in" || event.type === "signed-out") &&
+    typeof event.at === "number"
+  )
+}
+
+export function publishAuthEvent(type: AuthEventType): void {
+  if (typeof window === "undefined") return
+
+  const event: AuthEvent = { type, at: Date.now() }
+  const broadcast = getChannel()
+  if (broadcast) {
+    broadcast.postMessage(event)
+    return
+  }
+
+  try {
+    // Other tabs see the write as a storage event; the value itself is not needed afterwards
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(event))
+    window.localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Storage can be unavailable (private mode, quota); other tabs catch up on their next request
+  }
+}
+
+export function subscribeToAuthEvents(listener: (event: AuthEvent) => void): () => void {
+  if (typeof window === "undefined") return () => {}
+
+  const broadcast = getChannel()
+  if (broadcast) {
+    const onMessage = (message: MessageEvent) => {
+      if (isAuthEvent(message.data)) listener(message.data)
+    }
+    broadcast.addEventListener("message", onMessage)
+    return () => broadcast.removeEventListener("message", onMessage)
+  }
+
+  const onStorage = (storageEvent: StorageEvent) => {
+    if (storageEvent.key !== STORAGE_KEY || !storageEvent.newValue) return
+    try {
+      const parsed: unknown = JSON.parse(storageEvent.newValue)
+      if (isAuthEvent(parsed)) listener(parsed)
+    } catch {
+      // Not ours to worry about
+    }
+  }
+  window.addEventListener("storage", onStorage)
+  return () => window.removeEventListener("storage", onStorage)
+}
@@ -0,0 +1,133 @@
+import type { AuthFlow } from "@/types/auth";
+import { validateEmail } from "@/lib/validation";
+import type { FlowContext, FlowMachine, FlowSnapshot } from "./types";
+
+const hasEmail = ({ email }: FlowContext) => validateEmail(email);
+const hasCode = ({ otpCode }: FlowContext) => /^\d{6}$/.test(otpCode);
+
+/** Entry points of the sign-in and sign-up pages; restarting at one clears the history. */
+export const ROOT_FLOWS: readonly AuthFlow[] = ["main", "signup-main"];
+
+export const authFlowMachine: FlowMachine = {
+  // sign-in
+  main: { on: ["email-options"] },
+  "email-options": { on: ["password", "passwordless"] },
+  password: { on: ["passkey", "reset-request"], guard: hasEmail },
+  passwordless: { on: [], guard: hasEmail },
+  passkey: { on: [], guard: hasEmail },
+
+  // password reset; code problems rewind to reset-verify
+  "reset-request": { on: ["reset-verify"] },
+  "reset-verify": { on: ["reset-new-password"], guard: hasEmail },
+  "reset-new-password": { on: [], guard: hasCode },
+
+  // sign-up
+  "signup-main": { on: ["signup-email"] },
+  "signup-email": { on: ["signup-password", "signup-profile"] },
+  "signup-password": { on: ["signup-profile"], guard: hasEmail },
+  "signup-profile": { on: ["signup-verification"], guard: hasEmail },
+  "signup-verification": { on: ["signup-success"], guard: hasEmail },
+  "signup-success": { on: [] },
+};
+
+export function createFlowSnapshot(initial: AuthFlow): FlowSnapshot {
+  return { current: initial, history: [initial], direction: "forward" };
+}
+
+export function isRootFlow(flow: AuthFlow): boolean {
+  return ROOT_FLOWS.includes(flow);
+}
+
+export function canTransition(
+  machine: FlowMachine,
+  snapshot: FlowSnapshot,
+  target: AuthFlow,
+  context: FlowContext
+): boolean {
+  if (target === snapshot.current) return false;
+  if (snapshot.history.includes(target)) return true;
+
+  const definition = machine[target];
+  return (
+    machine[snapshot.current].on.includes(target) &&
+    (definition.guard ? definition.guard(context) : true)
+  );
+}
+
+/** Move to `target`, rewinding if it was visited earlier; illegal moves leave the snapshot untouched. */
+export function transition(
+  machine: FlowMachine,
+  snapshot: FlowSnapshot,
+  target: AuthFlow,
+  context: FlowContext
+): FlowSnapshot {
+  if (!canTransition(machine, snapshot, target, context)) return snapshot;
+
+  const earlier = snapshot.history.indexOf(target);
+  if (earlier !== -1) {
+    return {
+      current: target,
+      history: snapshot.history.slice(0, earlier + 1),
+      direction: "backward",
+    };
+  }
+
+  return {
+    current: target,
+    history: [...snapshot.history, target],
+    direction: "forward",
+  };
+}
+
+export function back(snapshot: FlowSnapshot): FlowSnapshot {
+  if (snapshot.history.length < 2) return snapshot;
+
+  const history = snapshot.history.slice(0, -1);
+  return { current: history[history.length - 1], history, direction: "backward" };
+}
+
+export function restart(root: AuthFlow): FlowSnapshot {
+  return { current: root, history: [root], direction: "backward" };
+}
+
+export function isAuthFlow(value: string): value is AuthFlow {
+  return Object.prototype.hasOwnProperty.call(authFlowMachine, value);
+}
+
+/**
+ * Rebuilds the history for a step requested from outside (e.g. the URL after
+ * a refresh). Follows the shortest route from `root` and stops before the
+ * first step whose guard fails, so the user lands as deep as their state
+ * allows rather than on a step they cannot act on.
+ */
+export function restoreHistory(
+  machine: FlowMachine,
+  root: AuthFlow,
+  target: AuthFlow,
+  context: FlowContext
+): AuthFlow[] {
+  const queue: AuthFlow[][] = [[root]];
+  const seen = new Set<AuthFlow>([root]);
+  let route: AuthFlow[] = [root];
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    const last = path[path.length - 1];
+    if (last === target) {
+      route = path;
+      break;
+    }
+
+    for (const next of machine[last].on) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push([...path, next]);
+    }
+  }
+
+  const blockedAt = route.findIndex((step) => {
+    const guard = machine[step].guard;
+    return guard ? !guard(context) : false;
+  });
+  return blockedAt === -1 ? route : route.slice(0, blockedAt);
+}
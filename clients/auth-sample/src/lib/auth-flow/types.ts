@@ -0,0 +1,25 @@
+import type { AuthFlow } from "@/types/auth";
+
+export type FlowDirection = "forward" | "backward";
+
+/** What the guards may look at; read from `useAuth` state when a transition is requested. */
+export type FlowContext = {
+  email: string;
+  otpCode: string;
+};
+
+export type FlowStateDefinition = {
+  /** Steps reachable going forward. Any step already in the history can always be rewound to. */
+  on: readonly AuthFlow[];
+  /** Must hold for the step to be entered going forward. */
+  guard?: (context: FlowContext) => boolean;
+};
+
+export type FlowMachine = Record<AuthFlow, FlowStateDefinition>;
+
+export type FlowSnapshot = {
+  current: AuthFlow;
+  /** Steps taken to reach `current`, oldest first; always ends with `current`. */
+  history: AuthFlow[];
+  direction: FlowDirection;
+};
@@ -0,0 +1,98 @@
+/**
+ * Where to send the user once they are signed in.
+ *
+ * Middleware puts the page a signed-out visitor asked for on the sign-in URL
+ * as `callbackUrl`. The auth pages remember it for the tab, because sign-up
+ * and provider round trips leave the page that received it, and every way of
+ * finishing sign-in reads it back. Only same-origin paths into the app are
+ * honoured; anything else would let a crafted link send users off-site.
+ */
+
+import { isAuthRoute, requiresSession } from "@/lib/route-policy"
+
+export const CALLBACK_URL_PARAM = "callbackUrl"
+export const DEFAULT_CALLBACK_URL = "/"
+
+const STORAGE_KEY = "auth.callbackUrl"
+
+const storage = (): Storage | undefined =>
+  typeof window !== "undefined" ? window.sessionStorage : undefined
+
+// Browsers drop tabs and newlines from URLs, which can turn "/\t/evil.example" into "//evil.example"
+const hasControlCharacters = (value: string) =>
+  Array.from(value).some((ch) => ch.charCodeAt(0) < 0x20 || ch.charCodeAt(0) === 0x7f)
+
+/**
+ * Returns the path, query and hash of `value` when it is a relative path to an
+ * app page on `origin`, otherwise null.
+ */
+export function sanitizeCallbackUrl(value: unknown, origin: string): string | null {
+  if (typeof value !== "string" || !value.startsWith("/")) return null
+  // "//host" is protocol-relative, and browsers read "/\host" the same way
+  if (value.startsWith("//") || value.includes("\\") || hasControlCharacters(value)) return null
+
+  let url: URL
+  try {
+    url = new URL(value, origin)
+  } catch {
+    return null
+  }
+  if (url.origin !== origin) return null
+  // Sending someone back to sign-in, a callback or the error page after signing in helps nobody
+  if (!requiresSession(url.pathname)) return null
+
+  return `${url.pathname}${url.search}${url.hash}`
+}
+
+/**
+ * Keeps a valid `callbackUrl` from the query string for the rest of the tab's
+ * sign-in. A fresh visit without one forgets any earlier destination, so an
+ * abandoned sign-in can't redirect a later one; `returning` pages keep it.
+ */
+export function rememberCallbackUrl(search: string, { returning = false }: { returning?: boolean } = {}): void {
+  if (typeof window === "undefined") return
+
+  const requested = new URLSearchParams(search).get(CALLBACK_URL_PARAM)
+  const callbackUrl = sanitizeCallbackUrl(requested, window.location.origin)
+  if (callbackUrl) {
+    storage()?.setItem(STORAGE_KEY, callbackUrl)
+  } else if (!returning) {
+    storage()?.removeItem(STORAGE_KEY)
+  }
+}
+
+/** Whether `referrer` is another auth page of this app, i.e. the user is still signing in. */
+export function isAuthPageReferrer(referrer: string): boolean {
+  if (typeof window === "undefined" || !referrer) return false
+  try {
+    const url = new URL(referrer)
+    return url.origin === window.location.origin && isAuthRoute(url.pathname)
+  } catch {
+    return false
+  }
+}
+
+/** `path` carrying the remembered destination, for links back into the auth pages. */
+export function withCallbackUrl(path: string): string {
+  const callbackUrl = peekCallbackUrl()
+  if (!callbackUrl) return path
+  return `${path}?${new URLSearchParams({ [CALLBACK_URL_PARAM]: callbackUrl })}`
+}
+
+/** The remembered destination, if any, without forgetting it. */
+export function peekCallbackUrl(): string | null {
+  if (typeof window === "undefined") return null
+  return sanitizeCallbackUrl(storage()?.getItem(STORAGE_KEY), window.location.origin)
+}
+
+/**
+ * The destination to finish sign-in on. Prefers `carried` (e.g. from OIDC
+ * state) over the remembered one, falls back to the home page, and forgets
+ * the remembered one so a later sign-in starts fresh.
+ */
+export function takeCallbackUrl(carried?: unknown): string {
+  const origin = typeof window !== "undefined" ? window.location.origin : ""
+  const destination = sanitizeCallbackUrl(carried, origin) ?? peekCallbackUrl() ?? DEFAULT_CALLBACK_URL
+  storage()?.removeItem(STORAGE_KEY)
+  return destination
+}
@@ -5,6 +5,10 @@ export const config = {
   authority: process.env.NEXT_PUBLIC_OIDC_AUTHORITY,
   clientId: process.env.NEXT_PUBLIC_OIDC_CLIENT_ID,
   redirectUri: process.env.NEXT_PUBLIC_OIDC_REDIRECT_URI,
+  silentRedirectUri: process.env.NEXT_PUBLIC_OIDC_SILENT_REDIRECT_URI,
+  postLogoutRedirectUri: process.env.NEXT_PUBLIC_OIDC_POST_LOGOUT_REDIRECT_URI,
+  appleClientId: process.env.NEXT_PUBLIC_APPLE_CLIENT_ID,
+  appleAuthorizeUrl: process.env.NEXT_PUBLIC_APPLE_AUTHORIZE_URL || "https://appleid.apple.com/auth/authorize",
   responseType: "code",
   scope: "openid email profile",
 };
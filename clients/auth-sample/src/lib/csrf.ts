@@ -0,0 +1,23 @@
+/**
+ * Double-submit CSRF token, as seen by both sides. Middleware sets a random
+ * token in a cookie the page can read; the gRPC-Web clients copy it into a
+ * header on state-changing calls, and the Auth service (directly, or through
+ * Envoy's ext_authz check) rejects calls where the two differ. Another site can
+ * make the browser send the cookie but cannot read it to forge the header.
+ */
+
+export const CSRF_COOKIE = "CSRF_TOKEN"
+export const CSRF_HEADER = "x-csrf-token"
+
+/**
+ * Calls exempt from the check because they change nothing. Must match
+ * CsrfProtection.cs in the Auth service.
+ */
+export const CSRF_EXEMPT_METHODS: ReadonlySet<string> = new Set([
+  "/auth.AuthorizationService/Check",
+  "/auth.PasskeyService/ListPasskeysAsync",
+])
+
+export function requiresCsrfToken(method: string): boolean {
+  return !CSRF_EXEMPT_METHODS.has(method)
+}
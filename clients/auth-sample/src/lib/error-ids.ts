@@ -0,0 +1,86 @@
+/**
+ * Stable identifiers for failures that end on the error page.
+ *
+ * Middleware puts only the ID (plus the trace ID and the page the user was on)
+ * on the `/error` URL, never the exception text, and the page looks up what to
+ * say and which ways out to offer from here.
+ */
+
+import type { AuthCheckFailure } from "@/lib/server/authz-client"
+
+export const ERROR_IDS = [
+  "auth-service-unavailable",
+  "auth-service-timeout",
+  "misconfiguration",
+  "redirect-loop",
+  "unexpected",
+] as const
+
+export type ErrorId = (typeof ERROR_IDS)[number]
+
+export const ERROR_ID_PARAM = "id"
+export const ERROR_TRACE_PARAM = "trace"
+export const ERROR_FROM_PARAM = "from"
+
+/** Ways out of the error page, in the order they are offered. */
+export type RecoveryAction = "retry" | "sign-in" | "home"
+
+export type ErrorDetails = {
+  title: string
+  description: string
+  actions: RecoveryAction[]
+}
+
+export const ERROR_DETAILS: Record<ErrorId, ErrorDetails> = {
+  "auth-service-unavailable": {
+    title: "Sign-in is temporarily unavailable",
+    description: "We couldn't reach the sign-in service. This is usually brief, so please try again in a moment.",
+    actions: ["retry", "home"],
+  },
+  "auth-service-timeout": {
+    title: "Sign-in is taking too long",
+    description: "The sign-in service didn't respond in time. Please try again in a moment.",
+    actions: ["retry", "home"],
+  },
+  misconfiguration: {
+    title: "This site isn't set up correctly",
+    description: "Trying again won't help until the problem is fixed on our side. Please contact support.",
+    actions: ["home"],
+  },
+  "redirect-loop": {
+    title: "This page keeps failing",
+    description: "We stopped retrying to avoid going round in circles. Signing in again usually clears this up.",
+    actions: ["sign-in", "home"],
+  },
+  unexpected: {
+    title: "Something went wrong",
+    description: "We encountered an unexpected error. Please try again.",
+    actions: ["retry", "sign-in"],
+  },
+}
+
+export function parseErrorId(value: string | null | undefined): ErrorId {
+  return ERROR_IDS.find((id) => id === value) ?? "unexpected"
+}
+
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/i
+
+/** A W3C trace ID from the URL, or undefined for anything else; the page must not echo arbitrary text. */
+export function parseTraceId(value: string | null | undefined): string | undefined {
+  return value && TRACE_ID_PATTERN.test(value) ? value : undefined
+}
+
+/** Maps why the auth check failed to what the user is told about it. */
+export function errorIdForFailure(failure: AuthCheckFailure | undefined): ErrorId {
+  switch (failure) {
+    case "unavailable":
+    case "network":
+      return "auth-service-unavailable"
+    case "timeout":
+      return "auth-service-timeout"
+    case "misconfigured":
+      return "misconfiguration"
+    default:
+      return "unexpected"
+  }
+}
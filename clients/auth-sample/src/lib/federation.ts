@@ -0,0 +1,51 @@
+/**
+ * Bookkeeping for federated (Google / Apple) sign-in round trips.
+ *
+ * The Auth service builds the provider authorization URL and later exchanges the
+ * returned code itself, so the browser only needs to remember which `state` it
+ * was handed, and why it left, until the provider redirects back to the
+ * callback page.
+ */
+
+export type FederatedProvider = "google" | "apple"
+export type FederatedIntent = "signup" | "signin"
+
+export type PendingFederatedSignIn = {
+  state: string
+  provider: FederatedProvider
+  intent: FederatedIntent
+}
+
+const STORAGE_KEY = "auth.federation.pending"
+
+const storage = (): Storage | undefined =>
+  typeof window !== "undefined" ? window.sessionStorage : undefined
+
+export function savePendingFederatedSignIn(pending: PendingFederatedSignIn): void {
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(pending))
+}
+
+export function readPendingFederatedSignIn(): PendingFederatedSignIn | undefined {
+  const raw = storage()?.getItem(STORAGE_KEY)
+  if (!raw) return undefined
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<PendingFederatedSignIn>
+    if (typeof parsed.state !== "string" || !parsed.provider || !parsed.intent) {
+      return undefined
+    }
+    return parsed as PendingFederatedSignIn
+  } catch {
+    return undefined
+  }
+}
+
+export function clearPendingFederatedSignIn(): void {
+  storage()?.removeItem(STORAGE_KEY)
+}
+
+/** True when the current URL is the provider returning to a round trip we started. */
+export function isFederatedCallback(search: string): boolean {
+  const state = new URLSearchParams(search).get("state")
+  return !!state && readPendingFederatedSignIn()?.state === state
+}
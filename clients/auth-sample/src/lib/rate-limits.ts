@@ -0,0 +1,151 @@
+/**
+ * Client-side record of which calls the service has rate limited, and until when.
+ *
+ * When a call comes back with `retry-after-seconds`, the window is recorded
+ * against the RPC method and, where the request names one, the email address.
+ * Until it passes, matching calls are refused locally instead of spending
+ * another attempt, and components can show how long is left. Windows are kept
+ * in local storage so a reload does not forget them, and subscribers hear
+ * about windows other tabs record through the `storage` event.
+ */
+
+export type RateLimitKey = {
+  /** Full gRPC method path, e.g. `/auth.SignUpService/ResendVerificationCodeAsync`. */
+  method: string
+  email?: string
+}
+
+export type RateLimitRegistry = {
+  /** Blocks `key` for `retryAfterSeconds` from now. */
+  record: (key: RateLimitKey, retryAfterSeconds: number) => void
+  /** Whole seconds until `key` may be called again; 0 when it is not limited. */
+  remainingSeconds: (key: RateLimitKey) => number
+  clear: (key: RateLimitKey) => void
+  /** Notified whenever a window is recorded or cleared. */
+  subscribe: (listener: () => void) => () => void
+}
+
+export type RateLimitRegistryOptions = {
+  storage?: () => Storage | undefined
+  /** Where other tabs' writes are announced; no cross-tab updates without one. */
+  events?: () => Window | undefined
+  now?: () => number
+}
+
+/** Methods whose limits the UI shows a countdown for. */
+export const RATE_LIMITED_METHODS = {
+  resendVerificationCode: "/auth.SignUpService/ResendVerificationCodeAsync",
+  beginEmailOtpSignIn: "/auth.SignInService/BeginEmailOtpSignInAsync",
+  beginPasswordReset: "/auth.PasswordResetService/BeginPasswordResetAsync",
+} as const
+
+const STORAGE_KEY = "auth.rateLimits"
+
+const localStore = (): Storage | undefined =>
+  typeof window !== "undefined" ? window.localStorage : undefined
+
+const currentWindow = (): Window | undefined =>
+  typeof window !== "undefined" ? window : undefined
+
+/**
+ * FNV-1a digest, as hex. Local storage outlives the session, so it keeps a
+ * digest rather than a list of the addresses used on this device; a collision
+ * only shares a window between two addresses.
+ */
+function digest(text: string): string {
+  let hash = 0x811c9dc5
+  for (const byte of new TextEncoder().encode(text)) {
+    hash = Math.imul(hash ^ byte, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+// Email addresses are case-insensitive as far as the service's limits go
+const storageKey = ({ method, email }: RateLimitKey) =>
+  email ? `${method}|${digest(email.trim().toLowerCase())}` : method
+
+export function createRateLimitRegistry({
+  storage = localStore,
+  events = currentWindow,
+  // Looked up on each call so the shared registry follows a mocked clock
+  now = () => Date.now(),
+}: RateLimitRegistryOptions = {}): RateLimitRegistry {
+  const listeners = new Set<() => void>()
+  const notify = () => listeners.forEach((listener) => listener())
+
+  const persist = (windows: Record<string, number>) => {
+    try {
+      const store = storage()
+      if (Object.keys(windows).length === 0) store?.removeItem(STORAGE_KEY)
+      else store?.setItem(STORAGE_KEY, JSON.stringify(windows))
+    } catch {
+      // Storage can be unavailable (private mode, quota); the server still enforces its limits
+    }
+  }
+
+  // Epoch milliseconds each key is blocked until. Windows that have passed are
+  // dropped from storage as well, without notifying: reads happen during render.
+  const read = (): Record<string, number> => {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(storage()?.getItem(STORAGE_KEY) ?? "{}")
+    } catch {
+      parsed = undefined
+    }
+    const entries = parsed && typeof parsed === "object" ? Object.entries(parsed) : []
+    const windows = Object.fromEntries(
+      entries.filter(([, until]) => typeof until === "number" && until > now())
+    )
+    if (parsed === undefined || entries.length !== Object.keys(windows).length) persist(windows)
+    return windows
+  }
+
+  const write = (windows: Record<string, number>) => {
+    persist(windows)
+    notify()
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    // A null key means another tab cleared the whole store
+    if (event.key === STORAGE_KEY || event.key === null) notify()
+  }
+
+  const untilFor = (windows: Record<string, number>, key: RateLimitKey) =>
+    Math.max(windows[storageKey(key)] ?? 0, key.email ? (windows[storageKey({ method: key.method })] ?? 0) : 0)
+
+  return {
+    record(key, retryAfterSeconds) {
+      if (!(retryAfterSeconds > 0)) return
+      const windows = read()
+      windows[storageKey(key)] = now() + retryAfterSeconds * 1000
+      write(windows)
+    },
+    remainingSeconds(key) {
+      return Math.max(0, Math.ceil((untilFor(read(), key) - now()) / 1000))
+    },
+    clear(key) {
+      const windows = read()
+      if (!(storageKey(key) in windows)) return
+      delete windows[storageKey(key)]
+      write(windows)
+    },
+    subscribe(listener) {
+      if (listeners.size === 0) events()?.addEventListener("storage", onStorage)
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) events()?.removeEventListener("storage", onStorage)
+      }
+    },
+  }
+}
+
+/** The registry shared by every gRPC client and component in this tab. */
+export const rateLimits = createRateLimitRegistry()
+
+/** `4:05` for minutes, `45s` under a minute. */
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`
+}
@@ -0,0 +1,206 @@
+/**
+ * Which routes need a session, and where requests go when they don't qualify.
+ *
+ * Rules are checked in order and the first match wins. Patterns are either
+ * globs (`*` matches within one path segment, `**` across segments, and a
+ * trailing `/**` also matches the parent path itself) or regular expressions
+ * tested against the whole pathname.
+ */
+
+import type { VerifiedIdentity } from "@/lib/server/identity-headers";
+
+export type RouteCategory =
+    /** Served to everyone; middleware does not check the session. */
+    | "public"
+    /** Only for signed-out users, e.g. sign-in and sign-up. */
+    | "auth-only"
+    /** Requires a session. */
+    | "protected"
+    /** Requires a session holding one of the rule's roles and matching its claims. */
+    | "role-restricted";
+
+export type RoutePattern = string | RegExp;
+
+/**
+ * What to do when the session can't be checked (Auth service down or slow):
+ * "open" serves the page as if signed out, "closed" shows the error page.
+ */
+export type RouteFailMode = "open" | "closed";
+
+/** Identity claims a rule can require; strings match exactly. */
+export type RouteClaims = Partial<Record<"subject" | "email", string | RegExp>>;
+
+export type RouteRule = {
+    /** Names the rule in traces. */
+    id: string;
+    pattern: RoutePattern;
+    category: RouteCategory;
+    /** Any one of these roles grants access to a role-restricted route. */
+    roles?: readonly string[];
+    /** Every listed claim must match for a role-restricted route. */
+    claims?: RouteClaims;
+    /** Overrides where requests that don't qualify are sent. */
+    redirectTo?: string;
+    /** Defaults to open for pages anyone may see, closed for pages that need a session. */
+    failMode?: RouteFailMode;
+};
+
+export type RouteAccess =
+    | { kind: "allow" }
+    | { kind: "redirect"; reason: "unauthenticated" | "authenticated"; location: string }
+    /** Signed in, but not allowed; the page at `location` explains, in place of the requested one. */
+    | { kind: "forbidden"; location: string };
+
+export type RouteViewer = {
+    isAuthenticated: boolean;
+    identity?: VerifiedIdentity;
+};
+
+export const SIGN_IN_PATH = "/sign-in";
+export const HOME_PATH = "/";
+export const FORBIDDEN_PATH = "/forbidden";
+export const ERROR_PATH = "/error";
+export const DEFAULT_RULE_ID = "default";
+
+/**
+ * Category for paths no rule matches. New pages are protected until a rule says otherwise.
+ */
+export const DEFAULT_ROUTE_CATEGORY: RouteCategory = "protected";
+
+export const ROUTE_RULES: readonly RouteRule[] = [
+    { id: "sign-in", pattern: "/sign-in", category: "auth-only" },
+    { id: "sign-up", pattern: "/sign-up", category: "auth-only" },
+    // OIDC and federated callbacks, logout confirmation
+    { id: "auth-callbacks", pattern: "/auth/**", category: "public" },
+    { id: "error", pattern: ERROR_PATH, category: "public" },
+    { id: "forbidden", pattern: FORBIDDEN_PATH, category: "protected" },
+    { id: "admin", pattern: "/admin/**", category: "role-restricted", roles: ["admin"] },
+    { id: "account", pattern: "/account/**", category: "protected" },
+    { id: "home", pattern: "/", category: "protected" },
+];
+
+export type RoutePolicy = {
+    /** The rule governing a pathname; unmatched paths get a synthetic default rule. */
+    match: (pathname: string) => RouteRule;
+    /** Decides whether a viewer may see a pathname, and where to send them if not. */
+    evaluate: (pathname: string, viewer: RouteViewer) => RouteAccess;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Compiles a glob into an anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        if (glob.startsWith("/**", i)) {
+            source += "(?:/.*)?";
+            i += 2;
+        } else if (glob.startsWith("**", i)) {
+            source += ".*";
+            i += 1;
+        } else if (glob[i] === "*") {
+            source += "[^/]*";
+        } else {
+            source += escapeRegExp(glob[i]);
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+// "/account/" and "/account" are the same page
+const normalizePathname = (pathname: string) =>
+    pathname.length > 1 && pathname.endsWith("/") ? pathname.replace(/\/+$/, "") || "/" : pathname;
+
+const claimMatches = (expected: string | RegExp, actual: string | undefined) =>
+    actual !== undefined && (typeof expected === "string" ? expected === actual : expected.test(actual));
+
+/**
+ * Whether an identity satisfies a role-restricted rule.
+ */
+function isGranted(rule: RouteRule, identity: VerifiedIdentity | undefined): boolean {
+    if (!identity) return false;
+
+    const roles = rule.roles ?? [];
+    if (roles.length > 0 && !roles.some((role) => identity.roles.includes(role))) return false;
+
+    return Object.entries(rule.claims ?? {}).every(([claim, expected]) =>
+        expected === undefined || claimMatches(expected, identity[claim as keyof RouteClaims]),
+    );
+}
+
+/**
+ * Evaluates access for a single rule.
+ */
+export function evaluateRule(rule: RouteRule, viewer: RouteViewer): RouteAccess {
+    switch (rule.category) {
+        case "public":
+            return { kind: "allow" };
+        case "auth-only":
+            return viewer.isAuthenticated
+                ? { kind: "redirect", reason: "authenticated", location: rule.redirectTo ?? HOME_PATH }
+                : { kind: "allow" };
+        case "protected":
+            return viewer.isAuthenticated
+                ? { kind: "allow" }
+                : { kind: "redirect", reason: "unauthenticated", location: rule.redirectTo ?? SIGN_IN_PATH };
+        case "role-restricted": {
+            if (!viewer.isAuthenticated) {
+                return { kind: "redirect", reason: "unauthenticated", location: SIGN_IN_PATH };
+            }
+            return isGranted(rule, viewer.identity)
+                ? { kind: "allow" }
+                : { kind: "forbidden", location: rule.redirectTo ?? FORBIDDEN_PATH };
+        }
+    }
+}
+
+/**
+ * How a rule behaves when its session check fails.
+ */
+export function failModeFor(rule: RouteRule): RouteFailMode {
+    if (rule.failMode) return rule.failMode;
+    return rule.category === "public" || rule.category === "auth-only" ? "open" : "closed";
+}
+
+/**
+ * Builds a policy from ordered rules.
+ */
+export function createRoutePolicy(
+    rules: readonly RouteRule[],
+    defaultCategory: RouteCategory = DEFAULT_ROUTE_CATEGORY,
+): RoutePolicy {
+    const compiled = rules.map((rule) => ({
+        rule,
+        regex: typeof rule.pattern === "string" ? globToRegExp(rule.pattern) : rule.pattern,
+    }));
+    const fallback: RouteRule = { id: DEFAULT_RULE_ID, pattern: "**", category: defaultCategory };
+
+    const match = (pathname: string): RouteRule => {
+        const normalized = normalizePathname(pathname);
+        return compiled.find(({ regex }) => regex.test(normalized))?.rule ?? fallback;
+    };
+
+    return {
+        match,
+        evaluate: (pathname, viewer) => evaluateRule(match(pathname), viewer),
+    };
+}
+
+export const routePolicy = createRoutePolicy(ROUTE_RULES);
+
+/**
+ * Checks if a pathname is only for signed-out users (sign-in, sign-up).
+ */
+export function isAuthRoute(pathname: string): boolean {
+    return routePolicy.match(pathname).category === "auth-only";
+}
+
+/**
+ * Checks if a pathname can only be viewed with a session.
+ */
+export function requiresSession(pathname: string): boolean {
+    const { category } = routePolicy.match(pathname);
+    return category === "protected" || category === "role-restricted";
+}
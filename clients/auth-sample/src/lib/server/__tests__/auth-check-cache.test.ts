@@ -0,0 +1,104 @@
+import { webcrypto } from 'crypto'
+import { createAuthCheckCache, sessionCacheKey } from '../auth-check-cache'
+
+describe('createAuthCheckCache', () => {
+  let now = 0
+  const clock = () => now
+
+  beforeEach(() => {
+    now = 0
+  })
+
+  it('should return cached results until they expire', () => {
+    const cache = createAuthCheckCache({ ttlMs: 1000, now: clock })
+    cache.set('a', { isAuthenticated: true })
+
+    now = 999
+    expect(cache.get('a')).toEqual({ isAuthenticated: true })
+
+    now = 1000
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.size).toBe(0)
+  })
+
+  it('should keep unauthenticated results too', () => {
+    const cache = createAuthCheckCache({ now: clock })
+    cache.set('a', { isAuthenticated: false })
+
+    expect(cache.get('a')).toEqual({ isAuthenticated: false })
+  })
+
+  it('should evict the least recently used entry once full', () => {
+    const cache = createAuthCheckCache({ maxEntries: 2, now: clock })
+    cache.set('a', { isAuthenticated: true })
+    cache.set('b', { isAuthenticated: true })
+    cache.get('a')
+
+    cache.set('c', { isAuthenticated: true })
+
+    expect(cache.get('a')).toEqual({ isAuthenticated: true })
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('c')).toEqual({ isAuthenticated: true })
+    expect(cache.size).toBe(2)
+  })
+
+  it('should not outlive the session it describes', () => {
+    const cache = createAuthCheckCache({ ttlMs: 10_000, now: clock })
+    const identity = { subject: 'user-sub', roles: [], sessionExpiresAt: 5 }
+    cache.set('a', { isAuthenticated: true, identity })
+
+    now = 4999
+    expect(cache.get('a')).toEqual({ isAuthenticated: true, identity })
+
+    now = 5000
+    expect(cache.get('a')).toBeUndefined()
+  })
+
+  it('should forget deleted entries', () => {
+    const cache = createAuthCheckCache({ now: clock })
+    cache.set('a', { isAuthenticated: true })
+
+    cache.delete('a')
+
+    expect(cache.get('a')).toBeUndefined()
+  })
+})
+
+describe('sessionCacheKey', () => {
+  // jsdom has no SubtleCrypto; middleware runs where the platform provides one
+  const originalCrypto = globalThis.crypto
+
+  beforeAll(() => {
+    Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true })
+  })
+
+  afterAll(() => {
+    Object.defineProperty(globalThis, 'crypto', { value: originalCrypto, configurable: true })
+  })
+
+  it('should return null without session cookies', async () => {
+    expect(await sessionCacheKey(undefined)).toBeNull()
+    expect(await sessionCacheKey('')).toBeNull()
+    expect(await sessionCacheKey('theme=dark; AT_SID=')).toBeNull()
+  })
+
+  it('should hash the session cookies rather than keep them', async () => {
+    const key = await sessionCacheKey('AT_SID=secret-at; RT_SID=secret-rt')
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/)
+    expect(key).not.toContain('secret')
+  })
+
+  it('should ignore unrelated cookies and their order', async () => {
+    const key = await sessionCacheKey('AT_SID=at; RT_SID=rt')
+
+    expect(await sessionCacheKey('theme=dark; RT_SID=rt; AT_SID=at')).toBe(key)
+  })
+
+  it('should change when either session cookie rotates', async () => {
+    const key = await sessionCacheKey('AT_SID=at; RT_SID=rt')
+
+    expect(await sessionCacheKey('AT_SID=at2; RT_SID=rt')).not.toBe(key)
+    expect(await sessionCacheKey('AT_SID=at; RT_SID=rt2')).not.toBe(key)
+  })
+})
@@ -0,0 +1,123 @@
+import { AuthCheckError, checkAuthentication, retryDelay } from '../authz-client'
+import { createCircuitBreaker } from '../circuit-breaker'
+
+const AUTH_SERVICE_URL = 'http://auth.test'
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+  ({
+    status,
+    ok: status >= 200 && status < 300,
+    statusText: `HTTP ${status}`,
+    headers: new Headers(headers),
+    arrayBuffer: async () => new ArrayBuffer(0),
+  }) as Response
+
+const granted = () => response(200, { 'grpc-status': '0', 'x-auth-subject': 'user-sub' })
+const unavailable = () => response(200, { 'grpc-status': '14', 'grpc-message': 'Unavailable' })
+
+const mockFetch = jest.fn()
+const noWait = { sleep: async () => {}, random: () => 0 }
+
+const check = (breaker = createCircuitBreaker()) =>
+  checkAuthentication(AUTH_SERVICE_URL, undefined, { cookie: 'AT_SID=a' }, { breaker, retry: noWait })
+
+describe('checkAuthentication', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should read who the session belongs to', async () => {
+    mockFetch.mockResolvedValue(granted())
+
+    const result = await check()
+
+    expect(result.isAuthenticated).toBe(true)
+    expect(result.identity?.subject).toBe('user-sub')
+  })
+
+  it('should retry while the service is unavailable', async () => {
+    mockFetch
+      .mockResolvedValueOnce(unavailable())
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(granted())
+
+    const result = await check()
+
+    expect(result.isAuthenticated).toBe(true)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should give up after the last attempt', async () => {
+    mockFetch.mockResolvedValue(unavailable())
+
+    await expect(check()).rejects.toMatchObject({ failure: 'unavailable' })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not retry errors the service meant', async () => {
+    mockFetch.mockResolvedValue(response(200, { 'grpc-status': '13', 'grpc-message': 'Internal' }))
+
+    await expect(check()).rejects.toMatchObject({ failure: 'unexpected' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should neither retry nor trip the breaker on an unreadable reply', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1 })
+    // A compressed frame, which the client cannot decode
+    const compressed = { ...granted(), arrayBuffer: async () => new Uint8Array([1, 0, 0, 0, 0]).buffer } as Response
+    mockFetch.mockResolvedValue(compressed)
+
+    await expect(check(breaker)).rejects.toMatchObject({ failure: 'unexpected' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('should not retry a timeout', async () => {
+    jest.useFakeTimers()
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(new Error('aborted')))),
+    )
+
+    const pending = expect(check()).rejects.toMatchObject({ failure: 'timeout' })
+    await jest.advanceTimersByTimeAsync(3000)
+
+    await pending
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail fast once the circuit is open', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2 })
+    mockFetch.mockResolvedValue(unavailable())
+    await expect(check(breaker)).rejects.toBeInstanceOf(AuthCheckError)
+    await expect(check(breaker)).rejects.toBeInstanceOf(AuthCheckError)
+    mockFetch.mockClear()
+
+    await expect(check(breaker)).rejects.toThrow('circuit is open')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should treat a missing service URL as misconfiguration', async () => {
+    await expect(checkAuthentication(undefined)).rejects.toMatchObject({ failure: 'misconfigured' })
+  })
+})
+
+describe('retryDelay', () => {
+  it('should stay within an exponentially growing cap', () => {
+    expect(retryDelay(0, 100, 1000, () => 0.999)).toBe(99)
+    expect(retryDelay(2, 100, 1000, () => 0.999)).toBe(399)
+    expect(retryDelay(5, 100, 1000, () => 0.999)).toBe(999)
+    expect(retryDelay(3, 100, 1000, () => 0)).toBe(0)
+  })
+})
@@ -0,0 +1,78 @@
+import { createCircuitBreaker } from '../circuit-breaker'
+
+describe('createCircuitBreaker', () => {
+  let now = 0
+  const clock = () => now
+
+  beforeEach(() => {
+    now = 0
+  })
+
+  it('should stay closed below the failure threshold', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 3, now: clock })
+
+    breaker.recordFailure()
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('closed')
+    expect(breaker.tryAcquire()).toBe(true)
+  })
+
+  it('should only count consecutive failures', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, now: clock })
+
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('should refuse calls once open', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, now: clock })
+
+    breaker.recordFailure()
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('open')
+    expect(breaker.tryAcquire()).toBe(false)
+  })
+
+  it('should let a single trial through after the cool-down', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, now: clock })
+    breaker.recordFailure()
+
+    now = 1000
+
+    expect(breaker.state).toBe('half-open')
+    expect(breaker.tryAcquire()).toBe(true)
+    expect(breaker.tryAcquire()).toBe(false)
+  })
+
+  it('should close after a successful trial', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, now: clock })
+    breaker.recordFailure()
+    now = 1000
+    breaker.tryAcquire()
+
+    breaker.recordSuccess()
+
+    expect(breaker.state).toBe('closed')
+    expect(breaker.tryAcquire()).toBe(true)
+  })
+
+  it('should re-open after a failed trial', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000, now: clock })
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    now = 1000
+    breaker.tryAcquire()
+
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('open')
+    now = 1999
+    expect(breaker.tryAcquire()).toBe(false)
+  })
+})
@@ -0,0 +1,11 @@
+import { createCsrfToken } from '../csrf'
+
+describe('createCsrfToken', () => {
+  it('should create distinct cookie-safe tokens', () => {
+    const first = createCsrfToken()
+    const second = createCsrfToken()
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(second).not.toBe(first)
+  })
+})
@@ -0,0 +1,45 @@
+import { MAX_ERROR_REDIRECTS, trackErrorRedirect } from '../error-redirect'
+import { createErrorUrl } from '../route-utils'
+
+describe('trackErrorRedirect', () => {
+  it('should start counting at one', () => {
+    expect(trackErrorRedirect(undefined, 'auth-service-timeout')).toEqual({
+      errorId: 'auth-service-timeout',
+      count: 1,
+    })
+  })
+
+  it('should report a redirect loop once the limit is reached', () => {
+    const result = trackErrorRedirect(String(MAX_ERROR_REDIRECTS - 1), 'auth-service-unavailable')
+
+    expect(result).toEqual({ errorId: 'redirect-loop', count: MAX_ERROR_REDIRECTS })
+  })
+
+  it('should ignore a garbled counter', () => {
+    expect(trackErrorRedirect('-5', 'unexpected').count).toBe(1)
+    expect(trackErrorRedirect('lots', 'unexpected').count).toBe(1)
+  })
+})
+
+describe('createErrorUrl', () => {
+  it('should carry the error and trace IDs but nothing else about the failure', () => {
+    const url = createErrorUrl('http://localhost/account?tab=1', {
+      errorId: 'auth-service-timeout',
+      from: '/account?tab=1',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    })
+
+    expect(url.pathname).toBe('/error')
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      id: 'auth-service-timeout',
+      from: '/account?tab=1',
+      trace: '4bf92f3577b34da6a3ce929d0e0e4736',
+    })
+  })
+
+  it('should leave out a missing trace ID', () => {
+    const url = createErrorUrl('http://localhost/', { errorId: 'unexpected', from: '/' })
+
+    expect(url.searchParams.has('trace')).toBe(false)
+  })
+})
@@ -0,0 +1,180 @@
+import {
+  decodeGrpcWebFrames,
+  encodeGrpcWebFrame,
+  GrpcStatus,
+  grpcWebUnary,
+  makeGrpcWebHeaders,
+  statusFromHttp,
+} from '../grpc-web'
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+const text = (data: Uint8Array) => new TextDecoder().decode(data)
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+const trailerFrame = (block: string) => encodeGrpcWebFrame(bytes(block), 0x80)
+
+const response = (body: Uint8Array, status = 200, headers: Record<string, string> = {}) =>
+  ({
+    status,
+    ok: status >= 200 && status < 300,
+    statusText: `HTTP ${status}`,
+    headers: new Headers(headers),
+    arrayBuffer: async () => body.slice().buffer,
+  }) as Response
+
+describe('gRPC-Web framing', () => {
+  it('should prefix a message with its flags and big-endian length', () => {
+    const frame = encodeGrpcWebFrame(bytes('hi'))
+
+    expect(Array.from(frame)).toEqual([0, 0, 0, 0, 2, 104, 105])
+  })
+
+  it('should split data frames from the trailer frame', () => {
+    const body = concat(
+      encodeGrpcWebFrame(bytes('one')),
+      encodeGrpcWebFrame(bytes('two')),
+      trailerFrame('grpc-status: 0\r\nGrpc-Message: done\r\n'),
+    )
+
+    const { messages, trailers } = decodeGrpcWebFrames(body)
+
+    expect(messages.map(text)).toEqual(['one', 'two'])
+    expect(trailers).toEqual({ 'grpc-status': '0', 'grpc-message': 'done' })
+  })
+
+  it('should ignore a truncated final frame', () => {
+    const body = concat(encodeGrpcWebFrame(bytes('one')), encodeGrpcWebFrame(bytes('two')).subarray(0, 6))
+
+    expect(decodeGrpcWebFrames(body).messages.map(text)).toEqual(['one'])
+  })
+
+  it('should refuse compressed frames', () => {
+    expect(() => decodeGrpcWebFrames(encodeGrpcWebFrame(bytes('x'), 0x01))).toThrow('Compressed')
+  })
+})
+
+describe('makeGrpcWebHeaders', () => {
+  it('should send the deadline as grpc-timeout', () => {
+    expect(makeGrpcWebHeaders({ cookie: 'a=b' }, undefined, 2500)).toMatchObject({
+      'grpc-timeout': '2500m',
+      cookie: 'a=b',
+    })
+  })
+})
+
+describe('statusFromHttp', () => {
+  it('should map HTTP failures to gRPC codes', () => {
+    expect(statusFromHttp(401)).toBe(GrpcStatus.UNAUTHENTICATED)
+    expect(statusFromHttp(503)).toBe(GrpcStatus.UNAVAILABLE)
+    expect(statusFromHttp(500)).toBe(GrpcStatus.UNKNOWN)
+  })
+})
+
+describe('grpcWebUnary', () => {
+  const originalFetch = global.fetch
+  const mockFetch = jest.fn()
+  const call = (options: { deadlineMs?: number; signal?: AbortSignal } = {}) =>
+    grpcWebUnary({
+      baseUrl: 'http://svc.test',
+      method: '/pkg.Service/Method',
+      request: { serializeBinary: () => bytes('req') },
+      deserialize: text,
+      ...options,
+    })
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should post a framed request and read the reply and body trailers', async () => {
+    mockFetch.mockResolvedValue(response(concat(encodeGrpcWebFrame(bytes('res')), trailerFrame('grpc-status:0\r\n'))))
+
+    const result = await call()
+
+    expect(mockFetch).toHaveBeenCalledWith('http://svc.test/pkg.Service/Method', expect.objectContaining({ method: 'POST' }))
+    expect(text(mockFetch.mock.calls[0][1].body)).toBe('\0\0\0\0\x03req')
+    expect(result.status).toEqual({ code: GrpcStatus.OK, message: '' })
+    expect(result.message).toBe('res')
+  })
+
+  it('should read the status from headers on a trailers-only reply', async () => {
+    mockFetch.mockResolvedValue(
+      response(new Uint8Array(0), 200, { 'grpc-status': '16', 'grpc-message': 'Session%20expired' }),
+    )
+
+    const result = await call()
+
+    expect(result.status).toEqual({ code: GrpcStatus.UNAUTHENTICATED, message: 'Session expired' })
+    expect(result.message).toBeUndefined()
+  })
+
+  it('should fall back to the HTTP status when there is no grpc-status', async () => {
+    mockFetch.mockResolvedValue(response(new Uint8Array(0), 503))
+
+    expect((await call()).status.code).toBe(GrpcStatus.UNAVAILABLE)
+  })
+
+  it('should not treat a bare 200 as success', async () => {
+    mockFetch.mockResolvedValue(response(new Uint8Array(0)))
+
+    expect((await call()).status.code).toBe(GrpcStatus.INTERNAL)
+  })
+
+  it('should reject with DEADLINE_EXCEEDED once the deadline passes', async () => {
+    jest.useFakeTimers()
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(new Error('aborted')))),
+    )
+
+    const pending = expect(call({ deadlineMs: 50 })).rejects.toMatchObject({ code: GrpcStatus.DEADLINE_EXCEEDED })
+    await jest.advanceTimersByTimeAsync(50)
+
+    await pending
+  })
+
+  it('should reject with CANCELLED when the caller aborts', async () => {
+    const controller = new AbortController()
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(new Error('aborted')))),
+    )
+
+    const pending = call({ signal: controller.signal })
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ code: GrpcStatus.CANCELLED })
+  })
+
+  it('should not send the request when the caller has already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(call({ signal: controller.signal })).rejects.toMatchObject({ code: GrpcStatus.CANCELLED })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject with UNAVAILABLE when the network fails', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'))
+
+    await expect(call()).rejects.toMatchObject({ code: GrpcStatus.UNAVAILABLE, message: 'fetch failed' })
+  })
+})
@@ -0,0 +1,67 @@
+import {
+  readIdentityHeaders,
+  stripIdentityHeaders,
+  writeIdentityHeaders,
+  type VerifiedIdentity,
+} from '../identity-headers'
+
+describe('identity headers', () => {
+  it('should read what the Auth service sends', () => {
+    const headers = new Headers({
+      'x-auth-subject': 'user-sub',
+      'x-auth-email': 'jane%2Btest%40example.com',
+      'x-auth-roles': 'admin,ops%2Ceu',
+      'x-auth-session-expires-at': '1767268800',
+    })
+
+    expect(readIdentityHeaders(headers)).toEqual({
+      subject: 'user-sub',
+      email: 'jane+test@example.com',
+      roles: ['admin', 'ops,eu'],
+      sessionExpiresAt: 1767268800,
+    })
+  })
+
+  it('should report no identity without a subject', () => {
+    expect(readIdentityHeaders(new Headers({ 'x-auth-email': 'a%40b.c' }))).toBeNull()
+  })
+
+  it('should tolerate missing optional claims', () => {
+    expect(readIdentityHeaders(new Headers({ 'x-auth-subject': 'user-sub' }))).toEqual({
+      subject: 'user-sub',
+      email: undefined,
+      roles: [],
+      sessionExpiresAt: undefined,
+    })
+  })
+
+  it('should round-trip an identity', () => {
+    const identity: VerifiedIdentity = {
+      subject: 'user-sub',
+      email: 'jane@example.com',
+      roles: ['admin', 'support'],
+      sessionExpiresAt: 1767268800,
+    }
+    const headers = new Headers()
+
+    writeIdentityHeaders(headers, identity)
+
+    expect(readIdentityHeaders(headers)).toEqual(identity)
+  })
+
+  it('should strip client-supplied copies and leave other headers alone', () => {
+    const headers = new Headers({
+      'X-Auth-Subject': 'someone-else',
+      'x-auth-roles': 'admin',
+      'x-auth-anything': 'spoofed',
+      accept: 'text/html',
+    })
+
+    stripIdentityHeaders(headers)
+
+    expect(readIdentityHeaders(headers)).toBeNull()
+    expect(headers.get('x-auth-roles')).toBeNull()
+    expect(headers.get('x-auth-anything')).toBeNull()
+    expect(headers.get('accept')).toBe('text/html')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Short-lived memory of AuthorizationService.Check results, so a burst of
+ * navigations, RSC fetches and prefetches with the same session costs one
+ * round trip. Entries are keyed by a hash of the session cookies; raw cookie
+ * values are never held.
+ */
+
+import type { VerifiedIdentity } from "./identity-headers";
+
+/** Cookies the Auth service resolves a session from. */
+export const SESSION_COOKIE_NAMES = ["AT_SID", "RT_SID"] as const;
+
+export const AUTH_CHECK_CACHE_TTL_MS = 10_000;
+export const AUTH_CHECK_CACHE_MAX_ENTRIES = 1000;
+
+export type AuthCheckCacheOptions = {
+  ttlMs?: number;
+  maxEntries?: number;
+  now?: () => number;
+};
+
+export type CachedAuthCheck = {
+  isAuthenticated: boolean;
+  identity?: VerifiedIdentity;
+};
+
+export type AuthCheckCache = {
+  get: (key: string) => CachedAuthCheck | undefined;
+  set: (key: string, result: CachedAuthCheck) => void;
+  delete: (key: string) => void;
+  readonly size: number;
+};
+
+type Entry = {
+  result: CachedAuthCheck;
+  expiresAt: number;
+};
+
+/**
+ * Creates a cache that forgets entries after `ttlMs`, or sooner when the
+ * session they describe expires, and once full evicts the least recently used.
+ */
+export function createAuthCheckCache({
+  ttlMs = AUTH_CHECK_CACHE_TTL_MS,
+  maxEntries = AUTH_CHECK_CACHE_MAX_ENTRIES,
+  now = Date.now,
+}: AuthCheckCacheOptions = {}): AuthCheckCache {
+  // Map keeps insertion order, so the first key is always the least recently used
+  const entries = new Map<string, Entry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.result;
+    },
+    set(key, result) {
+      const sessionExpiresAt = result.identity?.sessionExpiresAt;
+      const expiresAt = Math.min(now() + ttlMs, sessionExpiresAt ? sessionExpiresAt * 1000 : Infinity);
+      entries.delete(key);
+      entries.set(key, { result, expiresAt });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+/**
+ * Shared by every request this server instance handles.
+ */
+export const authCheckCache = createAuthCheckCache();
+
+function readCookie(cookieHeader: string, name: string): string | undefined {
+  for (const part of cookieHeader.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator < 0) continue;
+    if (part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim() || undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * SHA-256 of the session cookies in a Cookie header, hex encoded.
+ * Returns null when the header carries no session, leaving nothing to key on.
+ */
+export async function sessionCacheKey(cookieHeader: string | undefined): Promise<string | null> {
+  if (!cookieHeader) return null;
+
+  const values = SESSION_COOKIE_NAMES.map((name) => `${name}=${readCookie(cookieHeader, name) ?? ""}`);
+  if (values.every((value) => value.endsWith("="))) return null;
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(values.join(";")));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
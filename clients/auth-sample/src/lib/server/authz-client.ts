@@ -1,73 +1,90 @@
 import { trace, SpanStatusCode, context, type Span, type Context } from "@opentelemetry/api";
-import { toTraceparent } from "./trace-utils";
+import { GrpcStatus, GrpcWebError, grpcWebUnary, type GrpcWebResponse } from "./grpc-web";
+import { sessionCacheKey, type AuthCheckCache } from "./auth-check-cache";
+import { readIdentityHeaders, type VerifiedIdentity } from "./identity-headers";
+import { createCircuitBreaker, type CircuitBreaker } from "./circuit-breaker";
 
 /**
- * Constants for gRPC-Web / auth handling.
+ * Constants for auth handling.
  */
-const GRPC_STATUS_OK = "0";
-const GRPC_UNAUTHENTICATED = 16;
-const GRPC_PERMISSION_DENIED = 7;
+const CHECK_METHOD = "/auth.AuthorizationService/Check";
 const DEFAULT_TIMEOUT_MS = 3000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 100;
+const DEFAULT_RETRY_MAX_DELAY_MS = 1000;
 
 /**
- * Builds a properly formatted gRPC-Web body for google.protobuf.Empty.
- * google.protobuf.Empty => 0 bytes; gRPC-Web prefix is 5 bytes.
+ * Why a check could not be answered. `timeout`, `unavailable` and `network`
+ * mean the Auth service itself is in trouble; the rest are ours to fix.
  */
-function buildGrpcWebEmptyBody(): Uint8Array {
-  const body = new Uint8Array(5);
-  // body[0] = 0 means "no compression"
-  // body[1..4] = 32-bit big-endian length (0 for Empty)
-  body[0] = 0;
-  body[1] = 0;
-  body[2] = 0;
-  body[3] = 0;
-  body[4] = 0;
-  return body;
-}
+export type AuthCheckFailure = "misconfigured" | "timeout" | "unavailable" | "network" | "unexpected";
 
-/**
- * Creates base headers for a gRPC-Web POST and injects trace context if present.
- */
-function makeGrpcWebHeaders(span: Span, extra?: Record<string, string>): Record<string, string> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/grpc-web+proto",
-    "grpc-web": "1",
-    Accept: "application/grpc-web+proto",
-    ...(extra ?? {}),
-  };
-
-  const sc = span.spanContext();
-  if (sc.traceId && sc.spanId) {
-    headers["traceparent"] = toTraceparent(sc);
-    const ts = sc.traceState?.serialize();
-    if (ts) headers["tracestate"] = ts;
+export class AuthCheckError extends Error {
+  readonly failure: AuthCheckFailure;
+
+  constructor(message: string, failure: AuthCheckFailure, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AuthCheckError";
+    this.failure = failure;
   }
 
-  return headers;
+  /** Counts against the Auth service's health. */
+  get isServiceFailure(): boolean {
+    return this.failure === "timeout" || this.failure === "unavailable" || this.failure === "network";
+  }
+
+  /**
+   * Worth trying again straight away. Timeouts are not: another full wait
+   * would hold up the navigation for longer than an error page would.
+   */
+  get isRetryable(): boolean {
+    return this.failure === "unavailable" || this.failure === "network";
+  }
 }
 
+export type RetryOptions = {
+  /** Total tries, including the first. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type CheckAuthenticationOptions = {
+  /** Reuses results per session (keyed on the `cookie` metadata) until they expire or cookies rotate. */
+  cache?: AuthCheckCache;
+  /** Defaults to the breaker shared by every check this server instance makes. */
+  breaker?: CircuitBreaker;
+  retry?: RetryOptions;
+};
+
 /**
- * Reads gRPC-Web status from response headers.
+ * Shared across requests so one instance notices the Auth service is down once, not per request.
  */
-function readGrpcStatus(res: Response): { code: number | null; message: string | null } {
-  const status = res.headers.get("grpc-status");
-  const message = res.headers.get("grpc-message");
-  return { code: status == null ? null : Number.parseInt(status, 10), message };
-}
+export const authServiceCircuitBreaker = createCircuitBreaker();
 
 /**
- * Runs an async fn with a timeout using AbortController.
+ * google.protobuf.Empty serializes to zero bytes. Built by hand because the
+ * generated protobuf runtime evaluates code, which the edge runtime forbids.
  */
-async function withTimeout<T>(ms: number, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
-  const ac = new AbortController();
-  const t = setTimeout(() => ac.abort(), ms);
-  try {
-    return await fn(ac.signal);
-  } finally {
-    clearTimeout(t);
-  }
+const EMPTY_MESSAGE = { serializeBinary: () => new Uint8Array(0) };
+
+/**
+ * Full jitter: a random wait up to an exponentially growing cap, so retries
+ * from many requests hitting the same outage spread out instead of arriving together.
+ */
+export function retryDelay(
+  retry: number,
+  baseDelayMs: number = DEFAULT_RETRY_BASE_DELAY_MS,
+  maxDelayMs: number = DEFAULT_RETRY_MAX_DELAY_MS,
+  random: () => number = Math.random,
+): number {
+  return Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retry));
 }
 
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
 /**
  * Makes a gRPC-Web call to check user authentication.
  * Returns true when authenticated, false when explicitly unauthenticated/denied.
@@ -75,13 +92,15 @@ async function withTimeout<T>(ms: number, fn: (signal: AbortSignal) => Promise<T
  */
 export type AuthCheckResult = {
   isAuthenticated: boolean;
+  /** Who the session belongs to, when the service said so. */
+  identity?: VerifiedIdentity;
   setCookies: string[];
 };
 
-function extractSetCookies(res: Response): string[] {
+function extractSetCookies(headers: Headers): string[] {
   const cookies: string[] = [];
   // Iterate all headers to capture multiple Set-Cookie values
-  res.headers.forEach((value, key) => {
+  headers.forEach((value, key) => {
     if (key.toLowerCase() === "set-cookie" && value) {
       cookies.push(value);
     }
@@ -89,10 +108,112 @@ function extractSetCookies(res: Response): string[] {
   return cookies;
 }
 
+/**
+ * Classifies a call that produced no gRPC status by the code it was rejected with.
+ * Only a lost connection is the service's fault; an unreadable reply (INTERNAL)
+ * or anything thrown by our own code is ours, so it is neither retried nor
+ * counted against the service.
+ */
+function callFailure(err: unknown): AuthCheckError {
+  const message = err instanceof Error ? err.message : String(err);
+  const code = err instanceof GrpcWebError ? err.code : undefined;
+
+  switch (code) {
+    case GrpcStatus.DEADLINE_EXCEEDED:
+      return new AuthCheckError(`Auth service did not answer within ${DEFAULT_TIMEOUT_MS} ms`, "timeout", { cause: err });
+    case GrpcStatus.UNAVAILABLE:
+      return new AuthCheckError(`Auth service unreachable: ${message}`, "network", { cause: err });
+    default:
+      return new AuthCheckError(`Auth service call failed: ${message}`, "unexpected", { cause: err });
+  }
+}
+
+/**
+ * Calls AuthorizationService.Check and classifies the outcome on the given span.
+ */
+async function requestCheck(
+  authServiceUrl: string,
+  span: Span,
+  additionalMetadata?: Record<string, string>,
+): Promise<AuthCheckResult> {
+  const activeCtx = trace.setSpan(context.active(), span);
+  let response: GrpcWebResponse<undefined>;
+  try {
+    response = await context.with(activeCtx, () =>
+      grpcWebUnary({
+        baseUrl: authServiceUrl,
+        method: CHECK_METHOD,
+        request: EMPTY_MESSAGE,
+        deserialize: () => undefined,
+        metadata: additionalMetadata,
+        deadlineMs: DEFAULT_TIMEOUT_MS,
+        span,
+      }),
+    );
+  } catch (err) {
+    throw callFailure(err);
+  }
+
+  const setCookies = extractSetCookies(response.headers);
+  const { code, message } = response.status;
+
+  switch (code) {
+    case GrpcStatus.OK:
+      span.setAttribute("auth.check.success", true);
+      return { isAuthenticated: true, identity: readIdentityHeaders(response.headers) ?? undefined, setCookies };
+    case GrpcStatus.UNAUTHENTICATED:
+    case GrpcStatus.PERMISSION_DENIED:
+      span.setAttribute("auth.check.success", false);
+      return { isAuthenticated: false, setCookies };
+    default: {
+      const failure: AuthCheckFailure =
+        code === GrpcStatus.UNAVAILABLE ? "unavailable" : code === GrpcStatus.DEADLINE_EXCEEDED ? "timeout" : "unexpected";
+      throw new AuthCheckError(`gRPC error: ${code}${message ? ` - ${message}` : ""}`, failure);
+    }
+  }
+}
+
+/**
+ * Calls Check, trying again after transient failures with a jittered backoff.
+ */
+async function requestCheckWithRetry(
+  authServiceUrl: string,
+  span: Span,
+  additionalMetadata: Record<string, string> | undefined,
+  {
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_RETRY_MAX_DELAY_MS,
+    random = Math.random,
+    sleep: wait = sleep,
+  }: RetryOptions = {},
+): Promise<AuthCheckResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await requestCheck(authServiceUrl, span, additionalMetadata);
+      span.setAttribute("auth.check.attempts", attempt);
+      return result;
+    } catch (err) {
+      if (!(err instanceof AuthCheckError && err.isRetryable) || attempt >= maxAttempts) {
+        span.setAttribute("auth.check.attempts", attempt);
+        throw err;
+      }
+      span.addEvent("auth.check.retry", { attempt, "error.message": err.message });
+      await wait(retryDelay(attempt - 1, baseDelayMs, maxDelayMs, random));
+    }
+  }
+}
+
+/**
+ * Checks the session behind the `cookie` metadata. Transient failures are
+ * retried, and while the Auth service keeps failing the breaker refuses calls
+ * outright so requests fail fast instead of queueing behind timeouts.
+ */
 export async function checkAuthentication(
   authServiceUrl: string | undefined,
   parentSpan?: Span,
   additionalMetadata?: Record<string, string>,
+  { cache, breaker = authServiceCircuitBreaker, retry }: CheckAuthenticationOptions = {},
 ): Promise<AuthCheckResult> {
   const tracer = trace.getTracer("middleware");
 
@@ -100,47 +221,49 @@ export async function checkAuthentication(
   const parentCtx: Context | undefined = parentSpan ? trace.setSpan(context.active(), parentSpan) : undefined;
   const span = tracer.startSpan("auth.check", undefined, parentCtx);
     if (!authServiceUrl) {
-        throw new Error("authServiceUrl is not set");
+        throw new AuthCheckError("authServiceUrl is not set", "misconfigured");
     }
 
   try {
-    const grpcWebUrl = `${authServiceUrl}/auth.AuthorizationService/Check`;
-    const headers = makeGrpcWebHeaders(span, additionalMetadata);
-    const body = buildGrpcWebEmptyBody();
-
-    const activeCtx = trace.setSpan(context.active(), span);
-    const response = await context.with(activeCtx, () =>
-      withTimeout(DEFAULT_TIMEOUT_MS, (signal) =>
-        fetch(grpcWebUrl, { method: "POST", headers, body, signal }),
-      ),
-    );
-    const setCookies = extractSetCookies(response);
-
-    // Prefer explicit gRPC status from headers; fall back to HTTP status when missing.
-    const { code, message } = readGrpcStatus(response);
-
-    if (code != null) {
-      if (String(code) !== GRPC_STATUS_OK) {
-        if (code === GRPC_UNAUTHENTICATED || code === GRPC_PERMISSION_DENIED) {
-          span.setAttribute("auth.check.success", false);
-          return { isAuthenticated: false, setCookies };
-        }
-        throw new Error(`gRPC error: ${code}${message ? ` - ${message}` : ""}`);
+    const cacheKey = cache ? await sessionCacheKey(additionalMetadata?.cookie) : null;
+    if (cache && cacheKey) {
+      const cached = cache.get(cacheKey);
+      span.setAttribute("auth.check.cache.hit", cached !== undefined);
+      if (cached !== undefined) {
+        span.setAttribute("auth.check.success", cached.isAuthenticated);
+        return { ...cached, setCookies: [] };
       }
-      // gRPC status OK
-      span.setAttribute("auth.check.success", true);
-      return { isAuthenticated: true, setCookies };
     }
 
-    if (response.status >= 400) {
-        const message = response.statusText;
-        throw new Error(message);
+    span.setAttribute("auth.check.circuit", breaker.state);
+    if (!breaker.tryAcquire()) {
+      throw new AuthCheckError("Auth service circuit is open", "unavailable");
     }
 
-    // No gRPC status header; rely on HTTP status.
-    const ok = response.ok;
-    span.setAttribute("auth.check.success", ok);
-    return { isAuthenticated: ok, setCookies };
+    let result: AuthCheckResult;
+    try {
+      result = await requestCheckWithRetry(authServiceUrl, span, additionalMetadata, retry);
+      breaker.recordSuccess();
+    } catch (err) {
+      // Anything other than a service failure means the service answered
+      if (err instanceof AuthCheckError && err.isServiceFailure) {
+        breaker.recordFailure();
+      } else {
+        breaker.recordSuccess();
+      }
+      throw err;
+    }
+
+    if (cache && cacheKey) {
+      // Rotated cookies arrive under a new key next time; the old one is stale
+      if (result.setCookies.length > 0) {
+        cache.delete(cacheKey);
+        span.setAttribute("auth.check.cache.invalidated", true);
+      } else {
+        cache.set(cacheKey, { isAuthenticated: result.isAuthenticated, identity: result.identity });
+      }
+    }
+    return result;
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     span.recordException(err as Error);
@@ -0,0 +1,70 @@
+/**
+ * Stops calling a dependency that keeps failing, then lets a single trial call
+ * through after a cool-down to see whether it has recovered.
+ *
+ *   closed    calls go through; consecutive failures are counted
+ *   open      calls are refused until `resetTimeoutMs` has passed
+ *   half-open one trial call is allowed; success closes, failure re-opens
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerOptions = {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call. */
+  resetTimeoutMs?: number;
+  now?: () => number;
+};
+
+export type CircuitBreaker = {
+  readonly state: CircuitState;
+  /** Whether a call may go out now; in half-open, only the first caller gets true. */
+  tryAcquire: () => boolean;
+  recordSuccess: () => void;
+  recordFailure: () => void;
+};
+
+export const DEFAULT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+export function createCircuitBreaker({
+  failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+  resetTimeoutMs = DEFAULT_RESET_TIMEOUT_MS,
+  now = Date.now,
+}: CircuitBreakerOptions = {}): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const currentState = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return now() - openedAt >= resetTimeoutMs ? "half-open" : "open";
+  };
+
+  return {
+    get state() {
+      return currentState();
+    },
+    tryAcquire() {
+      const state = currentState();
+      if (state === "closed") return true;
+      if (state === "open" || trialInFlight) return false;
+      trialInFlight = true;
+      return true;
+    },
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+    recordFailure() {
+      failures += 1;
+      // A failed trial re-opens straight away; otherwise wait for the threshold
+      if (trialInFlight || failures >= failureThreshold) {
+        openedAt = now();
+      }
+      trialInFlight = false;
+    },
+  };
+}
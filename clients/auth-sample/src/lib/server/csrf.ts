@@ -0,0 +1,26 @@
+/**
+ * Issuing the double-submit CSRF token; the cookie name and which calls need
+ * the token live in `@/lib/csrf`, shared with the gRPC-Web clients.
+ *
+ * The cookie is scoped to the host rather than the port, so the Auth service
+ * behind Envoy receives the same cookie the app set.
+ */
+
+const TOKEN_BYTES = 32;
+
+/** A random base64url token; no `=` padding, so it survives naive cookie parsers. */
+export function createCsrfToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** Readable by page scripts on purpose: the client has to echo it back. */
+export const CSRF_COOKIE_OPTIONS = {
+  httpOnly: false,
+  secure: true,
+  sameSite: "strict",
+  path: "/",
+} as const;
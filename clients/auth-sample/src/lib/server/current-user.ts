@@ -0,0 +1,13 @@
+import { cache } from "react";
+import { headers } from "next/headers";
+import { readIdentityHeaders, type VerifiedIdentity } from "./identity-headers";
+
+export type CurrentUser = VerifiedIdentity;
+
+/**
+ * The signed-in user for the request being rendered, as verified by middleware.
+ * Null for signed-out visitors and on public routes, where middleware skips the check.
+ */
+export const getCurrentUser = cache(async (): Promise<CurrentUser | null> => {
+    return readIdentityHeaders(await headers());
+});
@@ -0,0 +1,27 @@
+import { type ErrorId } from "@/lib/error-ids";
+
+/**
+ * Counts redirects to the error page in a short-lived cookie. "Try again" on
+ * the error page returns to the page that failed; if that keeps failing the
+ * user would bounce between the two indefinitely, so after a few rounds the
+ * error page is told to stop offering a retry.
+ */
+export const ERROR_REDIRECT_COOKIE = "ERR_REDIRECTS";
+export const MAX_ERROR_REDIRECTS = 3;
+export const ERROR_REDIRECT_WINDOW_SECONDS = 60;
+
+export type ErrorRedirect = {
+    errorId: ErrorId;
+    /** Value for the counter cookie. */
+    count: number;
+};
+
+/**
+ * Decides what the next redirect to the error page reports, given the counter
+ * cookie from the request.
+ */
+export function trackErrorRedirect(previousCount: string | undefined, errorId: ErrorId): ErrorRedirect {
+    const previous = Number.parseInt(previousCount ?? "", 10);
+    const count = (Number.isNaN(previous) || previous < 0 ? 0 : previous) + 1;
+    return { errorId: count >= MAX_ERROR_REDIRECTS ? "redirect-loop" : errorId, count };
+}
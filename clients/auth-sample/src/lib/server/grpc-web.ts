@@ -0,0 +1,270 @@
+import { type Span } from "@opentelemetry/api";
+import { toTraceparent } from "./trace-utils";
+
+/**
+ * Minimal gRPC-Web client for server-side code (middleware, route handlers).
+ *
+ * Uses only fetch and typed arrays so it runs on the edge runtime. Requests are
+ * single length-prefixed frames; responses are read as a sequence of data
+ * frames followed by a trailer frame carrying `grpc-status`. Servers that fail
+ * before sending a body put the status in the response headers instead
+ * ("trailers-only"), so both places are checked.
+ */
+
+/** gRPC status codes this codebase acts on. */
+export const GrpcStatus = {
+  OK: 0,
+  CANCELLED: 1,
+  UNKNOWN: 2,
+  DEADLINE_EXCEEDED: 4,
+  PERMISSION_DENIED: 7,
+  UNIMPLEMENTED: 12,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+  UNAUTHENTICATED: 16,
+} as const;
+
+const FRAME_HEADER_BYTES = 5;
+const DATA_FRAME = 0x00;
+const TRAILER_FRAME = 0x80;
+const COMPRESSED_FLAG = 0x01;
+
+export type GrpcWebStatus = {
+  code: number;
+  message: string;
+};
+
+export type GrpcWebResponse<Res> = {
+  status: GrpcWebStatus;
+  /** The first response message; absent on failure. */
+  message?: Res;
+  /** Response headers, including any Set-Cookie. */
+  headers: Headers;
+  /** Trailer metadata, lower-cased keys. */
+  trailers: Record<string, string>;
+};
+
+export type GrpcWebUnaryRequest<Res> = {
+  /** Service origin, e.g. `https://auth.example.com`. */
+  baseUrl: string;
+  /** Full method path, e.g. `/auth.AuthorizationService/Check`. */
+  method: string;
+  request: { serializeBinary(): Uint8Array };
+  deserialize: (bytes: Uint8Array) => Res;
+  metadata?: Record<string, string>;
+  /** Sent as `grpc-timeout` and enforced locally. */
+  deadlineMs?: number;
+  /** Trace context is propagated from this span. */
+  span?: Span;
+  signal?: AbortSignal;
+};
+
+/**
+ * Thrown when no gRPC status could be obtained at all: the deadline passed,
+ * the call was cancelled, or the network failed.
+ */
+export class GrpcWebError extends Error {
+  readonly code: number;
+
+  constructor(message: string, code: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "GrpcWebError";
+    this.code = code;
+  }
+}
+
+/**
+ * Prefixes a message with the 5-byte gRPC-Web frame header:
+ * a flags byte and a 32-bit big-endian length.
+ */
+export function encodeGrpcWebFrame(payload: Uint8Array, flags: number = DATA_FRAME): Uint8Array {
+  const frame = new Uint8Array(FRAME_HEADER_BYTES + payload.length);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, flags);
+  view.setUint32(1, payload.length, false);
+  frame.set(payload, FRAME_HEADER_BYTES);
+  return frame;
+}
+
+/**
+ * Splits a response body into data messages and trailer metadata.
+ * A truncated final frame is ignored rather than misread.
+ */
+export function decodeGrpcWebFrames(body: Uint8Array): { messages: Uint8Array[]; trailers: Record<string, string> } {
+  const messages: Uint8Array[] = [];
+  const trailers: Record<string, string> = {};
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+
+  let offset = 0;
+  while (offset + FRAME_HEADER_BYTES <= body.length) {
+    const flags = view.getUint8(offset);
+    const length = view.getUint32(offset + 1, false);
+    const start = offset + FRAME_HEADER_BYTES;
+    if (start + length > body.length) break;
+
+    const payload = body.subarray(start, start + length);
+    if (flags & COMPRESSED_FLAG) {
+      throw new GrpcWebError("Compressed gRPC-Web frames are not supported", GrpcStatus.INTERNAL);
+    }
+    if (flags & TRAILER_FRAME) {
+      Object.assign(trailers, parseTrailerBlock(payload));
+    } else {
+      messages.push(payload);
+    }
+    offset = start + length;
+  }
+
+  return { messages, trailers };
+}
+
+/** Trailers are an HTTP/1-style header block: `name: value` lines separated by CRLF. */
+function parseTrailerBlock(payload: Uint8Array): Record<string, string> {
+  const trailers: Record<string, string> = {};
+  for (const line of new TextDecoder().decode(payload).split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    trailers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return trailers;
+}
+
+/**
+ * Status for a response that carried none, per the gRPC HTTP-to-status mapping.
+ */
+export function statusFromHttp(httpStatus: number): number {
+  switch (httpStatus) {
+    case 400:
+      return GrpcStatus.INTERNAL;
+    case 401:
+      return GrpcStatus.UNAUTHENTICATED;
+    case 403:
+      return GrpcStatus.PERMISSION_DENIED;
+    case 404:
+      return GrpcStatus.UNIMPLEMENTED;
+    case 429:
+    case 502:
+    case 503:
+    case 504:
+      return GrpcStatus.UNAVAILABLE;
+    default:
+      return GrpcStatus.UNKNOWN;
+  }
+}
+
+// grpc-message is percent-encoded on the wire
+const decodeStatusMessage = (value: string | null | undefined) => {
+  if (!value) return "";
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+function readStatus(response: Response, trailers: Record<string, string>): GrpcWebStatus {
+  const code = trailers["grpc-status"] ?? response.headers.get("grpc-status");
+  const message = trailers["grpc-message"] ?? response.headers.get("grpc-message");
+
+  if (code != null && code !== "") {
+    const parsed = Number.parseInt(code, 10);
+    return { code: Number.isNaN(parsed) ? GrpcStatus.UNKNOWN : parsed, message: decodeStatusMessage(message) };
+  }
+  if (!response.ok) {
+    return { code: statusFromHttp(response.status), message: response.statusText };
+  }
+  return { code: GrpcStatus.INTERNAL, message: "Response carried no grpc-status" };
+}
+
+/**
+ * Request headers for a gRPC-Web call, with W3C trace context when a span is given.
+ */
+export function makeGrpcWebHeaders(
+  metadata: Record<string, string> = {},
+  span?: Span,
+  deadlineMs?: number,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/grpc-web+proto",
+    "grpc-web": "1",
+    Accept: "application/grpc-web+proto",
+    ...metadata,
+  };
+
+  if (deadlineMs !== undefined) {
+    headers["grpc-timeout"] = `${Math.max(1, Math.ceil(deadlineMs))}m`;
+  }
+
+  const sc = span?.spanContext();
+  if (sc?.traceId && sc.spanId) {
+    headers["traceparent"] = toTraceparent(sc);
+    const ts = sc.traceState?.serialize();
+    if (ts) headers["tracestate"] = ts;
+  }
+
+  return headers;
+}
+
+/**
+ * Makes a unary gRPC-Web call. Resolves with whatever status the server sent,
+ * so callers decide which codes are failures; rejects with GrpcWebError only
+ * when there is no status to report.
+ */
+export async function grpcWebUnary<Res>({
+  baseUrl,
+  method,
+  request,
+  deserialize,
+  metadata,
+  deadlineMs,
+  span,
+  signal,
+}: GrpcWebUnaryRequest<Res>): Promise<GrpcWebResponse<Res>> {
+  // An abort that already fired will never dispatch its event, so the call would run to completion
+  if (signal?.aborted) {
+    throw new GrpcWebError("Call cancelled", GrpcStatus.CANCELLED, { cause: signal.reason });
+  }
+
+  const controller = new AbortController();
+  let deadlineExceeded = false;
+  const timer =
+    deadlineMs !== undefined
+      ? setTimeout(() => {
+          deadlineExceeded = true;
+          controller.abort();
+        }, deadlineMs)
+      : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    let response: Response;
+    let body: Uint8Array;
+    try {
+      response = await fetch(`${baseUrl}${method}`, {
+        method: "POST",
+        headers: makeGrpcWebHeaders(metadata, span, deadlineMs),
+        body: encodeGrpcWebFrame(request.serializeBinary()),
+        signal: controller.signal,
+      });
+      body = new Uint8Array(await response.arrayBuffer());
+    } catch (err) {
+      if (deadlineExceeded) {
+        throw new GrpcWebError(`Deadline of ${deadlineMs} ms exceeded`, GrpcStatus.DEADLINE_EXCEEDED, { cause: err });
+      }
+      if (signal?.aborted) {
+        throw new GrpcWebError("Call cancelled", GrpcStatus.CANCELLED, { cause: err });
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      throw new GrpcWebError(message, GrpcStatus.UNAVAILABLE, { cause: err });
+    }
+
+    const { messages, trailers } = decodeGrpcWebFrames(body);
+    const status = readStatus(response, trailers);
+    const message = status.code === GrpcStatus.OK && messages.length > 0 ? deserialize(messages[0]) : undefined;
+
+    return { status, message, headers: response.headers, trailers };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Who the Auth service says the session belongs to.
+ *
+ * AuthorizationService.Check returns these as response headers, and middleware
+ * forwards the same headers on the request so server components can read them.
+ * Middleware removes any copies a client sends, so on the server they can be
+ * trusted. Values are percent-encoded, roles comma-separated.
+ */
+
+export const IDENTITY_HEADER_PREFIX = "x-auth-";
+
+export const IDENTITY_HEADERS = {
+    subject: "x-auth-subject",
+    email: "x-auth-email",
+    roles: "x-auth-roles",
+    sessionExpiresAt: "x-auth-session-expires-at",
+} as const;
+
+export type VerifiedIdentity = {
+    subject: string;
+    email?: string;
+    roles: string[];
+    /** Epoch seconds after which the claims must be checked again. */
+    sessionExpiresAt?: number;
+};
+
+type HeaderReader = { get: (name: string) => string | null };
+
+const decode = (value: string) => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Reads an identity from headers; null when there is no subject.
+ */
+export function readIdentityHeaders(headers: HeaderReader): VerifiedIdentity | null {
+    const subject = headers.get(IDENTITY_HEADERS.subject);
+    if (!subject) return null;
+
+    const email = headers.get(IDENTITY_HEADERS.email);
+    const roles = headers.get(IDENTITY_HEADERS.roles);
+    const expiresAt = Number(headers.get(IDENTITY_HEADERS.sessionExpiresAt));
+
+    return {
+        subject: decode(subject),
+        email: email ? decode(email) : undefined,
+        roles: roles ? roles.split(",").filter(Boolean).map(decode) : [],
+        sessionExpiresAt: Number.isFinite(expiresAt) && expiresAt > 0 ? expiresAt : undefined,
+    };
+}
+
+/**
+ * Removes every identity header, whoever set it.
+ */
+export function stripIdentityHeaders(headers: Headers): void {
+    const names: string[] = [];
+    headers.forEach((_, name) => {
+        if (name.toLowerCase().startsWith(IDENTITY_HEADER_PREFIX)) names.push(name);
+    });
+    for (const name of names) headers.delete(name);
+}
+
+/**
+ * Writes an identity onto headers in the same encoding Check uses.
+ */
+export function writeIdentityHeaders(headers: Headers, identity: VerifiedIdentity): void {
+    headers.set(IDENTITY_HEADERS.subject, encodeURIComponent(identity.subject));
+    if (identity.email) headers.set(IDENTITY_HEADERS.email, encodeURIComponent(identity.email));
+    if (identity.roles.length > 0) {
+        headers.set(IDENTITY_HEADERS.roles, identity.roles.map(encodeURIComponent).join(","));
+    }
+    if (identity.sessionExpiresAt) {
+        headers.set(IDENTITY_HEADERS.sessionExpiresAt, String(identity.sessionExpiresAt));
+    }
+}
@@ -1,41 +1,33 @@
-/**
- * Routes that require authentication
- */
-export const PROTECTED_ROUTES = ["/"] as const;
-
-/**
- * Routes that are authentication-related (sign-in, sign-up)
- */
-export const AUTH_ROUTES = ["/sign-in", "/sign-up"] as const;
+import { ERROR_PATH, SIGN_IN_PATH } from "@/lib/route-policy";
+import { ERROR_FROM_PARAM, ERROR_ID_PARAM, ERROR_TRACE_PARAM, type ErrorId } from "@/lib/error-ids";
 
 /**
- * Checks if a pathname matches any protected route
- */
-export function isProtectedRoute(pathname: string): boolean {
-    return PROTECTED_ROUTES.some(
-        (route) => pathname === route || pathname.startsWith(`${route}/`),
-    );
-}
-
-/**
- * Checks if a pathname is an authentication route
+ * Creates a redirect URL for sign-in with callback
  */
-export function isAuthRoute(pathname: string): boolean {
-    return AUTH_ROUTES.some((route) => pathname === route);
+export function createSignInRedirectUrl(requestUrl: string, callbackPath: string, signInPath: string = SIGN_IN_PATH): URL {
+    const redirectUrl = new URL(signInPath, requestUrl);
+    redirectUrl.searchParams.set("callbackUrl", callbackPath);
+    return redirectUrl;
 }
 
 /**
- * Creates a redirect URL for sign-in with callback
+ * Creates a redirect URL to another path on the same origin
  */
-export function createSignInRedirectUrl(requestUrl: string, callbackPath: string): URL {
-    const redirectUrl = new URL("/sign-in", requestUrl);
-    redirectUrl.searchParams.set("callbackUrl", callbackPath);
-    return redirectUrl;
+export function createRedirectUrl(requestUrl: string, location: string): URL {
+    return new URL(location, requestUrl);
 }
 
 /**
- * Creates a redirect URL to home page
+ * Creates a redirect URL for the error page. Carries the error ID and trace ID
+ * only, so nothing about the failure itself ends up in the address bar or logs.
  */
-export function createHomeRedirectUrl(requestUrl: string): URL {
-    return new URL("/", requestUrl);
+export function createErrorUrl(
+    requestUrl: string,
+    { errorId, from, traceId }: { errorId: ErrorId; from: string; traceId?: string },
+): URL {
+    const errorUrl = new URL(ERROR_PATH, requestUrl);
+    errorUrl.searchParams.set(ERROR_ID_PARAM, errorId);
+    errorUrl.searchParams.set(ERROR_FROM_PARAM, from);
+    if (traceId) errorUrl.searchParams.set(ERROR_TRACE_PARAM, traceId);
+    return errorUrl;
 }
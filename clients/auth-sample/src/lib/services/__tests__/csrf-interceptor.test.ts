@@ -0,0 +1,45 @@
+import type * as grpcWeb from 'grpc-web'
+import { createCsrfUnaryInterceptor } from '../csrf-interceptor'
+
+const request = (method: string, metadata: grpcWeb.Metadata = {}) =>
+  ({
+    getMetadata: () => metadata,
+    getMethodDescriptor: () => ({ getName: () => method }),
+  }) as unknown as grpcWeb.Request<unknown, unknown>
+
+// The invoker sends whatever the request's metadata holds once the chain ends
+const intercept = async (method: string, metadata: grpcWeb.Metadata = {}) => {
+  const invoker = jest.fn().mockResolvedValue({})
+  await createCsrfUnaryInterceptor().intercept(request(method, metadata), invoker)
+  return (invoker.mock.calls[0][0] as grpcWeb.Request<unknown, unknown>).getMetadata()
+}
+
+const clearCookie = () => {
+  document.cookie = 'CSRF_TOKEN=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/'
+}
+
+describe('CsrfUnaryInterceptor', () => {
+  afterEach(clearCookie)
+
+  it('should send the CSRF cookie as metadata on state-changing calls', async () => {
+    document.cookie = 'CSRF_TOKEN=token-123; path=/'
+
+    const metadata = await intercept('/auth.SignUpService/InitiateSignUpAsync', { traceparent: 'tp' })
+
+    expect(metadata).toEqual({ traceparent: 'tp', 'x-csrf-token': 'token-123' })
+  })
+
+  it('should leave read-only calls alone', async () => {
+    document.cookie = 'CSRF_TOKEN=token-123; path=/'
+
+    const metadata = await intercept('/auth.PasskeyService/ListPasskeysAsync')
+
+    expect(metadata).toEqual({})
+  })
+
+  it('should send nothing when there is no token yet', async () => {
+    const metadata = await intercept('/greet.Greeter/SayHello')
+
+    expect(metadata['x-csrf-token']).toBeUndefined()
+  })
+})
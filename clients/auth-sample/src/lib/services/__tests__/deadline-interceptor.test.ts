@@ -0,0 +1,44 @@
+import type * as grpcWeb from 'grpc-web'
+import { createDeadlineUnaryInterceptor, DEFAULT_CALL_DEADLINE_MS } from '../deadline-interceptor'
+
+const request = (method: string, metadata: grpcWeb.Metadata = {}) =>
+  ({
+    getMetadata: () => metadata,
+    getMethodDescriptor: () => ({ getName: () => method }),
+  }) as unknown as grpcWeb.Request<unknown, unknown>
+
+// grpc-web converts the `deadline` entry into the grpc-timeout header when it sends
+const intercept = async (method: string, options = {}, metadata: grpcWeb.Metadata = {}) => {
+  const invoker = jest.fn().mockResolvedValue({})
+  await createDeadlineUnaryInterceptor({ now: () => 1_000, ...options }).intercept(request(method, metadata), invoker)
+  return (invoker.mock.calls[0][0] as grpcWeb.Request<unknown, unknown>).getMetadata()
+}
+
+describe('DeadlineUnaryInterceptor', () => {
+  it('should give calls the default deadline', async () => {
+    const metadata = await intercept('/auth.PasskeyService/ListPasskeysAsync', {}, { traceparent: 'tp' })
+
+    expect(metadata).toEqual({ traceparent: 'tp', deadline: String(1_000 + DEFAULT_CALL_DEADLINE_MS) })
+  })
+
+  it('should use the deadline configured for the method', async () => {
+    const metadata = await intercept('/auth.SignUpService/InitiateSignUpAsync', {
+      deadlines: { '/auth.SignUpService/InitiateSignUpAsync': 30_000 },
+    })
+
+    expect(metadata.deadline).toBe('31000')
+  })
+
+  it('should start a fresh deadline on every pass so retried attempts get a full budget', async () => {
+    let now = 1_000
+    const metadata: grpcWeb.Metadata = {}
+    const interceptor = createDeadlineUnaryInterceptor({ defaultMs: 5_000, now: () => now })
+    const invoker = jest.fn().mockResolvedValue({})
+
+    await interceptor.intercept(request('/greet.Greeter/SayHello', metadata), invoker)
+    now = 8_000
+    await interceptor.intercept(request('/greet.Greeter/SayHello', metadata), invoker)
+
+    expect(metadata.deadline).toBe('13000')
+  })
+})
@@ -71,4 +71,14 @@ describe('handleApiError', () => {
 
     expect(mockOnRateLimitExceeded).toHaveBeenCalledWith(60)
   })
-})
\ No newline at end of file
+  it('should stay quiet about calls cancelled because the caller unmounted', () => {
+    const cancelled = { code: 1, message: 'The call was cancelled.', metadata: {} }
+
+    const code = handleApiError(cancelled, mockSetErrorMessage, mockStep)
+
+    expect(code).toBeUndefined()
+    expect(mockSetErrorMessage).not.toHaveBeenCalled()
+    expect(mockConsoleError).not.toHaveBeenCalled()
+    expect(mockStep.fail).toHaveBeenCalledWith('CANCELLED')
+  })
+})
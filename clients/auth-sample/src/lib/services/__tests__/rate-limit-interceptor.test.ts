@@ -0,0 +1,72 @@
+import * as grpcWeb from 'grpc-web'
+import { createRateLimitRegistry } from '@/lib/rate-limits'
+import { ErrorCodes } from '../error-codes'
+import { createRateLimitUnaryInterceptor } from '../rate-limit-interceptor'
+
+const RESEND = '/auth.SignUpService/ResendVerificationCodeAsync'
+
+const request = (email?: string) =>
+  ({
+    getMetadata: () => ({}),
+    getMethodDescriptor: () => ({ getName: () => RESEND }),
+    getRequestMessage: () => ({ getEmailAddress: () => email ?? '' }),
+  }) as unknown as grpcWeb.Request<unknown, unknown>
+
+const rateLimited = (retryAfterSeconds: string) =>
+  new grpcWeb.RpcError(grpcWeb.StatusCode.RESOURCE_EXHAUSTED, 'Too many requests', {
+    'error-code': ErrorCodes.ResourceExhausted,
+    'retry-after-seconds': retryAfterSeconds,
+  })
+
+describe('RateLimitUnaryInterceptor', () => {
+  let now = 0
+  let registry: ReturnType<typeof createRateLimitRegistry>
+
+  beforeEach(() => {
+    now = 0
+    window.localStorage.clear()
+    registry = createRateLimitRegistry({ now: () => now })
+  })
+
+  it('should record the window the service hands out', async () => {
+    const invoker = jest.fn().mockRejectedValue(rateLimited('120'))
+
+    await expect(createRateLimitUnaryInterceptor(registry).intercept(request('a@example.com'), invoker)).rejects.toThrow(
+      'Too many requests'
+    )
+
+    expect(registry.remainingSeconds({ method: RESEND, email: 'a@example.com' })).toBe(120)
+  })
+
+  it('should refuse calls locally while the window is open', async () => {
+    registry.record({ method: RESEND, email: 'a@example.com' }, 120)
+    const invoker = jest.fn()
+
+    const error = await createRateLimitUnaryInterceptor(registry)
+      .intercept(request('a@example.com'), invoker)
+      .catch((err) => err)
+
+    expect(invoker).not.toHaveBeenCalled()
+    expect(error).toMatchObject({
+      code: grpcWeb.StatusCode.RESOURCE_EXHAUSTED,
+      metadata: { 'error-code': ErrorCodes.ResourceExhausted, 'retry-after-seconds': '120' },
+    })
+  })
+
+  it('should let other addresses through', async () => {
+    registry.record({ method: RESEND, email: 'a@example.com' }, 120)
+    const invoker = jest.fn().mockResolvedValue({})
+
+    await createRateLimitUnaryInterceptor(registry).intercept(request('b@example.com'), invoker)
+
+    expect(invoker).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not record errors that are not rate limits', async () => {
+    const invoker = jest.fn().mockRejectedValue(new grpcWeb.RpcError(grpcWeb.StatusCode.UNAVAILABLE, 'down', {}))
+
+    await expect(createRateLimitUnaryInterceptor(registry).intercept(request(), invoker)).rejects.toThrow('down')
+
+    expect(registry.remainingSeconds({ method: RESEND })).toBe(0)
+  })
+})
@@ -0,0 +1,104 @@
+import * as grpcWeb from 'grpc-web'
+import { createRetryUnaryInterceptor } from '../retry-interceptor'
+
+const LIST_PASSKEYS = '/auth.PasskeyService/ListPasskeysAsync'
+const INITIATE_SIGN_UP = '/auth.SignUpService/InitiateSignUpAsync'
+
+const request = (method: string) =>
+  ({
+    getMetadata: () => ({}),
+    getMethodDescriptor: () => ({ getName: () => method }),
+  }) as unknown as grpcWeb.Request<unknown, unknown>
+
+const unavailable = () => new grpcWeb.RpcError(grpcWeb.StatusCode.UNAVAILABLE, 'Http response at 400 or 500 level', {})
+
+// No jitter: waits are exactly half of each exponential step
+const policy = { maxAttempts: 3, initialBackoffMs: 200, maxBackoffMs: 1_000 }
+const interceptor = (signal?: () => AbortSignal | undefined) =>
+  createRetryUnaryInterceptor({ policy, signal, random: () => 0 })
+
+describe('RetryUnaryInterceptor', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should retry idempotent calls when the connection fails', async () => {
+    const invoker = jest.fn().mockRejectedValueOnce(unavailable()).mockResolvedValue('response')
+
+    const call = interceptor().intercept(request(LIST_PASSKEYS), invoker)
+    await jest.advanceTimersByTimeAsync(100)
+
+    await expect(call).resolves.toBe('response')
+    expect(invoker).toHaveBeenCalledTimes(2)
+  })
+
+  it('should back off exponentially between attempts', async () => {
+    const invoker = jest.fn().mockRejectedValue(unavailable())
+
+    const call = interceptor().intercept(request(LIST_PASSKEYS), invoker).catch((err) => err)
+    await jest.advanceTimersByTimeAsync(99)
+    expect(invoker).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1)
+    expect(invoker).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(199)
+    expect(invoker).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(1)
+
+    // Out of attempts: the last failure is what the caller sees
+    expect(await call).toMatchObject({ code: grpcWeb.StatusCode.UNAVAILABLE })
+    expect(invoker).toHaveBeenCalledTimes(3)
+  })
+
+  it('should never retry InitiateSignUpAsync', async () => {
+    const invoker = jest.fn().mockRejectedValue(unavailable())
+
+    await expect(interceptor().intercept(request(INITIATE_SIGN_UP), invoker)).rejects.toMatchObject({
+      code: grpcWeb.StatusCode.UNAVAILABLE,
+    })
+    expect(invoker).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not retry answers from the service', async () => {
+    const invalid = new grpcWeb.RpcError(grpcWeb.StatusCode.INVALID_ARGUMENT, 'Invalid', {})
+    const invoker = jest.fn().mockRejectedValue(invalid)
+
+    await expect(interceptor().intercept(request(LIST_PASSKEYS), invoker)).rejects.toBe(invalid)
+    expect(invoker).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cancel calls in flight when the signal aborts', async () => {
+    const controller = new AbortController()
+    const invoker = jest.fn().mockReturnValue(new Promise(() => undefined))
+
+    const call = interceptor(() => controller.signal).intercept(request(INITIATE_SIGN_UP), invoker)
+    controller.abort()
+
+    await expect(call).rejects.toMatchObject({ code: grpcWeb.StatusCode.CANCELLED })
+  })
+
+  it('should stop retrying once the signal aborts', async () => {
+    const controller = new AbortController()
+    const invoker = jest.fn().mockRejectedValue(unavailable())
+
+    const call = interceptor(() => controller.signal).intercept(request(LIST_PASSKEYS), invoker).catch((err) => err)
+    await jest.advanceTimersByTimeAsync(50)
+    controller.abort()
+    await jest.advanceTimersByTimeAsync(5_000)
+
+    expect(await call).toMatchObject({ code: grpcWeb.StatusCode.CANCELLED })
+    expect(invoker).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not start calls whose signal has already aborted', async () => {
+    const invoker = jest.fn()
+
+    await expect(
+      interceptor(() => AbortSignal.abort()).intercept(request(LIST_PASSKEYS), invoker)
+    ).rejects.toMatchObject({ code: grpcWeb.StatusCode.CANCELLED })
+    expect(invoker).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview gRPC-Web generated client stub for auth
+ * @enhanceable
+ * @public
+ */
+
+// Code generated by protoc-gen-grpc-web. DO NOT EDIT.
+// versions:
+// 	protoc-gen-grpc-web v1.5.0
+// 	protoc              v6.31.0
+// source: federation.proto
+
+
+/* eslint-disable */
+// @ts-nocheck
+
+
+import * as grpcWeb from 'grpc-web';
+
+import * as federation_pb from './federation_pb'; // proto import: "federation.proto"
+
+
+export class FederationServiceClient {
+  client_: grpcWeb.AbstractClientBase;
+  hostname_: string;
+  credentials_: null | { [index: string]: string; };
+  options_: null | { [index: string]: any; };
+
+  constructor (hostname: string,
+               credentials?: null | { [index: string]: string; },
+               options?: null | { [index: string]: any; }) {
+    if (!options) options = {};
+    if (!credentials) credentials = {};
+    options['format'] = 'text';
+
+    this.client_ = new grpcWeb.GrpcWebClientBase(options);
+    this.hostname_ = hostname.replace(/\/+$/, '');
+    this.credentials_ = credentials;
+    this.options_ = options;
+  }
+
+  methodDescriptorBeginFederatedSignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.FederationService/BeginFederatedSignInAsync',
+    grpcWeb.MethodType.UNARY,
+    federation_pb.BeginFederatedSignInRequest,
+    federation_pb.BeginFederatedSignInResponse,
+    (request: federation_pb.BeginFederatedSignInRequest) => {
+      return request.serializeBinary();
+    },
+    federation_pb.BeginFederatedSignInResponse.deserializeBinary
+  );
+
+  beginFederatedSignInAsync(
+    request: federation_pb.BeginFederatedSignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<federation_pb.BeginFederatedSignInResponse>;
+
+  beginFederatedSignInAsync(
+    request: federation_pb.BeginFederatedSignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: federation_pb.BeginFederatedSignInResponse) => void): grpcWeb.ClientReadableStream<federation_pb.BeginFederatedSignInResponse>;
+
+  beginFederatedSignInAsync(
+    request: federation_pb.BeginFederatedSignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: federation_pb.BeginFederatedSignInResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.FederationService/BeginFederatedSignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorBeginFederatedSignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.FederationService/BeginFederatedSignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorBeginFederatedSignInAsync);
+  }
+
+  methodDescriptorCompleteFederatedSignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.FederationService/CompleteFederatedSignInAsync',
+    grpcWeb.MethodType.UNARY,
+    federation_pb.CompleteFederatedSignInRequest,
+    federation_pb.CompleteFederatedSignInResponse,
+    (request: federation_pb.CompleteFederatedSignInRequest) => {
+      return request.serializeBinary();
+    },
+    federation_pb.CompleteFederatedSignInResponse.deserializeBinary
+  );
+
+  completeFederatedSignInAsync(
+    request: federation_pb.CompleteFederatedSignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<federation_pb.CompleteFederatedSignInResponse>;
+
+  completeFederatedSignInAsync(
+    request: federation_pb.CompleteFederatedSignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: federation_pb.CompleteFederatedSignInResponse) => void): grpcWeb.ClientReadableStream<federation_pb.CompleteFederatedSignInResponse>;
+
+  completeFederatedSignInAsync(
+    request: federation_pb.CompleteFederatedSignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: federation_pb.CompleteFederatedSignInResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.FederationService/CompleteFederatedSignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorCompleteFederatedSignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.FederationService/CompleteFederatedSignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorCompleteFederatedSignInAsync);
+  }
+
+  methodDescriptorBeginAppleSignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.FederationService/BeginAppleSignInAsync',
+    grpcWeb.MethodType.UNARY,
+    federation_pb.BeginAppleSignInRequest,
+    federation_pb.BeginAppleSignInResponse,
+    (request: federation_pb.BeginAppleSignInRequest) => {
+      return request.serializeBinary();
+    },
+    federation_pb.BeginAppleSignInResponse.deserializeBinary
+  );
+
+  beginAppleSignInAsync(
+    request: federation_pb.BeginAppleSignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<federation_pb.BeginAppleSignInResponse>;
+
+  beginAppleSignInAsync(
+    request: federation_pb.BeginAppleSignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: federation_pb.BeginAppleSignInResponse) => void): grpcWeb.ClientReadableStream<federation_pb.BeginAppleSignInResponse>;
+
+  beginAppleSignInAsync(
+    request: federation_pb.BeginAppleSignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: federation_pb.BeginAppleSignInResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.FederationService/BeginAppleSignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorBeginAppleSignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.FederationService/BeginAppleSignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorBeginAppleSignInAsync);
+  }
+
+  methodDescriptorCompleteAppleSignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.FederationService/CompleteAppleSignInAsync',
+    grpcWeb.MethodType.UNARY,
+    federation_pb.CompleteFederatedSignInRequest,
+    federation_pb.CompleteFederatedSignInResponse,
+    (request: federation_pb.CompleteFederatedSignInRequest) => {
+      return request.serializeBinary();
+    },
+    federation_pb.CompleteFederatedSignInResponse.deserializeBinary
+  );
+
+  completeAppleSignInAsync(
+    request: federation_pb.CompleteFederatedSignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<federation_pb.CompleteFederatedSignInResponse>;
+
+  completeAppleSignInAsync(
+    request: federation_pb.CompleteFederatedSignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: federation_pb.CompleteFederatedSignInResponse) => void): grpcWeb.ClientReadableStream<federation_pb.CompleteFederatedSignInResponse>;
+
+  completeAppleSignInAsync(
+    request: federation_pb.CompleteFederatedSignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: federation_pb.CompleteFederatedSignInResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.FederationService/CompleteAppleSignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorCompleteAppleSignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.FederationService/CompleteAppleSignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorCompleteAppleSignInAsync);
+  }
+
+}
+
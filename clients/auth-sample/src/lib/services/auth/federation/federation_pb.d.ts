@@ -0,0 +1,141 @@
+import * as jspb from 'google-protobuf'
+
+
+
+export class BeginFederatedSignInRequest extends jspb.Message {
+  getProvider(): IdentityProvider;
+  setProvider(value: IdentityProvider): BeginFederatedSignInRequest;
+
+  getRedirectUri(): string;
+  setRedirectUri(value: string): BeginFederatedSignInRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginFederatedSignInRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginFederatedSignInRequest): BeginFederatedSignInRequest.AsObject;
+  static serializeBinaryToWriter(message: BeginFederatedSignInRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginFederatedSignInRequest;
+  static deserializeBinaryFromReader(message: BeginFederatedSignInRequest, reader: jspb.BinaryReader): BeginFederatedSignInRequest;
+}
+
+export namespace BeginFederatedSignInRequest {
+  export type AsObject = {
+    provider: IdentityProvider,
+    redirectUri: string,
+  }
+}
+
+export class BeginFederatedSignInResponse extends jspb.Message {
+  getAuthorizationUrl(): string;
+  setAuthorizationUrl(value: string): BeginFederatedSignInResponse;
+
+  getState(): string;
+  setState(value: string): BeginFederatedSignInResponse;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginFederatedSignInResponse.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginFederatedSignInResponse): BeginFederatedSignInResponse.AsObject;
+  static serializeBinaryToWriter(message: BeginFederatedSignInResponse, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginFederatedSignInResponse;
+  static deserializeBinaryFromReader(message: BeginFederatedSignInResponse, reader: jspb.BinaryReader): BeginFederatedSignInResponse;
+}
+
+export namespace BeginFederatedSignInResponse {
+  export type AsObject = {
+    authorizationUrl: string,
+    state: string,
+  }
+}
+
+export class BeginAppleSignInRequest extends jspb.Message {
+  getRedirectUri(): string;
+  setRedirectUri(value: string): BeginAppleSignInRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginAppleSignInRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginAppleSignInRequest): BeginAppleSignInRequest.AsObject;
+  static serializeBinaryToWriter(message: BeginAppleSignInRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginAppleSignInRequest;
+  static deserializeBinaryFromReader(message: BeginAppleSignInRequest, reader: jspb.BinaryReader): BeginAppleSignInRequest;
+}
+
+export namespace BeginAppleSignInRequest {
+  export type AsObject = {
+    redirectUri: string,
+  }
+}
+
+export class BeginAppleSignInResponse extends jspb.Message {
+  getState(): string;
+  setState(value: string): BeginAppleSignInResponse;
+
+  getNonce(): string;
+  setNonce(value: string): BeginAppleSignInResponse;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginAppleSignInResponse.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginAppleSignInResponse): BeginAppleSignInResponse.AsObject;
+  static serializeBinaryToWriter(message: BeginAppleSignInResponse, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginAppleSignInResponse;
+  static deserializeBinaryFromReader(message: BeginAppleSignInResponse, reader: jspb.BinaryReader): BeginAppleSignInResponse;
+}
+
+export namespace BeginAppleSignInResponse {
+  export type AsObject = {
+    state: string,
+    nonce: string,
+  }
+}
+
+export class CompleteFederatedSignInRequest extends jspb.Message {
+  getCode(): string;
+  setCode(value: string): CompleteFederatedSignInRequest;
+
+  getState(): string;
+  setState(value: string): CompleteFederatedSignInRequest;
+
+  getName(): string;
+  setName(value: string): CompleteFederatedSignInRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): CompleteFederatedSignInRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: CompleteFederatedSignInRequest): CompleteFederatedSignInRequest.AsObject;
+  static serializeBinaryToWriter(message: CompleteFederatedSignInRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): CompleteFederatedSignInRequest;
+  static deserializeBinaryFromReader(message: CompleteFederatedSignInRequest, reader: jspb.BinaryReader): CompleteFederatedSignInRequest;
+}
+
+export namespace CompleteFederatedSignInRequest {
+  export type AsObject = {
+    code: string,
+    state: string,
+    name: string,
+  }
+}
+
+export class CompleteFederatedSignInResponse extends jspb.Message {
+  getProvider(): IdentityProvider;
+  setProvider(value: IdentityProvider): CompleteFederatedSignInResponse;
+
+  getIsNewUser(): boolean;
+  setIsNewUser(value: boolean): CompleteFederatedSignInResponse;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): CompleteFederatedSignInResponse.AsObject;
+  static toObject(includeInstance: boolean, msg: CompleteFederatedSignInResponse): CompleteFederatedSignInResponse.AsObject;
+  static serializeBinaryToWriter(message: CompleteFederatedSignInResponse, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): CompleteFederatedSignInResponse;
+  static deserializeBinaryFromReader(message: CompleteFederatedSignInResponse, reader: jspb.BinaryReader): CompleteFederatedSignInResponse;
+}
+
+export namespace CompleteFederatedSignInResponse {
+  export type AsObject = {
+    provider: IdentityProvider,
+    isNewUser: boolean,
+  }
+}
+
+export enum IdentityProvider { 
+  IDENTITY_PROVIDER_UNSPECIFIED = 0,
+  GOOGLE = 1,
+  APPLE = 2,
+}
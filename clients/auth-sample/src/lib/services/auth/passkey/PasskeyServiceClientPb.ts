@@ -0,0 +1,346 @@
+/**
+ * @fileoverview gRPC-Web generated client stub for auth
+ * @enhanceable
+ * @public
+ */
+
+// Code generated by protoc-gen-grpc-web. DO NOT EDIT.
+// versions:
+// 	protoc-gen-grpc-web v1.5.0
+// 	protoc              v6.31.0
+// source: passkey.proto
+
+
+/* eslint-disable */
+// @ts-nocheck
+
+
+import * as grpcWeb from 'grpc-web';
+
+import * as passkey_pb from './passkey_pb'; // proto import: "passkey.proto"
+import * as google_protobuf_empty_pb from 'google-protobuf/google/protobuf/empty_pb'; // proto import: "google/protobuf/empty.proto"
+import * as google_protobuf_timestamp_pb from 'google-protobuf/google/protobuf/timestamp_pb'; // proto import: "google/protobuf/timestamp.proto"
+
+
+export class PasskeyServiceClient {
+  client_: grpcWeb.AbstractClientBase;
+  hostname_: string;
+  credentials_: null | { [index: string]: string; };
+  options_: null | { [index: string]: any; };
+
+  constructor (hostname: string,
+               credentials?: null | { [index: string]: string; },
+               options?: null | { [index: string]: any; }) {
+    if (!options) options = {};
+    if (!credentials) credentials = {};
+    options['format'] = 'text';
+
+    this.client_ = new grpcWeb.GrpcWebClientBase(options);
+    this.hostname_ = hostname.replace(/\/+$/, '');
+    this.credentials_ = credentials;
+    this.options_ = options;
+  }
+
+  methodDescriptorBeginPasskeySignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasskeyService/BeginPasskeySignInAsync',
+    grpcWeb.MethodType.UNARY,
+    passkey_pb.BeginPasskeySignInRequest,
+    passkey_pb.BeginPasskeySignInResponse,
+    (request: passkey_pb.BeginPasskeySignInRequest) => {
+      return request.serializeBinary();
+    },
+    passkey_pb.BeginPasskeySignInResponse.deserializeBinary
+  );
+
+  beginPasskeySignInAsync(
+    request: passkey_pb.BeginPasskeySignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<passkey_pb.BeginPasskeySignInResponse>;
+
+  beginPasskeySignInAsync(
+    request: passkey_pb.BeginPasskeySignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: passkey_pb.BeginPasskeySignInResponse) => void): grpcWeb.ClientReadableStream<passkey_pb.BeginPasskeySignInResponse>;
+
+  beginPasskeySignInAsync(
+    request: passkey_pb.BeginPasskeySignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: passkey_pb.BeginPasskeySignInResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasskeyService/BeginPasskeySignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorBeginPasskeySignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasskeyService/BeginPasskeySignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorBeginPasskeySignInAsync);
+  }
+
+  methodDescriptorCompletePasskeySignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasskeyService/CompletePasskeySignInAsync',
+    grpcWeb.MethodType.UNARY,
+    passkey_pb.CompletePasskeySignInRequest,
+    google_protobuf_empty_pb.Empty,
+    (request: passkey_pb.CompletePasskeySignInRequest) => {
+      return request.serializeBinary();
+    },
+    google_protobuf_empty_pb.Empty.deserializeBinary
+  );
+
+  completePasskeySignInAsync(
+    request: passkey_pb.CompletePasskeySignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<google_protobuf_empty_pb.Empty>;
+
+  completePasskeySignInAsync(
+    request: passkey_pb.CompletePasskeySignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void): grpcWeb.ClientReadableStream<google_protobuf_empty_pb.Empty>;
+
+  completePasskeySignInAsync(
+    request: passkey_pb.CompletePasskeySignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasskeyService/CompletePasskeySignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorCompletePasskeySignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasskeyService/CompletePasskeySignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorCompletePasskeySignInAsync);
+  }
+
+  methodDescriptorBeginPasskeyRegistrationAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasskeyService/BeginPasskeyRegistrationAsync',
+    grpcWeb.MethodType.UNARY,
+    google_protobuf_empty_pb.Empty,
+    passkey_pb.BeginPasskeyRegistrationResponse,
+    (request: google_protobuf_empty_pb.Empty) => {
+      return request.serializeBinary();
+    },
+    passkey_pb.BeginPasskeyRegistrationResponse.deserializeBinary
+  );
+
+  beginPasskeyRegistrationAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata?: grpcWeb.Metadata | null): Promise<passkey_pb.BeginPasskeyRegistrationResponse>;
+
+  beginPasskeyRegistrationAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: passkey_pb.BeginPasskeyRegistrationResponse) => void): grpcWeb.ClientReadableStream<passkey_pb.BeginPasskeyRegistrationResponse>;
+
+  beginPasskeyRegistrationAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: passkey_pb.BeginPasskeyRegistrationResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasskeyService/BeginPasskeyRegistrationAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorBeginPasskeyRegistrationAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasskeyService/BeginPasskeyRegistrationAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorBeginPasskeyRegistrationAsync);
+  }
+
+  methodDescriptorCompletePasskeyRegistrationAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasskeyService/CompletePasskeyRegistrationAsync',
+    grpcWeb.MethodType.UNARY,
+    passkey_pb.CompletePasskeyRegistrationRequest,
+    passkey_pb.Passkey,
+    (request: passkey_pb.CompletePasskeyRegistrationRequest) => {
+      return request.serializeBinary();
+    },
+    passkey_pb.Passkey.deserializeBinary
+  );
+
+  completePasskeyRegistrationAsync(
+    request: passkey_pb.CompletePasskeyRegistrationRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<passkey_pb.Passkey>;
+
+  completePasskeyRegistrationAsync(
+    request: passkey_pb.CompletePasskeyRegistrationRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: passkey_pb.Passkey) => void): grpcWeb.ClientReadableStream<passkey_pb.Passkey>;
+
+  completePasskeyRegistrationAsync(
+    request: passkey_pb.CompletePasskeyRegistrationRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: passkey_pb.Passkey) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasskeyService/CompletePasskeyRegistrationAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorCompletePasskeyRegistrationAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasskeyService/CompletePasskeyRegistrationAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorCompletePasskeyRegistrationAsync);
+  }
+
+  methodDescriptorListPasskeysAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasskeyService/ListPasskeysAsync',
+    grpcWeb.MethodType.UNARY,
+    google_protobuf_empty_pb.Empty,
+    passkey_pb.ListPasskeysResponse,
+    (request: google_protobuf_empty_pb.Empty) => {
+      return request.serializeBinary();
+    },
+    passkey_pb.ListPasskeysResponse.deserializeBinary
+  );
+
+  listPasskeysAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata?: grpcWeb.Metadata | null): Promise<passkey_pb.ListPasskeysResponse>;
+
+  listPasskeysAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: passkey_pb.ListPasskeysResponse) => void): grpcWeb.ClientReadableStream<passkey_pb.ListPasskeysResponse>;
+
+  listPasskeysAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: passkey_pb.ListPasskeysResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasskeyService/ListPasskeysAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorListPasskeysAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasskeyService/ListPasskeysAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorListPasskeysAsync);
+  }
+
+  methodDescriptorRenamePasskeyAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasskeyService/RenamePasskeyAsync',
+    grpcWeb.MethodType.UNARY,
+    passkey_pb.RenamePasskeyRequest,
+    passkey_pb.Passkey,
+    (request: passkey_pb.RenamePasskeyRequest) => {
+      return request.serializeBinary();
+    },
+    passkey_pb.Passkey.deserializeBinary
+  );
+
+  renamePasskeyAsync(
+    request: passkey_pb.RenamePasskeyRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<passkey_pb.Passkey>;
+
+  renamePasskeyAsync(
+    request: passkey_pb.RenamePasskeyRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: passkey_pb.Passkey) => void): grpcWeb.ClientReadableStream<passkey_pb.Passkey>;
+
+  renamePasskeyAsync(
+    request: passkey_pb.RenamePasskeyRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: passkey_pb.Passkey) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasskeyService/RenamePasskeyAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorRenamePasskeyAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasskeyService/RenamePasskeyAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorRenamePasskeyAsync);
+  }
+
+  methodDescriptorDeletePasskeyAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasskeyService/DeletePasskeyAsync',
+    grpcWeb.MethodType.UNARY,
+    passkey_pb.DeletePasskeyRequest,
+    google_protobuf_empty_pb.Empty,
+    (request: passkey_pb.DeletePasskeyRequest) => {
+      return request.serializeBinary();
+    },
+    google_protobuf_empty_pb.Empty.deserializeBinary
+  );
+
+  deletePasskeyAsync(
+    request: passkey_pb.DeletePasskeyRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<google_protobuf_empty_pb.Empty>;
+
+  deletePasskeyAsync(
+    request: passkey_pb.DeletePasskeyRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void): grpcWeb.ClientReadableStream<google_protobuf_empty_pb.Empty>;
+
+  deletePasskeyAsync(
+    request: passkey_pb.DeletePasskeyRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasskeyService/DeletePasskeyAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorDeletePasskeyAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasskeyService/DeletePasskeyAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorDeletePasskeyAsync);
+  }
+
+}
+
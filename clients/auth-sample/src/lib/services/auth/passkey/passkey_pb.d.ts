@@ -0,0 +1,211 @@
+import * as jspb from 'google-protobuf'
+
+import * as google_protobuf_empty_pb from 'google-protobuf/google/protobuf/empty_pb'; // proto import: "google/protobuf/empty.proto"
+import * as google_protobuf_timestamp_pb from 'google-protobuf/google/protobuf/timestamp_pb'; // proto import: "google/protobuf/timestamp.proto"
+
+
+export class BeginPasskeySignInRequest extends jspb.Message {
+  getEmailAddress(): string;
+  setEmailAddress(value: string): BeginPasskeySignInRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginPasskeySignInRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginPasskeySignInRequest): BeginPasskeySignInRequest.AsObject;
+  static serializeBinaryToWriter(message: BeginPasskeySignInRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginPasskeySignInRequest;
+  static deserializeBinaryFromReader(message: BeginPasskeySignInRequest, reader: jspb.BinaryReader): BeginPasskeySignInRequest;
+}
+
+export namespace BeginPasskeySignInRequest {
+  export type AsObject = {
+    emailAddress: string,
+  }
+}
+
+export class BeginPasskeySignInResponse extends jspb.Message {
+  getSession(): string;
+  setSession(value: string): BeginPasskeySignInResponse;
+
+  getCredentialRequestOptions(): string;
+  setCredentialRequestOptions(value: string): BeginPasskeySignInResponse;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginPasskeySignInResponse.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginPasskeySignInResponse): BeginPasskeySignInResponse.AsObject;
+  static serializeBinaryToWriter(message: BeginPasskeySignInResponse, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginPasskeySignInResponse;
+  static deserializeBinaryFromReader(message: BeginPasskeySignInResponse, reader: jspb.BinaryReader): BeginPasskeySignInResponse;
+}
+
+export namespace BeginPasskeySignInResponse {
+  export type AsObject = {
+    session: string,
+    credentialRequestOptions: string,
+  }
+}
+
+export class CompletePasskeySignInRequest extends jspb.Message {
+  getEmailAddress(): string;
+  setEmailAddress(value: string): CompletePasskeySignInRequest;
+
+  getSession(): string;
+  setSession(value: string): CompletePasskeySignInRequest;
+
+  getCredential(): string;
+  setCredential(value: string): CompletePasskeySignInRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): CompletePasskeySignInRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: CompletePasskeySignInRequest): CompletePasskeySignInRequest.AsObject;
+  static serializeBinaryToWriter(message: CompletePasskeySignInRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): CompletePasskeySignInRequest;
+  static deserializeBinaryFromReader(message: CompletePasskeySignInRequest, reader: jspb.BinaryReader): CompletePasskeySignInRequest;
+}
+
+export namespace CompletePasskeySignInRequest {
+  export type AsObject = {
+    emailAddress: string,
+    session: string,
+    credential: string,
+  }
+}
+
+export class Passkey extends jspb.Message {
+  getCredentialId(): string;
+  setCredentialId(value: string): Passkey;
+
+  getName(): string;
+  setName(value: string): Passkey;
+
+  getCreatedAt(): google_protobuf_timestamp_pb.Timestamp | undefined;
+  setCreatedAt(value?: google_protobuf_timestamp_pb.Timestamp): Passkey;
+  hasCreatedAt(): boolean;
+  clearCreatedAt(): Passkey;
+
+  getAuthenticatorAttachment(): string;
+  setAuthenticatorAttachment(value: string): Passkey;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): Passkey.AsObject;
+  static toObject(includeInstance: boolean, msg: Passkey): Passkey.AsObject;
+  static serializeBinaryToWriter(message: Passkey, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): Passkey;
+  static deserializeBinaryFromReader(message: Passkey, reader: jspb.BinaryReader): Passkey;
+}
+
+export namespace Passkey {
+  export type AsObject = {
+    credentialId: string,
+    name: string,
+    createdAt?: google_protobuf_timestamp_pb.Timestamp.AsObject,
+    authenticatorAttachment: string,
+  }
+}
+
+export class BeginPasskeyRegistrationResponse extends jspb.Message {
+  getCredentialCreationOptions(): string;
+  setCredentialCreationOptions(value: string): BeginPasskeyRegistrationResponse;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginPasskeyRegistrationResponse.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginPasskeyRegistrationResponse): BeginPasskeyRegistrationResponse.AsObject;
+  static serializeBinaryToWriter(message: BeginPasskeyRegistrationResponse, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginPasskeyRegistrationResponse;
+  static deserializeBinaryFromReader(message: BeginPasskeyRegistrationResponse, reader: jspb.BinaryReader): BeginPasskeyRegistrationResponse;
+}
+
+export namespace BeginPasskeyRegistrationResponse {
+  export type AsObject = {
+    credentialCreationOptions: string,
+  }
+}
+
+export class CompletePasskeyRegistrationRequest extends jspb.Message {
+  getCredential(): string;
+  setCredential(value: string): CompletePasskeyRegistrationRequest;
+
+  getName(): string;
+  setName(value: string): CompletePasskeyRegistrationRequest;
+  hasName(): boolean;
+  clearName(): CompletePasskeyRegistrationRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): CompletePasskeyRegistrationRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: CompletePasskeyRegistrationRequest): CompletePasskeyRegistrationRequest.AsObject;
+  static serializeBinaryToWriter(message: CompletePasskeyRegistrationRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): CompletePasskeyRegistrationRequest;
+  static deserializeBinaryFromReader(message: CompletePasskeyRegistrationRequest, reader: jspb.BinaryReader): CompletePasskeyRegistrationRequest;
+}
+
+export namespace CompletePasskeyRegistrationRequest {
+  export type AsObject = {
+    credential: string,
+    name?: string,
+  }
+
+  export enum NameCase { 
+    _NAME_NOT_SET = 0,
+    NAME = 2,
+  }
+}
+
+export class ListPasskeysResponse extends jspb.Message {
+  getPasskeysList(): Array<Passkey>;
+  setPasskeysList(value: Array<Passkey>): ListPasskeysResponse;
+  clearPasskeysList(): ListPasskeysResponse;
+  addPasskeys(value?: Passkey, index?: number): Passkey;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): ListPasskeysResponse.AsObject;
+  static toObject(includeInstance: boolean, msg: ListPasskeysResponse): ListPasskeysResponse.AsObject;
+  static serializeBinaryToWriter(message: ListPasskeysResponse, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): ListPasskeysResponse;
+  static deserializeBinaryFromReader(message: ListPasskeysResponse, reader: jspb.BinaryReader): ListPasskeysResponse;
+}
+
+export namespace ListPasskeysResponse {
+  export type AsObject = {
+    passkeysList: Array<Passkey.AsObject>,
+  }
+}
+
+export class RenamePasskeyRequest extends jspb.Message {
+  getCredentialId(): string;
+  setCredentialId(value: string): RenamePasskeyRequest;
+
+  getName(): string;
+  setName(value: string): RenamePasskeyRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): RenamePasskeyRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: RenamePasskeyRequest): RenamePasskeyRequest.AsObject;
+  static serializeBinaryToWriter(message: RenamePasskeyRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): RenamePasskeyRequest;
+  static deserializeBinaryFromReader(message: RenamePasskeyRequest, reader: jspb.BinaryReader): RenamePasskeyRequest;
+}
+
+export namespace RenamePasskeyRequest {
+  export type AsObject = {
+    credentialId: string,
+    name: string,
+  }
+}
+
+export class DeletePasskeyRequest extends jspb.Message {
+  getCredentialId(): string;
+  setCredentialId(value: string): DeletePasskeyRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): DeletePasskeyRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: DeletePasskeyRequest): DeletePasskeyRequest.AsObject;
+  static serializeBinaryToWriter(message: DeletePasskeyRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): DeletePasskeyRequest;
+  static deserializeBinaryFromReader(message: DeletePasskeyRequest, reader: jspb.BinaryReader): DeletePasskeyRequest;
+}
+
+export namespace DeletePasskeyRequest {
+  export type AsObject = {
+    credentialId: string,
+  }
+}
+
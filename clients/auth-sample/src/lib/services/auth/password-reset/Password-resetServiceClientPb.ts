@@ -0,0 +1,130 @@
+/**
+ * @fileoverview gRPC-Web generated client stub for auth
+ * @enhanceable
+ * @public
+ */
+
+// Code generated by protoc-gen-grpc-web. DO NOT EDIT.
+// versions:
+// 	protoc-gen-grpc-web v1.5.0
+// 	protoc              v6.31.0
+// source: password-reset.proto
+
+
+/* eslint-disable */
+// @ts-nocheck
+
+
+import * as grpcWeb from 'grpc-web';
+
+import * as password$reset_pb from './password-reset_pb'; // proto import: "password-reset.proto"
+import * as google_protobuf_empty_pb from 'google-protobuf/google/protobuf/empty_pb'; // proto import: "google/protobuf/empty.proto"
+
+
+export class PasswordResetServiceClient {
+  client_: grpcWeb.AbstractClientBase;
+  hostname_: string;
+  credentials_: null | { [index: string]: string; };
+  options_: null | { [index: string]: any; };
+
+  constructor (hostname: string,
+               credentials?: null | { [index: string]: string; },
+               options?: null | { [index: string]: any; }) {
+    if (!options) options = {};
+    if (!credentials) credentials = {};
+    options['format'] = 'text';
+
+    this.client_ = new grpcWeb.GrpcWebClientBase(options);
+    this.hostname_ = hostname.replace(/\/+$/, '');
+    this.credentials_ = credentials;
+    this.options_ = options;
+  }
+
+  methodDescriptorBeginPasswordResetAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasswordResetService/BeginPasswordResetAsync',
+    grpcWeb.MethodType.UNARY,
+    password$reset_pb.BeginPasswordResetRequest,
+    google_protobuf_empty_pb.Empty,
+    (request: password$reset_pb.BeginPasswordResetRequest) => {
+      return request.serializeBinary();
+    },
+    google_protobuf_empty_pb.Empty.deserializeBinary
+  );
+
+  beginPasswordResetAsync(
+    request: password$reset_pb.BeginPasswordResetRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<google_protobuf_empty_pb.Empty>;
+
+  beginPasswordResetAsync(
+    request: password$reset_pb.BeginPasswordResetRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void): grpcWeb.ClientReadableStream<google_protobuf_empty_pb.Empty>;
+
+  beginPasswordResetAsync(
+    request: password$reset_pb.BeginPasswordResetRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasswordResetService/BeginPasswordResetAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorBeginPasswordResetAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasswordResetService/BeginPasswordResetAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorBeginPasswordResetAsync);
+  }
+
+  methodDescriptorCompletePasswordResetAsync = new grpcWeb.MethodDescriptor(
+    '/auth.PasswordResetService/CompletePasswordResetAsync',
+    grpcWeb.MethodType.UNARY,
+    password$reset_pb.CompletePasswordResetRequest,
+    google_protobuf_empty_pb.Empty,
+    (request: password$reset_pb.CompletePasswordResetRequest) => {
+      return request.serializeBinary();
+    },
+    google_protobuf_empty_pb.Empty.deserializeBinary
+  );
+
+  completePasswordResetAsync(
+    request: password$reset_pb.CompletePasswordResetRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<google_protobuf_empty_pb.Empty>;
+
+  completePasswordResetAsync(
+    request: password$reset_pb.CompletePasswordResetRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void): grpcWeb.ClientReadableStream<google_protobuf_empty_pb.Empty>;
+
+  completePasswordResetAsync(
+    request: password$reset_pb.CompletePasswordResetRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.PasswordResetService/CompletePasswordResetAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorCompletePasswordResetAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.PasswordResetService/CompletePasswordResetAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorCompletePasswordResetAsync);
+  }
+
+}
+
@@ -0,0 +1,49 @@
+import * as jspb from 'google-protobuf'
+
+import * as google_protobuf_empty_pb from 'google-protobuf/google/protobuf/empty_pb'; // proto import: "google/protobuf/empty.proto"
+
+
+export class BeginPasswordResetRequest extends jspb.Message {
+  getEmailAddress(): string;
+  setEmailAddress(value: string): BeginPasswordResetRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginPasswordResetRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginPasswordResetRequest): BeginPasswordResetRequest.AsObject;
+  static serializeBinaryToWriter(message: BeginPasswordResetRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginPasswordResetRequest;
+  static deserializeBinaryFromReader(message: BeginPasswordResetRequest, reader: jspb.BinaryReader): BeginPasswordResetRequest;
+}
+
+export namespace BeginPasswordResetRequest {
+  export type AsObject = {
+    emailAddress: string,
+  }
+}
+
+export class CompletePasswordResetRequest extends jspb.Message {
+  getEmailAddress(): string;
+  setEmailAddress(value: string): CompletePasswordResetRequest;
+
+  getVerificationCode(): string;
+  setVerificationCode(value: string): CompletePasswordResetRequest;
+
+  getNewPassword(): string;
+  setNewPassword(value: string): CompletePasswordResetRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): CompletePasswordResetRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: CompletePasswordResetRequest): CompletePasswordResetRequest.AsObject;
+  static serializeBinaryToWriter(message: CompletePasswordResetRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): CompletePasswordResetRequest;
+  static deserializeBinaryFromReader(message: CompletePasswordResetRequest, reader: jspb.BinaryReader): CompletePasswordResetRequest;
+}
+
+export namespace CompletePasswordResetRequest {
+  export type AsObject = {
+    emailAddress: string,
+    verificationCode: string,
+    newPassword: string,
+  }
+}
+
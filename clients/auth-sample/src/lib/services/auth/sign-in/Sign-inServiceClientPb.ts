@@ -0,0 +1,216 @@
+/**
+ * @fileoverview gRPC-Web generated client stub for auth
+ * @enhanceable
+ * @public
+ */
+
+// Code generated by protoc-gen-grpc-web. DO NOT EDIT.
+// versions:
+// 	protoc-gen-grpc-web v1.5.0
+// 	protoc              v6.31.0
+// source: sign-in.proto
+
+
+/* eslint-disable */
+// @ts-nocheck
+
+
+import * as grpcWeb from 'grpc-web';
+
+import * as sign$in_pb from './sign-in_pb'; // proto import: "sign-in.proto"
+import * as google_protobuf_empty_pb from 'google-protobuf/google/protobuf/empty_pb'; // proto import: "google/protobuf/empty.proto"
+
+
+export class SignInServiceClient {
+  client_: grpcWeb.AbstractClientBase;
+  hostname_: string;
+  credentials_: null | { [index: string]: string; };
+  options_: null | { [index: string]: any; };
+
+  constructor (hostname: string,
+               credentials?: null | { [index: string]: string; },
+               options?: null | { [index: string]: any; }) {
+    if (!options) options = {};
+    if (!credentials) credentials = {};
+    options['format'] = 'text';
+
+    this.client_ = new grpcWeb.GrpcWebClientBase(options);
+    this.hostname_ = hostname.replace(/\/+$/, '');
+    this.credentials_ = credentials;
+    this.options_ = options;
+  }
+
+  methodDescriptorSignInWithPasswordAsync = new grpcWeb.MethodDescriptor(
+    '/auth.SignInService/SignInWithPasswordAsync',
+    grpcWeb.MethodType.UNARY,
+    sign$in_pb.SignInWithPasswordRequest,
+    google_protobuf_empty_pb.Empty,
+    (request: sign$in_pb.SignInWithPasswordRequest) => {
+      return request.serializeBinary();
+    },
+    google_protobuf_empty_pb.Empty.deserializeBinary
+  );
+
+  signInWithPasswordAsync(
+    request: sign$in_pb.SignInWithPasswordRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<google_protobuf_empty_pb.Empty>;
+
+  signInWithPasswordAsync(
+    request: sign$in_pb.SignInWithPasswordRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void): grpcWeb.ClientReadableStream<google_protobuf_empty_pb.Empty>;
+
+  signInWithPasswordAsync(
+    request: sign$in_pb.SignInWithPasswordRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.SignInService/SignInWithPasswordAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorSignInWithPasswordAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.SignInService/SignInWithPasswordAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorSignInWithPasswordAsync);
+  }
+
+  methodDescriptorBeginEmailOtpSignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.SignInService/BeginEmailOtpSignInAsync',
+    grpcWeb.MethodType.UNARY,
+    sign$in_pb.BeginEmailOtpSignInRequest,
+    sign$in_pb.BeginEmailOtpSignInResponse,
+    (request: sign$in_pb.BeginEmailOtpSignInRequest) => {
+      return request.serializeBinary();
+    },
+    sign$in_pb.BeginEmailOtpSignInResponse.deserializeBinary
+  );
+
+  beginEmailOtpSignInAsync(
+    request: sign$in_pb.BeginEmailOtpSignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<sign$in_pb.BeginEmailOtpSignInResponse>;
+
+  beginEmailOtpSignInAsync(
+    request: sign$in_pb.BeginEmailOtpSignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: sign$in_pb.BeginEmailOtpSignInResponse) => void): grpcWeb.ClientReadableStream<sign$in_pb.BeginEmailOtpSignInResponse>;
+
+  beginEmailOtpSignInAsync(
+    request: sign$in_pb.BeginEmailOtpSignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: sign$in_pb.BeginEmailOtpSignInResponse) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.SignInService/BeginEmailOtpSignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorBeginEmailOtpSignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.SignInService/BeginEmailOtpSignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorBeginEmailOtpSignInAsync);
+  }
+
+  methodDescriptorCompleteEmailOtpSignInAsync = new grpcWeb.MethodDescriptor(
+    '/auth.SignInService/CompleteEmailOtpSignInAsync',
+    grpcWeb.MethodType.UNARY,
+    sign$in_pb.CompleteEmailOtpSignInRequest,
+    google_protobuf_empty_pb.Empty,
+    (request: sign$in_pb.CompleteEmailOtpSignInRequest) => {
+      return request.serializeBinary();
+    },
+    google_protobuf_empty_pb.Empty.deserializeBinary
+  );
+
+  completeEmailOtpSignInAsync(
+    request: sign$in_pb.CompleteEmailOtpSignInRequest,
+    metadata?: grpcWeb.Metadata | null): Promise<google_protobuf_empty_pb.Empty>;
+
+  completeEmailOtpSignInAsync(
+    request: sign$in_pb.CompleteEmailOtpSignInRequest,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void): grpcWeb.ClientReadableStream<google_protobuf_empty_pb.Empty>;
+
+  completeEmailOtpSignInAsync(
+    request: sign$in_pb.CompleteEmailOtpSignInRequest,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.SignInService/CompleteEmailOtpSignInAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorCompleteEmailOtpSignInAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.SignInService/CompleteEmailOtpSignInAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorCompleteEmailOtpSignInAsync);
+  }
+
+  methodDescriptorSignOutAsync = new grpcWeb.MethodDescriptor(
+    '/auth.SignInService/SignOutAsync',
+    grpcWeb.MethodType.UNARY,
+    google_protobuf_empty_pb.Empty,
+    google_protobuf_empty_pb.Empty,
+    (request: google_protobuf_empty_pb.Empty) => {
+      return request.serializeBinary();
+    },
+    google_protobuf_empty_pb.Empty.deserializeBinary
+  );
+
+  signOutAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata?: grpcWeb.Metadata | null): Promise<google_protobuf_empty_pb.Empty>;
+
+  signOutAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata: grpcWeb.Metadata | null,
+    callback: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void): grpcWeb.ClientReadableStream<google_protobuf_empty_pb.Empty>;
+
+  signOutAsync(
+    request: google_protobuf_empty_pb.Empty,
+    metadata?: grpcWeb.Metadata | null,
+    callback?: (err: grpcWeb.RpcError,
+               response: google_protobuf_empty_pb.Empty) => void) {
+    if (callback !== undefined) {
+      return this.client_.rpcCall(
+        this.hostname_ +
+          '/auth.SignInService/SignOutAsync',
+        request,
+        metadata || {},
+        this.methodDescriptorSignOutAsync,
+        callback);
+    }
+    return this.client_.unaryCall(
+    this.hostname_ +
+      '/auth.SignInService/SignOutAsync',
+    request,
+    metadata || {},
+    this.methodDescriptorSignOutAsync);
+  }
+
+}
+
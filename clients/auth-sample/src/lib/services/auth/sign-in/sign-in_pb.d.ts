@@ -0,0 +1,89 @@
+import * as jspb from 'google-protobuf'
+
+import * as google_protobuf_empty_pb from 'google-protobuf/google/protobuf/empty_pb'; // proto import: "google/protobuf/empty.proto"
+
+
+export class SignInWithPasswordRequest extends jspb.Message {
+  getEmailAddress(): string;
+  setEmailAddress(value: string): SignInWithPasswordRequest;
+
+  getPassword(): string;
+  setPassword(value: string): SignInWithPasswordRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): SignInWithPasswordRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: SignInWithPasswordRequest): SignInWithPasswordRequest.AsObject;
+  static serializeBinaryToWriter(message: SignInWithPasswordRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): SignInWithPasswordRequest;
+  static deserializeBinaryFromReader(message: SignInWithPasswordRequest, reader: jspb.BinaryReader): SignInWithPasswordRequest;
+}
+
+export namespace SignInWithPasswordRequest {
+  export type AsObject = {
+    emailAddress: string,
+    password: string,
+  }
+}
+
+export class BeginEmailOtpSignInRequest extends jspb.Message {
+  getEmailAddress(): string;
+  setEmailAddress(value: string): BeginEmailOtpSignInRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginEmailOtpSignInRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginEmailOtpSignInRequest): BeginEmailOtpSignInRequest.AsObject;
+  static serializeBinaryToWriter(message: BeginEmailOtpSignInRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginEmailOtpSignInRequest;
+  static deserializeBinaryFromReader(message: BeginEmailOtpSignInRequest, reader: jspb.BinaryReader): BeginEmailOtpSignInRequest;
+}
+
+export namespace BeginEmailOtpSignInRequest {
+  export type AsObject = {
+    emailAddress: string,
+  }
+}
+
+export class BeginEmailOtpSignInResponse extends jspb.Message {
+  getSession(): string;
+  setSession(value: string): BeginEmailOtpSignInResponse;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): BeginEmailOtpSignInResponse.AsObject;
+  static toObject(includeInstance: boolean, msg: BeginEmailOtpSignInResponse): BeginEmailOtpSignInResponse.AsObject;
+  static serializeBinaryToWriter(message: BeginEmailOtpSignInResponse, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): BeginEmailOtpSignInResponse;
+  static deserializeBinaryFromReader(message: BeginEmailOtpSignInResponse, reader: jspb.BinaryReader): BeginEmailOtpSignInResponse;
+}
+
+export namespace BeginEmailOtpSignInResponse {
+  export type AsObject = {
+    session: string,
+  }
+}
+
+export class CompleteEmailOtpSignInRequest extends jspb.Message {
+  getEmailAddress(): string;
+  setEmailAddress(value: string): CompleteEmailOtpSignInRequest;
+
+  getSession(): string;
+  setSession(value: string): CompleteEmailOtpSignInRequest;
+
+  getVerificationCode(): string;
+  setVerificationCode(value: string): CompleteEmailOtpSignInRequest;
+
+  serializeBinary(): Uint8Array;
+  toObject(includeInstance?: boolean): CompleteEmailOtpSignInRequest.AsObject;
+  static toObject(includeInstance: boolean, msg: CompleteEmailOtpSignInRequest): CompleteEmailOtpSignInRequest.AsObject;
+  static serializeBinaryToWriter(message: CompleteEmailOtpSignInRequest, writer: jspb.BinaryWriter): void;
+  static deserializeBinary(bytes: Uint8Array): CompleteEmailOtpSignInRequest;
+  static deserializeBinaryFromReader(message: CompleteEmailOtpSignInRequest, reader: jspb.BinaryReader): CompleteEmailOtpSignInRequest;
+}
+
+export namespace CompleteEmailOtpSignInRequest {
+  export type AsObject = {
+    emailAddress: string,
+    session: string,
+    verificationCode: string,
+  }
+}
+
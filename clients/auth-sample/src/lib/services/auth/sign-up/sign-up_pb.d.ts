@@ -64,6 +64,11 @@ export class VerifyAndSignInRequest extends jspb.Message {
   getVerificationCode(): string;
   setVerificationCode(value: string): VerifyAndSignInRequest;
 
+  getPreferredName(): string;
+  setPreferredName(value: string): VerifyAndSignInRequest;
+  hasPreferredName(): boolean;
+  clearPreferredName(): VerifyAndSignInRequest;
+
   serializeBinary(): Uint8Array;
   toObject(includeInstance?: boolean): VerifyAndSignInRequest.AsObject;
   static toObject(includeInstance: boolean, msg: VerifyAndSignInRequest): VerifyAndSignInRequest.AsObject;
@@ -77,6 +82,12 @@ export namespace VerifyAndSignInRequest {
     emailAddress: string,
     name: string,
     verificationCode: string,
+    preferredName?: string,
+  }
+
+  export enum PreferredNameCase { 
+    _PREFERRED_NAME_NOT_SET = 0,
+    PREFERRED_NAME = 4,
   }
 }
 
@@ -506,7 +506,8 @@ proto.auth.VerifyAndSignInRequest.toObject = function(includeInstance, msg) {
   var f, obj = {
 emailAddress: jspb.Message.getFieldWithDefault(msg, 1, ""),
 name: jspb.Message.getFieldWithDefault(msg, 3, ""),
-verificationCode: jspb.Message.getFieldWithDefault(msg, 2, "")
+verificationCode: jspb.Message.getFieldWithDefault(msg, 2, ""),
+preferredName: (f = jspb.Message.getField(msg, 4)) == null ? undefined : f
   };
 
   if (includeInstance) {
@@ -555,6 +556,10 @@ proto.auth.VerifyAndSignInRequest.deserializeBinaryFromReader = function(msg, re
       var value = /** @type {string} */ (reader.readString());
       msg.setVerificationCode(value);
       break;
+    case 4:
+      var value = /** @type {string} */ (reader.readString());
+      msg.setPreferredName(value);
+      break;
     default:
       reader.skipField();
       break;
@@ -605,6 +610,13 @@ proto.auth.VerifyAndSignInRequest.serializeBinaryToWriter = function(message, wr
       f
     );
   }
+  f = /** @type {string} */ (jspb.Message.getField(message, 4));
+  if (f != null) {
+    writer.writeString(
+      4,
+      f
+    );
+  }
 };
 
 
@@ -662,6 +674,42 @@ proto.auth.VerifyAndSignInRequest.prototype.setVerificationCode = function(value
 };
 
 
+/**
+ * optional string preferred_name = 4;
+ * @return {string}
+ */
+proto.auth.VerifyAndSignInRequest.prototype.getPreferredName = function() {
+  return /** @type {string} */ (jspb.Message.getFieldWithDefault(this, 4, ""));
+};
+
+
+/**
+ * @param {string} value
+ * @return {!proto.auth.VerifyAndSignInRequest} returns this
+ */
+proto.auth.VerifyAndSignInRequest.prototype.setPreferredName = function(value) {
+  return jspb.Message.setField(this, 4, value);
+};
+
+
+/**
+ * Clears the field making it undefined.
+ * @return {!proto.auth.VerifyAndSignInRequest} returns this
+ */
+proto.auth.VerifyAndSignInRequest.prototype.clearPreferredName = function() {
+  return jspb.Message.setField(this, 4, undefined);
+};
+
+
+/**
+ * Returns whether this field is set.
+ * @return {boolean}
+ */
+proto.auth.VerifyAndSignInRequest.prototype.hasPreferredName = function() {
+  return jspb.Message.getField(this, 4) != null;
+};
+
+
 
 
 
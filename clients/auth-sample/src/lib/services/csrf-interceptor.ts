@@ -0,0 +1,45 @@
+import type * as grpcWeb from 'grpc-web';
+import { CSRF_COOKIE, CSRF_HEADER, requiresCsrfToken } from '@/lib/csrf';
+
+/**
+ * CsrfUnaryInterceptor copies the CSRF cookie set by middleware into the
+ * `x-csrf-token` metadata of state-changing calls.
+ *
+ * The client is created with `withCredentials: true`, so the browser attaches
+ * session cookies to every call; the header is what proves the call came from
+ * a page on this site. Calls go out unchanged when there is no cookie yet and
+ * the service decides whether that is acceptable.
+ */
+class CsrfUnaryInterceptor<TReq, TRes> implements grpcWeb.UnaryInterceptor<TReq, TRes> {
+    intercept(
+        request: grpcWeb.Request<TReq, TRes>,
+        invoker: (
+            request: grpcWeb.Request<TReq, TRes>
+        ) => Promise<grpcWeb.UnaryResponse<TReq, TRes>>
+    ): Promise<grpcWeb.UnaryResponse<TReq, TRes>> {
+        // The invoker only takes the request and sends whatever its metadata
+        // object holds when the chain ends, so the token is added in place.
+        const token = readCookie(CSRF_COOKIE);
+        if (token && requiresCsrfToken(request.getMethodDescriptor().getName())) {
+            request.getMetadata()[CSRF_HEADER] = token;
+        }
+
+        return invoker(request);
+    }
+}
+
+function readCookie(name: string): string | null {
+    if (typeof document === 'undefined') return null;
+
+    for (const entry of document.cookie.split(';')) {
+        const separator = entry.indexOf('=');
+        if (separator > 0 && entry.slice(0, separator).trim() === name) {
+            return decodeURIComponent(entry.slice(separator + 1).trim());
+        }
+    }
+    return null;
+}
+
+export function createCsrfUnaryInterceptor(): grpcWeb.UnaryInterceptor<unknown, unknown> {
+    return new CsrfUnaryInterceptor();
+}
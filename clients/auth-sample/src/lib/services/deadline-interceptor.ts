@@ -0,0 +1,58 @@
+import type * as grpcWeb from 'grpc-web';
+
+/** Deadline for any method without its own entry below. */
+export const DEFAULT_CALL_DEADLINE_MS = 10_000;
+
+/**
+ * Per-method deadlines, keyed by full gRPC method path. Calls that send an
+ * email wait on the mail provider before replying, so they get longer.
+ */
+export const CALL_DEADLINES_MS: Readonly<Record<string, number>> = {
+    '/auth.SignUpService/InitiateSignUpAsync': 15_000,
+    '/auth.SignUpService/ResendVerificationCodeAsync': 15_000,
+    '/auth.SignInService/BeginEmailOtpSignInAsync': 15_000,
+    '/auth.PasswordResetService/BeginPasswordResetAsync': 15_000,
+};
+
+/**
+ * DeadlineUnaryInterceptor gives every call a deadline.
+ *
+ * grpc-web turns a `deadline` metadata entry (epoch milliseconds) into the
+ * `grpc-timeout` header, so the server stops working on the call once nobody is
+ * waiting for it, and times out the request in the browser as well. The deadline
+ * is computed afresh on each pass, so a retried call gets a full budget per attempt.
+ */
+class DeadlineUnaryInterceptor<TReq, TRes> implements grpcWeb.UnaryInterceptor<TReq, TRes> {
+    constructor(
+        private readonly deadlines: Readonly<Record<string, number>>,
+        private readonly defaultMs: number,
+        private readonly now: () => number
+    ) {}
+
+    intercept(
+        request: grpcWeb.Request<TReq, TRes>,
+        invoker: (
+            request: grpcWeb.Request<TReq, TRes>
+        ) => Promise<grpcWeb.UnaryResponse<TReq, TRes>>
+    ): Promise<grpcWeb.UnaryResponse<TReq, TRes>> {
+        const method = request.getMethodDescriptor().getName();
+        const timeoutMs = this.deadlines[method] ?? this.defaultMs;
+
+        // Request metadata is what grpc-web sends; it has to be changed in place
+        request.getMetadata()['deadline'] = String(this.now() + timeoutMs);
+
+        return invoker(request);
+    }
+}
+
+export function createDeadlineUnaryInterceptor({
+    deadlines = CALL_DEADLINES_MS,
+    defaultMs = DEFAULT_CALL_DEADLINE_MS,
+    now = () => Date.now(),
+}: {
+    deadlines?: Readonly<Record<string, number>>;
+    defaultMs?: number;
+    now?: () => number;
+} = {}): grpcWeb.UnaryInterceptor<unknown, unknown> {
+    return new DeadlineUnaryInterceptor(deadlines, defaultMs, now);
+}
@@ -12,6 +12,14 @@ export const ErrorCodes = {
     VerificationAttemptsExceeded: "2004",
     VerificationCodeDeliveryFailed: "2005",
     MaximumUsersReached: "2006",
+    PasskeyNotRegistered: "2007",
+    PasskeyVerificationFailed: "2008",
+    PasskeyNotFound: "2009",
+    PasskeyRegistrationFailed: "2010",
+    InvalidCredentials: "2011",
+    AccountNotConfirmed: "2012",
+    FederatedSignInFailed: "2013",
+    PasswordPolicyViolation: "2014",
     ResourceExhausted: "9998",
     Unexpected: "9999",
 } as const
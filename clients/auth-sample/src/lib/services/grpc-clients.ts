@@ -1,28 +1,94 @@
 import { createTraceUnaryInterceptor } from '@/lib/services/trace-interceptor';
+import { createCsrfUnaryInterceptor } from '@/lib/services/csrf-interceptor';
+import { createRateLimitUnaryInterceptor } from '@/lib/services/rate-limit-interceptor';
+import { createDeadlineUnaryInterceptor } from '@/lib/services/deadline-interceptor';
+import { createRetryUnaryInterceptor } from '@/lib/services/retry-interceptor';
 import { GreeterClient } from '@/lib/services/auth/greet/GreetServiceClientPb';
 import { SignUpServiceClient } from '@/lib/services/auth/sign-up/Sign-upServiceClientPb';
+import { SignInServiceClient } from '@/lib/services/auth/sign-in/Sign-inServiceClientPb';
+import { PasskeyServiceClient } from '@/lib/services/auth/passkey/PasskeyServiceClientPb';
+import { FederationServiceClient } from '@/lib/services/auth/federation/FederationServiceClientPb';
+import { PasswordResetServiceClient } from '@/lib/services/auth/password-reset/Password-resetServiceClientPb';
 import { config } from '../config';
 
-export function createGreeterClient() {
+export type ClientOptions = {
+  /** Read at the start of each call; aborting the signal cancels the call, e.g. when its component unmounts. */
+  signal?: () => AbortSignal | undefined;
+};
+
+export function createGreeterClient(options: ClientOptions = {}) {
   assertConfig(config)
 
   return new GreeterClient(
     config.greeterServiceUrl!,
     null,
-    { unaryInterceptors: [createTraceUnaryInterceptor()], withCredentials: true }
+    { unaryInterceptors: unaryInterceptors(options), withCredentials: true }
   );
 }
 
-export function createSignUpServiceClient() {
+export function createSignUpServiceClient(options: ClientOptions = {}) {
   assertConfig(config)
 
   return new SignUpServiceClient(
       config.authServiceUrl!,
       null,
-      { unaryInterceptors: [createTraceUnaryInterceptor()], withCredentials: true }
+      { unaryInterceptors: unaryInterceptors(options), withCredentials: true }
+  );
+}
+
+export function createSignInServiceClient(options: ClientOptions = {}) {
+  assertConfig(config)
+
+  return new SignInServiceClient(
+      config.authServiceUrl!,
+      null,
+      { unaryInterceptors: unaryInterceptors(options), withCredentials: true }
   );
 }
 
+export function createPasskeyServiceClient(options: ClientOptions = {}) {
+  assertConfig(config)
+
+  return new PasskeyServiceClient(
+      config.authServiceUrl!,
+      null,
+      { unaryInterceptors: unaryInterceptors(options), withCredentials: true }
+  );
+}
+
+export function createFederationServiceClient(options: ClientOptions = {}) {
+  assertConfig(config)
+
+  return new FederationServiceClient(
+      config.authServiceUrl!,
+      null,
+      { unaryInterceptors: unaryInterceptors(options), withCredentials: true }
+  );
+}
+
+export function createPasswordResetServiceClient(options: ClientOptions = {}) {
+  assertConfig(config)
+
+  return new PasswordResetServiceClient(
+      config.authServiceUrl!,
+      null,
+      { unaryInterceptors: unaryInterceptors(options), withCredentials: true }
+  );
+}
+
+// grpc-web wraps each interceptor around the ones before it, so the last runs
+// first: rate limits see the call as a whole, and each retry attempt passes
+// through the deadline, CSRF and trace interceptors afresh.
+function unaryInterceptors({ signal }: ClientOptions) {
+  return [
+    createTraceUnaryInterceptor(),
+    createCsrfUnaryInterceptor(),
+    createDeadlineUnaryInterceptor(),
+    createRetryUnaryInterceptor({ signal }),
+    createRateLimitUnaryInterceptor(),
+  ];
+}
+
 type Config = typeof config;
 
 function assertConfig(config: Config) {
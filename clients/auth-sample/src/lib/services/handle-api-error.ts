@@ -1,5 +1,6 @@
 import { WorkflowHandle } from "@/lib/workflows";
 import { ErrorCodes, KnownErrorCode } from "./error-codes";
+import { isCallCancelled } from "./retry-interceptor";
 
 export const friendlyMessageFor: Record<KnownErrorCode, string> = {
     [ErrorCodes.MissingParameter]: "A required parameter is missing.",
@@ -16,6 +17,18 @@ export const friendlyMessageFor: Record<KnownErrorCode, string> = {
     [ErrorCodes.MaximumUsersReached]: "We've reached our user limit. Please try again later.",
     [ErrorCodes.ResourceExhausted]:
         "You've reached the maximum number of resend attempts (5 per hour).",
+    [ErrorCodes.PasskeyNotRegistered]:
+        "No passkey is registered for this account. Sign in with your password instead.",
+    [ErrorCodes.PasskeyVerificationFailed]: "We couldn't verify your passkey. Please try again.",
+    [ErrorCodes.PasskeyNotFound]: "That passkey no longer exists.",
+    [ErrorCodes.PasskeyRegistrationFailed]: "We couldn't add your passkey. Please try again.",
+    [ErrorCodes.InvalidCredentials]: "Incorrect email or password.",
+    [ErrorCodes.AccountNotConfirmed]:
+        "Your email address hasn't been verified yet. Finish signing up to continue.",
+    [ErrorCodes.FederatedSignInFailed]:
+        "We couldn't complete sign-in with your provider. Please try again.",
+    [ErrorCodes.PasswordPolicyViolation]:
+        "That password doesn't meet our requirements. Please choose another.",
     [ErrorCodes.Unexpected]: "Something went wrong. Please try again in a moment.",
 };
 
@@ -73,12 +86,19 @@ const getRetryAfterMinutes = ({
     return m ? parseInt(m[1], 10) : undefined;
 };
 
+/** Report the error and surface a friendly message; returns the error code for callers that branch on it. */
 export const handleApiError = (
     err: unknown,
     setErrorMessage: (msg?: string) => void,
     step?: ReturnType<WorkflowHandle["startStep"]>,
     onRateLimitExceeded?: (retryAfterMinutes?: number) => void
-) => {
+): string | undefined => {
+    // The component that made the call has gone; there is nothing to show it
+    if (isCallCancelled(err)) {
+        step?.fail("CANCELLED");
+        return undefined;
+    }
+
     const { code, serverMessage, retryAfterSeconds } = extractApiError(err);
 
     // Telemetry
@@ -102,4 +122,5 @@ export const handleApiError = (
 
     step?.fail(code ?? "UNKNOWN", friendly);
     setErrorMessage(friendly);
+    return code;
 };
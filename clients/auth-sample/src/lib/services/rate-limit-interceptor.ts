@@ -0,0 +1,70 @@
+import * as grpcWeb from 'grpc-web';
+import { ErrorCodes } from '@/lib/services/error-codes';
+import { rateLimits, type RateLimitKey, type RateLimitRegistry } from '@/lib/rate-limits';
+
+/**
+ * RateLimitUnaryInterceptor keeps calls inside the windows the service hands out.
+ *
+ * A RESOURCE_EXHAUSTED reply carrying `retry-after-seconds` is recorded in the
+ * shared registry under the method and the request's email address. While that
+ * window is open, matching calls fail straight away with an equivalent error,
+ * so `handleApiError` treats them exactly like the server's own rejection.
+ */
+class RateLimitUnaryInterceptor<TReq, TRes> implements grpcWeb.UnaryInterceptor<TReq, TRes> {
+    constructor(private readonly registry: RateLimitRegistry) {}
+
+    async intercept(
+        request: grpcWeb.Request<TReq, TRes>,
+        invoker: (
+            request: grpcWeb.Request<TReq, TRes>
+        ) => Promise<grpcWeb.UnaryResponse<TReq, TRes>>
+    ): Promise<grpcWeb.UnaryResponse<TReq, TRes>> {
+        const key: RateLimitKey = {
+            method: request.getMethodDescriptor().getName(),
+            email: emailOf(request.getRequestMessage()),
+        };
+
+        const remaining = this.registry.remainingSeconds(key);
+        if (remaining > 0) {
+            throw new grpcWeb.RpcError(
+                grpcWeb.StatusCode.RESOURCE_EXHAUSTED,
+                `Rate limit exceeded. Try again in ${Math.ceil(remaining / 60)} minutes.`,
+                { 'error-code': ErrorCodes.ResourceExhausted, 'retry-after-seconds': String(remaining) }
+            );
+        }
+
+        try {
+            const response = await invoker(request);
+            this.registry.clear(key);
+            return response;
+        } catch (err) {
+            const retryAfterSeconds = retryAfterOf(err);
+            if (retryAfterSeconds) this.registry.record(key, retryAfterSeconds);
+            throw err;
+        }
+    }
+}
+
+// Most auth requests name the account they act on; limits are per address
+function emailOf(message: unknown): string | undefined {
+    const getter = (message as { getEmailAddress?: () => string } | null)?.getEmailAddress;
+    const email = typeof getter === 'function' ? getter.call(message) : undefined;
+    return email || undefined;
+}
+
+function retryAfterOf(err: unknown): number | undefined {
+    const { code, metadata } = (err ?? {}) as { code?: number; metadata?: Record<string, unknown> };
+    const limited =
+        code === grpcWeb.StatusCode.RESOURCE_EXHAUSTED || metadata?.['error-code'] === ErrorCodes.ResourceExhausted;
+    if (!limited) return undefined;
+
+    const value = metadata?.['retry-after-seconds'] ?? metadata?.['x-retry-after-seconds'];
+    const seconds = typeof value === 'string' ? parseInt(value, 10) : NaN;
+    return seconds > 0 ? seconds : undefined;
+}
+
+export function createRateLimitUnaryInterceptor(
+    registry: RateLimitRegistry = rateLimits
+): grpcWeb.UnaryInterceptor<unknown, unknown> {
+    return new RateLimitUnaryInterceptor(registry);
+}
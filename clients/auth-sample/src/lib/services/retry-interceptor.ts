@@ -0,0 +1,126 @@
+import * as grpcWeb from 'grpc-web';
+
+/**
+ * Methods that are safe to send twice. A call that failed in transit may still
+ * have reached the service, so anything that creates an account, sends an
+ * email or consumes a one-time code is left out, `InitiateSignUpAsync` above all.
+ */
+export const RETRYABLE_METHODS: ReadonlySet<string> = new Set([
+    '/greet.Greeter/SayHello',
+    '/auth.SignInService/SignOutAsync',
+    '/auth.PasskeyService/BeginPasskeySignInAsync',
+    '/auth.PasskeyService/BeginPasskeyRegistrationAsync',
+    '/auth.PasskeyService/ListPasskeysAsync',
+    '/auth.PasskeyService/RenamePasskeyAsync',
+    '/auth.FederationService/BeginFederatedSignInAsync',
+    '/auth.FederationService/BeginAppleSignInAsync',
+]);
+
+export type RetryPolicy = {
+    /** Attempts in total, including the first. */
+    maxAttempts: number;
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialBackoffMs: 250,
+    maxBackoffMs: 2_000,
+};
+
+// Failures of the connection rather than answers from the service
+const RETRYABLE_CODES: ReadonlySet<number> = new Set([
+    grpcWeb.StatusCode.UNAVAILABLE,
+    grpcWeb.StatusCode.DEADLINE_EXCEEDED,
+]);
+
+/**
+ * RetryUnaryInterceptor retries idempotent calls that fail because the
+ * connection dropped or timed out, backing off exponentially with jitter, and
+ * abandons calls once the caller's abort signal fires.
+ *
+ * grpc-web's promise API cannot abort a request already on the wire; an aborted
+ * call is rejected with CANCELLED straight away, no further attempts are made,
+ * and whatever the outstanding request returns is dropped.
+ */
+class RetryUnaryInterceptor<TReq, TRes> implements grpcWeb.UnaryInterceptor<TReq, TRes> {
+    constructor(
+        private readonly methods: ReadonlySet<string>,
+        private readonly policy: RetryPolicy,
+        private readonly signal: () => AbortSignal | undefined,
+        private readonly random: () => number
+    ) {}
+
+    async intercept(
+        request: grpcWeb.Request<TReq, TRes>,
+        invoker: (
+            request: grpcWeb.Request<TReq, TRes>
+        ) => Promise<grpcWeb.UnaryResponse<TReq, TRes>>
+    ): Promise<grpcWeb.UnaryResponse<TReq, TRes>> {
+        const signal = this.signal();
+        const maxAttempts = this.methods.has(request.getMethodDescriptor().getName())
+            ? this.policy.maxAttempts
+            : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            if (signal?.aborted) throw cancelled();
+            try {
+                return await untilAborted(invoker(request), signal);
+            } catch (err) {
+                if (attempt >= maxAttempts || isCallCancelled(err) || !isRetryable(err)) throw err;
+            }
+            await untilAborted(delay(this.backoffMs(attempt)), signal);
+        }
+    }
+
+    // Half the exponential step plus a random share of the other half, so
+    // clients that lost the same connection do not come back in lockstep
+    private backoffMs(attempt: number): number {
+        const step = Math.min(this.policy.maxBackoffMs, this.policy.initialBackoffMs * 2 ** (attempt - 1));
+        return step / 2 + this.random() * (step / 2);
+    }
+}
+
+function isRetryable(err: unknown): boolean {
+    const code = (err as { code?: unknown } | null)?.code;
+    return typeof code === 'number' && RETRYABLE_CODES.has(code);
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function cancelled(): grpcWeb.RpcError {
+    return new grpcWeb.RpcError(grpcWeb.StatusCode.CANCELLED, 'The call was cancelled.', {});
+}
+
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(cancelled());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/** True for calls abandoned because their caller went away; there is nobody to tell. */
+export function isCallCancelled(err: unknown): boolean {
+    return (err as { code?: unknown } | null)?.code === grpcWeb.StatusCode.CANCELLED;
+}
+
+export function createRetryUnaryInterceptor({
+    methods = RETRYABLE_METHODS,
+    policy = DEFAULT_RETRY_POLICY,
+    signal = () => undefined,
+    random = () => Math.random(),
+}: {
+    methods?: ReadonlySet<string>;
+    policy?: RetryPolicy;
+    /** Read at the start of each call; aborting it cancels the call. */
+    signal?: () => AbortSignal | undefined;
+    random?: () => number;
+} = {}): grpcWeb.UnaryInterceptor<unknown, unknown> {
+    return new RetryUnaryInterceptor(methods, policy, signal, random);
+}
@@ -0,0 +1,58 @@
+/**
+ * Resumable sign-up, kept in session storage once a verification code is out.
+ *
+ * On mobile the page is often reloaded while the user fetches the code from
+ * their mail app. Remembering who was signing up lets us drop them straight
+ * back on the code step instead of sending another one. The password never
+ * goes in here: by the time a code is sent the service already has it.
+ */
+
+import type { AuthState } from "@/types/auth"
+import type { WorkflowReference } from "@/lib/workflows"
+
+export type ResumableSignUp = {
+  email: string
+  signupMethod?: AuthState["signupMethod"]
+  name?: string
+  preferredName?: string
+  /** Workflow span of the original attempt, so the resumed one can link back to it. */
+  workflow?: WorkflowReference
+  /** Epoch milliseconds after which the session is ignored. */
+  expiresAt: number
+}
+
+/** Long enough to fetch a code from another app, short enough not to linger on a shared device. */
+export const SIGN_UP_SESSION_TTL_MS = 30 * 60 * 1000
+
+const STORAGE_KEY = "auth.signup.pending"
+
+const storage = (): Storage | undefined =>
+  typeof window !== "undefined" ? window.sessionStorage : undefined
+
+export function saveResumableSignUp(signUp: Omit<ResumableSignUp, "expiresAt">): void {
+  const session: ResumableSignUp = { ...signUp, expiresAt: Date.now() + SIGN_UP_SESSION_TTL_MS }
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(session))
+}
+
+export function readResumableSignUp(): ResumableSignUp | undefined {
+  const raw = storage()?.getItem(STORAGE_KEY)
+  if (!raw) return undefined
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<ResumableSignUp>
+    if (typeof parsed.email !== "string" || typeof parsed.expiresAt !== "number") {
+      return undefined
+    }
+    if (parsed.expiresAt <= Date.now()) {
+      clearResumableSignUp()
+      return undefined
+    }
+    return parsed as ResumableSignUp
+  } catch {
+    return undefined
+  }
+}
+
+export function clearResumableSignUp(): void {
+  storage()?.removeItem(STORAGE_KEY)
+}
@@ -74,3 +74,40 @@ export function getPasswordErrors(password: string): string[] {
   
   return errors;
 }
+
+// Cognito caps the name attributes; the Auth service enforces the same limit
+export const MAX_NAME_LENGTH = 256;
+
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f]/;
+
+export function validateName(name: string): boolean {
+  return getNameErrors(name).length === 0;
+}
+
+export function getNameErrors(name: string): string[] {
+  const errors: string[] = [];
+
+  if (!name || !name.trim()) {
+    errors.push("Name is required");
+    return errors;
+  }
+
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    errors.push(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (CONTROL_CHARACTERS.test(name)) {
+    errors.push("Name contains characters that aren't allowed");
+  }
+
+  return errors;
+}
+
+export function validatePreferredName(preferredName: string): boolean {
+  // Optional: fall back to the full name when left blank
+  if (!preferredName || !preferredName.trim()) {
+    return true;
+  }
+
+  return preferredName.trim().length <= MAX_NAME_LENGTH && !CONTROL_CHARACTERS.test(preferredName);
+}
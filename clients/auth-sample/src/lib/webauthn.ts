@@ -0,0 +1,140 @@
+/**
+ * Thin helpers around the WebAuthn browser API.
+ *
+ * The Auth service exchanges WebAuthn payloads as JSON strings in which every
+ * binary field is base64url encoded (the format Cognito uses), so these helpers
+ * convert between that wire format and the ArrayBuffers the browser expects.
+ */
+
+type JsonCredentialDescriptor = {
+  type: PublicKeyCredentialType
+  id: string
+  transports?: AuthenticatorTransport[]
+}
+
+type JsonRequestOptions = Omit<PublicKeyCredentialRequestOptions, "challenge" | "allowCredentials"> & {
+  challenge: string
+  allowCredentials?: JsonCredentialDescriptor[]
+}
+
+type JsonCreationOptions = Omit<PublicKeyCredentialCreationOptions, "challenge" | "user" | "excludeCredentials"> & {
+  challenge: string
+  user: Omit<PublicKeyCredentialUserEntity, "id"> & { id: string }
+  excludeCredentials?: JsonCredentialDescriptor[]
+}
+
+export function isWebAuthnSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.PublicKeyCredential === "function" &&
+    typeof navigator !== "undefined" &&
+    typeof navigator.credentials?.get === "function"
+  )
+}
+
+/** True when the ceremony was dismissed or timed out rather than failing. */
+export function isWebAuthnCancellation(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false
+  const name = (err as { name?: unknown }).name
+  return name === "NotAllowedError" || name === "AbortError"
+}
+
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=")
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+export function bufferToBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export function parseRequestOptions(json: string): PublicKeyCredentialRequestOptions {
+  const options = JSON.parse(json) as JsonRequestOptions
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    allowCredentials: options.allowCredentials?.map((credential) => ({
+      ...credential,
+      id: base64UrlToBuffer(credential.id),
+    })),
+  }
+}
+
+export function parseCreationOptions(json: string): PublicKeyCredentialCreationOptions {
+  const options = JSON.parse(json) as JsonCreationOptions
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    user: { ...options.user, id: base64UrlToBuffer(options.user.id) },
+    excludeCredentials: options.excludeCredentials?.map((credential) => ({
+      ...credential,
+      id: base64UrlToBuffer(credential.id),
+    })),
+  }
+}
+
+export function serializeAssertion(credential: PublicKeyCredential): string {
+  const response = credential.response as AuthenticatorAssertionResponse
+  return JSON.stringify({
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+    clientExtensionResults: credential.getClientExtensionResults(),
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : undefined,
+    },
+  })
+}
+
+export function serializeAttestation(credential: PublicKeyCredential): string {
+  const response = credential.response as AuthenticatorAttestationResponse
+  return JSON.stringify({
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+    clientExtensionResults: credential.getClientExtensionResults(),
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      transports: typeof response.getTransports === "function" ? response.getTransports() : undefined,
+    },
+  })
+}
+
+/** Run the assertion ceremony and return the serialized credential. */
+export async function getPasskeyAssertion(requestOptionsJson: string): Promise<string> {
+  const credential = await navigator.credentials.get({
+    publicKey: parseRequestOptions(requestOptionsJson),
+  })
+  if (!credential) {
+    throw new DOMException("No credential was returned", "NotAllowedError")
+  }
+  return serializeAssertion(credential as PublicKeyCredential)
+}
+
+/** Run the registration ceremony and return the serialized credential. */
+export async function createPasskeyCredential(creationOptionsJson: string): Promise<string> {
+  const credential = await navigator.credentials.create({
+    publicKey: parseCreationOptions(creationOptionsJson),
+  })
+  if (!credential) {
+    throw new DOMException("No credential was created", "NotAllowedError")
+  }
+  return serializeAttestation(credential as PublicKeyCredential)
+}
@@ -3,15 +3,21 @@
 import { context, Span, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
 import type { Attributes } from "@opentelemetry/api";
 import { getTracer } from "@/lib/telemetry";
-import type { WorkflowHandle, StepHandle } from "./types";
+import type { WorkflowHandle, StepHandle, StartWorkflowOptions } from "./types";
 
 type WorkflowSpanBag = {
   workflowSpan: Span;
   attempts: Record<string, number>;
 };
 
-export function startWorkflow(name: string, version: string, attrs?: Record<string, unknown>): WorkflowHandle {
+export function startWorkflow(
+  name: string,
+  version: string,
+  attrs?: Record<string, unknown>,
+  options?: StartWorkflowOptions
+): WorkflowHandle {
   const tracer = getTracer("workflow");
+  const resumes = options?.resumes;
 
   const workflowSpan = tracer.startSpan(
     `workflow.${name}`,
@@ -20,17 +26,23 @@ export function startWorkflow(name: string, version: string, attrs?: Record<stri
       attributes: {
         "workflow.name": name,
         "workflow.version": version,
+        ...(resumes ? { "workflow.resumed": true } : {}),
         ...attrs,
       },
+      links: resumes
+        ? [{ context: { ...resumes, isRemote: true }, attributes: { "link.type": "workflow.resumes" } }]
+        : undefined,
     }
   );
+  const { traceId, spanId, traceFlags } = workflowSpan.spanContext();
 
   const bag: WorkflowSpanBag = { workflowSpan, attempts: {} };
 
   const handle: WorkflowHandle = {
-    id: workflowSpan.spanContext().spanId,
+    id: spanId,
     name,
     version,
+    reference: { traceId, spanId, traceFlags },
     startStep: (stepName: string) => {
       const attempt = (bag.attempts[stepName] ?? 0) + 1;
       bag.attempts[stepName] = attempt;
@@ -1,7 +1,20 @@
+/** Enough of a workflow span to link a later span back to it, e.g. after a reload. */
+export type WorkflowReference = {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+};
+
+export type StartWorkflowOptions = {
+  /** Earlier run of the same workflow this one carries on; the new span links to it. */
+  resumes?: WorkflowReference;
+};
+
 export type WorkflowHandle = {
   id: string;
   name: string;
   version: string;
+  reference: WorkflowReference;
   startStep: (name: string) => StepHandle;
   succeed: () => void;
   fail: (code: string, message?: string) => void;
@@ -3,10 +3,15 @@
 import React, { createContext, useContext, useEffect, useMemo, useRef } from "react";
 import { initWebTelemetry } from "@/lib/telemetry";
 import { startWorkflow } from "./start-workflow";
-import type { WorkflowHandle, StepHandle } from "./types";
+import type { WorkflowHandle, StepHandle, StartWorkflowOptions } from "./types";
 
 type Ctx = {
-  start: (name: string, version: string, attrs?: Record<string, unknown>) => WorkflowHandle;
+  start: (
+    name: string,
+    version: string,
+    attrs?: Record<string, unknown>,
+    options?: StartWorkflowOptions
+  ) => WorkflowHandle;
 };
 
 const WorkflowCtx = createContext<Ctx | null>(null);
@@ -23,7 +28,7 @@ export function WorkflowProvider({
   initWebTelemetry(serviceName);
 
   const value = useMemo<Ctx>(() => ({
-    start: (name, version, attrs) => startWorkflow(name, version, attrs),
+    start: (name, version, attrs, options) => startWorkflow(name, version, attrs, options),
   }), []);
 
   return <WorkflowCtx.Provider value={value}>{children}</WorkflowCtx.Provider>;
@@ -1,10 +1,17 @@
 import {type NextRequest, NextResponse} from "next/server";
-import {trace, ROOT_CONTEXT, type TextMapGetter} from "@opentelemetry/api";
+import {trace, isSpanContextValid, ROOT_CONTEXT, type TextMapGetter} from "@opentelemetry/api";
 import {W3CTraceContextPropagator} from "@opentelemetry/core";
 import {config as appConfig} from "@/lib/config";
-import {checkAuthentication, type AuthCheckResult } from "@/lib/server/authz-client";
-import {isProtectedRoute, isAuthRoute, createSignInRedirectUrl, createHomeRedirectUrl} from "@/lib/server/route-utils";
+import {AuthCheckError, checkAuthentication, type AuthCheckResult } from "@/lib/server/authz-client";
+import {authCheckCache} from "@/lib/server/auth-check-cache";
+import {createSignInRedirectUrl, createRedirectUrl, createErrorUrl} from "@/lib/server/route-utils";
+import {routePolicy, evaluateRule, failModeFor} from "@/lib/route-policy";
+import {stripIdentityHeaders, writeIdentityHeaders} from "@/lib/server/identity-headers";
 import {hasIncomingTrace, injectSpanContextHeaders} from "@/lib/server/trace-utils";
+import {ERROR_REDIRECT_COOKIE, ERROR_REDIRECT_WINDOW_SECONDS, trackErrorRedirect} from "@/lib/server/error-redirect";
+import {errorIdForFailure} from "@/lib/error-ids";
+import {CSRF_COOKIE} from "@/lib/csrf";
+import {CSRF_COOKIE_OPTIONS, createCsrfToken} from "@/lib/server/csrf";
 
 export const config = {
     // Exclude static assets, Next internals, and Chrome DevTools requests
@@ -41,47 +48,105 @@ export default async function middleware(request: NextRequest) {
         extractedCtx,
     );
 
+    const rule = routePolicy.match(pathname);
+    middlewareSpan.setAttributes({"route.category": rule.category, "route.rule.id": rule.id});
+
+    // Inject W3C trace context so downstream work continues this trace
+    const headers = new Headers(request.headers);
+    if (!hasIncomingTrace(incomingCarrier)) {
+        injectSpanContextHeaders(headers, middlewareSpan);
+    }
+
+    // Identity headers only ever come from the Auth service, never from the client
+    stripIdentityHeaders(headers);
+
+    // Hand out a CSRF token on the first page load; it stays for the browser session
+    const issueCsrfToken = !request.cookies.get(CSRF_COOKIE)?.value;
+    const respond = (res: NextResponse) => {
+        if (issueCsrfToken) res.cookies.set(CSRF_COOKIE, createCsrfToken(), CSRF_COOKIE_OPTIONS);
+        return res;
+    };
+
     try {
-        const isProtected = isProtectedRoute(pathname);
-        const isAuth = isAuthRoute(pathname);
+        // Public routes look the same to everyone; skip the auth round trip
+        if (rule.category === "public") {
+            middlewareSpan.setAttribute("route.access.decision", "allow");
+            return respond(NextResponse.next({request: {headers}}));
+        }
 
         const cookieHeader = request.headers.get("cookie") ?? "";
         const authResult: AuthCheckResult = await checkAuthentication(
             appConfig.authServiceUrl,
             middlewareSpan,
-            {cookie: cookieHeader}
+            {cookie: cookieHeader},
+            {cache: authCheckCache},
         );
 
-        if (isProtected && !authResult.isAuthenticated) {
-            const res = NextResponse.redirect(createSignInRedirectUrl(request.url, pathname));
+        const access = evaluateRule(rule, {
+            isAuthenticated: authResult.isAuthenticated,
+            identity: authResult.identity,
+        });
+        middlewareSpan.setAttribute("route.access.decision", access.kind);
+
+        // The check answered, so any earlier run of failures is over
+        const finish = (res: NextResponse) => {
             for (const c of authResult.setCookies) res.headers.append("set-cookie", c);
-            return res;
+            if (request.cookies.has(ERROR_REDIRECT_COOKIE)) res.cookies.delete(ERROR_REDIRECT_COOKIE);
+            return respond(res);
+        };
+
+        if (access.kind === "redirect") {
+            middlewareSpan.setAttribute("route.access.reason", access.reason);
+            const location = access.reason === "unauthenticated"
+                ? createSignInRedirectUrl(request.url, `${pathname}${request.nextUrl.search}`, access.location)
+                : createRedirectUrl(request.url, access.location);
+            return finish(NextResponse.redirect(location));
         }
 
-        if (isAuth && authResult.isAuthenticated) {
-            const res = NextResponse.redirect(createHomeRedirectUrl(request.url));
-            for (const c of authResult.setCookies) res.headers.append("set-cookie", c);
-            return res;
+        if (authResult.identity) {
+            writeIdentityHeaders(headers, authResult.identity);
         }
 
-        // Inject W3C trace context so downstream work continues this trace
-        const headers = new Headers(request.headers);
-        if (!hasIncomingTrace(incomingCarrier)) {
-            injectSpanContextHeaders(headers, middlewareSpan);
+        // Signed in but not allowed: explain in place rather than bouncing to sign-in
+        if (access.kind === "forbidden") {
+            return finish(NextResponse.rewrite(createRedirectUrl(request.url, access.location), {
+                status: 403,
+                request: {headers},
+            }));
         }
 
-        const res = NextResponse.next({request: {headers}});
-        for (const c of authResult.setCookies) res.headers.append("set-cookie", c);
-        return res;
+        return finish(NextResponse.next({request: {headers}}));
     } catch (error) {
         // Log the error for debugging
         console.error("Authentication check failed:", error);
 
-        // Redirect to error page with error information
-        const errorUrl = new URL("/error", request.url);
-        errorUrl.searchParams.set("message", error instanceof Error ? error.message : String(error));
-        errorUrl.searchParams.set("from", pathname);
-        return NextResponse.redirect(errorUrl);
+        // Pages anyone may see stay up while the Auth service is down, just signed out
+        if (failModeFor(rule) === "open") {
+            middlewareSpan.setAttributes({"route.access.decision": "allow", "route.fail_mode": "open"});
+            return respond(NextResponse.next({request: {headers}}));
+        }
+        middlewareSpan.setAttribute("route.fail_mode", "closed");
+
+        // Send only an error ID and the trace ID; the exception text stays in the logs
+        const {errorId, count} = trackErrorRedirect(
+            request.cookies.get(ERROR_REDIRECT_COOKIE)?.value,
+            errorIdForFailure(error instanceof AuthCheckError ? error.failure : undefined),
+        );
+        const spanContext = middlewareSpan.spanContext();
+        middlewareSpan.setAttribute("error.id", errorId);
+
+        const res = NextResponse.redirect(createErrorUrl(request.url, {
+            errorId,
+            from: `${pathname}${request.nextUrl.search}`,
+            traceId: isSpanContextValid(spanContext) ? spanContext.traceId : undefined,
+        }));
+        res.cookies.set(ERROR_REDIRECT_COOKIE, String(count), {
+            httpOnly: true,
+            sameSite: "lax",
+            path: "/",
+            maxAge: ERROR_REDIRECT_WINDOW_SECONDS,
+        });
+        return respond(res);
     } finally {
         middlewareSpan.end();
     }
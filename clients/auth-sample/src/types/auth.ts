@@ -1,17 +1,23 @@
-export type AuthFlow = "main" | "email-options" | "password" | "passwordless" | "passkey" | "signup-main" | "signup-email" | "signup-password" | "signup-verification" | "signup-success"
+export type AuthFlow = "main" | "email-options" | "password" | "passwordless" | "passkey" | "signup-main" | "signup-email" | "signup-password" | "signup-profile" | "signup-verification" | "signup-success" | "reset-request" | "reset-verify" | "reset-new-password"
 
 export interface AuthState {
   currentFlow: AuthFlow
+  /** Which way the last step change went, for the transition animation. */
+  flowDirection: "forward" | "backward"
+  canGoBack: boolean
   email: string
   password: string
   passwordConfirmation: string
   otpCode: string
+  /** Collected on the profile step and sent when the sign-up is verified. */
+  name: string
+  preferredName: string
   isLoading: boolean
   isResendLoading: boolean
   signupMethod?: "password" | "passwordless"
   errorMessage?: string
-  isRateLimited: boolean
-  rateLimitRetryAfter?: number
+  /** True once sign-up has established a session (AT_SID/RT_SID cookies are set). */
+  isSignedIn: boolean
 }
 
 export interface AuthHandlers {
@@ -22,6 +28,13 @@ export interface AuthHandlers {
   handlePasswordlessSignIn: () => Promise<void>
   handlePasskeySignIn: () => Promise<void>
   handleOtpVerification: () => Promise<void>
+  handleResendSignInCode: () => Promise<void>
+  // Password reset handlers
+  handleForgotPassword: () => void
+  handlePasswordResetRequest: () => Promise<void>
+  handleResendPasswordResetCode: () => Promise<void>
+  handlePasswordResetCodeContinue: () => void
+  handlePasswordResetComplete: () => Promise<void>
   // Sign-up handlers
   handleGoogleSignUp: () => Promise<void>
   handleAppleSignUp: () => Promise<void>
@@ -30,11 +43,16 @@ export interface AuthHandlers {
   handlePasswordEmailContinue: () => Promise<void>
   handlePasswordlessEmailContinue: () => Promise<void>
   handlePasswordSignUp: () => Promise<void>
+  handleSignUpProfileContinue: () => void
   handleSignUpOtpVerification: () => Promise<void>
   handleResendVerificationCode: () => Promise<void>
+  /** Request a step change; moves the flow machine does not allow are ignored. */
   setCurrentFlow: (flow: AuthFlow) => void
+  goBack: () => void
   setEmail: (email: string) => void
   setPassword: (password: string) => void
   setPasswordConfirmation: (passwordConfirmation: string) => void
   setOtpCode: (code: string) => void
+  setName: (name: string) => void
+  setPreferredName: (preferredName: string) => void
 }
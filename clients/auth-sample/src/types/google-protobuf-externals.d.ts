@@ -6,4 +6,25 @@ declare module 'google-protobuf/google/protobuf/empty_pb' {
   }
 }
 
+declare module 'google-protobuf/google/protobuf/timestamp_pb' {
+  export class Timestamp {
+    constructor();
+    getSeconds(): number;
+    setSeconds(value: number): Timestamp;
+    getNanos(): number;
+    setNanos(value: number): Timestamp;
+    toDate(): Date;
+    fromDate(value: Date): void;
+    serializeBinary(): Uint8Array;
+    static deserializeBinary(bytes: Uint8Array): Timestamp;
+    static fromDate(value: Date): Timestamp;
+    static toObject(includeInstance: boolean, msg: Timestamp): Timestamp.AsObject;
+  }
 
+  export namespace Timestamp {
+    export type AsObject = {
+      seconds: number;
+      nanos: number;
+    };
+  }
+}
@@ -5,9 +5,10 @@ module "auth" {
   project_name = var.project_name
   env          = var.env
 
-  idps                     = var.idps
-  auth_callback            = var.auth_callback
-  auth_logout              = var.auth_logout
-  authenticated_policy_arn = var.authenticated_policy_arn
+  idps                       = var.idps
+  federated_assertion_secret = var.federated_assertion_secret
+  auth_callback              = var.auth_callback
+  auth_logout                = var.auth_logout
+  authenticated_policy_arn   = var.authenticated_policy_arn
 }
 
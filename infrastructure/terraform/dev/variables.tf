@@ -42,6 +42,13 @@ variable "idps" {
   }
 }
 
+variable "federated_assertion_secret" {
+  description = "Secret shared by the Auth service and the custom auth Lambda (Auth_Cognito__FederatedAssertionSecret); empty skips the Lambda"
+  type        = string
+  default     = ""
+  sensitive   = true
+}
+
 variable "auth_callback" {
   description = "Cognito callback URLs"
   type        = list(string)
@@ -0,0 +1,61 @@
+// Cognito custom auth triggers (define, create and verify auth challenge) for users an
+// external identity provider has already vouched for, e.g. the Sign in with Apple popup.
+//
+// The Auth service answers the single custom challenge with "<expiry>.<signature>", an
+// HMAC-SHA256 over "<lower-cased email>:<expiry>" keyed by FEDERATED_ASSERTION_SECRET.
+import { createHmac, timingSafeEqual } from "node:crypto"
+
+const CHALLENGE = "FEDERATED_ASSERTION"
+
+export const handler = async (event) => {
+  switch (event.triggerSource) {
+    case "DefineAuthChallenge_Authentication":
+      return defineAuthChallenge(event)
+    case "CreateAuthChallenge_Authentication":
+      event.response.publicChallengeParameters = {}
+      event.response.privateChallengeParameters = {}
+      event.response.challengeMetadata = CHALLENGE
+      return event
+    case "VerifyAuthChallengeResponse_Authentication":
+      event.response.answerCorrect = isValidAssertion(event)
+      return event
+    default:
+      return event
+  }
+}
+
+// One custom challenge; tokens only when it was answered correctly
+function defineAuthChallenge(event) {
+  const session = event.request.session ?? []
+  const last = session[session.length - 1]
+
+  if (event.request.userNotFound || session.length > 1) {
+    event.response.issueTokens = false
+    event.response.failAuthentication = true
+  } else if (session.length === 0) {
+    event.response.issueTokens = false
+    event.response.failAuthentication = false
+    event.response.challengeName = "CUSTOM_CHALLENGE"
+  } else {
+    const passed = last.challengeName === "CUSTOM_CHALLENGE" && last.challengeResult === true
+    event.response.issueTokens = passed
+    event.response.failAuthentication = !passed
+  }
+  return event
+}
+
+function isValidAssertion(event) {
+  const secret = process.env.FEDERATED_ASSERTION_SECRET
+  const email = event.request.userAttributes?.email
+  const [expiresAt, signature] = String(event.request.challengeAnswer ?? "").split(".")
+
+  if (!secret || !email || !expiresAt || !signature) return false
+  if (event.request.userAttributes.email_verified !== "true") return false
+  if (Number(expiresAt) * 1000 < Date.now()) return false
+
+  const expected = createHmac("sha256", secret)
+    .update(`${email.toLowerCase()}:${expiresAt}`)
+    .digest()
+  const actual = Buffer.from(signature, "base64url")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
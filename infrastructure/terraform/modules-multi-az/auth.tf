@@ -3,6 +3,8 @@ locals {
   auth_environments = toset([var.env, "dev"])
   social_idp_names  = length(var.idps) > 0 ? [for k in keys(var.idps) : k == "google" ? "Google" : "SignInWithApple"] : []
   redirect_uri      = length(var.auth_callback) > 0 ? var.auth_callback[0] : ""
+
+  federated_auth_enabled = var.federated_assertion_secret != ""
 }
 
 # =============================================================================
@@ -46,6 +48,15 @@ resource "aws_cognito_user_pool" "this" {
   user_attribute_update_settings {
     attributes_require_verification_before_update = ["email"]
   }
+
+  dynamic "lambda_config" {
+    for_each = local.federated_auth_enabled ? [1] : []
+    content {
+      define_auth_challenge          = aws_lambda_function.federated_auth[0].arn
+      create_auth_challenge          = aws_lambda_function.federated_auth[0].arn
+      verify_auth_challenge_response = aws_lambda_function.federated_auth[0].arn
+    }
+  }
 }
 
 resource "aws_cognito_user_pool_domain" "this" {
@@ -107,6 +118,77 @@ resource "aws_cognito_user_pool_client" "backend" {
     "ALLOW_REFRESH_TOKEN_AUTH"
   ]
   prevent_user_existence_errors = "ENABLED"
+
+  # Federated sign-in: the Auth service exchanges the authorization code itself
+  allowed_oauth_flows_user_pool_client = length(local.social_idp_names) > 0
+  allowed_oauth_flows                  = length(local.social_idp_names) > 0 ? ["code"] : []
+  allowed_oauth_scopes                 = length(local.social_idp_names) > 0 ? ["aws.cognito.signin.user.admin", "email", "openid", "profile"] : []
+  callback_urls                        = length(local.social_idp_names) > 0 ? var.auth_callback : []
+  supported_identity_providers         = local.social_idp_names
+
+  depends_on = [aws_cognito_identity_provider.social]
+}
+
+# =============================================================================
+# Cognito Custom Auth (shared by both pools)
+# Lets the Auth service sign in users that the Sign in with Apple popup vouched
+# for: it answers the custom challenge with an assertion signed by the secret
+# shared with this Lambda.
+# =============================================================================
+data "archive_file" "federated_auth" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  type        = "zip"
+  source_file = "${path.module}/../lambda/cognito-federated-auth/index.mjs"
+  output_path = "${path.module}/build/cognito-federated-auth.zip"
+}
+
+resource "aws_iam_role" "federated_auth" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  name = "${var.project_name}-federated-auth-${var.env}"
+  assume_role_policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [{
+      Effect    = "Allow"
+      Principal = { Service = "lambda.amazonaws.com" }
+      Action    = "sts:AssumeRole"
+    }]
+  })
+}
+
+resource "aws_iam_role_policy_attachment" "federated_auth_logs" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  role       = aws_iam_role.federated_auth[0].name
+  policy_arn = "arn:${data.aws_partition.current.partition}:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole"
+}
+
+resource "aws_lambda_function" "federated_auth" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  function_name    = "${var.project_name}-federated-auth-${var.env}"
+  role             = aws_iam_role.federated_auth[0].arn
+  runtime          = "nodejs20.x"
+  handler          = "index.handler"
+  filename         = data.archive_file.federated_auth[0].output_path
+  source_code_hash = data.archive_file.federated_auth[0].output_base64sha256
+
+  environment {
+    variables = {
+      FEDERATED_ASSERTION_SECRET = var.federated_assertion_secret
+    }
+  }
+}
+
+resource "aws_lambda_permission" "federated_auth" {
+  for_each = local.federated_auth_enabled ? local.auth_environments : toset([])
+
+  statement_id  = "AllowCognitoInvoke-${each.value}"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.federated_auth[0].function_name
+  principal     = "cognito-idp.amazonaws.com"
+  source_arn    = aws_cognito_user_pool.this[each.value].arn
 }
 
 # =============================================================================
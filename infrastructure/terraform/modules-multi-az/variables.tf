@@ -172,6 +172,14 @@ variable "idps" {
   }
 }
 
+# Optional custom auth Lambda for users an identity provider vouched for (Sign in with Apple popup)
+variable "federated_assertion_secret" {
+  description = "Secret shared by the Auth service and the custom auth Lambda (Auth_Cognito__FederatedAssertionSecret); empty skips the Lambda"
+  type        = string
+  default     = ""
+  sensitive   = true
+}
+
 # Optional policy to attach to the authenticated Cognito role
 variable "authenticated_policy_arn" {
   description = "If provided, attaches this policy ARN to the authenticated Cognito role"
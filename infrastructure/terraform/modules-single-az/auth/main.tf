@@ -6,6 +6,7 @@
 # • Cognito User Pools
 # • Social Identity Providers (Google, Apple)
 # • User Pool Clients (web and backend)
+# • Custom auth Lambda for users an identity provider vouched for
 # • Identity Pool for authenticated users (for the primary environment `var.env`)
 # =============================================================================
 
@@ -15,6 +16,8 @@
 locals {
   # Social IDP Names
   social_idp_names = length(var.idps) > 0 ? [for k in keys(var.idps) : k == "google" ? "Google" : "SignInWithApple"] : []
+
+  federated_auth_enabled = var.federated_assertion_secret != ""
 }
 
 # User Pool
@@ -78,6 +81,15 @@ resource "aws_cognito_user_pool" "this" {
     allowed_first_auth_factors = ["PASSWORD", "EMAIL_OTP", "WEB_AUTHN"]
   }
 
+  dynamic "lambda_config" {
+    for_each = local.federated_auth_enabled ? [1] : []
+    content {
+      define_auth_challenge          = aws_lambda_function.federated_auth[0].arn
+      create_auth_challenge          = aws_lambda_function.federated_auth[0].arn
+      verify_auth_challenge_response = aws_lambda_function.federated_auth[0].arn
+    }
+  }
+
   tags = { Environment = var.env }
 }
 
@@ -161,6 +173,15 @@ resource "aws_cognito_user_pool_client" "backend" {
   ]
 
   prevent_user_existence_errors = "ENABLED"
+
+  # Federated sign-in: the Auth service exchanges the authorization code itself
+  allowed_oauth_flows_user_pool_client = length(local.social_idp_names) > 0
+  allowed_oauth_flows                  = length(local.social_idp_names) > 0 ? ["code"] : []
+  allowed_oauth_scopes                 = length(local.social_idp_names) > 0 ? ["aws.cognito.signin.user.admin", "email", "openid", "profile"] : []
+  callback_urls                        = length(local.social_idp_names) > 0 ? var.auth_callback : []
+  supported_identity_providers         = local.social_idp_names
+
+  depends_on = [aws_cognito_identity_provider.social]
 }
 
 # Cognito Identity Pool
@@ -179,6 +200,76 @@ resource "aws_cognito_identity_pool" "this" {
 
 #endregion
 
+# =============================================================================
+# Cognito Custom Auth
+# =============================================================================
+# Lets the Auth service sign in users that the Sign in with Apple popup vouched
+# for: it answers the custom challenge with an assertion signed by the secret
+# shared with this Lambda.
+# =============================================================================
+
+#region Cognito Custom Auth
+
+data "archive_file" "federated_auth" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  type        = "zip"
+  source_file = "${path.module}/../../lambda/cognito-federated-auth/index.mjs"
+  output_path = "${path.module}/build/cognito-federated-auth.zip"
+}
+
+resource "aws_iam_role" "federated_auth" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  name = "${var.project_name}-federated-auth-${var.env}"
+  assume_role_policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [{
+      Effect    = "Allow"
+      Principal = { Service = "lambda.amazonaws.com" }
+      Action    = "sts:AssumeRole"
+    }]
+  })
+}
+
+resource "aws_iam_role_policy_attachment" "federated_auth_logs" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  role       = aws_iam_role.federated_auth[0].name
+  policy_arn = "arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole"
+}
+
+resource "aws_lambda_function" "federated_auth" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  function_name    = "${var.project_name}-federated-auth-${var.env}"
+  role             = aws_iam_role.federated_auth[0].arn
+  runtime          = "nodejs20.x"
+  handler          = "index.handler"
+  filename         = data.archive_file.federated_auth[0].output_path
+  source_code_hash = data.archive_file.federated_auth[0].output_base64sha256
+
+  environment {
+    variables = {
+      FEDERATED_ASSERTION_SECRET = var.federated_assertion_secret
+    }
+  }
+
+  tags = { Environment = var.env }
+}
+
+resource "aws_lambda_permission" "federated_auth" {
+  count = local.federated_auth_enabled ? 1 : 0
+
+  statement_id  = "AllowCognitoInvoke"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.federated_auth[0].function_name
+  principal     = "cognito-idp.amazonaws.com"
+  source_arn    = aws_cognito_user_pool.this.arn
+}
+
+#endregion
+
 # =============================================================================
 # AWS Cognito IAM Infrastructure
 # =============================================================================
@@ -80,6 +80,82 @@ resource "aws_iam_role_policy_attachment" "worker_refresh_tokens_rw" {
 
 
 
+# =============================================================================
+# DynamoDB - Passkey Names
+# =============================================================================
+# User-chosen display names for WebAuthn credentials registered in Cognito.
+# Schema matches the application code in `DynamoDbPasskeyNameStore.cs`:
+#   - Partition key:  pk (e.g., "USER#<sub>")
+#   - Sort key:       sk (e.g., "CRED#<credentialId>")
+# Additional item attributes include name and updatedAtUtc.
+# =============================================================================
+
+locals {
+  passkey_names_table_name = "${var.project_name}_${var.env}_PasskeyNames"
+}
+
+resource "aws_dynamodb_table" "passkey_names" {
+  name         = local.passkey_names_table_name
+  billing_mode = "PAY_PER_REQUEST"
+
+  hash_key  = "pk"
+  range_key = "sk"
+
+  attribute {
+    name = "pk"
+    type = "S"
+  }
+
+  attribute {
+    name = "sk"
+    type = "S"
+  }
+
+  server_side_encryption {
+    enabled = true
+  }
+
+  point_in_time_recovery {
+    enabled = true
+  }
+
+  tags = {
+    Environment = var.env
+    Project     = var.project_name
+    Purpose     = "Passkey display names"
+  }
+}
+
+data "aws_iam_policy_document" "passkey_names_rw" {
+  statement {
+    sid    = "PasskeyNamesReadWrite"
+    effect = "Allow"
+
+    actions = [
+      "dynamodb:PutItem",
+      "dynamodb:GetItem",
+      "dynamodb:Query",
+      "dynamodb:DeleteItem",
+      "dynamodb:DescribeTable"
+    ]
+
+    resources = [
+      aws_dynamodb_table.passkey_names.arn
+    ]
+  }
+}
+
+resource "aws_iam_policy" "passkey_names_rw" {
+  name        = "${var.project_name}-passkey-names-rw-${var.env}"
+  description = "Read/Write access to passkey names DynamoDB table"
+  policy      = data.aws_iam_policy_document.passkey_names_rw.json
+}
+
+resource "aws_iam_role_policy_attachment" "worker_passkey_names_rw" {
+  role       = var.worker_role_name
+  policy_arn = aws_iam_policy.passkey_names_rw.arn
+}
+
 # =============================================================================
 # DynamoDB - Swarm Cluster Lock
 # =============================================================================
@@ -17,3 +17,13 @@ output "swarm_cluster_lock_table_arn" {
   description = "ARN of the DynamoDB table for swarm cluster lock"
   value       = aws_dynamodb_table.swarm_cluster_lock.arn
 }
+
+output "passkey_names_table_name" {
+  description = "Name of the DynamoDB table for passkey names"
+  value       = aws_dynamodb_table.passkey_names.name
+}
+
+output "passkey_names_table_arn" {
+  description = "ARN of the DynamoDB table for passkey names"
+  value       = aws_dynamodb_table.passkey_names.arn
+}
@@ -12,4 +12,16 @@ public sealed partial class ErrorCodes
 
     public const string MaximumUsersReached = "2006";
 
+    public const string PasskeyNotRegistered = "2007";
+    public const string PasskeyVerificationFailed = "2008";
+    public const string PasskeyNotFound = "2009";
+    public const string PasskeyRegistrationFailed = "2010";
+
+    public const string InvalidCredentials = "2011";
+    public const string AccountNotConfirmed = "2012";
+
+    public const string FederatedSignInFailed = "2013";
+
+    public const string PasswordPolicyViolation = "2014";
+
 }
@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class AccountNotConfirmedException(string? message = null)
+    : Exception(message ?? "The account has not been confirmed."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.FailedPrecondition, ErrorCodes.AccountNotConfirmed, Message);
+}
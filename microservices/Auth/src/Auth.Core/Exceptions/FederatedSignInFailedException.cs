@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class FederatedSignInFailedException(string? message = null)
+    : Exception(message ?? "Sign in with the identity provider could not be completed."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.Unauthenticated, ErrorCodes.FederatedSignInFailed, Message);
+}
@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class InvalidCredentialsException(string? message = null)
+    : Exception(message ?? "Incorrect email address or password."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.Unauthenticated, ErrorCodes.InvalidCredentials, Message);
+}
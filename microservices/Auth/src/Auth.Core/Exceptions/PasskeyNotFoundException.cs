@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class PasskeyNotFoundException(string? message = null)
+    : Exception(message ?? "The passkey was not found."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.NotFound, ErrorCodes.PasskeyNotFound, Message);
+}
@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class PasskeyNotRegisteredException(string? message = null)
+    : Exception(message ?? "No passkey is registered for this account."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.FailedPrecondition, ErrorCodes.PasskeyNotRegistered, Message);
+}
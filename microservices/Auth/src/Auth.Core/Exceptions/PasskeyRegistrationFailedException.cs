@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class PasskeyRegistrationFailedException(string? message = null)
+    : Exception(message ?? "The passkey could not be registered."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.InvalidArgument, ErrorCodes.PasskeyRegistrationFailed, Message);
+}
@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class PasskeyVerificationFailedException(string? message = null)
+    : Exception(message ?? "The passkey could not be verified."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.Unauthenticated, ErrorCodes.PasskeyVerificationFailed, Message);
+}
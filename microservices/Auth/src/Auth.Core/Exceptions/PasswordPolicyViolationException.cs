@@ -0,0 +1,11 @@
+using AuthSample.Exceptions;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Core.Exceptions;
+
+public class PasswordPolicyViolationException(string? message = null)
+    : Exception(message ?? "The password does not meet the password policy."), IHasGrpcClientError
+{
+    public GrpcErrorDescriptor ToGrpcError() =>
+        new (StatusCode.InvalidArgument, ErrorCodes.PasswordPolicyViolation, Message);
+}
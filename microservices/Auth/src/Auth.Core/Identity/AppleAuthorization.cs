@@ -0,0 +1,7 @@
+namespace AuthSample.Auth.Core.Identity;
+
+/// <summary>
+/// What the browser needs to open the Sign in with Apple popup. <see cref="State"/> and
+/// <see cref="Nonce"/> are sent to Apple, which echoes the nonce back inside the ID token.
+/// </summary>
+public sealed record AppleAuthorization(string State, string Nonce);
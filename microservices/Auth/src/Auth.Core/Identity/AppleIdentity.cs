@@ -0,0 +1,7 @@
+namespace AuthSample.Auth.Core.Identity;
+
+/// <summary>
+/// The claims Apple vouched for when the authorization code was exchanged. <see cref="EmailAddress"/>
+/// is often a private relay address, which Apple always reports as verified.
+/// </summary>
+public sealed record AppleIdentity(string Subject, string EmailAddress, bool EmailVerified, string? Nonce);
@@ -0,0 +1,3 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public readonly record struct CompleteEmailOtpSignInRequest(string EmailAddress, string Session, string VerificationCode);
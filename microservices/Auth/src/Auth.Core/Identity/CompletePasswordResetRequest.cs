@@ -0,0 +1,3 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public readonly record struct CompletePasswordResetRequest(string EmailAddress, string VerificationCode, string NewPassword);
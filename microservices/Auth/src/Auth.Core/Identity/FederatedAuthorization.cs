@@ -0,0 +1,7 @@
+namespace AuthSample.Auth.Core.Identity;
+
+/// <summary>
+/// Where to send the browser to sign in with an external identity provider. <see cref="State"/>
+/// comes back on the callback and must be passed to complete the sign-in.
+/// </summary>
+public sealed record FederatedAuthorization(Uri AuthorizationUri, string State);
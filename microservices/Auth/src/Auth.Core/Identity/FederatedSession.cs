@@ -0,0 +1,9 @@
+using AuthSample.Authentication;
+
+namespace AuthSample.Auth.Core.Identity;
+
+/// <summary>
+/// Tokens issued for a federated sign-in. <see cref="IdentityLinkedAt"/> is when Cognito first linked
+/// the external identity to a user, which tells a brand-new account apart from a returning one.
+/// </summary>
+public sealed record FederatedSession(SessionData Session, DateTime? IdentityLinkedAt);
@@ -0,0 +1,3 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public sealed record FederatedSignInResult(ClientSession ClientSession, IdentityProvider Provider, bool IsNewUser);
@@ -0,0 +1,200 @@
+using System.Diagnostics;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Authentication;
+using Microsoft.Extensions.Logging;
+using StackExchange.Redis;
+
+namespace AuthSample.Auth.Core.Identity;
+
+public class FederatedSignInService(
+    IConnectionMultiplexer cache,
+    IFederatedIdentityGateway federatedIdentityGateway,
+    IAppleIdentityGateway appleIdentityGateway,
+    IIdentityGateway identityGateway,
+    IIdentityService identityService,
+    ISignUpEligibilityGuard signUpEligibilityGuard,
+    ILogger<FederatedSignInService> logger) : IFederatedSignInService
+{
+    private static readonly ActivitySource ActivitySource = new("AuthSample.Auth.Core");
+    private static readonly TimeSpan PendingSignInTtl = TimeSpan.FromMinutes(10);
+    // Tolerates clock drift between this service and Cognito when dating a new identity
+    private static readonly TimeSpan ClockSkew = TimeSpan.FromMinutes(1);
+    private readonly IDatabase _cacheDb = cache.GetDatabase();
+
+    public async Task<FederatedAuthorization> BeginAsync(IdentityProvider provider, string redirectUri,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(FederatedSignInService)}.{nameof(BeginAsync)}");
+        activity?.SetTag("federation.provider", provider.ToString());
+
+        var state = GenerateToken();
+        var codeVerifier = GenerateToken();
+
+        var pending = new PendingFederatedSignIn(provider, redirectUri, codeVerifier, DateTime.UtcNow);
+        await _cacheDb.StringSetAsync(CacheKey(state), JsonSerializer.Serialize(pending), PendingSignInTtl)
+            .ConfigureAwait(false);
+
+        var authorizationUri = federatedIdentityGateway.GetAuthorizationUri(
+            provider, redirectUri, state, ComputeCodeChallenge(codeVerifier));
+
+        return new FederatedAuthorization(authorizationUri, state);
+    }
+
+    public async Task<FederatedSignInResult> CompleteAsync(string code, string state, string? name = null,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(FederatedSignInService)}.{nameof(CompleteAsync)}");
+
+        // Popup sign ins carry a nonce and are completed by CompleteAppleAsync
+        var pending = await TakePendingSignInAsync(state, activity).ConfigureAwait(false);
+        if (pending.Nonce is not null)
+        {
+            activity?.SetTag("federation.result", "unknown_state");
+            throw new FederatedSignInFailedException("The sign in request has expired. Please try again.");
+        }
+
+        var federatedSession = await federatedIdentityGateway
+            .ExchangeAuthorizationCodeAsync(code, pending.RedirectUri, pending.CodeVerifier, cancellationToken)
+            .ConfigureAwait(false);
+
+        var isNewUser = federatedSession.IdentityLinkedAt >= pending.StartedAt - ClockSkew;
+        if (isNewUser)
+        {
+            await signUpEligibilityGuard.IncrementConfirmedUsersAsync(cancellationToken).ConfigureAwait(false);
+            logger.LogInformation("Created account from {Provider} identity", pending.Provider);
+
+            if (!string.IsNullOrWhiteSpace(name))
+            {
+                await SeedNameAsync(federatedSession.Session, name.Trim(), cancellationToken).ConfigureAwait(false);
+            }
+        }
+
+        activity?.SetTag("federation.result", isNewUser ? "signed_up" : "signed_in");
+
+        var clientSession = await identityService
+            .CreateClientSessionAsync(federatedSession.Session, cancellationToken)
+            .ConfigureAwait(false);
+
+        return new FederatedSignInResult(clientSession, pending.Provider, isNewUser);
+    }
+
+    public async Task<AppleAuthorization> BeginAppleAsync(string redirectUri,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(FederatedSignInService)}.{nameof(BeginAppleAsync)}");
+        activity?.SetTag("federation.provider", nameof(IdentityProvider.Apple));
+
+        var state = GenerateToken();
+        var nonce = GenerateToken();
+
+        // Apple has no PKCE; the nonce ties the ID token to this sign in instead
+        var pending = new PendingFederatedSignIn(IdentityProvider.Apple, redirectUri, string.Empty, DateTime.UtcNow, nonce);
+        await _cacheDb.StringSetAsync(CacheKey(state), JsonSerializer.Serialize(pending), PendingSignInTtl)
+            .ConfigureAwait(false);
+
+        return new AppleAuthorization(state, nonce);
+    }
+
+    public async Task<FederatedSignInResult> CompleteAppleAsync(string code, string state, string? name = null,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(FederatedSignInService)}.{nameof(CompleteAppleAsync)}");
+
+        var pending = await TakePendingSignInAsync(state, activity).ConfigureAwait(false);
+        if (pending.Nonce is null)
+        {
+            activity?.SetTag("federation.result", "unknown_state");
+            throw new FederatedSignInFailedException("The sign in request has expired. Please try again.");
+        }
+
+        var identity = await appleIdentityGateway
+            .ExchangeAuthorizationCodeAsync(code, pending.RedirectUri, cancellationToken)
+            .ConfigureAwait(false);
+
+        if (!string.Equals(identity.Nonce, pending.Nonce, StringComparison.Ordinal))
+        {
+            activity?.SetTag("federation.result", "nonce_mismatch");
+            logger.LogWarning("Apple ID token was not issued for this sign in");
+            throw new FederatedSignInFailedException();
+        }
+
+        if (string.IsNullOrEmpty(identity.EmailAddress) || !identity.EmailVerified)
+        {
+            activity?.SetTag("federation.result", "unverified_email");
+            throw new FederatedSignInFailedException("Apple did not share a verified email address.");
+        }
+
+        var isNewUser = await identityGateway
+            .EnsureFederatedUserAsync(identity.EmailAddress, NormalizeName(name), cancellationToken)
+            .ConfigureAwait(false);
+        if (isNewUser)
+        {
+            await signUpEligibilityGuard.IncrementConfirmedUsersAsync(cancellationToken).ConfigureAwait(false);
+            logger.LogInformation("Created account from {Provider} identity", pending.Provider);
+        }
+
+        activity?.SetTag("federation.result", isNewUser ? "signed_up" : "signed_in");
+
+        var session = await identityGateway
+            .InitiateFederatedAuthAsync(identity.EmailAddress, cancellationToken)
+            .ConfigureAwait(false);
+        var clientSession = await identityService
+            .CreateClientSessionAsync(session, cancellationToken)
+            .ConfigureAwait(false);
+
+        return new FederatedSignInResult(clientSession, pending.Provider, isNewUser);
+    }
+
+    // Single use: a replayed callback finds nothing to complete
+    private async Task<PendingFederatedSignIn> TakePendingSignInAsync(string state, Activity? activity)
+    {
+        var pendingJson = await _cacheDb.StringGetDeleteAsync(CacheKey(state)).ConfigureAwait(false);
+        if (pendingJson.IsNullOrEmpty)
+        {
+            activity?.SetTag("federation.result", "unknown_state");
+            throw new FederatedSignInFailedException("The sign in request has expired. Please try again.");
+        }
+
+        var pending = JsonSerializer.Deserialize<PendingFederatedSignIn>(pendingJson.ToString())!;
+        activity?.SetTag("federation.provider", pending.Provider.ToString());
+        return pending;
+    }
+
+    private static string? NormalizeName(string? name) => string.IsNullOrWhiteSpace(name) ? null : name.Trim();
+
+    // The account already exists at this point; a missing name is not worth failing the sign in over
+    private async Task SeedNameAsync(SessionData session, string name, CancellationToken cancellationToken)
+    {
+        try
+        {
+            await identityGateway.UpdateNameAsync(session.AccessToken, name, cancellationToken).ConfigureAwait(false);
+        }
+        catch (Exception ex)
+        {
+            logger.LogWarning(ex, "Failed to store the name shared by the identity provider");
+        }
+    }
+
+    private static string CacheKey(string state) => $"fed:{state}";
+
+    private static string ComputeCodeChallenge(string codeVerifier)
+    {
+        var hash = SHA256.HashData(Encoding.ASCII.GetBytes(codeVerifier));
+        return Base64UrlEncode(hash);
+    }
+
+    private static string GenerateToken(int numBytes = 32) => Base64UrlEncode(RandomNumberGenerator.GetBytes(numBytes));
+
+    private static string Base64UrlEncode(byte[] bytes) =>
+        Convert.ToBase64String(bytes).Replace('+', '-').Replace('/', '_').TrimEnd('=');
+
+    private sealed record PendingFederatedSignIn(
+        IdentityProvider Provider,
+        string RedirectUri,
+        string CodeVerifier,
+        DateTime StartedAt,
+        string? Nonce = null);
+}
@@ -0,0 +1,7 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public interface IAppleIdentityGateway
+{
+    Task<AppleIdentity> ExchangeAuthorizationCodeAsync(string code, string redirectUri,
+        CancellationToken cancellationToken = default);
+}
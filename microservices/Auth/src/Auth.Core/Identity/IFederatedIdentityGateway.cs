@@ -0,0 +1,9 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public interface IFederatedIdentityGateway
+{
+    Uri GetAuthorizationUri(IdentityProvider provider, string redirectUri, string state, string codeChallenge);
+
+    Task<FederatedSession> ExchangeAuthorizationCodeAsync(string code, string redirectUri, string codeVerifier,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,15 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public interface IFederatedSignInService
+{
+    Task<FederatedAuthorization> BeginAsync(IdentityProvider provider, string redirectUri,
+        CancellationToken cancellationToken = default);
+
+    Task<FederatedSignInResult> CompleteAsync(string code, string state, string? name = null,
+        CancellationToken cancellationToken = default);
+
+    Task<AppleAuthorization> BeginAppleAsync(string redirectUri, CancellationToken cancellationToken = default);
+
+    Task<FederatedSignInResult> CompleteAppleAsync(string code, string state, string? name = null,
+        CancellationToken cancellationToken = default);
+}
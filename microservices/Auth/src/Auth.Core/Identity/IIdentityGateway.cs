@@ -13,5 +13,27 @@ public interface IIdentityGateway
     Task ResendSignUpVerificationAsync(string emailAddress, IPAddress ipAddress, CancellationToken cancellationToken = default);
     Task ConfirmUserAsync(string emailAddress, CancellationToken cancellationToken = default);
     Task<SessionData> InitiateAuthAsync(string emailAddress, string sessionId, CancellationToken cancellationToken = default);
+    Task<SessionData> AuthenticateWithPasswordAsync(string emailAddress, string password, CancellationToken cancellationToken = default);
+    Task<string> InitiateEmailOtpAuthAsync(string emailAddress, CancellationToken cancellationToken = default);
+    Task<SessionData> RespondToEmailOtpChallengeAsync(CompleteEmailOtpSignInRequest request, CancellationToken cancellationToken = default);
+    Task StartPasswordResetAsync(string emailAddress, CancellationToken cancellationToken = default);
+    Task ConfirmPasswordResetAsync(CompletePasswordResetRequest request, CancellationToken cancellationToken = default);
     Task<SessionData> RefreshSessionAsync(RefreshTokenRecord refreshTokenRecord, CancellationToken cancellationToken = default);
+    Task RevokeRefreshTokenAsync(string refreshToken, CancellationToken cancellationToken = default);
+    Task<PasskeyChallenge> InitiatePasskeyAuthAsync(string emailAddress, CancellationToken cancellationToken = default);
+    Task<SessionData> RespondToPasskeyChallengeAsync(CompletePasskeySignInRequest request, CancellationToken cancellationToken = default);
+    Task<string> StartPasskeyRegistrationAsync(string accessToken, CancellationToken cancellationToken = default);
+    Task CompletePasskeyRegistrationAsync(string accessToken, string credential, CancellationToken cancellationToken = default);
+    Task<IReadOnlyList<PasskeyCredential>> ListPasskeysAsync(string accessToken, CancellationToken cancellationToken = default);
+    Task DeletePasskeyAsync(string accessToken, string credentialId, CancellationToken cancellationToken = default);
+    Task UpdateNameAsync(string accessToken, string name, CancellationToken cancellationToken = default);
+    Task UpdateProfileAsync(string accessToken, UserProfile profile, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Creates a confirmed account for an address the identity provider has verified, unless one exists.
+    /// Returns true when the account was created.
+    /// </summary>
+    Task<bool> EnsureFederatedUserAsync(string emailAddress, string? name, CancellationToken cancellationToken = default);
+
+    Task<SessionData> InitiateFederatedAuthAsync(string emailAddress, CancellationToken cancellationToken = default);
 }
@@ -1,3 +1,5 @@
+using AuthSample.Authentication;
+
 namespace AuthSample.Auth.Core.Identity;
 
 public interface IIdentityService
@@ -6,7 +8,16 @@ public interface IIdentityService
         InitiateSignUpRequest request,
         Func<Task> enforceVerificationRateLimit,
         CancellationToken cancellationToken = default);
-    Task<ClientSession?> VerifySignUpAndSignInAsync(string emailAddress, string verificationCode, CancellationToken cancellationToken = default);
+    Task<ClientSession?> VerifySignUpAndSignInAsync(string emailAddress, string verificationCode, UserProfile? profile = null, CancellationToken cancellationToken = default);
+    Task<ClientSession> SignInWithPasswordAsync(string emailAddress, string password, CancellationToken cancellationToken = default);
+    Task<string> BeginEmailOtpSignInAsync(string emailAddress, CancellationToken cancellationToken = default);
+    Task<ClientSession> CompleteEmailOtpSignInAsync(CompleteEmailOtpSignInRequest request, CancellationToken cancellationToken = default);
+    Task BeginPasswordResetAsync(string emailAddress, CancellationToken cancellationToken = default);
+    Task<ClientSession> CompletePasswordResetAsync(CompletePasswordResetRequest request, CancellationToken cancellationToken = default);
+    Task<ClientSession> CreateClientSessionAsync(SessionData sessionData, CancellationToken cancellationToken = default);
     Task<ResolvedSession?> ResolveSessionAsync(string? cookieHeader, CancellationToken cancellationToken = default);
+    Task SignOutAsync(string? cookieHeader, CancellationToken cancellationToken = default);
     Task ResendVerificationCodeAsync(string emailAddress, System.Net.IPAddress ipAddress, CancellationToken cancellationToken = default);
+    Task<PasskeyChallenge> BeginPasskeySignInAsync(string emailAddress, CancellationToken cancellationToken = default);
+    Task<ClientSession> CompletePasskeySignInAsync(CompletePasskeySignInRequest request, CancellationToken cancellationToken = default);
 }
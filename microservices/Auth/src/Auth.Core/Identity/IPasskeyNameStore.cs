@@ -0,0 +1,12 @@
+namespace AuthSample.Auth.Core.Identity;
+
+/// <summary>
+/// User-chosen display names for passkeys. Cognito only exposes the authenticator-provided
+/// friendly name and offers no way to change it, so renames are kept alongside it.
+/// </summary>
+public interface IPasskeyNameStore
+{
+    Task<IReadOnlyDictionary<string, string>> GetNamesAsync(string userSub, CancellationToken cancellationToken = default);
+    Task SetNameAsync(string userSub, string credentialId, string name, CancellationToken cancellationToken = default);
+    Task DeleteNameAsync(string userSub, string credentialId, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,14 @@
+using AuthSample.Authentication;
+
+namespace AuthSample.Auth.Core.Identity;
+
+public interface IPasskeyRegistrationService
+{
+    Task<string> BeginRegistrationAsync(SessionData session, CancellationToken cancellationToken = default);
+    Task<PasskeyCredential> CompleteRegistrationAsync(SessionData session, string credential, string? name,
+        CancellationToken cancellationToken = default);
+    Task<IReadOnlyList<PasskeyCredential>> ListAsync(SessionData session, CancellationToken cancellationToken = default);
+    Task<PasskeyCredential> RenameAsync(SessionData session, string credentialId, string name,
+        CancellationToken cancellationToken = default);
+    Task DeleteAsync(SessionData session, string credentialId, CancellationToken cancellationToken = default);
+}
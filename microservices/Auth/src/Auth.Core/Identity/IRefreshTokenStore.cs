@@ -7,6 +7,7 @@ public interface IRefreshTokenStore
 {
     Task SaveAsync(RefreshTokenRecord record, CancellationToken cancellationToken = default);
     Task<RefreshTokenRecord?> GetAsync(string rtId, CancellationToken cancellationToken = default);
+    Task DeleteAsync(string rtId, CancellationToken cancellationToken = default);
 }
 
 
@@ -0,0 +1,7 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public enum IdentityProvider
+{
+    Google,
+    Apple
+}
@@ -37,7 +37,7 @@ public class IdentityService(
     }
 
     public async Task<ClientSession?> VerifySignUpAndSignInAsync(string emailAddress, string verificationCode,
-        CancellationToken cancellationToken = default)
+        UserProfile? profile = null, CancellationToken cancellationToken = default)
     {
         string signUpSession;
         try
@@ -53,7 +53,7 @@ public class IdentityService(
 
         try
         {
-            var session = await SignInAsync(emailAddress, signUpSession, cancellationToken).ConfigureAwait(false);
+            var session = await SignInAsync(emailAddress, signUpSession, profile, cancellationToken).ConfigureAwait(false);
             await signUpEligibilityGuard.IncrementConfirmedUsersAsync(cancellationToken).ConfigureAwait(false);
             return session;
         }
@@ -64,6 +64,65 @@ public class IdentityService(
         }
     }
 
+    public async Task<ClientSession> SignInWithPasswordAsync(string emailAddress, string password,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(SignInWithPasswordAsync)}");
+
+        var sessionData = await identityGateway.AuthenticateWithPasswordAsync(emailAddress, password, cancellationToken)
+            .ConfigureAwait(false);
+        activity?.SetTag("signin.result", "authenticated");
+
+        return await CreateClientSessionAsync(sessionData, cancellationToken).ConfigureAwait(false);
+    }
+
+    public async Task<string> BeginEmailOtpSignInAsync(string emailAddress,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(BeginEmailOtpSignInAsync)}");
+
+        var session = await identityGateway.InitiateEmailOtpAuthAsync(emailAddress, cancellationToken)
+            .ConfigureAwait(false);
+        activity?.SetTag("signin.result", "code_sent");
+        return session;
+    }
+
+    public async Task<ClientSession> CompleteEmailOtpSignInAsync(CompleteEmailOtpSignInRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(CompleteEmailOtpSignInAsync)}");
+
+        var sessionData = await identityGateway.RespondToEmailOtpChallengeAsync(request, cancellationToken)
+            .ConfigureAwait(false);
+        activity?.SetTag("signin.result", "authenticated");
+
+        return await CreateClientSessionAsync(sessionData, cancellationToken).ConfigureAwait(false);
+    }
+
+    public async Task BeginPasswordResetAsync(string emailAddress, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(BeginPasswordResetAsync)}");
+
+        await identityGateway.StartPasswordResetAsync(emailAddress, cancellationToken).ConfigureAwait(false);
+        activity?.SetTag("password_reset.result", "code_sent");
+    }
+
+    public async Task<ClientSession> CompletePasswordResetAsync(CompletePasswordResetRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(CompletePasswordResetAsync)}");
+
+        await identityGateway.ConfirmPasswordResetAsync(request, cancellationToken).ConfigureAwait(false);
+        activity?.SetTag("password_reset.result", "password_changed");
+
+        // Locked-out users should land signed in rather than on another password prompt
+        var sessionData = await identityGateway
+            .AuthenticateWithPasswordAsync(request.EmailAddress, request.NewPassword, cancellationToken)
+            .ConfigureAwait(false);
+
+        return await CreateClientSessionAsync(sessionData, cancellationToken).ConfigureAwait(false);
+    }
+
     public async Task<ResolvedSession?> ResolveSessionAsync(
         string? cookieHeader,
         CancellationToken cancellationToken = default)
@@ -164,6 +223,44 @@ public class IdentityService(
         }
     }
 
+    public async Task SignOutAsync(string? cookieHeader, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(SignOutAsync)}");
+
+        var accessTokenSessionId = ParseCookie(cookieHeader, "AT_SID");
+        if (!string.IsNullOrEmpty(accessTokenSessionId))
+        {
+            await _cacheDb.KeyDeleteAsync($"sess:{accessTokenSessionId}").ConfigureAwait(false);
+        }
+
+        var refreshTokenId = ParseCookie(cookieHeader, "RT_SID");
+        if (string.IsNullOrWhiteSpace(refreshTokenId))
+        {
+            return;
+        }
+
+        var refreshRecord = await refreshTokenStore.GetAsync(refreshTokenId, cancellationToken).ConfigureAwait(false);
+        if (refreshRecord is null)
+        {
+            activity?.SetTag("sign_out.result", "refresh_record_missing");
+            return;
+        }
+
+        // The cookies are cleared regardless; a token Cognito still honours only matters if it leaked
+        try
+        {
+            await identityGateway.RevokeRefreshTokenAsync(refreshRecord.RefreshToken, cancellationToken).ConfigureAwait(false);
+        }
+        catch (CognitoOperationFailedException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetTag("error.type", ex.GetType().Name);
+            logger.LogWarning(ex, "Failed to revoke the refresh token while signing out");
+        }
+
+        await refreshTokenStore.DeleteAsync(refreshTokenId, cancellationToken).ConfigureAwait(false);
+    }
+
     public async Task ResendVerificationCodeAsync(string emailAddress, System.Net.IPAddress ipAddress, CancellationToken cancellationToken = default)
     {
         using var activity = System.Diagnostics.Activity.Current?.Source.StartActivity("IdentityService.ResendVerificationCode");
@@ -308,12 +405,59 @@ public class IdentityService(
         }
     }
 
-    private async Task<ClientSession> SignInAsync(string emailAddress, string signUpSession,
+    public async Task<PasskeyChallenge> BeginPasskeySignInAsync(string emailAddress,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(BeginPasskeySignInAsync)}");
+
+        var challenge = await identityGateway.InitiatePasskeyAuthAsync(emailAddress, cancellationToken)
+            .ConfigureAwait(false);
+        activity?.SetTag("passkey.result", "challenge_issued");
+        return challenge;
+    }
+
+    public async Task<ClientSession> CompletePasskeySignInAsync(CompletePasskeySignInRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(IdentityService)}.{nameof(CompletePasskeySignInAsync)}");
+
+        var sessionData = await identityGateway.RespondToPasskeyChallengeAsync(request, cancellationToken)
+            .ConfigureAwait(false);
+        activity?.SetTag("passkey.result", "verified");
+
+        return await CreateClientSessionAsync(sessionData, cancellationToken).ConfigureAwait(false);
+    }
+
+    private async Task<ClientSession> SignInAsync(string emailAddress, string signUpSession, UserProfile? profile,
         CancellationToken cancellationToken)
     {
         var sessionData = await identityGateway.InitiateAuthAsync(emailAddress, signUpSession, cancellationToken)
             .ConfigureAwait(false);
 
+        if (profile is { } userProfile)
+        {
+            await SeedProfileAsync(sessionData, userProfile, cancellationToken).ConfigureAwait(false);
+        }
+
+        return await CreateClientSessionAsync(sessionData, cancellationToken).ConfigureAwait(false);
+    }
+
+    // The account is confirmed by now; the profile can still be edited later, so don't fail the sign up over it
+    private async Task SeedProfileAsync(SessionData session, UserProfile profile, CancellationToken cancellationToken)
+    {
+        try
+        {
+            await identityGateway.UpdateProfileAsync(session.AccessToken, profile, cancellationToken).ConfigureAwait(false);
+        }
+        catch (Exception ex)
+        {
+            logger.LogWarning(ex, "Failed to store the profile collected during sign up");
+        }
+    }
+
+    public async Task<ClientSession> CreateClientSessionAsync(SessionData sessionData,
+        CancellationToken cancellationToken = default)
+    {
         // Generate opaque refresh-session id
         var refreshTokenId = GenerateSessionId();
 
@@ -0,0 +1,8 @@
+namespace AuthSample.Auth.Core.Identity;
+
+/// <summary>
+/// A pending WebAuthn assertion. <see cref="CredentialRequestOptions"/> is the JSON-serialized
+/// PublicKeyCredentialRequestOptions the browser passes to navigator.credentials.get, and
+/// <see cref="Session"/> must be echoed back when the assertion is submitted.
+/// </summary>
+public sealed record PasskeyChallenge(string Session, string CredentialRequestOptions);
@@ -0,0 +1,7 @@
+namespace AuthSample.Auth.Core.Identity;
+
+public sealed record PasskeyCredential(
+    string CredentialId,
+    string Name,
+    DateTime CreatedAt,
+    string? AuthenticatorAttachment);
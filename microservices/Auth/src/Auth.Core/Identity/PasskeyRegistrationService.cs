@@ -0,0 +1,111 @@
+using System.Diagnostics;
+using System.Text.Json;
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Authentication;
+using Microsoft.Extensions.Logging;
+
+namespace AuthSample.Auth.Core.Identity;
+
+public class PasskeyRegistrationService(
+    IIdentityGateway identityGateway,
+    IPasskeyNameStore passkeyNameStore,
+    ILogger<PasskeyRegistrationService> logger) : IPasskeyRegistrationService
+{
+    private static readonly ActivitySource ActivitySource = new("AuthSample.Auth.Core");
+
+    public async Task<string> BeginRegistrationAsync(SessionData session, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(PasskeyRegistrationService)}.{nameof(BeginRegistrationAsync)}");
+
+        return await identityGateway.StartPasskeyRegistrationAsync(session.AccessToken, cancellationToken)
+            .ConfigureAwait(false);
+    }
+
+    public async Task<PasskeyCredential> CompleteRegistrationAsync(SessionData session, string credential, string? name,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(PasskeyRegistrationService)}.{nameof(CompleteRegistrationAsync)}");
+
+        var credentialId = ReadCredentialId(credential);
+        await identityGateway.CompletePasskeyRegistrationAsync(session.AccessToken, credential, cancellationToken)
+            .ConfigureAwait(false);
+        activity?.SetTag("passkey.result", "registered");
+
+        if (!string.IsNullOrWhiteSpace(name))
+        {
+            await passkeyNameStore.SetNameAsync(session.Sub, credentialId, name.Trim(), cancellationToken)
+                .ConfigureAwait(false);
+        }
+
+        logger.LogInformation("Passkey registered");
+        return await FindAsync(session, credentialId, cancellationToken).ConfigureAwait(false);
+    }
+
+    public async Task<IReadOnlyList<PasskeyCredential>> ListAsync(SessionData session,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(PasskeyRegistrationService)}.{nameof(ListAsync)}");
+
+        var credentials = await identityGateway.ListPasskeysAsync(session.AccessToken, cancellationToken)
+            .ConfigureAwait(false);
+        var names = await passkeyNameStore.GetNamesAsync(session.Sub, cancellationToken).ConfigureAwait(false);
+
+        activity?.SetTag("passkey.count", credentials.Count);
+        return credentials
+            .Select(c => names.TryGetValue(c.CredentialId, out var name) ? c with { Name = name } : c)
+            .OrderBy(c => c.CreatedAt)
+            .ToList();
+    }
+
+    public async Task<PasskeyCredential> RenameAsync(SessionData session, string credentialId, string name,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(PasskeyRegistrationService)}.{nameof(RenameAsync)}");
+
+        // Only allow names for credentials the caller actually owns
+        var credential = await FindAsync(session, credentialId, cancellationToken).ConfigureAwait(false);
+        var trimmed = name.Trim();
+        await passkeyNameStore.SetNameAsync(session.Sub, credentialId, trimmed, cancellationToken).ConfigureAwait(false);
+
+        return credential with { Name = trimmed };
+    }
+
+    public async Task DeleteAsync(SessionData session, string credentialId, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity($"{nameof(PasskeyRegistrationService)}.{nameof(DeleteAsync)}");
+
+        await identityGateway.DeletePasskeyAsync(session.AccessToken, credentialId, cancellationToken)
+            .ConfigureAwait(false);
+        await passkeyNameStore.DeleteNameAsync(session.Sub, credentialId, cancellationToken).ConfigureAwait(false);
+
+        logger.LogInformation("Passkey deleted");
+    }
+
+    private async Task<PasskeyCredential> FindAsync(SessionData session, string credentialId,
+        CancellationToken cancellationToken)
+    {
+        var credentials = await ListAsync(session, cancellationToken).ConfigureAwait(false);
+        return credentials.FirstOrDefault(c => c.CredentialId == credentialId)
+               ?? throw new PasskeyNotFoundException();
+    }
+
+    private static string ReadCredentialId(string credential)
+    {
+        try
+        {
+            using var document = JsonDocument.Parse(credential);
+            if (document.RootElement.TryGetProperty("id", out var id) &&
+                id.ValueKind == JsonValueKind.String &&
+                !string.IsNullOrEmpty(id.GetString()))
+            {
+                return id.GetString()!;
+            }
+        }
+        catch (JsonException)
+        {
+            // fall through
+        }
+
+        throw new PasskeyRegistrationFailedException("The passkey credential is malformed.");
+    }
+}
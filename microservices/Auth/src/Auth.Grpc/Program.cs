@@ -5,6 +5,7 @@ using AuthSample.Api.Secrets;
 using AuthSample.Auth.Grpc.Services;
 using AuthSample.Auth.Grpc.Services.Internal;
 using AuthSample.Auth.Infrastructure.DynamoDB;
+using AuthSample.Auth.Infrastructure.Apple;
 using AuthSample.Auth.Infrastructure.Cognito;
 using AuthSample.Auth.Core.Identity;
 using AuthSample.Authentication;
@@ -37,15 +38,22 @@ builder.Services.AddRedisRateLimiter(options => builder.Configuration.Bind("Redi
 // Add services to the container.
 builder.Services.AddGrpc(options =>
 {
+    options.Interceptors.Add<CsrfInterceptor>();
     options.Interceptors.Add<ValidationInterceptor>();
     options.Interceptors.Add<ExceptionsInterceptor>();
 });
 builder.Services.Configure<CognitoOptions>(builder.Configuration.GetSection("Cognito"));
+builder.Services.Configure<AppleOptions>(builder.Configuration.GetSection("Apple"));
 builder.Services.AddAWSService<IAmazonCognitoIdentityProvider>();
 builder.Services.AddDynamoDb(builder.Environment, options => builder.Configuration.Bind("DynamoDb", options));
 builder.Services.AddScoped<IIdentityGateway, CognitoIdentityGateway>();
 builder.Services.AddScoped<IRefreshTokenStore, DynamoDbRefreshTokenStore>();
 builder.Services.AddScoped<IIdentityService, IdentityService>();
+builder.Services.AddScoped<IPasskeyNameStore, DynamoDbPasskeyNameStore>();
+builder.Services.AddScoped<IPasskeyRegistrationService, PasskeyRegistrationService>();
+builder.Services.AddHttpClient<IFederatedIdentityGateway, CognitoFederatedIdentityGateway>();
+builder.Services.AddHttpClient<IAppleIdentityGateway, AppleIdentityGateway>();
+builder.Services.AddScoped<IFederatedSignInService, FederatedSignInService>();
 builder.Services.AddSingleton<ISignUpEligibilityGuard, CognitoSignUpEligibilityGuard>();
 builder.Services.AddValidatorsFromAssemblyContaining<Program>();
 
@@ -63,6 +71,10 @@ app.Services.GetRequiredService<ILoggerFactory>()
 
 // Configure the HTTP request pipeline.
 app.MapGrpcService<SignUpService>();
+app.MapGrpcService<SignInService>();
+app.MapGrpcService<PasswordResetService>();
+app.MapGrpcService<PasskeyService>();
+app.MapGrpcService<FederationService>();
 app.MapGrpcService<AuthorizationService>();
 app.MapGrpcService<InternalAuthorizationService>();
 
@@ -28,13 +28,15 @@ public sealed class AuthorizationService(
             throw new RpcException(new Status(StatusCode.PermissionDenied, "Unauthorized"));
         }
 
-        if (string.IsNullOrEmpty(resolved.NewAccessTokenId) && resolved.AccessTokenExpiry is null)
+        // Tell the caller who the session belongs to; a refresh also rotates the access token cookie
+        var metadata = IdentityClaimHeaders.Create(resolved.Session);
+        if (!string.IsNullOrEmpty(resolved.NewAccessTokenId) || resolved.AccessTokenExpiry is not null)
         {
-            return new Empty();
+            var accessTokenCookie = $"AT_SID={resolved.NewAccessTokenId}; Path=/; HttpOnly; Secure; SameSite=Strict; Expires={resolved.AccessTokenExpiry!.Value.ToUniversalTime():R}";
+            metadata.Add("Set-Cookie", accessTokenCookie);
         }
 
-        var accessTokenCookie = $"AT_SID={resolved.NewAccessTokenId}; Path=/; HttpOnly; Secure; SameSite=Strict; Expires={resolved.AccessTokenExpiry!.Value.ToUniversalTime():R}";
-        await context.WriteResponseHeadersAsync(new Metadata { { "Set-Cookie", accessTokenCookie } }).ConfigureAwait(false);
+        await context.WriteResponseHeadersAsync(metadata).ConfigureAwait(false);
         return new Empty();
 
     }
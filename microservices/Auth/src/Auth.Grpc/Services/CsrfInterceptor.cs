@@ -0,0 +1,27 @@
+using Grpc.Core;
+using Grpc.Core.Interceptors;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+/// <summary>
+/// Rejects state-changing calls that arrive without a CSRF token matching the CSRF cookie.
+/// </summary>
+public sealed class CsrfInterceptor(ILogger<CsrfInterceptor> logger) : Interceptor
+{
+    public override async Task<TResponse> UnaryServerHandler<TRequest, TResponse>(
+        TRequest request,
+        ServerCallContext context,
+        UnaryServerMethod<TRequest, TResponse> continuation)
+    {
+        if (CsrfProtection.RequiresToken(context.Method) &&
+            !CsrfProtection.IsValid(
+                context.RequestHeaders.GetValue("cookie"),
+                context.RequestHeaders.GetValue(CsrfProtection.HeaderName)))
+        {
+            logger.LogWarning("Rejected {Method}: CSRF token missing or mismatched", context.Method);
+            throw new RpcException(new Status(StatusCode.PermissionDenied, "CSRF token missing or invalid"));
+        }
+
+        return await continuation(request, context).ConfigureAwait(false);
+    }
+}
@@ -0,0 +1,38 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+/// <summary>
+/// Double-submit CSRF check. The web app sets a random token in a cookie the page can read and
+/// echoes it back in a header; a cross-site form or script can make the browser send the cookie
+/// but cannot read it, so it cannot produce a matching header.
+/// </summary>
+public static class CsrfProtection
+{
+    public const string CookieName = "CSRF_TOKEN";
+    public const string HeaderName = "x-csrf-token";
+
+    // Calls that change nothing, plus calls made by the web server and Envoy rather than a browser
+    private static readonly HashSet<string> ExemptMethods = new(StringComparer.Ordinal)
+    {
+        "/auth.AuthorizationService/Check",
+        "/auth.PasskeyService/ListPasskeysAsync",
+        "/envoy.service.auth.v3.Authorization/Check"
+    };
+
+    public static bool RequiresToken(string method) => !ExemptMethods.Contains(method);
+
+    public static bool IsValid(string? cookieHeader, string? headerToken)
+    {
+        var cookieToken = AuthorizationValidationHelper.ParseCookie(cookieHeader, CookieName);
+        if (string.IsNullOrEmpty(cookieToken) || string.IsNullOrEmpty(headerToken))
+        {
+            return false;
+        }
+
+        return CryptographicOperations.FixedTimeEquals(
+            Encoding.UTF8.GetBytes(cookieToken),
+            Encoding.UTF8.GetBytes(headerToken));
+    }
+}
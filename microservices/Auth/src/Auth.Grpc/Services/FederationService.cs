@@ -0,0 +1,115 @@
+using AuthSample.Api.RateLimiting;
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Auth.Grpc.Protos;
+using Grpc.Core;
+using IdentityProvider = AuthSample.Auth.Grpc.Protos.IdentityProvider;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+public class FederationService(
+    ISignUpEligibilityGuard eligibilityGuard,
+    IFederatedSignInService federatedSignInService,
+    ILogger<FederationService> logger) : Protos.FederationService.FederationServiceBase
+{
+    public override async Task<BeginFederatedSignInResponse> BeginFederatedSignInAsync(
+        BeginFederatedSignInRequest request, ServerCallContext context)
+    {
+        // A first federated sign in creates the account
+        await eligibilityGuard.EnforceMaxConfirmedUsersAsync().ConfigureAwait(false);
+
+        await context.GetHttpContext()
+            .EnforceFixedByIpAsync(3600, 30, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Starting federated sign in with {Provider}", request.Provider);
+        var authorization = await federatedSignInService
+            .BeginAsync(ToCore(request.Provider), request.RedirectUri, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return new BeginFederatedSignInResponse
+        {
+            AuthorizationUrl = authorization.AuthorizationUri.ToString(),
+            State = authorization.State
+        };
+    }
+
+    public override async Task<CompleteFederatedSignInResponse> CompleteFederatedSignInAsync(
+        CompleteFederatedSignInRequest request, ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByIpAsync(3600, 30, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Completing federated sign in");
+        var result = await federatedSignInService
+            .CompleteAsync(request.Code, request.State, request.Name, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        await SessionCookies.WriteAsync(context, result.ClientSession).ConfigureAwait(false);
+
+        logger.LogInformation("Federated sign in completed");
+        return new CompleteFederatedSignInResponse
+        {
+            Provider = FromCore(result.Provider),
+            IsNewUser = result.IsNewUser
+        };
+    }
+
+    public override async Task<BeginAppleSignInResponse> BeginAppleSignInAsync(
+        BeginAppleSignInRequest request, ServerCallContext context)
+    {
+        // A first sign in with Apple creates the account
+        await eligibilityGuard.EnforceMaxConfirmedUsersAsync().ConfigureAwait(false);
+
+        await context.GetHttpContext()
+            .EnforceFixedByIpAsync(3600, 30, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Starting sign in with Apple");
+        var authorization = await federatedSignInService
+            .BeginAppleAsync(request.RedirectUri, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return new BeginAppleSignInResponse
+        {
+            State = authorization.State,
+            Nonce = authorization.Nonce
+        };
+    }
+
+    public override async Task<CompleteFederatedSignInResponse> CompleteAppleSignInAsync(
+        CompleteFederatedSignInRequest request, ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByIpAsync(3600, 30, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Completing sign in with Apple");
+        var result = await federatedSignInService
+            .CompleteAppleAsync(request.Code, request.State, request.Name, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        await SessionCookies.WriteAsync(context, result.ClientSession).ConfigureAwait(false);
+
+        logger.LogInformation("Sign in with Apple completed");
+        return new CompleteFederatedSignInResponse
+        {
+            Provider = FromCore(result.Provider),
+            IsNewUser = result.IsNewUser
+        };
+    }
+
+    private static Core.Identity.IdentityProvider ToCore(IdentityProvider provider) => provider switch
+    {
+        IdentityProvider.Google => Core.Identity.IdentityProvider.Google,
+        IdentityProvider.Apple => Core.Identity.IdentityProvider.Apple,
+        _ => throw new ArgumentOutOfRangeException(nameof(provider), provider, null)
+    };
+
+    private static IdentityProvider FromCore(Core.Identity.IdentityProvider provider) => provider switch
+    {
+        Core.Identity.IdentityProvider.Google => IdentityProvider.Google,
+        Core.Identity.IdentityProvider.Apple => IdentityProvider.Apple,
+        _ => throw new ArgumentOutOfRangeException(nameof(provider), provider, null)
+    };
+}
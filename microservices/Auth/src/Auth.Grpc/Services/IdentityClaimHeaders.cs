@@ -0,0 +1,63 @@
+using System.Globalization;
+using System.IdentityModel.Tokens.Jwt;
+using AuthSample.Authentication;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+/// <summary>
+/// Response headers through which Check tells the caller whose session it verified.
+/// Values are percent-encoded because gRPC metadata only carries ASCII.
+/// </summary>
+public static class IdentityClaimHeaders
+{
+    public const string Subject = "x-auth-subject";
+    public const string Email = "x-auth-email";
+    public const string Roles = "x-auth-roles";
+    public const string SessionExpiresAt = "x-auth-session-expires-at";
+
+    private const string GroupsClaim = "cognito:groups";
+
+    public static Metadata Create(SessionData session)
+    {
+        var metadata = new Metadata();
+
+        if (!string.IsNullOrEmpty(session.Sub))
+        {
+            metadata.Add(Subject, Uri.EscapeDataString(session.Sub));
+        }
+
+        if (!string.IsNullOrEmpty(session.Email))
+        {
+            metadata.Add(Email, Uri.EscapeDataString(session.Email));
+        }
+
+        var roles = ReadRoles(session.AccessToken);
+        if (roles.Count > 0)
+        {
+            metadata.Add(Roles, string.Join(',', roles.Select(Uri.EscapeDataString)));
+        }
+
+        // Epoch seconds; the claims are only good until the access token behind them expires
+        var expiresAt = new DateTimeOffset(session.AccessTokenExpiry.ToUniversalTime()).ToUnixTimeSeconds();
+        metadata.Add(SessionExpiresAt, expiresAt.ToString(CultureInfo.InvariantCulture));
+
+        return metadata;
+    }
+
+    private static IReadOnlyList<string> ReadRoles(string accessToken)
+    {
+        if (string.IsNullOrEmpty(accessToken))
+        {
+            return [];
+        }
+
+        // The token was validated while resolving the session; this only reads its groups
+        var token = new JwtSecurityTokenHandler().ReadJwtToken(accessToken);
+        return token.Claims
+            .Where(c => c.Type == GroupsClaim && !string.IsNullOrEmpty(c.Value))
+            .Select(c => c.Value)
+            .Distinct(StringComparer.Ordinal)
+            .ToList();
+    }
+}
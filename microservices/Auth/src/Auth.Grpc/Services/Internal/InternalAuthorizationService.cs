@@ -10,18 +10,14 @@ public sealed class InternalAuthorizationService(
 {
     public override async Task<CheckResponse> Check(CheckRequest request, ServerCallContext context)
     {
-        // Safely read the cookie header from ext_authz request attributes
-        string? cookieHeader = null;
         var httpAttributes = request.Attributes?.Request?.Http;
-        if (httpAttributes?.Headers != null)
+        var cookieHeader = GetHeader(httpAttributes, "cookie");
+
+        // Routes behind ext_authz get the same CSRF check the Auth service applies to its own calls
+        if (CsrfProtection.RequiresToken(GrpcMethod(httpAttributes?.Path)) &&
+            !CsrfProtection.IsValid(cookieHeader, GetHeader(httpAttributes, CsrfProtection.HeaderName)))
         {
-            // Try direct map lookup (case-sensitive)
-            if (!httpAttributes.Headers.TryGetValue("cookie", out cookieHeader))
-            {
-                // Fallback to case-insensitive search
-                cookieHeader = httpAttributes.Headers
-                    .FirstOrDefault(h => h.Key.Equals("cookie", StringComparison.OrdinalIgnoreCase)).Value;
-            }
+            return DeniedResponse(StatusCode.PermissionDenied, "CSRF token missing or invalid", null);
         }
 
         var resolved = await identityService.ResolveSessionAsync(
@@ -36,6 +32,34 @@ public sealed class InternalAuthorizationService(
         return DeniedResponse(StatusCode.PermissionDenied, "Unauthorized", resolved);
     }
 
+    private static string? GetHeader(AttributeContext.Types.Request.Types.HttpRequest? httpAttributes, string name)
+    {
+        if (httpAttributes?.Headers == null)
+        {
+            return null;
+        }
+
+        // Try direct map lookup (case-sensitive)
+        if (httpAttributes.Headers.TryGetValue(name, out var value))
+        {
+            return value;
+        }
+
+        // Fallback to case-insensitive search
+        return httpAttributes.Headers
+            .FirstOrDefault(h => h.Key.Equals(name, StringComparison.OrdinalIgnoreCase)).Value;
+    }
+
+    /// <summary>
+    /// The gRPC method a proxied path is for; Envoy sees it before the route prefix is rewritten
+    /// (e.g. <c>/greet/greet.Greeter/SayHello</c>).
+    /// </summary>
+    private static string GrpcMethod(string? path)
+    {
+        var segments = (path ?? string.Empty).Split('?')[0].Split('/', StringSplitOptions.RemoveEmptyEntries);
+        return "/" + string.Join('/', segments.TakeLast(2));
+    }
+
     private static CheckResponse AllowedResponse(ResolvedSession resolved)
     {
         var data = resolved.Session!;
@@ -0,0 +1,149 @@
+using AuthSample.Api.RateLimiting;
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Authentication;
+using Google.Protobuf.WellKnownTypes;
+using Grpc.Core;
+using CompletePasskeySignInRequest = AuthSample.Auth.Grpc.Protos.CompletePasskeySignInRequest;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+public class PasskeyService(
+    IIdentityService identityService,
+    IPasskeyRegistrationService passkeyRegistrationService,
+    ILogger<PasskeyService> logger) : Protos.PasskeyService.PasskeyServiceBase
+{
+    public override async Task<BeginPasskeySignInResponse> BeginPasskeySignInAsync(BeginPasskeySignInRequest request,
+        ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByEmailAsync(request.EmailAddress, 3600, 15, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Starting passkey sign in");
+        var challenge = await identityService
+            .BeginPasskeySignInAsync(request.EmailAddress, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return new BeginPasskeySignInResponse
+        {
+            Session = challenge.Session,
+            CredentialRequestOptions = challenge.CredentialRequestOptions
+        };
+    }
+
+    public override async Task<Empty> CompletePasskeySignInAsync(CompletePasskeySignInRequest request,
+        ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByEmailAsync(request.EmailAddress, 3600, 15, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Completing passkey sign in");
+        var clientSession = await identityService
+            .CompletePasskeySignInAsync(
+                new Core.Identity.CompletePasskeySignInRequest(request.EmailAddress, request.Session, request.Credential),
+                context.CancellationToken)
+            .ConfigureAwait(false);
+
+        await SessionCookies.WriteAsync(context, clientSession).ConfigureAwait(false);
+
+        logger.LogInformation("Passkey sign in completed");
+        return new Empty();
+    }
+
+    public override async Task<BeginPasskeyRegistrationResponse> BeginPasskeyRegistrationAsync(Empty request,
+        ServerCallContext context)
+    {
+        var session = await RequireSessionAsync(context).ConfigureAwait(false);
+
+        logger.LogInformation("Starting passkey registration");
+        var creationOptions = await passkeyRegistrationService
+            .BeginRegistrationAsync(session, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return new BeginPasskeyRegistrationResponse { CredentialCreationOptions = creationOptions };
+    }
+
+    public override async Task<Passkey> CompletePasskeyRegistrationAsync(CompletePasskeyRegistrationRequest request,
+        ServerCallContext context)
+    {
+        var session = await RequireSessionAsync(context).ConfigureAwait(false);
+
+        var credential = await passkeyRegistrationService
+            .CompleteRegistrationAsync(
+                session,
+                request.Credential,
+                request.HasName ? request.Name : null,
+                context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Passkey registration completed");
+        return ToProto(credential);
+    }
+
+    public override async Task<ListPasskeysResponse> ListPasskeysAsync(Empty request, ServerCallContext context)
+    {
+        var session = await RequireSessionAsync(context).ConfigureAwait(false);
+
+        var credentials = await passkeyRegistrationService
+            .ListAsync(session, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        var response = new ListPasskeysResponse();
+        response.Passkeys.AddRange(credentials.Select(ToProto));
+        return response;
+    }
+
+    public override async Task<Passkey> RenamePasskeyAsync(RenamePasskeyRequest request, ServerCallContext context)
+    {
+        var session = await RequireSessionAsync(context).ConfigureAwait(false);
+
+        var credential = await passkeyRegistrationService
+            .RenameAsync(session, request.CredentialId, request.Name, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return ToProto(credential);
+    }
+
+    public override async Task<Empty> DeletePasskeyAsync(DeletePasskeyRequest request, ServerCallContext context)
+    {
+        var session = await RequireSessionAsync(context).ConfigureAwait(false);
+
+        await passkeyRegistrationService
+            .DeleteAsync(session, request.CredentialId, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return new Empty();
+    }
+
+    private async Task<SessionData> RequireSessionAsync(ServerCallContext context)
+    {
+        var cookieHeader = context.GetHttpContext().Request.Headers.Cookie.ToString();
+        var resolved = await identityService
+            .ResolveSessionAsync(cookieHeader, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        if (resolved?.Session is null)
+        {
+            throw new RpcException(new Status(StatusCode.Unauthenticated, "Unauthorized"));
+        }
+
+        if (!string.IsNullOrEmpty(resolved.NewAccessTokenId) && resolved.AccessTokenExpiry is not null)
+        {
+            await SessionCookies
+                .WriteAccessTokenAsync(context, resolved.NewAccessTokenId, resolved.AccessTokenExpiry.Value)
+                .ConfigureAwait(false);
+        }
+
+        return resolved.Session;
+    }
+
+    private static Passkey ToProto(PasskeyCredential credential) => new()
+    {
+        CredentialId = credential.CredentialId,
+        Name = credential.Name,
+        CreatedAt = Timestamp.FromDateTime(DateTime.SpecifyKind(credential.CreatedAt, DateTimeKind.Utc)),
+        AuthenticatorAttachment = credential.AuthenticatorAttachment ?? string.Empty
+    };
+}
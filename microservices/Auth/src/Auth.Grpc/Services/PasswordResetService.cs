@@ -0,0 +1,47 @@
+using AuthSample.Api.RateLimiting;
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Auth.Grpc.Protos;
+using Google.Protobuf.WellKnownTypes;
+using Grpc.Core;
+using CompletePasswordResetRequest = AuthSample.Auth.Grpc.Protos.CompletePasswordResetRequest;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+public class PasswordResetService(
+    IIdentityService identityService,
+    ILogger<PasswordResetService> logger) : Protos.PasswordResetService.PasswordResetServiceBase
+{
+    public override async Task<Empty> BeginPasswordResetAsync(BeginPasswordResetRequest request, ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByEmailAsync(request.EmailAddress, 3600, 5, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Starting password reset");
+        await identityService
+            .BeginPasswordResetAsync(request.EmailAddress, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return new Empty();
+    }
+
+    public override async Task<Empty> CompletePasswordResetAsync(CompletePasswordResetRequest request,
+        ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByEmailAsync(request.EmailAddress, 3600, 10, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Completing password reset");
+        var clientSession = await identityService
+            .CompletePasswordResetAsync(
+                new Core.Identity.CompletePasswordResetRequest(request.EmailAddress, request.VerificationCode, request.NewPassword),
+                context.CancellationToken)
+            .ConfigureAwait(false);
+
+        await SessionCookies.WriteAsync(context, clientSession).ConfigureAwait(false);
+
+        logger.LogInformation("Password reset completed");
+        return new Empty();
+    }
+}
@@ -0,0 +1,39 @@
+using AuthSample.Auth.Core.Identity;
+using Grpc.Core;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+public static class SessionCookies
+{
+    public static Task WriteAsync(ServerCallContext context, ClientSession clientSession)
+    {
+        return context.WriteResponseHeadersAsync(new Metadata
+        {
+            { "set-cookie", AccessTokenCookie(clientSession.AccessTokenId, clientSession.AccessTokenExpiry) },
+            { "set-cookie", RefreshTokenCookie(clientSession.RefreshTokenId, clientSession.RefreshTokenExpiry) }
+        });
+    }
+
+    public static Task WriteAccessTokenAsync(ServerCallContext context, string accessTokenId, DateTime expiry)
+    {
+        return context.WriteResponseHeadersAsync(new Metadata
+        {
+            { "set-cookie", AccessTokenCookie(accessTokenId, expiry) }
+        });
+    }
+
+    public static Task ClearAsync(ServerCallContext context)
+    {
+        return context.WriteResponseHeadersAsync(new Metadata
+        {
+            { "set-cookie", AccessTokenCookie(string.Empty, DateTime.UnixEpoch) },
+            { "set-cookie", RefreshTokenCookie(string.Empty, DateTime.UnixEpoch) }
+        });
+    }
+
+    private static string AccessTokenCookie(string accessTokenId, DateTime expiry) =>
+        $"AT_SID={accessTokenId}; Path=/; HttpOnly; Secure; SameSite=Strict; Expires={expiry.ToUniversalTime():R}";
+
+    private static string RefreshTokenCookie(string refreshTokenId, DateTime expiry) =>
+        $"RT_SID={refreshTokenId}; Path=/; HttpOnly; Secure; SameSite=Strict; Expires={expiry.ToUniversalTime():R}";
+}
@@ -0,0 +1,76 @@
+using AuthSample.Api.RateLimiting;
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Auth.Grpc.Protos;
+using Google.Protobuf.WellKnownTypes;
+using Grpc.Core;
+using CompleteEmailOtpSignInRequest = AuthSample.Auth.Grpc.Protos.CompleteEmailOtpSignInRequest;
+
+namespace AuthSample.Auth.Grpc.Services;
+
+public class SignInService(
+    IIdentityService identityService,
+    ILogger<SignInService> logger) : Protos.SignInService.SignInServiceBase
+{
+    public override async Task<Empty> SignInWithPasswordAsync(SignInWithPasswordRequest request, ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByEmailAsync(request.EmailAddress, 3600, 10, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Starting password sign in");
+        var clientSession = await identityService
+            .SignInWithPasswordAsync(request.EmailAddress, request.Password, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        await SessionCookies.WriteAsync(context, clientSession).ConfigureAwait(false);
+
+        logger.LogInformation("Password sign in completed");
+        return new Empty();
+    }
+
+    public override async Task<BeginEmailOtpSignInResponse> BeginEmailOtpSignInAsync(BeginEmailOtpSignInRequest request,
+        ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByEmailAsync(request.EmailAddress, 3600, 5, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Starting email code sign in");
+        var session = await identityService
+            .BeginEmailOtpSignInAsync(request.EmailAddress, context.CancellationToken)
+            .ConfigureAwait(false);
+
+        return new BeginEmailOtpSignInResponse { Session = session };
+    }
+
+    public override async Task<Empty> CompleteEmailOtpSignInAsync(CompleteEmailOtpSignInRequest request,
+        ServerCallContext context)
+    {
+        await context.GetHttpContext()
+            .EnforceFixedByEmailAsync(request.EmailAddress, 3600, 5, cancellationToken: context.CancellationToken)
+            .ConfigureAwait(false);
+
+        logger.LogInformation("Completing email code sign in");
+        var clientSession = await identityService
+            .CompleteEmailOtpSignInAsync(
+                new Core.Identity.CompleteEmailOtpSignInRequest(request.EmailAddress, request.Session, request.VerificationCode),
+                context.CancellationToken)
+            .ConfigureAwait(false);
+
+        await SessionCookies.WriteAsync(context, clientSession).ConfigureAwait(false);
+
+        logger.LogInformation("Email code sign in completed");
+        return new Empty();
+    }
+
+    public override async Task<Empty> SignOutAsync(Empty request, ServerCallContext context)
+    {
+        var cookieHeader = context.GetHttpContext().Request.Headers.Cookie.ToString();
+
+        logger.LogInformation("Signing out");
+        await identityService.SignOutAsync(cookieHeader, context.CancellationToken).ConfigureAwait(false);
+
+        await SessionCookies.ClearAsync(context).ConfigureAwait(false);
+        return new Empty();
+    }
+}
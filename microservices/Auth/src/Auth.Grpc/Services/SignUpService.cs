@@ -50,21 +50,18 @@ public class SignUpService(
 
         logger.LogInformation("Verifying sign up");
         var clientSession = await identityService
-            .VerifySignUpAndSignInAsync(request.EmailAddress, request.VerificationCode, context.CancellationToken)
+            .VerifySignUpAndSignInAsync(
+                request.EmailAddress,
+                request.VerificationCode,
+                ToUserProfile(request),
+                context.CancellationToken)
             .ConfigureAwait(false);
 
         logger.LogInformation("Sign up completed");
 
         if (clientSession is not null)
         {
-            var accessTokenCookie =
-                $"AT_SID={clientSession.AccessTokenId}; Path=/; HttpOnly; Secure; SameSite=Strict; Expires={clientSession.AccessTokenExpiry.ToUniversalTime():R}";
-            var refreshTokenCookie =
-                $"RT_SID={clientSession.RefreshTokenId}; Path=/; HttpOnly; Secure; SameSite=Strict; Expires={clientSession.RefreshTokenExpiry.ToUniversalTime():R}";
-            await context.WriteResponseHeadersAsync(new Metadata
-            {
-                { "set-cookie", accessTokenCookie }, { "set-cookie", refreshTokenCookie }
-            }).ConfigureAwait(false);
+            await SessionCookies.WriteAsync(context, clientSession).ConfigureAwait(false);
 
             return new VerifyAndSignInResponse { NextStep = SignUpStep.RedirectRequired };
         }
@@ -88,6 +85,21 @@ public class SignUpService(
         return new Empty();
     }
 
+    // Older clients don't collect a name, so the profile is only seeded when one was sent
+    private static UserProfile? ToUserProfile(VerifyAndSignInRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            return null;
+        }
+
+        var preferredName = request.HasPreferredName && !string.IsNullOrWhiteSpace(request.PreferredName)
+            ? request.PreferredName.Trim()
+            : null;
+
+        return new UserProfile(request.Name.Trim(), preferredName);
+    }
+
     private static async Task EnforceVerificationCodeLimit(HttpContext context, string emailAddress, CancellationToken cancellationToken)
     {
         var verificationCodePath  = Protos.SignUpService.Descriptor
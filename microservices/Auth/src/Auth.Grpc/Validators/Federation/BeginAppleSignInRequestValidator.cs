@@ -0,0 +1,19 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.Federation;
+
+public sealed class BeginAppleSignInRequestValidator : AbstractValidator<BeginAppleSignInRequest>
+{
+    public BeginAppleSignInRequestValidator()
+    {
+        RuleFor(x => x.RedirectUri)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Redirect URI is required.")
+            .Must(BeAbsoluteHttpUri).WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Redirect URI is not valid.");
+    }
+
+    private static bool BeAbsoluteHttpUri(string value) =>
+        Uri.TryCreate(value, UriKind.Absolute, out var uri) &&
+        (uri.Scheme == Uri.UriSchemeHttps || uri.Scheme == Uri.UriSchemeHttp);
+}
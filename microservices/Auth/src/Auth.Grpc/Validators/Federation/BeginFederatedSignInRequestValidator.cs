@@ -0,0 +1,23 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.Federation;
+
+public sealed class BeginFederatedSignInRequestValidator : AbstractValidator<BeginFederatedSignInRequest>
+{
+    public BeginFederatedSignInRequestValidator()
+    {
+        RuleFor(x => x.Provider)
+            .NotEqual(IdentityProvider.Unspecified).WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Identity provider is required.")
+            .IsInEnum().WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Identity provider is not supported.");
+
+        RuleFor(x => x.RedirectUri)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Redirect URI is required.")
+            .Must(BeAbsoluteHttpUri).WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Redirect URI is not valid.");
+    }
+
+    private static bool BeAbsoluteHttpUri(string value) =>
+        Uri.TryCreate(value, UriKind.Absolute, out var uri) &&
+        (uri.Scheme == Uri.UriSchemeHttps || uri.Scheme == Uri.UriSchemeHttp);
+}
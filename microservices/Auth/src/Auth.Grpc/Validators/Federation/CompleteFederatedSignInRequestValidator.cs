@@ -0,0 +1,20 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.Federation;
+
+public sealed class CompleteFederatedSignInRequestValidator : AbstractValidator<CompleteFederatedSignInRequest>
+{
+    public CompleteFederatedSignInRequestValidator()
+    {
+        RuleFor(x => x.Code)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Authorization code is required.");
+
+        RuleFor(x => x.State)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("State is required.");
+
+        RuleFor(x => x.Name)
+            .MaximumLength(256).WithErrorCode(ErrorCodes.InvalidLength).WithMessage("Name must be at most 256 characters.");
+    }
+}
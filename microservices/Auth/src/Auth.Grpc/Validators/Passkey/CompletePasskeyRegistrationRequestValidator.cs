@@ -0,0 +1,21 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.Passkey;
+
+public sealed class CompletePasskeyRegistrationRequestValidator : AbstractValidator<CompletePasskeyRegistrationRequest>
+{
+    public CompletePasskeyRegistrationRequestValidator()
+    {
+        RuleFor(x => x.Credential)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Credential is required.");
+
+        // Name is optional; validate only when provided
+        When(x => x.HasName, () =>
+        {
+            RuleFor(x => x.Name)
+                .MaximumLength(64).WithErrorCode(ErrorCodes.InvalidLength).WithMessage("Passkey name must be at most 64 characters.");
+        });
+    }
+}
@@ -0,0 +1,21 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.Passkey;
+
+public sealed class CompletePasskeySignInRequestValidator : AbstractValidator<CompletePasskeySignInRequest>
+{
+    public CompletePasskeySignInRequestValidator()
+    {
+        RuleFor(x => x.EmailAddress)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Email address is required.")
+            .EmailAddress().WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Email address is not valid.");
+
+        RuleFor(x => x.Session)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Session is required.");
+
+        RuleFor(x => x.Credential)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Credential is required.");
+    }
+}
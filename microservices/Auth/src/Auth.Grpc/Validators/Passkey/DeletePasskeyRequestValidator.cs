@@ -0,0 +1,14 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.Passkey;
+
+public sealed class DeletePasskeyRequestValidator : AbstractValidator<DeletePasskeyRequest>
+{
+    public DeletePasskeyRequestValidator()
+    {
+        RuleFor(x => x.CredentialId)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Credential ID is required.");
+    }
+}
@@ -0,0 +1,18 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.Passkey;
+
+public sealed class RenamePasskeyRequestValidator : AbstractValidator<RenamePasskeyRequest>
+{
+    public RenamePasskeyRequestValidator()
+    {
+        RuleFor(x => x.CredentialId)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Credential ID is required.");
+
+        RuleFor(x => x.Name)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Passkey name is required.")
+            .MaximumLength(64).WithErrorCode(ErrorCodes.InvalidLength).WithMessage("Passkey name must be at most 64 characters.");
+    }
+}
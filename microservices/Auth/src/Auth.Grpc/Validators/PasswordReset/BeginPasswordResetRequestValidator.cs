@@ -0,0 +1,15 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.PasswordReset;
+
+public sealed class BeginPasswordResetRequestValidator : AbstractValidator<BeginPasswordResetRequest>
+{
+    public BeginPasswordResetRequestValidator()
+    {
+        RuleFor(x => x.EmailAddress)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Email address is required.")
+            .EmailAddress().WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Email address is not valid.");
+    }
+}
@@ -0,0 +1,26 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.PasswordReset;
+
+public sealed class CompletePasswordResetRequestValidator : AbstractValidator<CompletePasswordResetRequest>
+{
+    public CompletePasswordResetRequestValidator()
+    {
+        RuleFor(x => x.EmailAddress)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Email address is required.")
+            .EmailAddress().WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Email address is not valid.");
+
+        RuleFor(x => x.VerificationCode)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Verification code is required.")
+            .Length(6).WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Verification code must be 6 characters.");
+
+        // Same rules as sign up
+        RuleFor(x => x.NewPassword)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("New password is required.")
+            .MinimumLength(8).WithErrorCode(ErrorCodes.InvalidLength).WithMessage("New password must be at least 8 characters.")
+            .Matches("[A-Za-z]").WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("New password must contain at least one letter.")
+            .Matches("\\d").WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("New password must contain at least one number.");
+    }
+}
@@ -0,0 +1,15 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.SignIn;
+
+public sealed class BeginEmailOtpSignInRequestValidator : AbstractValidator<BeginEmailOtpSignInRequest>
+{
+    public BeginEmailOtpSignInRequestValidator()
+    {
+        RuleFor(x => x.EmailAddress)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Email address is required.")
+            .EmailAddress().WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Email address is not valid.");
+    }
+}
@@ -0,0 +1,22 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.SignIn;
+
+public sealed class CompleteEmailOtpSignInRequestValidator : AbstractValidator<CompleteEmailOtpSignInRequest>
+{
+    public CompleteEmailOtpSignInRequestValidator()
+    {
+        RuleFor(x => x.EmailAddress)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Email address is required.")
+            .EmailAddress().WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Email address is not valid.");
+
+        RuleFor(x => x.Session)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Session is required.");
+
+        RuleFor(x => x.VerificationCode)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Verification code is required.")
+            .Length(6).WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Verification code must be 6 characters.");
+    }
+}
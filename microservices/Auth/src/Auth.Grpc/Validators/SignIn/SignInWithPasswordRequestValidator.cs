@@ -0,0 +1,19 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Exceptions;
+using FluentValidation;
+
+namespace AuthSample.Auth.Grpc.Validators.SignIn;
+
+public sealed class SignInWithPasswordRequestValidator : AbstractValidator<SignInWithPasswordRequest>
+{
+    public SignInWithPasswordRequestValidator()
+    {
+        RuleFor(x => x.EmailAddress)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Email address is required.")
+            .EmailAddress().WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Email address is not valid.");
+
+        // Password policy is enforced at sign up; only presence is checked here
+        RuleFor(x => x.Password)
+            .NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Password is required.");
+    }
+}
@@ -16,7 +16,15 @@ public sealed class VerifyAndSignInRequestValidator : AbstractValidator<VerifyAn
 			.NotEmpty().WithErrorCode(ErrorCodes.MissingParameter).WithMessage("Verification code is required.")
 			.Length(6).WithErrorCode(ErrorCodes.InvalidParameter).WithMessage("Verification code must be 6 characters.");
 
-		// Name is optional for verification; no validation required here
+		// Name is optional so clients that don't collect it can still verify
+		RuleFor(x => x.Name)
+			.MaximumLength(256).WithErrorCode(ErrorCodes.InvalidLength).WithMessage("Name must be at most 256 characters.");
+
+		When(x => x.HasPreferredName, () =>
+		{
+			RuleFor(x => x.PreferredName)
+				.MaximumLength(256).WithErrorCode(ErrorCodes.InvalidLength).WithMessage("Preferred name must be at most 256 characters.");
+		});
 	}
 }
 
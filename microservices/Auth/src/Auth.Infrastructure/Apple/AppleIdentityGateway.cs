@@ -0,0 +1,138 @@
+using System.Diagnostics;
+using System.IdentityModel.Tokens.Jwt;
+using System.Net;
+using System.Security.Claims;
+using System.Security.Cryptography;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Auth.Core.Identity;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Microsoft.IdentityModel.Tokens;
+
+namespace AuthSample.Auth.Infrastructure.Apple;
+
+/// <summary>
+/// Exchanges the authorization code from the Sign in with Apple popup at Apple's token endpoint.
+/// The ID token arrives straight from Apple over TLS, so its claims are checked but its signature is not.
+/// </summary>
+public sealed class AppleIdentityGateway(
+    HttpClient httpClient,
+    ILogger<AppleIdentityGateway> logger,
+    IOptions<AppleOptions> appleOptions) : IAppleIdentityGateway
+{
+    private static readonly ActivitySource ActivitySource = new("AuthSample.Auth.Infrastructure");
+    private static readonly TimeSpan ClientSecretLifetime = TimeSpan.FromMinutes(5);
+
+    public async Task<AppleIdentity> ExchangeAuthorizationCodeAsync(string code, string redirectUri,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(AppleIdentityGateway)}.{nameof(ExchangeAuthorizationCodeAsync)}");
+
+        activity?.SetTag("apple.operation", "auth/token");
+
+        var options = appleOptions.Value;
+        using var request = new HttpRequestMessage(HttpMethod.Post, options.TokenEndpoint);
+        request.Content = new FormUrlEncodedContent(new Dictionary<string, string>
+        {
+            ["grant_type"] = "authorization_code",
+            ["client_id"] = GetClientId(),
+            ["client_secret"] = CreateClientSecret(),
+            ["code"] = code,
+            ["redirect_uri"] = redirectUri
+        });
+
+        using var response = await httpClient.SendAsync(request, cancellationToken).ConfigureAwait(false);
+        activity?.SetTag("http.response.status_code", (int)response.StatusCode);
+
+        if (response.StatusCode == HttpStatusCode.BadRequest)
+        {
+            // invalid_grant: the code was already used, expired or issued for another redirect URI
+            var error = await response.Content.ReadAsStringAsync(cancellationToken).ConfigureAwait(false);
+            activity?.SetStatus(ActivityStatusCode.Error, error);
+            logger.LogWarning("Apple authorization code exchange rejected: {Error}", error);
+            throw new FederatedSignInFailedException();
+        }
+
+        if (!response.IsSuccessStatusCode)
+        {
+            activity?.SetStatus(ActivityStatusCode.Error, response.ReasonPhrase);
+            throw new HttpRequestException(
+                "Failed to exchange Apple authorization code.", null, response.StatusCode);
+        }
+
+        var tokens = await JsonSerializer
+            .DeserializeAsync<TokenResponse>(
+                await response.Content.ReadAsStreamAsync(cancellationToken).ConfigureAwait(false),
+                cancellationToken: cancellationToken)
+            .ConfigureAwait(false);
+        if (string.IsNullOrEmpty(tokens?.IdToken))
+        {
+            activity?.SetStatus(ActivityStatusCode.Error, "Incomplete token response");
+            throw new FederatedSignInFailedException();
+        }
+
+        var idJwt = new JwtSecurityTokenHandler().ReadJwtToken(tokens.IdToken);
+        if (idJwt.Issuer != options.Issuer || !idJwt.Audiences.Contains(GetClientId()) ||
+            idJwt.ValidTo < DateTime.UtcNow)
+        {
+            activity?.SetStatus(ActivityStatusCode.Error, "ID token not issued for this client");
+            logger.LogWarning("Apple ID token rejected: issuer {Issuer}", idJwt.Issuer);
+            throw new FederatedSignInFailedException();
+        }
+
+        return new AppleIdentity(
+            idJwt.Subject,
+            ReadClaim(idJwt, "email") ?? string.Empty,
+            // Apple has sent this as both a JSON boolean and the string "true"
+            string.Equals(ReadClaim(idJwt, "email_verified"), "true", StringComparison.OrdinalIgnoreCase),
+            ReadClaim(idJwt, "nonce"));
+    }
+
+    // https://developer.apple.com/documentation/accountorganizationaldatasharing/creating-a-client-secret
+    private string CreateClientSecret()
+    {
+        var options = appleOptions.Value;
+        if (string.IsNullOrEmpty(options.TeamId) || string.IsNullOrEmpty(options.KeyId) ||
+            string.IsNullOrEmpty(options.PrivateKey))
+        {
+            throw new InvalidOperationException("Apple:TeamId, Apple:KeyId and Apple:PrivateKey must be configured for Sign in with Apple.");
+        }
+
+        using var key = ECDsa.Create();
+        key.ImportFromPem(options.PrivateKey);
+
+        var now = DateTime.UtcNow;
+        var token = new JwtSecurityTokenHandler().CreateJwtSecurityToken(
+            issuer: options.TeamId,
+            audience: options.Issuer,
+            subject: new ClaimsIdentity([new Claim(JwtRegisteredClaimNames.Sub, GetClientId())]),
+            notBefore: now,
+            expires: now.Add(ClientSecretLifetime),
+            issuedAt: now,
+            signingCredentials: new SigningCredentials(
+                new ECDsaSecurityKey(key) { KeyId = options.KeyId },
+                SecurityAlgorithms.EcdsaSha256));
+
+        return new JwtSecurityTokenHandler().WriteToken(token);
+    }
+
+    private string GetClientId()
+    {
+        var clientId = appleOptions.Value.ClientId;
+        if (string.IsNullOrEmpty(clientId))
+        {
+            throw new InvalidOperationException("Apple:ClientId must be configured for Sign in with Apple.");
+        }
+
+        return clientId;
+    }
+
+    private static string? ReadClaim(JwtSecurityToken idJwt, string type) =>
+        idJwt.Claims.FirstOrDefault(c => c.Type == type)?.Value;
+
+    private sealed record TokenResponse(
+        [property: JsonPropertyName("id_token")] string IdToken);
+}
@@ -0,0 +1,15 @@
+namespace AuthSample.Auth.Infrastructure.Apple;
+
+public class AppleOptions
+{
+    // The Services ID the popup authorizes against
+    public string? ClientId { get; set; }
+    public string? TeamId { get; set; }
+    public string? KeyId { get; set; }
+
+    // PEM-encoded P-256 key downloaded from the Apple developer portal; signs the client secret
+    public string? PrivateKey { get; set; }
+
+    public string TokenEndpoint { get; set; } = "https://appleid.apple.com/auth/token";
+    public string Issuer { get; set; } = "https://appleid.apple.com";
+}
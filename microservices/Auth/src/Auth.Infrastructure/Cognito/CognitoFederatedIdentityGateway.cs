@@ -0,0 +1,163 @@
+using System.Diagnostics;
+using System.IdentityModel.Tokens.Jwt;
+using System.Net;
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Authentication;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+
+namespace AuthSample.Auth.Infrastructure.Cognito;
+
+/// <summary>
+/// Drives the Cognito hosted UI OAuth endpoints for sign-in through Google or Apple. The backend
+/// app client performs the code exchange so the resulting tokens are accepted by session resolution.
+/// </summary>
+public sealed class CognitoFederatedIdentityGateway(
+    HttpClient httpClient,
+    ILogger<CognitoFederatedIdentityGateway> logger,
+    IOptions<CognitoOptions> cognitoOptions) : IFederatedIdentityGateway
+{
+    private static readonly ActivitySource ActivitySource = new("AuthSample.Auth.Infrastructure");
+
+    public Uri GetAuthorizationUri(IdentityProvider provider, string redirectUri, string state, string codeChallenge)
+    {
+        var query = new Dictionary<string, string>
+        {
+            ["response_type"] = "code",
+            ["client_id"] = cognitoOptions.Value.ClientId,
+            ["redirect_uri"] = redirectUri,
+            ["identity_provider"] = ToCognitoProviderName(provider),
+            // The admin scope lets the service update the new user's own attributes (e.g. the name Apple shares once)
+            ["scope"] = "openid email profile aws.cognito.signin.user.admin",
+            ["state"] = state,
+            ["code_challenge"] = codeChallenge,
+            ["code_challenge_method"] = "S256"
+        };
+
+        var queryString = string.Join("&", query.Select(p => $"{p.Key}={Uri.EscapeDataString(p.Value)}"));
+        return new Uri($"{GetDomain()}/oauth2/authorize?{queryString}");
+    }
+
+    public async Task<FederatedSession> ExchangeAuthorizationCodeAsync(string code, string redirectUri,
+        string codeVerifier, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoFederatedIdentityGateway)}.{nameof(ExchangeAuthorizationCodeAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "oauth2/token");
+
+        using var request = new HttpRequestMessage(HttpMethod.Post, $"{GetDomain()}/oauth2/token");
+        request.Headers.Authorization = new AuthenticationHeaderValue(
+            "Basic",
+            Convert.ToBase64String(Encoding.UTF8.GetBytes($"{cognitoOptions.Value.ClientId}:{cognitoOptions.Value.Secret}")));
+        request.Content = new FormUrlEncodedContent(new Dictionary<string, string>
+        {
+            ["grant_type"] = "authorization_code",
+            ["client_id"] = cognitoOptions.Value.ClientId,
+            ["code"] = code,
+            ["redirect_uri"] = redirectUri,
+            ["code_verifier"] = codeVerifier
+        });
+
+        var now = DateTime.UtcNow;
+        using var response = await httpClient.SendAsync(request, cancellationToken).ConfigureAwait(false);
+        activity?.SetTag("http.response.status_code", (int)response.StatusCode);
+
+        if (response.StatusCode == HttpStatusCode.BadRequest)
+        {
+            // invalid_grant: the code was already used, expired or issued for another client
+            var error = await response.Content.ReadAsStringAsync(cancellationToken).ConfigureAwait(false);
+            activity?.SetStatus(ActivityStatusCode.Error, error);
+            logger.LogWarning("Authorization code exchange rejected: {Error}", error);
+            throw new FederatedSignInFailedException();
+        }
+
+        if (!response.IsSuccessStatusCode)
+        {
+            activity?.SetStatus(ActivityStatusCode.Error, response.ReasonPhrase);
+            throw new CognitoOperationFailedException(
+                "oauth2/token",
+                response.StatusCode,
+                "Failed to exchange authorization code.");
+        }
+
+        var tokens = await JsonSerializer
+            .DeserializeAsync<TokenResponse>(
+                await response.Content.ReadAsStreamAsync(cancellationToken).ConfigureAwait(false),
+                cancellationToken: cancellationToken)
+            .ConfigureAwait(false);
+        if (tokens is null || string.IsNullOrEmpty(tokens.IdToken) || string.IsNullOrEmpty(tokens.RefreshToken))
+        {
+            activity?.SetStatus(ActivityStatusCode.Error, "Incomplete token response");
+            throw new CognitoOperationFailedException("oauth2/token", response.StatusCode, "Incomplete token response.");
+        }
+
+        var idJwt = new JwtSecurityTokenHandler().ReadJwtToken(tokens.IdToken);
+        var cognitoUsername = idJwt.Claims.First(c => c.Type == "cognito:username").Value;
+        var email = idJwt.Claims.FirstOrDefault(c => c.Type == "email")?.Value ?? string.Empty;
+
+        var session = new SessionData(
+            now,
+            tokens.AccessToken,
+            tokens.IdToken,
+            now.AddSeconds(tokens.ExpiresIn),
+            tokens.RefreshToken,
+            now.AddDays(cognitoOptions.Value.RefreshTokenExpirationDays),
+            cognitoUsername,
+            email);
+
+        return new FederatedSession(session, ReadIdentityLinkedAt(idJwt));
+    }
+
+    private string GetDomain()
+    {
+        var domain = cognitoOptions.Value.Domain?.TrimEnd('/');
+        if (string.IsNullOrEmpty(domain))
+        {
+            throw new InvalidOperationException("Cognito:Domain must be configured for federated sign in.");
+        }
+
+        return domain;
+    }
+
+    private static string ToCognitoProviderName(IdentityProvider provider) => provider switch
+    {
+        IdentityProvider.Google => "Google",
+        IdentityProvider.Apple => "SignInWithApple",
+        _ => throw new ArgumentOutOfRangeException(nameof(provider), provider, null)
+    };
+
+    // The "identities" claim is a JSON array whose dateCreated is epoch milliseconds
+    private static DateTime? ReadIdentityLinkedAt(JwtSecurityToken idJwt)
+    {
+        var identities = idJwt.Claims.FirstOrDefault(c => c.Type == "identities")?.Value;
+        if (string.IsNullOrEmpty(identities))
+        {
+            return null;
+        }
+
+        using var document = JsonDocument.Parse(identities);
+        var identity = document.RootElement.ValueKind == JsonValueKind.Array
+            ? document.RootElement.EnumerateArray().FirstOrDefault()
+            : document.RootElement;
+        if (identity.ValueKind != JsonValueKind.Object ||
+            !identity.TryGetProperty("dateCreated", out var dateCreated) ||
+            !long.TryParse(dateCreated.ToString(), out var milliseconds))
+        {
+            return null;
+        }
+
+        return DateTimeOffset.FromUnixTimeMilliseconds(milliseconds).UtcDateTime;
+    }
+
+    private sealed record TokenResponse(
+        [property: JsonPropertyName("access_token")] string AccessToken,
+        [property: JsonPropertyName("id_token")] string IdToken,
+        [property: JsonPropertyName("refresh_token")] string RefreshToken,
+        [property: JsonPropertyName("expires_in")] int ExpiresIn);
+}
@@ -20,6 +20,8 @@ public sealed class CognitoIdentityGateway(
 {
     private static readonly ActivitySource ActivitySource = new("AuthSample.Auth.Infrastructure");
     private const string ConfirmedUserErrorMessage = "User cannot be confirmed. Current status is CONFIRMED";
+    private const int DecoySessionNonceLength = 640;
+    private static readonly TimeSpan FederatedAssertionLifetime = TimeSpan.FromMinutes(2);
 
     public async Task<SignUpAvailability> GetSignUpAvailabilityAsync(string email,
         CancellationToken cancellationToken = default)
@@ -357,18 +359,886 @@ public sealed class CognitoIdentityGateway(
                 .ConfigureAwait(false);
             activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
 
-            var idJwt = new System.IdentityModel.Tokens.Jwt.JwtSecurityTokenHandler()
-                .ReadJwtToken(response.AuthenticationResult.IdToken);
-            var cognitoUsername = idJwt.Claims.First(c => c.Type == "cognito:username").Value;
+            return ToSessionData(response.AuthenticationResult, emailAddress, now);
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.AdminSetUserPasswordAsync),
+                null,
+                "Failed to initiate authentication.",
+                ex);
+        }
+    }
+
+    public async Task<SessionData> AuthenticateWithPasswordAsync(string emailAddress, string password,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(AuthenticateWithPasswordAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "InitiateAuth");
+        activity?.SetTag("enduser.id", MaskEmail(emailAddress));
+
+        var initiateAuthRequest = new InitiateAuthRequest
+        {
+            AuthFlow = AuthFlowType.USER_AUTH,
+            ClientId = cognitoOptions.Value.ClientId,
+            AuthParameters = new Dictionary<string, string>
+            {
+                { "USERNAME", emailAddress },
+                { "PREFERRED_CHALLENGE", ChallengeNameType.PASSWORD.Value },
+                { "PASSWORD", password },
+                { "SECRET_HASH", ComputeSecretHash(emailAddress) }
+            },
+        };
+
+        try
+        {
+            var now = DateTime.UtcNow;
+            var response = await cognitoIdentityProvider.InitiateAuthAsync(initiateAuthRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+
+            // Accounts created passwordless have no password; Cognito answers with
+            // a different challenge instead of tokens.
+            if (response.AuthenticationResult is null)
+            {
+                activity?.SetTag("cognito.challenge", response.ChallengeName?.Value);
+                throw new InvalidCredentialsException();
+            }
+
+            return ToSessionData(response.AuthenticationResult, emailAddress, now);
+        }
+        catch (NotAuthorizedException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Password sign in rejected");
+            throw new InvalidCredentialsException();
+        }
+        catch (UserNotFoundException ex)
+        {
+            // Reported as invalid credentials so callers cannot probe for accounts
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new InvalidCredentialsException();
+        }
+        catch (UserNotConfirmedException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Password sign in attempted for unconfirmed account");
+            throw new AccountNotConfirmedException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.InitiateAuthAsync),
+                null,
+                "Failed to authenticate with password.",
+                ex);
+        }
+    }
+
+    public async Task<string> InitiateEmailOtpAuthAsync(string emailAddress,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(InitiateEmailOtpAuthAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "InitiateAuth");
+        activity?.SetTag("enduser.id", MaskEmail(emailAddress));
+
+        var initiateAuthRequest = new InitiateAuthRequest
+        {
+            AuthFlow = AuthFlowType.USER_AUTH,
+            ClientId = cognitoOptions.Value.ClientId,
+            AuthParameters = new Dictionary<string, string>
+            {
+                { "USERNAME", emailAddress },
+                { "PREFERRED_CHALLENGE", ChallengeNameType.EMAIL_OTP.Value },
+                { "SECRET_HASH", ComputeSecretHash(emailAddress) }
+            },
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.InitiateAuthAsync(initiateAuthRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+            activity?.SetTag("cognito.challenge", response.ChallengeName?.Value);
+
+            if (response.ChallengeName != ChallengeNameType.EMAIL_OTP)
+            {
+                throw new CognitoOperationFailedException(
+                    nameof(cognitoIdentityProvider.InitiateAuthAsync),
+                    null,
+                    $"Expected an EMAIL_OTP challenge but received '{response.ChallengeName?.Value}'.");
+            }
+
+            response.ChallengeParameters.TryGetValue("CODE_DELIVERY_DESTINATION", out var destination);
+            activity?.AddEvent(new ActivityEvent(
+                "verification.code_sent",
+                tags: new ActivityTagsCollection
+                {
+                    ["message.delivery.mode"] = "EMAIL",
+                    ["message.delivery.destination"] = Mask(destination)
+                }));
+            logger.LogInformation("Sign in code sent");
+
+            return response.Session;
+        }
+        catch (UserNotFoundException ex)
+        {
+            // Answer exactly as for a real account so passwordless sign in can't be used to probe for users
+            activity?.AddException(ex);
+            logger.LogInformation("Sign in code requested for unknown account");
+            return CreateDecoyEmailOtpSession(emailAddress);
+        }
+        catch (UserNotConfirmedException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Email code sign in attempted for unconfirmed account");
+            throw new AccountNotConfirmedException();
+        }
+        catch (CodeDeliveryFailureException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogError(ex, "Cognito code delivery failed");
+            throw new VerificationCodeDeliveryFailedException();
+        }
+        catch (TooManyRequestsException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogError(ex, "Cognito code delivery throttled");
+            throw new VerificationCodeDeliveryTooSoonException();
+        }
+        catch (LimitExceededException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogError(ex, "Cognito code delivery throttled");
+            throw new VerificationCodeDeliveryTooSoonException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.InitiateAuthAsync),
+                null,
+                "Failed to initiate email code authentication.",
+                ex);
+        }
+    }
+
+    public async Task<SessionData> RespondToEmailOtpChallengeAsync(CompleteEmailOtpSignInRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(RespondToEmailOtpChallengeAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "RespondToAuthChallenge");
+        activity?.SetTag("enduser.id", MaskEmail(request.EmailAddress));
+
+        if (IsDecoyEmailOtpSession(request.Session, request.EmailAddress))
+        {
+            // No code was sent to an unknown account; fail the way a wrong code would
+            activity?.SetStatus(ActivityStatusCode.Error, "Unknown account");
+            throw new VerificationCodeMismatchException();
+        }
+
+        var challengeRequest = new RespondToAuthChallengeRequest
+        {
+            ChallengeName = ChallengeNameType.EMAIL_OTP,
+            ClientId = cognitoOptions.Value.ClientId,
+            Session = request.Session,
+            ChallengeResponses = new Dictionary<string, string>
+            {
+                { "USERNAME", request.EmailAddress },
+                { "EMAIL_OTP_CODE", request.VerificationCode },
+                { "SECRET_HASH", ComputeSecretHash(request.EmailAddress) }
+            },
+        };
+
+        try
+        {
+            var now = DateTime.UtcNow;
+            var response = await cognitoIdentityProvider.RespondToAuthChallengeAsync(challengeRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+
+            if (response.AuthenticationResult is null)
+            {
+                activity?.SetStatus(ActivityStatusCode.Error, "Unexpected follow-up challenge");
+                throw new CognitoOperationFailedException(
+                    nameof(cognitoIdentityProvider.RespondToAuthChallengeAsync),
+                    null,
+                    $"Unexpected follow-up challenge '{response.ChallengeName?.Value}'.");
+            }
+
+            return ToSessionData(response.AuthenticationResult, request.EmailAddress, now);
+        }
+        catch (CodeMismatchException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationCodeMismatchException();
+        }
+        catch (UserNotFoundException ex)
+        {
+            // Indistinguishable from a wrong code, as for InitiateEmailOtpAuthAsync
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationCodeMismatchException();
+        }
+        catch (ExpiredCodeException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationCodeExpiredException();
+        }
+        catch (NotAuthorizedException ex)
+        {
+            // Cognito invalidates the session once it times out or too many codes were tried
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Email code sign in session rejected");
+            throw new VerificationCodeExpiredException();
+        }
+        catch (TooManyFailedAttemptsException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationAttemptsExceededException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.RespondToAuthChallengeAsync),
+                null,
+                "Failed to verify email code.",
+                ex);
+        }
+    }
+
+    public async Task StartPasswordResetAsync(string emailAddress, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(StartPasswordResetAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "ForgotPassword");
+        activity?.SetTag("enduser.id", MaskEmail(emailAddress));
+
+        var forgotPasswordRequest = new ForgotPasswordRequest
+        {
+            ClientId = cognitoOptions.Value.ClientId,
+            Username = emailAddress,
+            SecretHash = ComputeSecretHash(emailAddress)
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.ForgotPasswordAsync(forgotPasswordRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+
+            activity?.AddEvent(new ActivityEvent(
+                "verification.code_sent",
+                tags: new ActivityTagsCollection
+                {
+                    ["message.delivery.mode"] = response.CodeDeliveryDetails?.DeliveryMedium?.Value,
+                    ["message.delivery.destination"] = Mask(response.CodeDeliveryDetails?.Destination)
+                }));
+            logger.LogInformation("Password reset code sent");
+        }
+        catch (UserNotFoundException ex)
+        {
+            // Answer exactly as for a real account so the reset form can't be used to probe for users
+            activity?.AddException(ex);
+            logger.LogInformation("Password reset requested for unknown account");
+        }
+        catch (CodeDeliveryFailureException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogError(ex, "Cognito code delivery failed");
+            throw new VerificationCodeDeliveryFailedException();
+        }
+        catch (TooManyRequestsException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogError(ex, "Cognito code delivery throttled");
+            throw new VerificationCodeDeliveryTooSoonException();
+        }
+        catch (LimitExceededException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogError(ex, "Cognito code delivery throttled");
+            throw new VerificationCodeDeliveryTooSoonException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.ForgotPasswordAsync),
+                null,
+                "Failed to start password reset.",
+                ex);
+        }
+    }
+
+    public async Task ConfirmPasswordResetAsync(CompletePasswordResetRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(ConfirmPasswordResetAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "ConfirmForgotPassword");
+        activity?.SetTag("enduser.id", MaskEmail(request.EmailAddress));
+
+        var confirmRequest = new ConfirmForgotPasswordRequest
+        {
+            ClientId = cognitoOptions.Value.ClientId,
+            Username = request.EmailAddress,
+            ConfirmationCode = request.VerificationCode,
+            Password = request.NewPassword,
+            SecretHash = ComputeSecretHash(request.EmailAddress)
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.ConfirmForgotPasswordAsync(confirmRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+        }
+        catch (CodeMismatchException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationCodeMismatchException();
+        }
+        catch (UserNotFoundException ex)
+        {
+            // Indistinguishable from a wrong code, as for StartPasswordResetAsync
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationCodeMismatchException();
+        }
+        catch (ExpiredCodeException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationCodeExpiredException();
+        }
+        catch (InvalidPasswordException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new PasswordPolicyViolationException();
+        }
+        catch (TooManyFailedAttemptsException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationAttemptsExceededException();
+        }
+        catch (LimitExceededException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new VerificationAttemptsExceededException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.ConfirmForgotPasswordAsync),
+                null,
+                "Failed to reset password.",
+                ex);
+        }
+    }
+
+    public async Task<SessionData> RefreshSessionAsync(RefreshTokenRecord refreshTokenRecord, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(RefreshSessionAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "InitiateAuth");
+
+        var initiateAuthRequest = new InitiateAuthRequest
+        {
+            AuthFlow = AuthFlowType.REFRESH_TOKEN_AUTH,
+            ClientId = cognitoOptions.Value.ClientId,
+            AuthParameters = new Dictionary<string, string>
+            {
+                { "REFRESH_TOKEN", refreshTokenRecord.RefreshToken },
+                { "SECRET_HASH", ComputeSecretHash(refreshTokenRecord.UserSub) }
+            },
+        };
+
+        try
+        {
+            var now = DateTime.UtcNow;
+            var response = await cognitoIdentityProvider.InitiateAuthAsync(initiateAuthRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+
+            var idToken = response.AuthenticationResult.IdToken;
+            var accessToken = response.AuthenticationResult.AccessToken;
+            var expiresIn = response.AuthenticationResult.ExpiresIn ?? 3600;
+
+            // Cognito does not always return refresh token on refresh flow; keep the same one
             return new SessionData(
                 now,
-                response.AuthenticationResult.AccessToken,
-                response.AuthenticationResult.IdToken,
-                now.AddSeconds((double)response.AuthenticationResult.ExpiresIn!),
-                response.AuthenticationResult.RefreshToken,
+                accessToken,
+                idToken,
+                now.AddSeconds(expiresIn),
+                refreshTokenRecord.RefreshToken,
                 now.AddDays(cognitoOptions.Value.RefreshTokenExpirationDays),
-                cognitoUsername,
-                emailAddress);
+                refreshTokenRecord.UserSub,
+                refreshTokenRecord.UserEmail);
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.InitiateAuthAsync),
+                null,
+                "Failed to refresh authentication.",
+                ex);
+        }
+    }
+
+    public async Task RevokeRefreshTokenAsync(string refreshToken, CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(RevokeRefreshTokenAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "RevokeToken");
+
+        var revokeTokenRequest = new RevokeTokenRequest
+        {
+            Token = refreshToken,
+            ClientId = cognitoOptions.Value.ClientId,
+            ClientSecret = cognitoOptions.Value.Secret
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.RevokeTokenAsync(revokeTokenRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.RevokeTokenAsync),
+                null,
+                "Failed to revoke the refresh token.",
+                ex);
+        }
+    }
+
+    public async Task<PasskeyChallenge> InitiatePasskeyAuthAsync(string emailAddress,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(InitiatePasskeyAuthAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "InitiateAuth");
+        activity?.SetTag("enduser.id", MaskEmail(emailAddress));
+
+        var initiateAuthRequest = new InitiateAuthRequest
+        {
+            AuthFlow = AuthFlowType.USER_AUTH,
+            ClientId = cognitoOptions.Value.ClientId,
+            AuthParameters = new Dictionary<string, string>
+            {
+                { "USERNAME", emailAddress },
+                { "PREFERRED_CHALLENGE", ChallengeNameType.WEB_AUTHN.Value },
+                { "SECRET_HASH", ComputeSecretHash(emailAddress) }
+            },
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.InitiateAuthAsync(initiateAuthRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+            activity?.SetTag("cognito.challenge", response.ChallengeName?.Value);
+
+            // Cognito falls back to another challenge (or SELECT_CHALLENGE) when the
+            // user has no WebAuthn credential registered.
+            if (response.ChallengeName != ChallengeNameType.WEB_AUTHN ||
+                !response.ChallengeParameters.TryGetValue("CREDENTIAL_REQUEST_OPTIONS", out var requestOptions))
+            {
+                throw new PasskeyNotRegisteredException();
+            }
+
+            return new PasskeyChallenge(response.Session, requestOptions);
+        }
+        catch (UserNotFoundException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new PasskeyNotRegisteredException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.InitiateAuthAsync),
+                null,
+                "Failed to initiate passkey authentication.",
+                ex);
+        }
+    }
+
+    public async Task<SessionData> RespondToPasskeyChallengeAsync(CompletePasskeySignInRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(RespondToPasskeyChallengeAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "RespondToAuthChallenge");
+        activity?.SetTag("enduser.id", MaskEmail(request.EmailAddress));
+
+        var challengeRequest = new RespondToAuthChallengeRequest
+        {
+            ChallengeName = ChallengeNameType.WEB_AUTHN,
+            ClientId = cognitoOptions.Value.ClientId,
+            Session = request.Session,
+            ChallengeResponses = new Dictionary<string, string>
+            {
+                { "USERNAME", request.EmailAddress },
+                { "CREDENTIAL", request.Credential },
+                { "SECRET_HASH", ComputeSecretHash(request.EmailAddress) }
+            },
+        };
+
+        try
+        {
+            var now = DateTime.UtcNow;
+            var response = await cognitoIdentityProvider.RespondToAuthChallengeAsync(challengeRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+
+            if (response.AuthenticationResult is null)
+            {
+                activity?.SetStatus(ActivityStatusCode.Error, "Unexpected follow-up challenge");
+                throw new PasskeyVerificationFailedException();
+            }
+
+            return ToSessionData(response.AuthenticationResult, request.EmailAddress, now);
+        }
+        catch (NotAuthorizedException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Passkey assertion rejected");
+            throw new PasskeyVerificationFailedException();
+        }
+        catch (CodeMismatchException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Passkey assertion rejected");
+            throw new PasskeyVerificationFailedException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.RespondToAuthChallengeAsync),
+                null,
+                "Failed to verify passkey.",
+                ex);
+        }
+    }
+
+    public async Task<string> StartPasskeyRegistrationAsync(string accessToken,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(StartPasskeyRegistrationAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "StartWebAuthnRegistration");
+
+        try
+        {
+            var response = await cognitoIdentityProvider.StartWebAuthnRegistrationAsync(
+                    new StartWebAuthnRegistrationRequest { AccessToken = accessToken },
+                    cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+
+            return DocumentJson.Serialize(response.CredentialCreationOptions);
+        }
+        catch (AmazonCognitoIdentityProviderException ex) when (IsWebAuthnError(ex))
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Passkey registration could not be started");
+            throw new PasskeyRegistrationFailedException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.StartWebAuthnRegistrationAsync),
+                null,
+                "Failed to start passkey registration.",
+                ex);
+        }
+    }
+
+    public async Task CompletePasskeyRegistrationAsync(string accessToken, string credential,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(CompletePasskeyRegistrationAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "CompleteWebAuthnRegistration");
+
+        try
+        {
+            var response = await cognitoIdentityProvider.CompleteWebAuthnRegistrationAsync(
+                    new CompleteWebAuthnRegistrationRequest
+                    {
+                        AccessToken = accessToken,
+                        Credential = DocumentJson.Deserialize(credential)
+                    },
+                    cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+        }
+        catch (AmazonCognitoIdentityProviderException ex) when (IsWebAuthnError(ex))
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Passkey registration rejected");
+            throw new PasskeyRegistrationFailedException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.CompleteWebAuthnRegistrationAsync),
+                null,
+                "Failed to complete passkey registration.",
+                ex);
+        }
+    }
+
+    public async Task<IReadOnlyList<PasskeyCredential>> ListPasskeysAsync(string accessToken,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(ListPasskeysAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "ListWebAuthnCredentials");
+
+        var credentials = new List<PasskeyCredential>();
+        string? nextToken = null;
+        try
+        {
+            do
+            {
+                var response = await cognitoIdentityProvider.ListWebAuthnCredentialsAsync(
+                        new ListWebAuthnCredentialsRequest { AccessToken = accessToken, NextToken = nextToken },
+                        cancellationToken)
+                    .ConfigureAwait(false);
+                activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+
+                credentials.AddRange((response.Credentials ?? []).Select(c => new PasskeyCredential(
+                    c.CredentialId,
+                    c.FriendlyCredentialName ?? "Passkey",
+                    c.CreatedAt ?? DateTime.MinValue,
+                    c.AuthenticatorAttachment)));
+                nextToken = response.NextToken;
+            } while (!string.IsNullOrEmpty(nextToken));
+
+            return credentials;
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.ListWebAuthnCredentialsAsync),
+                null,
+                "Failed to list passkeys.",
+                ex);
+        }
+    }
+
+    public async Task DeletePasskeyAsync(string accessToken, string credentialId,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(DeletePasskeyAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "DeleteWebAuthnCredential");
+
+        try
+        {
+            var response = await cognitoIdentityProvider.DeleteWebAuthnCredentialAsync(
+                    new DeleteWebAuthnCredentialRequest { AccessToken = accessToken, CredentialId = credentialId },
+                    cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+        }
+        catch (ResourceNotFoundException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            throw new PasskeyNotFoundException();
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.DeleteWebAuthnCredentialAsync),
+                null,
+                "Failed to delete passkey.",
+                ex);
+        }
+    }
+
+    public Task UpdateNameAsync(string accessToken, string name, CancellationToken cancellationToken = default) =>
+        UpdateUserAttributesAsync(
+            nameof(UpdateNameAsync),
+            accessToken,
+            [
+                new AttributeType { Name = "name", Value = name }
+            ],
+            "Failed to update name.",
+            cancellationToken);
+
+    public Task UpdateProfileAsync(string accessToken, UserProfile profile, CancellationToken cancellationToken = default)
+    {
+        List<AttributeType> attributes =
+        [
+            new AttributeType { Name = "name", Value = profile.Name }
+        ];
+
+        if (!string.IsNullOrEmpty(profile.PreferredName))
+        {
+            attributes.Add(new AttributeType { Name = "preferred_username", Value = profile.PreferredName });
+        }
+
+        return UpdateUserAttributesAsync(
+            nameof(UpdateProfileAsync),
+            accessToken,
+            attributes,
+            "Failed to update profile.",
+            cancellationToken);
+    }
+
+    public async Task<bool> EnsureFederatedUserAsync(string emailAddress, string? name,
+        CancellationToken cancellationToken = default)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{nameof(EnsureFederatedUserAsync)}");
+
+        activity?.SetTag("aws.cognito.operation", "AdminCreateUser");
+        activity?.SetTag("enduser.id", MaskEmail(emailAddress));
+
+        List<AttributeType> attributes =
+        [
+            new AttributeType { Name = "email", Value = emailAddress },
+            new AttributeType { Name = "email_verified", Value = "true" }
+        ];
+        if (!string.IsNullOrEmpty(name))
+        {
+            attributes.Add(new AttributeType { Name = "name", Value = name });
+        }
+
+        var createUserRequest = new AdminCreateUserRequest
+        {
+            UserPoolId = cognitoOptions.Value.UserPoolId,
+            Username = emailAddress,
+            UserAttributes = attributes,
+            // The provider already verified the address; there is no invitation to send
+            MessageAction = MessageActionType.SUPPRESS
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.AdminCreateUserAsync(createUserRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+        }
+        catch (UsernameExistsException)
+        {
+            activity?.SetTag("user.exists", true);
+            return false;
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.AdminCreateUserAsync),
+                null,
+                "Failed to create federated user.",
+                ex);
+        }
+
+        // Admin-created users wait for a password change; a random one nobody knows confirms the
+        // account, and the owner can still set their own through password reset
+        var setPasswordRequest = new AdminSetUserPasswordRequest
+        {
+            UserPoolId = cognitoOptions.Value.UserPoolId,
+            Username = emailAddress,
+            Password = GenerateUnusablePassword(),
+            Permanent = true
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.AdminSetUserPasswordAsync(setPasswordRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
         }
         catch (AmazonServiceException ex)
         {
@@ -378,50 +1248,78 @@ public sealed class CognitoIdentityGateway(
             throw new CognitoOperationFailedException(
                 nameof(cognitoIdentityProvider.AdminSetUserPasswordAsync),
                 null,
-                "Failed to initiate authentication.",
+                "Failed to confirm federated user.",
                 ex);
         }
+
+        activity?.SetTag("user.exists", false);
+        return true;
     }
 
-    public async Task<SessionData> RefreshSessionAsync(RefreshTokenRecord refreshTokenRecord, CancellationToken cancellationToken = default)
+    public async Task<SessionData> InitiateFederatedAuthAsync(string emailAddress,
+        CancellationToken cancellationToken = default)
     {
         using var activity = ActivitySource.StartActivity(
-            $"{nameof(CognitoIdentityGateway)}.{nameof(RefreshSessionAsync)}");
+            $"{nameof(CognitoIdentityGateway)}.{nameof(InitiateFederatedAuthAsync)}");
 
         activity?.SetTag("aws.cognito.operation", "InitiateAuth");
+        activity?.SetTag("enduser.id", MaskEmail(emailAddress));
 
         var initiateAuthRequest = new InitiateAuthRequest
         {
-            AuthFlow = AuthFlowType.REFRESH_TOKEN_AUTH,
+            AuthFlow = AuthFlowType.CUSTOM_AUTH,
             ClientId = cognitoOptions.Value.ClientId,
             AuthParameters = new Dictionary<string, string>
             {
-                { "REFRESH_TOKEN", refreshTokenRecord.RefreshToken },
-                { "SECRET_HASH", ComputeSecretHash(refreshTokenRecord.UserSub) }
+                { "USERNAME", emailAddress },
+                { "SECRET_HASH", ComputeSecretHash(emailAddress) }
             },
         };
 
         try
         {
+            var challenge = await cognitoIdentityProvider.InitiateAuthAsync(initiateAuthRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", challenge.ResponseMetadata.RequestId);
+            activity?.SetTag("cognito.challenge", challenge.ChallengeName?.Value);
+
+            var respondRequest = new RespondToAuthChallengeRequest
+            {
+                ClientId = cognitoOptions.Value.ClientId,
+                ChallengeName = ChallengeNameType.CUSTOM_CHALLENGE,
+                Session = challenge.Session,
+                ChallengeResponses = new Dictionary<string, string>
+                {
+                    { "USERNAME", emailAddress },
+                    { "ANSWER", CreateFederatedAssertion(emailAddress) },
+                    { "SECRET_HASH", ComputeSecretHash(emailAddress) }
+                }
+            };
+
             var now = DateTime.UtcNow;
-            var response = await cognitoIdentityProvider.InitiateAuthAsync(initiateAuthRequest, cancellationToken)
+            var response = await cognitoIdentityProvider.RespondToAuthChallengeAsync(respondRequest, cancellationToken)
                 .ConfigureAwait(false);
             activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
 
-            var idToken = response.AuthenticationResult.IdToken;
-            var accessToken = response.AuthenticationResult.AccessToken;
-            var expiresIn = response.AuthenticationResult.ExpiresIn ?? 3600;
+            if (response.AuthenticationResult is null)
+            {
+                activity?.SetStatus(ActivityStatusCode.Error, "Federated assertion was not accepted");
+                throw new CognitoOperationFailedException(
+                    nameof(cognitoIdentityProvider.RespondToAuthChallengeAsync),
+                    null,
+                    "Federated assertion was not accepted.");
+            }
 
-            // Cognito does not always return refresh token on refresh flow; keep the same one
-            return new SessionData(
-                now,
-                accessToken,
-                idToken,
-                now.AddSeconds(expiresIn),
-                refreshTokenRecord.RefreshToken,
-                now.AddDays(cognitoOptions.Value.RefreshTokenExpirationDays),
-                refreshTokenRecord.UserSub,
-                refreshTokenRecord.UserEmail);
+            return ToSessionData(response.AuthenticationResult, emailAddress, now);
+        }
+        catch (UserNotConfirmedException ex)
+        {
+            // Someone started a sign up with this address and never verified it; confirming it here
+            // would hand them an account the provider's user now signs in to
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            logger.LogWarning(ex, "Federated sign in attempted for unconfirmed account");
+            throw new AccountNotConfirmedException();
         }
         catch (AmazonServiceException ex)
         {
@@ -431,11 +1329,67 @@ public sealed class CognitoIdentityGateway(
             throw new CognitoOperationFailedException(
                 nameof(cognitoIdentityProvider.InitiateAuthAsync),
                 null,
-                "Failed to refresh authentication.",
+                "Failed to sign in federated user.",
+                ex);
+        }
+    }
+
+    private async Task UpdateUserAttributesAsync(
+        string operationName,
+        string accessToken,
+        List<AttributeType> attributes,
+        string failureMessage,
+        CancellationToken cancellationToken)
+    {
+        using var activity = ActivitySource.StartActivity(
+            $"{nameof(CognitoIdentityGateway)}.{operationName}");
+
+        activity?.SetTag("aws.cognito.operation", "UpdateUserAttributes");
+
+        var updateRequest = new UpdateUserAttributesRequest
+        {
+            AccessToken = accessToken,
+            UserAttributes = attributes
+        };
+
+        try
+        {
+            var response = await cognitoIdentityProvider.UpdateUserAttributesAsync(updateRequest, cancellationToken)
+                .ConfigureAwait(false);
+            activity?.SetTag("aws.request_id", response.ResponseMetadata.RequestId);
+        }
+        catch (AmazonServiceException ex)
+        {
+            activity?.AddException(ex);
+            activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+            activity?.SetTag("aws.request_id", ex.RequestId);
+            throw new CognitoOperationFailedException(
+                nameof(cognitoIdentityProvider.UpdateUserAttributesAsync),
+                null,
+                failureMessage,
                 ex);
         }
     }
 
+    private static bool IsWebAuthnError(AmazonServiceException ex) =>
+        ex.ErrorCode?.StartsWith("WebAuthn", StringComparison.Ordinal) == true;
+
+    private SessionData ToSessionData(AuthenticationResultType authenticationResult, string emailAddress, DateTime now)
+    {
+        var idJwt = new System.IdentityModel.Tokens.Jwt.JwtSecurityTokenHandler()
+            .ReadJwtToken(authenticationResult.IdToken);
+        var cognitoUsername = idJwt.Claims.First(c => c.Type == "cognito:username").Value;
+        return new SessionData(
+            now,
+            authenticationResult.AccessToken,
+            authenticationResult.IdToken,
+            now.AddSeconds((double)authenticationResult.ExpiresIn!),
+            authenticationResult.RefreshToken,
+            now.AddDays(cognitoOptions.Value.RefreshTokenExpirationDays),
+            cognitoUsername,
+            emailAddress);
+    }
+
     // https://docs.aws.amazon.com/cognito/latest/developerguide/signing-up-users-in-your-app.html#cognito-user-pools-computing-secret-hash
     private string ComputeSecretHash(string email)
     {
@@ -448,6 +1402,58 @@ public sealed class CognitoIdentityGateway(
         return Convert.ToBase64String(hashBytes);
     }
 
+    // "<expiry>.<signature>" over the lower-cased address; the custom auth Lambda checks it with the same secret
+    private string CreateFederatedAssertion(string emailAddress)
+    {
+        var secret = cognitoOptions.Value.FederatedAssertionSecret;
+        if (string.IsNullOrEmpty(secret))
+        {
+            throw new InvalidOperationException("Cognito:FederatedAssertionSecret must be configured for federated sign in.");
+        }
+
+        var expiresAt = DateTimeOffset.UtcNow.Add(FederatedAssertionLifetime).ToUnixTimeSeconds();
+        using var hmac = new HMACSHA256(Encoding.UTF8.GetBytes(secret));
+        var signature = hmac.ComputeHash(Encoding.UTF8.GetBytes($"{emailAddress.ToLowerInvariant()}:{expiresAt}"));
+
+        return $"{expiresAt}.{Convert.ToBase64String(signature).Replace('+', '-').Replace('/', '_').TrimEnd('=')}";
+    }
+
+    // Long and drawn from every character class, so it satisfies any password policy
+    private static string GenerateUnusablePassword() =>
+        Convert.ToBase64String(RandomNumberGenerator.GetBytes(32)) + "aA1!";
+
+    // A random nonce followed by an HMAC over it and the address. It is about as long as a Cognito
+    // session, and it can be recognised when it comes back without keeping any state.
+    private string CreateDecoyEmailOtpSession(string emailAddress)
+    {
+        var nonce = RandomNumberGenerator.GetBytes(DecoySessionNonceLength);
+        return Convert.ToBase64String([.. nonce, .. ComputeDecoySessionTag(emailAddress, nonce)]);
+    }
+
+    private bool IsDecoyEmailOtpSession(string session, string emailAddress)
+    {
+        var bytes = new byte[session.Length];
+        if (!Convert.TryFromBase64String(session, bytes, out var length)
+            || length != DecoySessionNonceLength + HMACSHA256.HashSizeInBytes)
+        {
+            return false;
+        }
+
+        var nonce = bytes[..DecoySessionNonceLength];
+        return CryptographicOperations.FixedTimeEquals(
+            bytes.AsSpan(DecoySessionNonceLength, HMACSHA256.HashSizeInBytes),
+            ComputeDecoySessionTag(emailAddress, nonce));
+    }
+
+    private byte[] ComputeDecoySessionTag(string emailAddress, byte[] nonce)
+    {
+        var keyBytes = Encoding.UTF8.GetBytes(cognitoOptions.Value.Secret);
+        using var hmac = new HMACSHA256(keyBytes);
+
+        var messageBytes = Encoding.UTF8.GetBytes("email-otp-decoy:" + emailAddress.ToLowerInvariant());
+        return hmac.ComputeHash([.. messageBytes, .. nonce]);
+    }
+
     private static string Mask(string? value)
     {
         if (string.IsNullOrEmpty(value))
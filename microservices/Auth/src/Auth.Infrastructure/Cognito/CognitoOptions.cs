@@ -8,5 +8,11 @@ public class CognitoOptions
 
     public required int RefreshTokenExpirationDays { get; set; }
 
+    // Hosted UI base URL (e.g. https://<prefix>.auth.<region>.amazoncognito.com); required for federated sign in
+    public string? Domain { get; set; }
+
+    // Shared with the custom auth Lambda, which accepts it as proof that an identity provider vouched for the user
+    public string? FederatedAssertionSecret { get; set; }
+
     public string? ConfirmedUserSeedScriptPath { get; set; }
 }
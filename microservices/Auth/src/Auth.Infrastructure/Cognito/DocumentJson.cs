@@ -0,0 +1,91 @@
+using System.Text;
+using System.Text.Json;
+using Amazon.Runtime.Documents;
+
+namespace AuthSample.Auth.Infrastructure.Cognito;
+
+/// <summary>
+/// Converts between the SDK's <see cref="Document"/> and raw JSON. The WebAuthn APIs model
+/// credential options as documents, while the client exchanges them as JSON strings.
+/// </summary>
+internal static class DocumentJson
+{
+    public static string Serialize(Document document)
+    {
+        using var stream = new MemoryStream();
+        using (var writer = new Utf8JsonWriter(stream))
+        {
+            Write(writer, document);
+        }
+
+        return Encoding.UTF8.GetString(stream.ToArray());
+    }
+
+    public static Document Deserialize(string json)
+    {
+        using var jsonDocument = JsonDocument.Parse(json);
+        return Read(jsonDocument.RootElement);
+    }
+
+    private static void Write(Utf8JsonWriter writer, Document document)
+    {
+        if (document.IsDictionary())
+        {
+            writer.WriteStartObject();
+            foreach (var (key, value) in document.AsDictionary())
+            {
+                writer.WritePropertyName(key);
+                Write(writer, value);
+            }
+            writer.WriteEndObject();
+        }
+        else if (document.IsList())
+        {
+            writer.WriteStartArray();
+            foreach (var item in document.AsList())
+            {
+                Write(writer, item);
+            }
+            writer.WriteEndArray();
+        }
+        else if (document.IsString())
+        {
+            writer.WriteStringValue(document.AsString());
+        }
+        else if (document.IsBool())
+        {
+            writer.WriteBooleanValue(document.AsBool());
+        }
+        else if (document.IsInt())
+        {
+            writer.WriteNumberValue(document.AsInt());
+        }
+        else if (document.IsLong())
+        {
+            writer.WriteNumberValue(document.AsLong());
+        }
+        else if (document.IsDouble())
+        {
+            writer.WriteNumberValue(document.AsDouble());
+        }
+        else
+        {
+            writer.WriteNullValue();
+        }
+    }
+
+    private static Document Read(JsonElement element) =>
+        element.ValueKind switch
+        {
+            JsonValueKind.Object => new Document(
+                element.EnumerateObject().ToDictionary(p => p.Name, p => Read(p.Value))),
+            JsonValueKind.Array => new Document(element.EnumerateArray().Select(Read).ToList()),
+            JsonValueKind.String => new Document(element.GetString()),
+            JsonValueKind.True => new Document(true),
+            JsonValueKind.False => new Document(false),
+            JsonValueKind.Number when element.TryGetInt32(out var i) => new Document(i),
+            JsonValueKind.Number when element.TryGetInt64(out var l) => new Document(l),
+            JsonValueKind.Number => new Document(element.GetDouble()),
+            _ => new Document()
+        };
+}
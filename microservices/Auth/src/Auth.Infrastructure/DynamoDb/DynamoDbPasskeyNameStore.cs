@@ -0,0 +1,91 @@
+using Amazon.DynamoDBv2;
+using Amazon.DynamoDBv2.Model;
+using AuthSample.Auth.Core.Identity;
+using Microsoft.Extensions.Logging;
+
+namespace AuthSample.Auth.Infrastructure.DynamoDB;
+
+public sealed class DynamoDbPasskeyNameStore(
+    IAmazonDynamoDB dynamoDb,
+    ILogger<DynamoDbPasskeyNameStore> logger) : IPasskeyNameStore
+{
+    private const string TableName = "AuthSample_PasskeyNames";
+    private const string CredentialPrefix = "CRED#";
+
+    public async Task<IReadOnlyDictionary<string, string>> GetNamesAsync(string userSub,
+        CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(userSub))
+        {
+            throw new ArgumentException("userSub must be provided", nameof(userSub));
+        }
+
+        var names = new Dictionary<string, string>();
+        Dictionary<string, AttributeValue>? lastKey = null;
+        do
+        {
+            var response = await dynamoDb.QueryAsync(new QueryRequest
+            {
+                TableName = TableName,
+                KeyConditionExpression = "pk = :pk",
+                ExpressionAttributeValues = new Dictionary<string, AttributeValue>
+                {
+                    [":pk"] = new() { S = $"USER#{userSub}" }
+                },
+                ExclusiveStartKey = lastKey,
+                ConsistentRead = true
+            }, cancellationToken).ConfigureAwait(false);
+
+            foreach (var item in response.Items ?? [])
+            {
+                var sk = item.TryGetValue("sk", out var skAttr) ? skAttr.S : null;
+                var name = item.TryGetValue("name", out var nameAttr) ? nameAttr.S : null;
+                if (sk is null || !sk.StartsWith(CredentialPrefix, StringComparison.Ordinal) || string.IsNullOrWhiteSpace(name))
+                {
+                    logger.LogWarning("Passkey name record for user {UserSub} missing required attributes", userSub);
+                    continue;
+                }
+
+                names[sk[CredentialPrefix.Length..]] = name;
+            }
+
+            lastKey = response.LastEvaluatedKey is { Count: > 0 } ? response.LastEvaluatedKey : null;
+        } while (lastKey is not null);
+
+        return names;
+    }
+
+    public async Task SetNameAsync(string userSub, string credentialId, string name,
+        CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(userSub) || string.IsNullOrWhiteSpace(credentialId) || string.IsNullOrWhiteSpace(name))
+        {
+            throw new ArgumentException("Passkey name record contains empty required fields (userSub, credentialId, name)");
+        }
+
+        await dynamoDb.PutItemAsync(new PutItemRequest
+        {
+            TableName = TableName,
+            Item = new Dictionary<string, AttributeValue>
+            {
+                ["pk"] = new() { S = $"USER#{userSub}" },
+                ["sk"] = new() { S = $"{CredentialPrefix}{credentialId}" },
+                ["name"] = new() { S = name },
+                ["updatedAtUtc"] = new() { S = DateTime.UtcNow.ToString("O") },
+            }
+        }, cancellationToken).ConfigureAwait(false);
+    }
+
+    public async Task DeleteNameAsync(string userSub, string credentialId, CancellationToken cancellationToken = default)
+    {
+        await dynamoDb.DeleteItemAsync(new DeleteItemRequest
+        {
+            TableName = TableName,
+            Key = new Dictionary<string, AttributeValue>
+            {
+                ["pk"] = new() { S = $"USER#{userSub}" },
+                ["sk"] = new() { S = $"{CredentialPrefix}{credentialId}" }
+            }
+        }, cancellationToken).ConfigureAwait(false);
+    }
+}
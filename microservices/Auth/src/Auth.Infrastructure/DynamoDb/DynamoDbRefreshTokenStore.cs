@@ -96,4 +96,22 @@ public sealed class DynamoDbRefreshTokenStore(
 
         return new RefreshTokenRecord(rtId, userSub,  userEmail, refreshToken, issuedAtUtc, expiresAtUtc);
     }
+
+    public async Task DeleteAsync(string rtId, CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(rtId))
+        {
+            throw new ArgumentException("rtId must be provided", nameof(rtId));
+        }
+
+        await dynamoDb.DeleteItemAsync(new DeleteItemRequest
+        {
+            TableName = TableName,
+            Key = new Dictionary<string, AttributeValue>
+            {
+                ["pk"] = new() { S = $"RTID#{rtId}" },
+                ["sk"] = new() { S = "v1" }
+            }
+        }, cancellationToken).ConfigureAwait(false);
+    }
 }
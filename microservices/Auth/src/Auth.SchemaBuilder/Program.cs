@@ -5,7 +5,7 @@ using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Hosting;
 
-const string tableName = "AuthSample_RefreshTokens";
+string[] tableNames = ["AuthSample_RefreshTokens", "AuthSample_PasskeyNames"];
 
 using var host = Host.CreateDefaultBuilder(args)
     .ConfigureAppConfiguration((context, config) =>
@@ -33,32 +33,35 @@ try
     using var scope = host.Services.CreateScope();
     var dynamo = scope.ServiceProvider.GetRequiredService<IAmazonDynamoDB>();
 
-    Console.WriteLine($"Ensuring DynamoDB table '{tableName}' exists...");
-
     var tables = await dynamo.ListTablesAsync(cancellationTokenSource.Token).ConfigureAwait(false);
-    if (!tables.TableNames.Contains(tableName))
+    foreach (var tableName in tableNames)
     {
-        await dynamo.CreateTableAsync(new CreateTableRequest
+        Console.WriteLine($"Ensuring DynamoDB table '{tableName}' exists...");
+
+        if (!tables.TableNames.Contains(tableName))
         {
-            TableName = tableName,
-            AttributeDefinitions =
-            [
-                new AttributeDefinition("pk", ScalarAttributeType.S),
-                new AttributeDefinition("sk", ScalarAttributeType.S)
-            ],
-            KeySchema =
-            [
-                new KeySchemaElement("pk", KeyType.HASH),
-                new KeySchemaElement("sk", KeyType.RANGE)
-            ],
-            BillingMode = BillingMode.PAY_PER_REQUEST
-        }, cancellationTokenSource.Token).ConfigureAwait(false);
+            await dynamo.CreateTableAsync(new CreateTableRequest
+            {
+                TableName = tableName,
+                AttributeDefinitions =
+                [
+                    new AttributeDefinition("pk", ScalarAttributeType.S),
+                    new AttributeDefinition("sk", ScalarAttributeType.S)
+                ],
+                KeySchema =
+                [
+                    new KeySchemaElement("pk", KeyType.HASH),
+                    new KeySchemaElement("sk", KeyType.RANGE)
+                ],
+                BillingMode = BillingMode.PAY_PER_REQUEST
+            }, cancellationTokenSource.Token).ConfigureAwait(false);
 
-        Console.WriteLine($"Created table '{tableName}'.");
-    }
-    else
-    {
-        Console.WriteLine($"Table '{tableName}' already exists.");
+            Console.WriteLine($"Created table '{tableName}'.");
+        }
+        else
+        {
+            Console.WriteLine($"Table '{tableName}' already exists.");
+        }
     }
 
     Console.WriteLine("DynamoDB initialization complete.");
@@ -145,7 +145,7 @@ public class ResendVerificationCodeSimpleIntegrationTests : IClassFixture<TestAu
             .Returns(Task.CompletedTask);
 
         _mockIdentityService
-            .Setup(x => x.VerifySignUpAndSignInAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .Setup(x => x.VerifySignUpAndSignInAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<UserProfile?>(), It.IsAny<CancellationToken>()))
             .ReturnsAsync(new ClientSession(
                 Guid.NewGuid().ToString(),
                 DateTime.UtcNow.AddHours(1),
@@ -189,7 +189,7 @@ public class ResendVerificationCodeSimpleIntegrationTests : IClassFixture<TestAu
             x => x.ResendVerificationCodeAsync(It.IsAny<string>(), It.IsAny<IPAddress>(), It.IsAny<CancellationToken>()),
             Times.Once);
         _mockIdentityService.Verify(
-            x => x.VerifySignUpAndSignInAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+            x => x.VerifySignUpAndSignInAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<UserProfile?>(), It.IsAny<CancellationToken>()),
             Times.Once);
 
         _output.WriteLine("Complete workflow with resend operation executed successfully");
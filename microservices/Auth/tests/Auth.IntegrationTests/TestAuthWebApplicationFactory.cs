@@ -101,10 +101,17 @@ public sealed class TestAuthWebApplicationFactory : WebApplicationFactory<Progra
         }
     }
 
+    private const string CsrfToken = "integration-test-csrf-token";
+
     public GrpcChannel CreateGrpcChannel()
     {
         // Ensure the server is created and use its handler-backed HttpClient
         var httpClient = CreateDefaultClient();
+
+        // Act like the web app: echo the CSRF cookie in the header the Auth service checks
+        httpClient.DefaultRequestHeaders.Add("cookie", $"{Grpc.Services.CsrfProtection.CookieName}={CsrfToken}");
+        httpClient.DefaultRequestHeaders.Add(Grpc.Services.CsrfProtection.HeaderName, CsrfToken);
+
         return GrpcChannel.ForAddress(httpClient.BaseAddress ?? new Uri("http://localhost"), new GrpcChannelOptions
         {
             HttpClient = httpClient
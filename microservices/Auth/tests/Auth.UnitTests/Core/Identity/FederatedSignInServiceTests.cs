@@ -0,0 +1,251 @@
+using System.Text.Json;
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Authentication;
+using Microsoft.Extensions.Logging;
+using Moq;
+using StackExchange.Redis;
+
+namespace AuthSample.Auth.UnitTests.Core.Identity;
+
+public class FederatedSignInServiceTests
+{
+    private readonly Mock<IConnectionMultiplexer> _mockCache = new();
+    private readonly Mock<IDatabase> _mockDatabase = new();
+    private readonly Mock<IFederatedIdentityGateway> _mockGateway = new();
+    private readonly Mock<IAppleIdentityGateway> _mockAppleGateway = new();
+    private readonly Mock<IIdentityGateway> _mockIdentityGateway = new();
+    private readonly Mock<IIdentityService> _mockIdentityService = new();
+    private readonly Mock<ISignUpEligibilityGuard> _mockEligibilityGuard = new();
+    private readonly Mock<ILogger<FederatedSignInService>> _mockLogger = new();
+
+    private static readonly SessionData Session = new(
+        DateTime.UtcNow,
+        "access-token",
+        "id-token",
+        DateTime.UtcNow.AddHours(1),
+        "refresh-token",
+        DateTime.UtcNow.AddDays(30),
+        "Google_123",
+        "test@example.com");
+
+    private static readonly ClientSession ClientSession = new(
+        "at-id", DateTime.UtcNow.AddHours(1), "rt-id", DateTime.UtcNow.AddDays(30));
+
+    public FederatedSignInServiceTests()
+    {
+        _mockCache.Setup(x => x.GetDatabase(It.IsAny<int>(), It.IsAny<object>())).Returns(_mockDatabase.Object);
+        _mockIdentityService
+            .Setup(x => x.CreateClientSessionAsync(Session, It.IsAny<CancellationToken>()))
+            .ReturnsAsync(ClientSession);
+    }
+
+    [Fact]
+    public async Task CompleteAsync_Should_Throw_When_State_Is_Unknown()
+    {
+        // Arrange
+        _mockDatabase
+            .Setup(x => x.StringGetDeleteAsync(It.IsAny<RedisKey>(), It.IsAny<CommandFlags>()))
+            .ReturnsAsync(RedisValue.Null);
+
+        var service = CreateService();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<FederatedSignInFailedException>(() => service.CompleteAsync("code", "state"));
+        _mockGateway.Verify(
+            x => x.ExchangeAuthorizationCodeAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Theory]
+    [InlineData(1, true)]
+    [InlineData(-60 * 24, false)]
+    public async Task CompleteAsync_Should_Count_Only_Identities_Linked_During_The_Sign_In(int linkedMinutesFromStart, bool expectNewUser)
+    {
+        // Arrange
+        var startedAt = DateTime.UtcNow.AddMinutes(-2);
+        SetupPendingSignIn("state", startedAt);
+        _mockGateway
+            .Setup(x => x.ExchangeAuthorizationCodeAsync("code", "https://app/auth/callback", "verifier", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new FederatedSession(Session, startedAt.AddMinutes(linkedMinutesFromStart)));
+
+        var service = CreateService();
+
+        // Act
+        var result = await service.CompleteAsync("code", "state");
+
+        // Assert
+        Assert.Equal(expectNewUser, result.IsNewUser);
+        Assert.Equal(IdentityProvider.Google, result.Provider);
+        Assert.Same(ClientSession, result.ClientSession);
+        _mockEligibilityGuard.Verify(
+            x => x.IncrementConfirmedUsersAsync(It.IsAny<CancellationToken>()),
+            expectNewUser ? Times.Once() : Times.Never());
+    }
+
+    [Theory]
+    [InlineData(1, true)]
+    [InlineData(-60 * 24, false)]
+    public async Task CompleteAsync_Should_Seed_The_Shared_Name_Only_On_New_Accounts(int linkedMinutesFromStart, bool expectNameUpdate)
+    {
+        // Arrange
+        var startedAt = DateTime.UtcNow.AddMinutes(-2);
+        SetupPendingSignIn("state", startedAt);
+        _mockGateway
+            .Setup(x => x.ExchangeAuthorizationCodeAsync("code", "https://app/auth/callback", "verifier", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new FederatedSession(Session, startedAt.AddMinutes(linkedMinutesFromStart)));
+
+        var service = CreateService();
+
+        // Act
+        await service.CompleteAsync("code", "state", " Jane Appleseed ");
+
+        // Assert
+        _mockIdentityGateway.Verify(
+            x => x.UpdateNameAsync("access-token", "Jane Appleseed", It.IsAny<CancellationToken>()),
+            expectNameUpdate ? Times.Once() : Times.Never());
+    }
+
+    [Fact]
+    public async Task CompleteAsync_Should_Sign_In_Even_When_The_Name_Cannot_Be_Stored()
+    {
+        // Arrange
+        var startedAt = DateTime.UtcNow.AddMinutes(-2);
+        SetupPendingSignIn("state", startedAt);
+        _mockGateway
+            .Setup(x => x.ExchangeAuthorizationCodeAsync("code", "https://app/auth/callback", "verifier", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new FederatedSession(Session, startedAt.AddMinutes(1)));
+        _mockIdentityGateway
+            .Setup(x => x.UpdateNameAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ThrowsAsync(new InvalidOperationException("boom"));
+
+        var service = CreateService();
+
+        // Act
+        var result = await service.CompleteAsync("code", "state", "Jane Appleseed");
+
+        // Assert
+        Assert.Same(ClientSession, result.ClientSession);
+    }
+
+    [Fact]
+    public async Task CompleteAsync_Should_Not_Complete_Apple_Popup_Sign_Ins()
+    {
+        // Arrange
+        SetupPendingAppleSignIn("state", "nonce");
+
+        var service = CreateService();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<FederatedSignInFailedException>(() => service.CompleteAsync("code", "state"));
+        _mockGateway.Verify(
+            x => x.ExchangeAuthorizationCodeAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Theory]
+    [InlineData(true)]
+    [InlineData(false)]
+    public async Task CompleteAppleAsync_Should_Create_The_Account_With_The_Shared_Name_And_Email(bool isNewUser)
+    {
+        // Arrange
+        SetupPendingAppleSignIn("state", "nonce");
+        _mockAppleGateway
+            .Setup(x => x.ExchangeAuthorizationCodeAsync("code", "https://app/auth/apple/callback", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new AppleIdentity("apple-sub", "jane@privaterelay.appleid.com", true, "nonce"));
+        _mockIdentityGateway
+            .Setup(x => x.EnsureFederatedUserAsync("jane@privaterelay.appleid.com", "Jane Appleseed", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(isNewUser);
+        _mockIdentityGateway
+            .Setup(x => x.InitiateFederatedAuthAsync("jane@privaterelay.appleid.com", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(Session);
+
+        var service = CreateService();
+
+        // Act
+        var result = await service.CompleteAppleAsync("code", "state", " Jane Appleseed ");
+
+        // Assert
+        Assert.Equal(isNewUser, result.IsNewUser);
+        Assert.Equal(IdentityProvider.Apple, result.Provider);
+        Assert.Same(ClientSession, result.ClientSession);
+        _mockEligibilityGuard.Verify(
+            x => x.IncrementConfirmedUsersAsync(It.IsAny<CancellationToken>()),
+            isNewUser ? Times.Once() : Times.Never());
+    }
+
+    [Theory]
+    [InlineData("other-nonce", true)]
+    [InlineData(null, true)]
+    [InlineData("nonce", false)]
+    public async Task CompleteAppleAsync_Should_Reject_Tokens_Not_Issued_For_This_Sign_In_Or_Unverified(
+        string? tokenNonce, bool emailVerified)
+    {
+        // Arrange
+        SetupPendingAppleSignIn("state", "nonce");
+        _mockAppleGateway
+            .Setup(x => x.ExchangeAuthorizationCodeAsync("code", "https://app/auth/apple/callback", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new AppleIdentity("apple-sub", "jane@privaterelay.appleid.com", emailVerified, tokenNonce));
+
+        var service = CreateService();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<FederatedSignInFailedException>(() => service.CompleteAppleAsync("code", "state"));
+        _mockIdentityGateway.Verify(
+            x => x.EnsureFederatedUserAsync(It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task CompleteAppleAsync_Should_Not_Complete_Hosted_UI_Sign_Ins()
+    {
+        // Arrange
+        SetupPendingSignIn("state", DateTime.UtcNow);
+
+        var service = CreateService();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<FederatedSignInFailedException>(() => service.CompleteAppleAsync("code", "state"));
+        _mockAppleGateway.Verify(
+            x => x.ExchangeAuthorizationCodeAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    private void SetupPendingSignIn(string state, DateTime startedAt)
+    {
+        var pending = JsonSerializer.Serialize(new
+        {
+            Provider = IdentityProvider.Google,
+            RedirectUri = "https://app/auth/callback",
+            CodeVerifier = "verifier",
+            StartedAt = startedAt
+        });
+        _mockDatabase
+            .Setup(x => x.StringGetDeleteAsync($"fed:{state}", It.IsAny<CommandFlags>()))
+            .ReturnsAsync(pending);
+    }
+
+    private void SetupPendingAppleSignIn(string state, string nonce)
+    {
+        var pending = JsonSerializer.Serialize(new
+        {
+            Provider = IdentityProvider.Apple,
+            RedirectUri = "https://app/auth/apple/callback",
+            CodeVerifier = string.Empty,
+            StartedAt = DateTime.UtcNow,
+            Nonce = nonce
+        });
+        _mockDatabase
+            .Setup(x => x.StringGetDeleteAsync($"fed:{state}", It.IsAny<CommandFlags>()))
+            .ReturnsAsync(pending);
+    }
+
+    private FederatedSignInService CreateService() => new(
+        _mockCache.Object,
+        _mockGateway.Object,
+        _mockAppleGateway.Object,
+        _mockIdentityGateway.Object,
+        _mockIdentityService.Object,
+        _mockEligibilityGuard.Object,
+        _mockLogger.Object);
+}
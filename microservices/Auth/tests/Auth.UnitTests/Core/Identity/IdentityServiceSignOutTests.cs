@@ -0,0 +1,115 @@
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Auth.Core.Identity;
+using Microsoft.Extensions.Logging;
+using Moq;
+using StackExchange.Redis;
+
+namespace AuthSample.Auth.UnitTests.Core.Identity;
+
+public class IdentityServiceSignOutTests
+{
+    private const string CookieHeader = "AT_SID=access-id; RT_SID=refresh-id";
+
+    private readonly Mock<IIdentityGateway> _mockIdentityGateway = new();
+    private readonly Mock<IRefreshTokenStore> _mockRefreshTokenStore = new();
+    private readonly Mock<IDatabase> _mockDatabase = new();
+    private readonly Mock<ILogger<IdentityService>> _mockLogger = new();
+
+    private static readonly RefreshTokenRecord RefreshRecord = new(
+        "refresh-id",
+        "user-sub",
+        "test@example.com",
+        "refresh-token",
+        DateTime.UtcNow,
+        DateTime.UtcNow.AddDays(30));
+
+    [Fact]
+    public async Task SignOutAsync_Should_Drop_Cached_Session_And_Revoke_Refresh_Token()
+    {
+        // Arrange
+        _mockRefreshTokenStore
+            .Setup(x => x.GetAsync("refresh-id", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(RefreshRecord);
+
+        var identityService = CreateIdentityService();
+
+        // Act
+        await identityService.SignOutAsync(CookieHeader);
+
+        // Assert
+        _mockDatabase.Verify(
+            x => x.KeyDeleteAsync(It.Is<RedisKey>(k => k == "sess:access-id"), It.IsAny<CommandFlags>()),
+            Times.Once);
+        _mockIdentityGateway.Verify(
+            x => x.RevokeRefreshTokenAsync("refresh-token", It.IsAny<CancellationToken>()),
+            Times.Once);
+        _mockRefreshTokenStore.Verify(
+            x => x.DeleteAsync("refresh-id", It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task SignOutAsync_Should_Still_Delete_Refresh_Record_When_Revocation_Fails()
+    {
+        // Arrange
+        _mockRefreshTokenStore
+            .Setup(x => x.GetAsync("refresh-id", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(RefreshRecord);
+        _mockIdentityGateway
+            .Setup(x => x.RevokeRefreshTokenAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ThrowsAsync(new CognitoOperationFailedException("RevokeTokenAsync", null, "Failed to revoke the refresh token."));
+
+        var identityService = CreateIdentityService();
+
+        // Act
+        await identityService.SignOutAsync(CookieHeader);
+
+        // Assert
+        _mockRefreshTokenStore.Verify(
+            x => x.DeleteAsync("refresh-id", It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task SignOutAsync_Should_Do_Nothing_Without_Session_Cookies()
+    {
+        // Arrange
+        var identityService = CreateIdentityService();
+
+        // Act
+        await identityService.SignOutAsync(null);
+
+        // Assert
+        _mockDatabase.Verify(
+            x => x.KeyDeleteAsync(It.IsAny<RedisKey>(), It.IsAny<CommandFlags>()),
+            Times.Never);
+        _mockRefreshTokenStore.Verify(
+            x => x.GetAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    private IdentityService CreateIdentityService()
+    {
+        var mockCache = new Mock<IConnectionMultiplexer>();
+        var mockAuthOptions = new Mock<Microsoft.Extensions.Options.IOptions<Authentication.AuthOptions>>();
+        var mockSignUpEligibilityGuard = new Mock<ISignUpEligibilityGuard>();
+
+        mockCache.Setup(x => x.GetDatabase(It.IsAny<int>(), It.IsAny<object>())).Returns(_mockDatabase.Object);
+        mockAuthOptions.Setup(x => x.Value).Returns(new Authentication.AuthOptions
+        {
+            Authority = "https://test-authority.com",
+            Audience = "test-audience"
+        });
+
+        var tokenHelper = new Authentication.TokenValidationParametersHelper(mockAuthOptions.Object);
+
+        return new IdentityService(
+            mockCache.Object,
+            mockAuthOptions.Object,
+            _mockIdentityGateway.Object,
+            _mockRefreshTokenStore.Object,
+            tokenHelper,
+            mockSignUpEligibilityGuard.Object,
+            _mockLogger.Object);
+    }
+}
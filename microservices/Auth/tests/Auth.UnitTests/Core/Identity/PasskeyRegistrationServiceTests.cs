@@ -0,0 +1,113 @@
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Authentication;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace AuthSample.Auth.UnitTests.Core.Identity;
+
+public class PasskeyRegistrationServiceTests
+{
+    private readonly Mock<IIdentityGateway> _mockIdentityGateway = new();
+    private readonly Mock<IPasskeyNameStore> _mockNameStore = new();
+    private readonly Mock<ILogger<PasskeyRegistrationService>> _mockLogger = new();
+
+    private static readonly SessionData Session = new(
+        DateTime.UtcNow,
+        "access-token",
+        "id-token",
+        DateTime.UtcNow.AddHours(1),
+        string.Empty,
+        DateTime.UtcNow.AddDays(30),
+        "user-sub",
+        "test@example.com");
+
+    [Fact]
+    public async Task ListAsync_Should_Prefer_Stored_Names_Over_Authenticator_Names()
+    {
+        // Arrange
+        _mockIdentityGateway
+            .Setup(x => x.ListPasskeysAsync("access-token", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new List<PasskeyCredential>
+            {
+                new("cred-2", "Security key", new DateTime(2025, 2, 1), "cross-platform"),
+                new("cred-1", "iCloud Keychain", new DateTime(2025, 1, 1), "platform")
+            });
+        _mockNameStore
+            .Setup(x => x.GetNamesAsync("user-sub", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new Dictionary<string, string> { ["cred-1"] = "My laptop" });
+
+        var service = CreateService();
+
+        // Act
+        var result = await service.ListAsync(Session);
+
+        // Assert
+        Assert.Equal(["cred-1", "cred-2"], result.Select(c => c.CredentialId));
+        Assert.Equal("My laptop", result[0].Name);
+        Assert.Equal("Security key", result[1].Name);
+    }
+
+    [Fact]
+    public async Task RenameAsync_Should_Throw_When_Credential_Is_Not_Owned_By_User()
+    {
+        // Arrange
+        _mockIdentityGateway
+            .Setup(x => x.ListPasskeysAsync("access-token", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new List<PasskeyCredential>());
+        _mockNameStore
+            .Setup(x => x.GetNamesAsync("user-sub", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new Dictionary<string, string>());
+
+        var service = CreateService();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<PasskeyNotFoundException>(() => service.RenameAsync(Session, "someone-elses", "Mine"));
+        _mockNameStore.Verify(
+            x => x.SetNameAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task CompleteRegistrationAsync_Should_Store_Name_For_New_Credential()
+    {
+        // Arrange
+        _mockIdentityGateway
+            .Setup(x => x.ListPasskeysAsync("access-token", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new List<PasskeyCredential> { new("new-cred", "Passkey", DateTime.UtcNow, "platform") });
+        _mockNameStore
+            .Setup(x => x.GetNamesAsync("user-sub", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new Dictionary<string, string> { ["new-cred"] = "Work phone" });
+
+        var service = CreateService();
+
+        // Act
+        var result = await service.CompleteRegistrationAsync(Session, "{\"id\":\"new-cred\"}", "  Work phone ");
+
+        // Assert
+        _mockIdentityGateway.Verify(
+            x => x.CompletePasskeyRegistrationAsync("access-token", "{\"id\":\"new-cred\"}", It.IsAny<CancellationToken>()),
+            Times.Once);
+        _mockNameStore.Verify(
+            x => x.SetNameAsync("user-sub", "new-cred", "Work phone", It.IsAny<CancellationToken>()),
+            Times.Once);
+        Assert.Equal("Work phone", result.Name);
+    }
+
+    [Fact]
+    public async Task CompleteRegistrationAsync_Should_Reject_Malformed_Credential()
+    {
+        // Arrange
+        var service = CreateService();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<PasskeyRegistrationFailedException>(
+            () => service.CompleteRegistrationAsync(Session, "not-json", null));
+        _mockIdentityGateway.Verify(
+            x => x.CompletePasskeyRegistrationAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    private PasskeyRegistrationService CreateService() =>
+        new(_mockIdentityGateway.Object, _mockNameStore.Object, _mockLogger.Object);
+}
@@ -0,0 +1,68 @@
+using AuthSample.Auth.Grpc.Services;
+using Grpc.Core;
+using Microsoft.Extensions.Logging.Abstractions;
+
+namespace AuthSample.Auth.UnitTests.Grpc;
+
+public class CsrfInterceptorTests
+{
+    private const string SignUpMethod = "/auth.SignUpService/InitiateSignUpAsync";
+
+    private readonly CsrfInterceptor _interceptor = new(NullLogger<CsrfInterceptor>.Instance);
+
+    [Fact]
+    public async Task UnaryServerHandler_Should_Continue_When_Header_Matches_Cookie()
+    {
+        // Arrange
+        var context = new TestServerCallContext(SignUpMethod, new Metadata
+        {
+            { "cookie", "AT_SID=a; CSRF_TOKEN=token-123" },
+            { CsrfProtection.HeaderName, "token-123" }
+        });
+
+        // Act
+        var response = await _interceptor.UnaryServerHandler("request", context, (_, _) => Task.FromResult("ok"));
+
+        // Assert
+        Assert.Equal("ok", response);
+    }
+
+    [Theory]
+    [InlineData("CSRF_TOKEN=token-123", null)]
+    [InlineData("CSRF_TOKEN=token-123", "token-456")]
+    [InlineData(null, "token-123")]
+    public async Task UnaryServerHandler_Should_Reject_Missing_Or_Mismatched_Tokens(string? cookie, string? header)
+    {
+        // Arrange
+        var metadata = new Metadata();
+        if (cookie is not null) metadata.Add("cookie", cookie);
+        if (header is not null) metadata.Add(CsrfProtection.HeaderName, header);
+        var context = new TestServerCallContext(SignUpMethod, metadata);
+        var called = false;
+
+        // Act
+        var exception = await Assert.ThrowsAsync<RpcException>(() =>
+            _interceptor.UnaryServerHandler("request", context, (_, _) =>
+            {
+                called = true;
+                return Task.FromResult("ok");
+            }));
+
+        // Assert
+        Assert.Equal(StatusCode.PermissionDenied, exception.StatusCode);
+        Assert.False(called);
+    }
+
+    [Fact]
+    public async Task UnaryServerHandler_Should_Not_Require_A_Token_For_Exempt_Methods()
+    {
+        // Arrange
+        var context = new TestServerCallContext("/auth.AuthorizationService/Check");
+
+        // Act
+        var response = await _interceptor.UnaryServerHandler("request", context, (_, _) => Task.FromResult("ok"));
+
+        // Assert
+        Assert.Equal("ok", response);
+    }
+}
@@ -0,0 +1,69 @@
+using System.IdentityModel.Tokens.Jwt;
+using System.Security.Claims;
+using AuthSample.Auth.Grpc.Services;
+using AuthSample.Authentication;
+
+namespace AuthSample.Auth.UnitTests.Grpc;
+
+public class IdentityClaimHeadersTests
+{
+    private static readonly DateTime AccessTokenExpiry = new(2026, 1, 1, 12, 0, 0, DateTimeKind.Utc);
+
+    [Fact]
+    public void Create_Should_Describe_The_Session()
+    {
+        // Arrange
+        var session = CreateSession("admin", "support");
+
+        // Act
+        var metadata = IdentityClaimHeaders.Create(session);
+
+        // Assert
+        Assert.Equal("user-sub", metadata.GetValue(IdentityClaimHeaders.Subject));
+        Assert.Equal("jane%2Btest%40example.com", metadata.GetValue(IdentityClaimHeaders.Email));
+        Assert.Equal("admin,support", metadata.GetValue(IdentityClaimHeaders.Roles));
+        Assert.Equal("1767268800", metadata.GetValue(IdentityClaimHeaders.SessionExpiresAt));
+    }
+
+    [Fact]
+    public void Create_Should_Omit_Roles_When_The_User_Has_No_Groups()
+    {
+        // Arrange
+        var session = CreateSession();
+
+        // Act
+        var metadata = IdentityClaimHeaders.Create(session);
+
+        // Assert
+        Assert.Null(metadata.Get(IdentityClaimHeaders.Roles));
+    }
+
+    [Fact]
+    public void Create_Should_Encode_Group_Names_Individually()
+    {
+        // Arrange
+        var session = CreateSession("ops,eu");
+
+        // Act
+        var metadata = IdentityClaimHeaders.Create(session);
+
+        // Assert
+        Assert.Equal("ops%2Ceu", metadata.GetValue(IdentityClaimHeaders.Roles));
+    }
+
+    private static SessionData CreateSession(params string[] groups)
+    {
+        var token = new JwtSecurityToken(claims: groups.Select(g => new Claim("cognito:groups", g)));
+        var accessToken = new JwtSecurityTokenHandler().WriteToken(token);
+
+        return new SessionData(
+            DateTime.UtcNow,
+            accessToken,
+            "id-token",
+            AccessTokenExpiry,
+            string.Empty,
+            AccessTokenExpiry.AddDays(30),
+            "user-sub",
+            "jane+test@example.com");
+    }
+}
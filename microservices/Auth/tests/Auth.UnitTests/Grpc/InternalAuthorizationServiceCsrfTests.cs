@@ -0,0 +1,66 @@
+using AuthSample.Auth.Core.Identity;
+using AuthSample.Auth.Grpc.Services;
+using AuthSample.Auth.Grpc.Services.Internal;
+using Envoy.Service.Auth.V3;
+using Google.Rpc;
+using Moq;
+
+namespace AuthSample.Auth.UnitTests.Grpc;
+
+public class InternalAuthorizationServiceCsrfTests
+{
+    private readonly Mock<IIdentityService> _identityService = new();
+
+    [Fact]
+    public async Task Check_Should_Deny_Proxied_Calls_Without_A_Matching_Token()
+    {
+        // Arrange
+        var service = new InternalAuthorizationService(_identityService.Object);
+        var request = CreateRequest("/greet/greet.Greeter/SayHello", ("cookie", "AT_SID=a; CSRF_TOKEN=token-123"));
+
+        // Act
+        var response = await service.Check(request, new TestServerCallContext("/envoy.service.auth.v3.Authorization/Check"));
+
+        // Assert
+        Assert.Equal((int)Code.PermissionDenied, response.Status.Code);
+        _identityService.Verify(
+            s => s.ResolveSessionAsync(It.IsAny<string?>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task Check_Should_Resolve_The_Session_When_The_Token_Matches()
+    {
+        // Arrange
+        var service = new InternalAuthorizationService(_identityService.Object);
+        var request = CreateRequest(
+            "/greet/greet.Greeter/SayHello",
+            ("cookie", "AT_SID=a; CSRF_TOKEN=token-123"),
+            (CsrfProtection.HeaderName, "token-123"));
+
+        // Act
+        await service.Check(request, new TestServerCallContext("/envoy.service.auth.v3.Authorization/Check"));
+
+        // Assert
+        _identityService.Verify(
+            s => s.ResolveSessionAsync("AT_SID=a; CSRF_TOKEN=token-123", It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    private static CheckRequest CreateRequest(string path, params (string Key, string Value)[] headers)
+    {
+        var http = new AttributeContext.Types.Request.Types.HttpRequest { Path = path };
+        foreach (var (key, value) in headers)
+        {
+            http.Headers.Add(key, value);
+        }
+
+        return new CheckRequest
+        {
+            Attributes = new AttributeContext
+            {
+                Request = new AttributeContext.Types.Request { Http = http }
+            }
+        };
+    }
+}
@@ -0,0 +1,28 @@
+using Grpc.Core;
+
+namespace AuthSample.Auth.UnitTests.Grpc;
+
+/// <summary>
+/// Minimal ServerCallContext for calling services and interceptors directly.
+/// </summary>
+internal sealed class TestServerCallContext(string method, Metadata? requestHeaders = null) : ServerCallContext
+{
+    private readonly Metadata _requestHeaders = requestHeaders ?? new Metadata();
+    private readonly Metadata _responseTrailers = new();
+
+    protected override string MethodCore => method;
+    protected override string HostCore => "localhost";
+    protected override string PeerCore => "ipv4:127.0.0.1:5000";
+    protected override DateTime DeadlineCore => DateTime.MaxValue;
+    protected override Metadata RequestHeadersCore => _requestHeaders;
+    protected override CancellationToken CancellationTokenCore => CancellationToken.None;
+    protected override Metadata ResponseTrailersCore => _responseTrailers;
+    protected override Status StatusCore { get; set; }
+    protected override WriteOptions? WriteOptionsCore { get; set; }
+    protected override AuthContext AuthContextCore => new(null, new Dictionary<string, List<AuthProperty>>());
+
+    protected override ContextPropagationToken CreatePropagationTokenCore(ContextPropagationOptions? options) =>
+        throw new NotSupportedException();
+
+    protected override Task WriteResponseHeadersAsyncCore(Metadata responseHeaders) => Task.CompletedTask;
+}
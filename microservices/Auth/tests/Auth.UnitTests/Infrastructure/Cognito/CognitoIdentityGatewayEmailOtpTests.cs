@@ -0,0 +1,94 @@
+using Amazon.CognitoIdentityProvider;
+using Amazon.CognitoIdentityProvider.Model;
+using AuthSample.Auth.Core.Exceptions;
+using AuthSample.Auth.Infrastructure.Cognito;
+using AuthSample.Authentication;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AuthSample.Auth.UnitTests.Infrastructure.Cognito;
+
+public class CognitoIdentityGatewayEmailOtpTests
+{
+    private const string EmailAddress = "nobody@example.com";
+
+    private readonly Mock<IAmazonCognitoIdentityProvider> _mockCognito = new();
+    private readonly Mock<ILogger<CognitoIdentityGateway>> _mockLogger = new();
+
+    [Fact]
+    public async Task InitiateEmailOtpAuthAsync_Should_Return_A_Session_For_Unknown_Accounts()
+    {
+        // Arrange
+        _mockCognito
+            .Setup(x => x.InitiateAuthAsync(It.IsAny<InitiateAuthRequest>(), It.IsAny<CancellationToken>()))
+            .ThrowsAsync(new UserNotFoundException("User does not exist."));
+
+        var gateway = CreateGateway();
+
+        // Act
+        var session = await gateway.InitiateEmailOtpAuthAsync(EmailAddress);
+
+        // Assert
+        Assert.False(string.IsNullOrEmpty(session));
+    }
+
+    [Fact]
+    public async Task RespondToEmailOtpChallengeAsync_Should_Reject_Decoy_Sessions_As_A_Wrong_Code()
+    {
+        // Arrange
+        _mockCognito
+            .Setup(x => x.InitiateAuthAsync(It.IsAny<InitiateAuthRequest>(), It.IsAny<CancellationToken>()))
+            .ThrowsAsync(new UserNotFoundException("User does not exist."));
+
+        var gateway = CreateGateway();
+        var session = await gateway.InitiateEmailOtpAuthAsync(EmailAddress);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<VerificationCodeMismatchException>(() => gateway.RespondToEmailOtpChallengeAsync(
+            new CompleteEmailOtpSignInRequest
+            {
+                EmailAddress = EmailAddress,
+                Session = session,
+                VerificationCode = "123456"
+            }));
+        _mockCognito.Verify(
+            x => x.RespondToAuthChallengeAsync(It.IsAny<RespondToAuthChallengeRequest>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task RespondToEmailOtpChallengeAsync_Should_Pass_Real_Sessions_To_Cognito()
+    {
+        // Arrange
+        _mockCognito
+            .Setup(x => x.RespondToAuthChallengeAsync(It.IsAny<RespondToAuthChallengeRequest>(), It.IsAny<CancellationToken>()))
+            .ThrowsAsync(new CodeMismatchException("Invalid code."));
+
+        var gateway = CreateGateway();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<VerificationCodeMismatchException>(() => gateway.RespondToEmailOtpChallengeAsync(
+            new CompleteEmailOtpSignInRequest
+            {
+                EmailAddress = EmailAddress,
+                Session = "AYABeCognitoSession",
+                VerificationCode = "123456"
+            }));
+        _mockCognito.Verify(
+            x => x.RespondToAuthChallengeAsync(It.IsAny<RespondToAuthChallengeRequest>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    private CognitoIdentityGateway CreateGateway() =>
+        new(
+            _mockLogger.Object,
+            Options.Create(new CognitoOptions
+            {
+                UserPoolId = "pool-id",
+                ClientId = "client-id",
+                Secret = "client-secret",
+                RefreshTokenExpirationDays = 30
+            }),
+            _mockCognito.Object);
+}
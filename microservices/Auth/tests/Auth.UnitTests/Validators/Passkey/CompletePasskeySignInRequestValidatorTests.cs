@@ -0,0 +1,90 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Auth.Grpc.Validators.Passkey;
+
+namespace AuthSample.Auth.UnitTests.Validators.Passkey;
+
+public class CompletePasskeySignInRequestValidatorTests
+{
+    private readonly CompletePasskeySignInRequestValidator _validator = new();
+
+    [Fact]
+    public void Should_Pass_When_All_Fields_Are_Valid()
+    {
+        // Arrange
+        var request = new CompletePasskeySignInRequest
+        {
+            EmailAddress = "test@example.com",
+            Session = "session",
+            Credential = "{\"id\":\"abc\"}"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.True(result.IsValid);
+    }
+
+    [Fact]
+    public void Should_Fail_When_Session_Is_Empty()
+    {
+        // Arrange
+        var request = new CompletePasskeySignInRequest
+        {
+            EmailAddress = "test@example.com",
+            Session = "",
+            Credential = "{\"id\":\"abc\"}"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var sessionError = result.Errors.FirstOrDefault(e => e.PropertyName == "Session");
+        Assert.NotNull(sessionError);
+        Assert.Equal("Session is required.", sessionError.ErrorMessage);
+    }
+
+    [Fact]
+    public void Should_Fail_When_Credential_Is_Empty()
+    {
+        // Arrange
+        var request = new CompletePasskeySignInRequest
+        {
+            EmailAddress = "test@example.com",
+            Session = "session",
+            Credential = ""
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var credentialError = result.Errors.FirstOrDefault(e => e.PropertyName == "Credential");
+        Assert.NotNull(credentialError);
+        Assert.Equal("Credential is required.", credentialError.ErrorMessage);
+    }
+
+    [Theory]
+    [InlineData("")]
+    [InlineData("invalid-email")]
+    public void Should_Fail_When_Email_Is_Missing_Or_Invalid(string email)
+    {
+        // Arrange
+        var request = new CompletePasskeySignInRequest
+        {
+            EmailAddress = email,
+            Session = "session",
+            Credential = "{\"id\":\"abc\"}"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        Assert.Contains(result.Errors, e => e.PropertyName == "EmailAddress");
+    }
+}
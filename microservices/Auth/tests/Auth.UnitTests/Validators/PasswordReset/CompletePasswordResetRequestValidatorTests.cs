@@ -0,0 +1,75 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Auth.Grpc.Validators.PasswordReset;
+
+namespace AuthSample.Auth.UnitTests.Validators.PasswordReset;
+
+public class CompletePasswordResetRequestValidatorTests
+{
+    private readonly CompletePasswordResetRequestValidator _validator = new();
+
+    [Fact]
+    public void Should_Pass_When_All_Fields_Are_Valid()
+    {
+        // Arrange
+        var request = new CompletePasswordResetRequest
+        {
+            EmailAddress = "test@example.com",
+            VerificationCode = "123456",
+            NewPassword = "password123"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.True(result.IsValid);
+    }
+
+    [Theory]
+    [InlineData("", "New password is required.")]
+    [InlineData("pass1", "New password must be at least 8 characters.")]
+    [InlineData("12345678", "New password must contain at least one letter.")]
+    [InlineData("password", "New password must contain at least one number.")]
+    public void Should_Fail_When_New_Password_Breaks_The_Policy(string password, string expectedMessage)
+    {
+        // Arrange
+        var request = new CompletePasswordResetRequest
+        {
+            EmailAddress = "test@example.com",
+            VerificationCode = "123456",
+            NewPassword = password
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var passwordError = result.Errors.FirstOrDefault(e => e.PropertyName == "NewPassword");
+        Assert.NotNull(passwordError);
+        Assert.Equal(expectedMessage, passwordError.ErrorMessage);
+    }
+
+    [Theory]
+    [InlineData("", "Verification code is required.")]
+    [InlineData("12345", "Verification code must be 6 characters.")]
+    public void Should_Fail_When_Verification_Code_Is_Missing_Or_Invalid(string code, string expectedMessage)
+    {
+        // Arrange
+        var request = new CompletePasswordResetRequest
+        {
+            EmailAddress = "test@example.com",
+            VerificationCode = code,
+            NewPassword = "password123"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var codeError = result.Errors.FirstOrDefault(e => e.PropertyName == "VerificationCode");
+        Assert.NotNull(codeError);
+        Assert.Equal(expectedMessage, codeError.ErrorMessage);
+    }
+}
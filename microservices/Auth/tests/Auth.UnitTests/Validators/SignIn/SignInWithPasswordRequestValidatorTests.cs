@@ -0,0 +1,68 @@
+using AuthSample.Auth.Grpc.Protos;
+using AuthSample.Auth.Grpc.Validators.SignIn;
+
+namespace AuthSample.Auth.UnitTests.Validators.SignIn;
+
+public class SignInWithPasswordRequestValidatorTests
+{
+    private readonly SignInWithPasswordRequestValidator _validator = new();
+
+    [Fact]
+    public void Should_Pass_When_All_Fields_Are_Valid()
+    {
+        // Arrange
+        var request = new SignInWithPasswordRequest
+        {
+            EmailAddress = "test@example.com",
+            Password = "password123"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.True(result.IsValid);
+    }
+
+    [Fact]
+    public void Should_Fail_When_Password_Is_Empty()
+    {
+        // Arrange
+        var request = new SignInWithPasswordRequest
+        {
+            EmailAddress = "test@example.com",
+            Password = ""
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var passwordError = result.Errors.FirstOrDefault(e => e.PropertyName == "Password");
+        Assert.NotNull(passwordError);
+        Assert.Equal("Password is required.", passwordError.ErrorMessage);
+    }
+
+    [Theory]
+    [InlineData("", "Email address is required.")]
+    [InlineData("invalid-email", "Email address is not valid.")]
+    public void Should_Fail_When_Email_Is_Missing_Or_Invalid(string email, string expectedMessage)
+    {
+        // Arrange
+        var request = new SignInWithPasswordRequest
+        {
+            EmailAddress = email,
+            Password = "password123"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var emailError = result.Errors.FirstOrDefault(e => e.PropertyName == "EmailAddress");
+        Assert.NotNull(emailError);
+        Assert.Equal(expectedMessage, emailError.ErrorMessage);
+    }
+}
@@ -212,7 +212,6 @@ public class VerifyAndSignInRequestValidatorTests
         Assert.True(result.IsValid);
     }
 
-    // Name length is no longer validated
     [Fact]
     public void Should_Pass_When_Name_Exceeds_Previous_Maximum_Length()
     {
@@ -251,6 +250,68 @@ public class VerifyAndSignInRequestValidatorTests
         Assert.True(result.IsValid);
     }
 
+    [Fact]
+    public void Should_Fail_When_Name_Exceeds_Cognito_Attribute_Length()
+    {
+        // Arrange
+        var request = new VerifyAndSignInRequest
+        {
+            EmailAddress = "test@example.com",
+            VerificationCode = "123456",
+            Name = new string('A', 257)
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var nameError = result.Errors.FirstOrDefault(e => e.PropertyName == "Name");
+        Assert.NotNull(nameError);
+        Assert.Equal("Name must be at most 256 characters.", nameError.ErrorMessage);
+    }
+
+    [Fact]
+    public void Should_Pass_When_PreferredName_Is_Valid()
+    {
+        // Arrange
+        var request = new VerifyAndSignInRequest
+        {
+            EmailAddress = "test@example.com",
+            VerificationCode = "123456",
+            Name = "Jonathan Doe",
+            PreferredName = "Jon"
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.True(result.IsValid);
+    }
+
+    [Fact]
+    public void Should_Fail_When_PreferredName_Is_Too_Long()
+    {
+        // Arrange
+        var request = new VerifyAndSignInRequest
+        {
+            EmailAddress = "test@example.com",
+            VerificationCode = "123456",
+            Name = "John Doe",
+            PreferredName = new string('A', 257)
+        };
+
+        // Act
+        var result = _validator.Validate(request);
+
+        // Assert
+        Assert.False(result.IsValid);
+        var preferredNameError = result.Errors.FirstOrDefault(e => e.PropertyName == "PreferredName");
+        Assert.NotNull(preferredNameError);
+        Assert.Equal("Preferred name must be at most 256 characters.", preferredNameError.ErrorMessage);
+    }
+
     [Fact]
     public void Should_Have_Correct_Error_Message_For_VerificationCode_Too_Short()
     {